@@ -10,9 +10,31 @@ export const SERIAL_LIST_PORTS = 'serial:listPorts';
 export const SERIAL_AUTO_DETECT = 'serial:autoDetect';
 export const DRIVER_START = 'driver:start';
 export const DRIVER_STOP = 'driver:stop';
+export const DRIVER_SET_RECORDING = 'driver:setRecording';
 export const DIALOG_OPEN_XML = 'dialog:openXml';
+export const STORE_LOAD = 'store:load';
+export const STORE_SET_VALIDATION = 'store:setValidation';
+export const COMPETITORS_LIST = 'competitors:list';
+export const COMPETITORS_ADD = 'competitors:add';
+export const COMPETITORS_UPDATE = 'competitors:update';
+export const COMPETITORS_REMOVE = 'competitors:remove';
+export const COMPETITORS_IMPORT = 'competitors:import';
+export const RESULTS_EXPORT_XML = 'results:exportXml';
+export const START_LIST_DRAW = 'startList:draw';
+export const START_LIST_EXPORT_XML = 'startList:exportXml';
+export const STATION_READ_BACKUP = 'station:readBackup';
+export const STATION_INFO = 'station:info';
+export const STATION_CONFIGURE = 'station:configure';
+export const STATION_CHECK_CARD = 'station:checkCard';
+export const STATION_CLEAR_CARD = 'station:clearCard';
+export const ONLINE_START_RELAY = 'online:startRelay';
+export const ONLINE_STOP_RELAY = 'online:stopRelay';
+export const ONLINE_LIST = 'online:list';
+export const ONLINE_LIST_TIMING = 'online:listTiming';
 
 // Event channels (main → renderer, push)
 export const DRIVER_STATUS = 'driver:status';
 export const DRIVER_CARD_READ = 'driver:cardRead';
 export const DRIVER_LOG = 'driver:log';
+export const DRIVER_REINSERT = 'driver:reinsert';
+export const ONLINE_PASSING = 'online:passing';
@@ -1,26 +1,132 @@
 /**
  * NGZ — Electron main process
  *
- * Creates the BrowserWindow, manages the SI protocol driver in the main process,
- * and bridges card-read events to the renderer via IPC.
+ * Creates the BrowserWindow, manages the SI protocol drivers in the main process,
+ * and bridges card-read events and radio punches to the renderer via IPC.
  */
 
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { SiDriver, CommStatus, SiPortAdapter } from '../src/si-protocol/SiDriver';
+import { CommStatus, SiPortAdapter } from '../src/si-protocol/SiDriver';
 import { SiCardData } from '../src/si-protocol/SiDataFrame';
-import { listPorts, autoDetectSiPort, openPort, PortInfo } from '../src/si-protocol/SiSerial';
+import { SiCardCheck } from '../src/si-protocol/types';
+import { listPorts, autoDetectSiPort, openPort, usbPortLocator, PortInfo } from '../src/si-protocol/SiSerial';
+import { SiSimulator, SIMULATOR_PORT_PATH, randomSimulatedCard } from '../src/si-protocol/SiSimulator';
+import { SiTimeConfig, DEFAULT_TIME_CONFIG, localDate } from '../src/si-protocol/time';
+import { SiStation } from '../src/si-protocol/SiStation';
+import { SiStationManager } from '../src/si-protocol/SiStationManager';
+import { SiTrafficRecorder } from '../src/si-protocol/capture';
+import { backupToCsv } from '../src/si-protocol/backup';
+import { SiStationInfo, SiStationSettings } from '../src/si-protocol/system-data';
+import { ValidationResult } from '../src/course-validator/validator';
+import { ReadStore } from '../src/storage/ReadStore';
+import { JsonLineFile } from '../src/storage/JsonLineFile';
+import { StoredRead, StoredLogEntry } from '../src/storage/types';
+import { CompetitorRegistry } from '../src/competitors/CompetitorRegistry';
+import { parseCompetitorFile } from '../src/competitors/import';
+import { Competitor, CompetitorInput, CompetitorImportResult } from '../src/competitors/types';
+import { buildResultList } from '../src/iof-xml/result-list';
+import { buildStartList } from '../src/iof-xml/start-list';
+import { allocateStartTimes, allocatedStartTimes } from '../src/start-list/allocate';
+import { ClassStartSettings, ClassStartList } from '../src/start-list/types';
+import { PunchFeed } from '../src/online/PunchFeed';
+import { PunchRelay } from '../src/online/PunchRelay';
+import { Passing, RelayProtocol, StationModes } from '../src/online/types';
 import { SerialPort } from 'serialport';
 import {
   SERIAL_LIST_PORTS, SERIAL_AUTO_DETECT,
-  DRIVER_START, DRIVER_STOP, DRIVER_STATUS, DRIVER_CARD_READ, DRIVER_LOG,
-  DIALOG_OPEN_XML,
+  DRIVER_START, DRIVER_STOP, DRIVER_SET_RECORDING, DRIVER_STATUS, DRIVER_CARD_READ, DRIVER_LOG, DRIVER_REINSERT,
+  DIALOG_OPEN_XML, STORE_LOAD, STORE_SET_VALIDATION,
+  COMPETITORS_LIST, COMPETITORS_ADD, COMPETITORS_UPDATE, COMPETITORS_REMOVE, COMPETITORS_IMPORT,
+  RESULTS_EXPORT_XML, START_LIST_DRAW, START_LIST_EXPORT_XML,
+  STATION_READ_BACKUP, STATION_INFO, STATION_CONFIGURE, STATION_CHECK_CARD, STATION_CLEAR_CARD,
+  ONLINE_START_RELAY, ONLINE_STOP_RELAY, ONLINE_LIST, ONLINE_LIST_TIMING, ONLINE_PASSING,
 } from './ipc-channels';
 
 let mainWindow: BrowserWindow | null = null;
-let driver: SiDriver | null = null;
-let serialPort: SerialPort | null = null;
+let readStore: ReadStore | null = null;
+let competitorRegistry: CompetitorRegistry | null = null;
+let protocolLog: JsonLineFile<StoredLogEntry> | null = null;
+let relay: PunchRelay | null = null;
+/** Folder the traffic of newly connected stations is recorded to, while recording is on */
+let captureDir: string | null = null;
+
+/** Radio punches of the drivers (autosend stations) and the relay, deduplicated */
+const punchFeed = new PunchFeed();
+punchFeed.onPassing((passing) => mainWindow?.webContents.send(ONLINE_PASSING, passing));
+
+/** Readout stations, one supervised SI driver per port; events are forwarded to the renderer tagged with the port */
+const stationManager = new SiStationManager(
+  async (portPath, onData, time) => {
+    let recorder: SiTrafficRecorder | null = null;
+    const receive = (chunk: Buffer) => {
+      recorder?.received(chunk);
+      onData(chunk);
+    };
+    const adapter = portPath === SIMULATOR_PORT_PATH
+      ? openSimulator(receive, time)
+      : (await openPort(portPath, 38400, receive)).adapter;
+    if (!captureDir) return adapter;
+    recorder = new SiTrafficRecorder(path.join(captureDir, captureFileName(portPath)), portPath);
+    return recorder.wrap(adapter);
+  },
+  // Unplugged stations are found again by their USB serial number
+  { locator: usbPortLocator }
+);
+
+stationManager.onStatus((station, status: CommStatus, msg?: string) => {
+  mainWindow?.webContents.send(DRIVER_STATUS, station, status, msg);
+});
+
+stationManager.onCardRead((card: SiCardData, station) => {
+  // Persist before anything else so a renderer crash cannot lose the read
+  const read = readStore?.addRead(card, station);
+  mainWindow?.webContents.send(DRIVER_CARD_READ, card, read?.id ?? null, station);
+});
+
+stationManager.onReinsert((read, station) => {
+  mainWindow?.webContents.send(DRIVER_REINSERT, read, station);
+});
+
+stationManager.onPunch((punch, station) => {
+  punchFeed.add(punch, station === SIMULATOR_PORT_PATH ? 'Simulator' : station);
+});
+
+stationManager.onLog((station, direction, msg) => {
+  const message = `${station}: ${msg}`;
+  protocolLog?.append({ time: new Date().toISOString(), direction, message });
+  mainWindow?.webContents.send(DRIVER_LOG, direction, message);
+});
+
+/** Simulated station that inserts a random card every few seconds until it is closed */
+function openSimulator(onData: (chunk: Buffer) => void, time: SiTimeConfig): SiPortAdapter {
+  const station = new SiSimulator({ eventDate: time.eventDate });
+  station.onData(onData);
+  const timer = setInterval(() => {
+    if (!station.cardInserted) station.insertCard(randomSimulatedCard());
+  }, SIMULATED_CARD_INTERVAL_MS);
+  return {
+    write: (data) => station.write(data),
+    setBaudRate: (rate) => station.setBaudRate(rate),
+    close: () => {
+      clearInterval(timer);
+      station.close();
+    },
+  };
+}
+
+/** Capture file for one connection, e.g. capture-COM3-2026-10-18T10-00-00-000Z.jsonl */
+function captureFileName(portPath: string): string {
+  const port = path.basename(portPath).replace(/[^\w.-]/g, '_');
+  return `capture-${port}-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+}
+
+/** Number of protocol log lines kept across restarts */
+const MAX_STORED_LOG_ENTRIES = 200;
+
+/** Interval between random cards inserted into the simulated station */
+const SIMULATED_CARD_INTERVAL_MS = 8000;
 
 function createWindow(): void {
   mainWindow = new BrowserWindow({
@@ -53,15 +159,19 @@ function createWindow(): void {
 
   mainWindow.on('closed', () => {
     mainWindow = null;
-    stopDriver();
+    stationManager.removeAll();
   });
 }
 
 // ─── IPC Handlers ──────────────────────────────────────────────────────────────
 
-/** List serial ports */
+/** List serial ports (plus the simulated station in development) */
 ipcMain.handle(SERIAL_LIST_PORTS, async (): Promise<PortInfo[]> => {
-  return listPorts();
+  const ports = await listPorts();
+  if (!app.isPackaged) {
+    ports.push({ path: SIMULATOR_PORT_PATH, manufacturer: 'Simulated station', isSportident: false });
+  }
+  return ports;
 });
 
 /** Auto-detect SI station */
@@ -69,87 +179,328 @@ ipcMain.handle(SERIAL_AUTO_DETECT, async (): Promise<string | null> => {
   return autoDetectSiPort();
 });
 
-/** Connect to a port and start the SI driver */
-ipcMain.handle(DRIVER_START, async (_event, portPath: string): Promise<{ success: boolean; error?: string }> => {
+/** Connect to a port and start an SI driver on it with the active event's zero time and date */
+ipcMain.handle(DRIVER_START, async (
+  _event, portPath: string, eventTime: SiTimeConfig = DEFAULT_TIME_CONFIG
+): Promise<{ success: boolean; error?: string }> => {
   try {
-    // Stop any existing driver
-    stopDriver();
+    const time: SiTimeConfig = { ...eventTime, eventDate: eventTime.eventDate || localDate(new Date()) };
+    await stationManager.add(portPath, time);
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message || String(err) };
+  }
+});
+
+/** Stop the driver on one port, or all drivers */
+ipcMain.handle(DRIVER_STOP, async (_event, portPath?: string): Promise<void> => {
+  portPath ? stationManager.remove(portPath) : stationManager.removeAll();
+});
+
+/** Record the serial traffic of stations connected (or reconnected) from now on, for bug reports */
+ipcMain.handle(DRIVER_SET_RECORDING, async (_event, enabled: boolean): Promise<string | null> => {
+  captureDir = enabled ? path.join(app.getPath('userData'), 'captures') : null;
+  return captureDir;
+});
+
+/** Open native file dialog for IOF XML files, return file content */
+ipcMain.handle(DIALOG_OPEN_XML, async (): Promise<{ content: string; filename: string } | null> => {
+  if (!mainWindow) return null;
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: 'Open Course File',
+    filters: [
+      { name: 'Course Files', extensions: ['xml', 'json'] },
+      { name: 'All Files', extensions: ['*'] },
+    ],
+    properties: ['openFile'],
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  const filePath = result.filePaths[0];
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const filename = path.basename(filePath);
+  return { content, filename };
+});
+
+/** Load the stored read history and recent protocol log */
+ipcMain.handle(STORE_LOAD, async (): Promise<{ reads: StoredRead[]; logs: StoredLogEntry[] }> => {
+  return {
+    reads: readStore?.list() ?? [],
+    logs: protocolLog?.readAll() ?? [],
+  };
+});
 
-    const { adapter, port } = await openPort(portPath, 38400, () => {});
-    serialPort = port;
+/** Attach the renderer's validation result to a stored read */
+ipcMain.handle(STORE_SET_VALIDATION, async (
+  _event,
+  readId: number,
+  eventName: string | null,
+  validation: ValidationResult | null,
+  competitorId: number | null
+): Promise<StoredRead | null> => {
+  return readStore?.setValidation(readId, eventName, validation, competitorId) ?? null;
+});
 
-    driver = new SiDriver(adapter, 0);
+// ─── Station ───────────────────────────────────────────────────────────────────
 
-    // Wire serial data → driver
+/**
+ * Open a direct session with the station on the port, run `session` and close
+ * it again. A reader on the same port is stopped first, since it would hold the port.
+ * The simulator gets a few backup punches, and a random SIAC inserted when `withCard`.
+ */
+async function withStation<T>(
+  portPath: string, session: (station: SiStation) => Promise<T>, withCard = false
+): Promise<T> {
+  stationManager.remove(portPath);
+  let port: SerialPort | null = null;
+  let station: SiStation;
+  if (portPath === SIMULATOR_PORT_PATH) {
+    const simulator = new SiSimulator();
+    for (let i = 0; i < 5; i++) simulator.recordPunch(parseInt(randomSimulatedCard().cardNumber, 10));
+    if (withCard) simulator.insertCard(randomSimulatedCard());
+    station = new SiStation(simulator);
+    simulator.onData((chunk) => station.handleSerialData(chunk));
+  } else {
+    const opened = await openPort(portPath, 38400, () => {});
+    port = opened.port;
+    station = new SiStation(opened.adapter);
     port.removeAllListeners('data');
-    port.on('data', (chunk: Buffer) => {
-      driver?.handleSerialData(chunk);
-    });
+    port.on('data', (chunk: Buffer) => station.handleSerialData(chunk));
+  }
+  station.onLog((direction, msg) => mainWindow?.webContents.send(DRIVER_LOG, direction, msg));
 
-    // Forward events to renderer
-    driver.onStatus((status: CommStatus, msg?: string) => {
-      mainWindow?.webContents.send(DRIVER_STATUS, status, msg);
-    });
+  try {
+    await station.connect();
+    return await session(station);
+  } finally {
+    station.close();
+    if (port?.isOpen) port.close();
+  }
+}
 
-    driver.onCardRead((card: SiCardData) => {
-      mainWindow?.webContents.send(DRIVER_CARD_READ, card);
-    });
+/** Read the station info: serial number, firmware, code, mode, protocol flags, battery and clock */
+ipcMain.handle(STATION_INFO, async (
+  _event, portPath: string
+): Promise<{ success: boolean; info?: SiStationInfo; error?: string }> => {
+  try {
+    return { success: true, info: await withStation(portPath, (station) => station.readInfo()) };
+  } catch (err: any) {
+    return { success: false, error: err.message || String(err) };
+  }
+});
 
-    driver.onLog((direction, msg) => {
-      mainWindow?.webContents.send(DRIVER_LOG, direction, msg);
-    });
+/** Change the station configuration and return the resulting info */
+ipcMain.handle(STATION_CONFIGURE, async (
+  _event, portPath: string, settings: SiStationSettings
+): Promise<{ success: boolean; info?: SiStationInfo; error?: string }> => {
+  try {
+    return { success: true, info: await withStation(portPath, (station) => station.configure(settings)) };
+  } catch (err: any) {
+    return { success: false, error: err.message || String(err) };
+  }
+});
+
+/** Check the SI-Card 10/11/SIAC in the station: check time written, air+ switched on */
+ipcMain.handle(STATION_CHECK_CARD, async (
+  _event, portPath: string
+): Promise<{ success: boolean; check?: SiCardCheck; error?: string }> => {
+  try {
+    return { success: true, check: await withStation(portPath, (station) => station.checkCard(), true) };
+  } catch (err: any) {
+    return { success: false, error: err.message || String(err) };
+  }
+});
+
+/** Clear the SI-Card 10/11/SIAC in the station: punches erased, air+ switched off */
+ipcMain.handle(STATION_CLEAR_CARD, async (
+  _event, portPath: string
+): Promise<{ success: boolean; cardNumber?: string; error?: string }> => {
+  try {
+    return { success: true, cardNumber: await withStation(portPath, (station) => station.clearCard(), true) };
+  } catch (err: any) {
+    return { success: false, error: err.message || String(err) };
+  }
+});
 
-    // Start the driver (async, runs forever until stopped)
-    driver.start().catch((err: Error) => {
-      mainWindow?.webContents.send(DRIVER_STATUS, 'FATAL_ERROR', err.message);
+/** Read the backup memory of a control or finish station and save it as CSV */
+ipcMain.handle(STATION_READ_BACKUP, async (
+  _event, portPath: string
+): Promise<{ success: boolean; count?: number; overflow?: boolean; file?: string; error?: string }> => {
+  if (!mainWindow) return { success: false, error: 'No window' };
+  try {
+    const backup = await withStation(portPath, (station) => station.readBackup());
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Save Station Backup',
+      defaultPath: `station ${backup.stationCode} backup.csv`,
+      filters: [{ name: 'CSV Files', extensions: ['csv'] }],
     });
+    const summary = { success: true, count: backup.records.length, overflow: backup.overflow };
+    if (result.canceled || !result.filePath) return summary;
+    fs.writeFileSync(result.filePath, backupToCsv(backup), 'utf-8');
+    return { ...summary, file: path.basename(result.filePath) };
+  } catch (err: any) {
+    return { success: false, error: err.message || String(err) };
+  }
+});
 
-    return { success: true };
+// ─── Radio controls ────────────────────────────────────────────────────────────
+
+/** Listen for radio punches forwarded over the network, replacing a running relay */
+ipcMain.handle(ONLINE_START_RELAY, async (
+  _event, protocol: RelayProtocol, port: number, eventTime: SiTimeConfig = DEFAULT_TIME_CONFIG, stationModes: StationModes = {}
+): Promise<{ success: boolean; name?: string; error?: string }> => {
+  await stopRelay();
+  const time: SiTimeConfig = { ...eventTime, eventDate: eventTime.eventDate || localDate(new Date()) };
+  const newRelay = new PunchRelay({ protocol, port, time, stationModes });
+  newRelay.onLog((direction, msg) => mainWindow?.webContents.send(DRIVER_LOG, direction, msg));
+  try {
+    await newRelay.start();
+    // Only a relay that is listening feeds punches: a failed one is dropped
+    punchFeed.attach(newRelay, newRelay.name);
+    relay = newRelay;
+    return { success: true, name: newRelay.name };
   } catch (err: any) {
     return { success: false, error: err.message || String(err) };
   }
 });
 
-/** Stop the driver */
-ipcMain.handle(DRIVER_STOP, async (): Promise<void> => {
-  stopDriver();
+ipcMain.handle(ONLINE_STOP_RELAY, async (): Promise<void> => {
+  await stopRelay();
 });
 
-/** Open native file dialog for IOF XML files, return file content */
-ipcMain.handle(DIALOG_OPEN_XML, async (): Promise<{ content: string; filename: string } | null> => {
+/** Passings received since the app started, oldest first */
+ipcMain.handle(ONLINE_LIST, async (): Promise<Passing[]> => {
+  return punchFeed.list();
+});
+
+/** Start and finish passings since the app started, which the recent list may have dropped */
+ipcMain.handle(ONLINE_LIST_TIMING, async (): Promise<Passing[]> => {
+  return punchFeed.listTiming();
+});
+
+async function stopRelay(): Promise<void> {
+  const running = relay;
+  relay = null;
+  await running?.stop();
+}
+
+// ─── Competitors ───────────────────────────────────────────────────────────────
+
+function requireRegistry(): CompetitorRegistry {
+  if (!competitorRegistry) throw new Error('Competitor registry is not open');
+  return competitorRegistry;
+}
+
+ipcMain.handle(COMPETITORS_LIST, async (): Promise<Competitor[]> => {
+  return competitorRegistry?.list() ?? [];
+});
+
+ipcMain.handle(COMPETITORS_ADD, async (_event, input: CompetitorInput): Promise<Competitor> => {
+  return requireRegistry().add(input);
+});
+
+ipcMain.handle(COMPETITORS_UPDATE, async (
+  _event, id: number, changes: Partial<CompetitorInput>
+): Promise<Competitor> => {
+  return requireRegistry().update(id, changes);
+});
+
+ipcMain.handle(COMPETITORS_REMOVE, async (_event, id: number): Promise<void> => {
+  requireRegistry().remove(id);
+});
+
+/** Pick an IOF XML EntryList or CSV file and import its competitors */
+ipcMain.handle(COMPETITORS_IMPORT, async (): Promise<CompetitorImportResult | null> => {
   if (!mainWindow) return null;
   const result = await dialog.showOpenDialog(mainWindow, {
-    title: 'Open IOF XML Course File',
+    title: 'Import Competitors',
     filters: [
-      { name: 'IOF XML Files', extensions: ['xml'] },
+      { name: 'Entry Lists', extensions: ['xml', 'csv', 'txt'] },
       { name: 'All Files', extensions: ['*'] },
     ],
     properties: ['openFile'],
   });
   if (result.canceled || result.filePaths.length === 0) return null;
-  const filePath = result.filePaths[0];
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const filename = path.basename(filePath);
-  return { content, filename };
+  const content = fs.readFileSync(result.filePaths[0], 'utf-8');
+  return requireRegistry().importMany(parseCompetitorFile(content));
 });
 
-function stopDriver(): void {
-  if (driver) {
-    driver.stop();
-    driver = null;
-  }
-  if (serialPort?.isOpen) {
-    serialPort.close();
-    serialPort = null;
+// ─── Start list ────────────────────────────────────────────────────────────────
+
+/** Draw start times for the given classes and store them with the competitors */
+ipcMain.handle(START_LIST_DRAW, async (_event, settings: ClassStartSettings[]): Promise<ClassStartList[]> => {
+  const registry = requireRegistry();
+  const lists = allocateStartTimes(registry.list(), settings);
+  for (const [id, startTimeMs] of allocatedStartTimes(lists)) {
+    registry.update(id, { startTimeMs });
   }
+  return lists;
+});
+
+/** Save the allocated start times as an IOF XML 3.0 StartList, return the file name */
+ipcMain.handle(START_LIST_EXPORT_XML, async (
+  _event, eventName: string, eventDate?: string
+): Promise<string | null> => {
+  if (!mainWindow) return null;
+  const result = await dialog.showSaveDialog(mainWindow, {
+    title: 'Export IOF XML Start List',
+    defaultPath: `${eventName.replace(/[\\/:*?"<>|]/g, '_')} start list.xml`,
+    filters: [{ name: 'IOF XML Files', extensions: ['xml'] }],
+  });
+  if (result.canceled || !result.filePath) return null;
+  const xml = buildStartList(requireRegistry().list(), { eventName, eventDate });
+  fs.writeFileSync(result.filePath, xml, 'utf-8');
+  return path.basename(result.filePath);
+});
+
+// ─── Results ───────────────────────────────────────────────────────────────────
+
+/** Save the reads of an event as an IOF XML 3.0 ResultList, return the file name */
+ipcMain.handle(RESULTS_EXPORT_XML, async (
+  _event, eventName: string, eventDate?: string
+): Promise<string | null> => {
+  if (!mainWindow || !readStore) return null;
+  const reads = readStore.list().filter((r) => r.eventName === eventName);
+  const result = await dialog.showSaveDialog(mainWindow, {
+    title: 'Export IOF XML Results',
+    defaultPath: `${eventName.replace(/[\\/:*?"<>|]/g, '_')} results.xml`,
+    filters: [{ name: 'IOF XML Files', extensions: ['xml'] }],
+  });
+  if (result.canceled || !result.filePath) return null;
+  const xml = buildResultList(reads, competitorRegistry?.list() ?? [], { eventName, eventDate });
+  fs.writeFileSync(result.filePath, xml, 'utf-8');
+  return path.basename(result.filePath);
+});
+
+/** Open the read store, competitor registry and protocol log in the user data directory */
+function openStores(): void {
+  const dataDir = app.getPath('userData');
+  readStore = new ReadStore(path.join(dataDir, 'reads.jsonl'));
+  competitorRegistry = new CompetitorRegistry(path.join(dataDir, 'competitors.jsonl'));
+  protocolLog = new JsonLineFile<StoredLogEntry>(path.join(dataDir, 'protocol-log.jsonl'));
+  protocolLog.compact(MAX_STORED_LOG_ENTRIES);
+}
+
+function closeStores(): void {
+  readStore?.close();
+  readStore = null;
+  competitorRegistry?.close();
+  competitorRegistry = null;
+  protocolLog?.close();
+  protocolLog = null;
 }
 
 // ─── App lifecycle ─────────────────────────────────────────────────────────────
 
-app.whenReady().then(createWindow);
+app.whenReady().then(() => {
+  openStores();
+  createWindow();
+});
 
-app.on('window-all-closed', () => {
-  stopDriver();
+app.on('window-all-closed', async () => {
+  stationManager.removeAll();
+  // Let the relay sockets close before the process goes
+  await stopRelay();
+  closeStores();
   app.quit();
 });
 
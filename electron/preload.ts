@@ -5,8 +5,12 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import {
   SERIAL_LIST_PORTS, SERIAL_AUTO_DETECT,
-  DRIVER_START, DRIVER_STOP, DRIVER_STATUS, DRIVER_CARD_READ, DRIVER_LOG,
-  DIALOG_OPEN_XML,
+  DRIVER_START, DRIVER_STOP, DRIVER_SET_RECORDING, DRIVER_STATUS, DRIVER_CARD_READ, DRIVER_LOG, DRIVER_REINSERT,
+  DIALOG_OPEN_XML, STORE_LOAD, STORE_SET_VALIDATION,
+  COMPETITORS_LIST, COMPETITORS_ADD, COMPETITORS_UPDATE, COMPETITORS_REMOVE, COMPETITORS_IMPORT,
+  RESULTS_EXPORT_XML, START_LIST_DRAW, START_LIST_EXPORT_XML,
+  STATION_READ_BACKUP, STATION_INFO, STATION_CONFIGURE, STATION_CHECK_CARD, STATION_CLEAR_CARD,
+  ONLINE_START_RELAY, ONLINE_STOP_RELAY, ONLINE_LIST, ONLINE_LIST_TIMING, ONLINE_PASSING,
 } from './ipc-channels';
 
 export interface ElectronAPI {
@@ -14,17 +18,64 @@ export interface ElectronAPI {
   listPorts: () => Promise<any[]>;
   autoDetect: () => Promise<string | null>;
 
-  // Driver control
-  startDriver: (portPath: string) => Promise<{ success: boolean; error?: string }>;
-  stopDriver: () => Promise<void>;
+  // Driver control (one driver per station port)
+  startDriver: (
+    portPath: string, time?: { zeroTimeMs: number; eventDate?: string }
+  ) => Promise<{ success: boolean; error?: string }>;
+  stopDriver: (portPath?: string) => Promise<void>;
+  /** Record the traffic of stations connected from now on; resolves to the capture folder, or null when off */
+  setRecording: (enabled: boolean) => Promise<string | null>;
+
+  // Direct station commands (backup memory, configuration, card check and clear)
+  readStationBackup: (
+    portPath: string
+  ) => Promise<{ success: boolean; count?: number; overflow?: boolean; file?: string; error?: string }>;
+  readStationInfo: (portPath: string) => Promise<{ success: boolean; info?: any; error?: string }>;
+  configureStation: (portPath: string, settings: any) => Promise<{ success: boolean; info?: any; error?: string }>;
+  /** Check or clear the SI-Card 10/11/SIAC in the station on the port */
+  checkCard: (portPath: string) => Promise<{ success: boolean; check?: any; error?: string }>;
+  clearCard: (portPath: string) => Promise<{ success: boolean; cardNumber?: string; error?: string }>;
+
+  // Radio controls
+  startRelay: (
+    protocol: 'tcp' | 'udp', port: number, time?: { zeroTimeMs: number; eventDate?: string },
+    stationModes?: Record<number, string>
+  ) => Promise<{ success: boolean; name?: string; error?: string }>;
+  stopRelay: () => Promise<void>;
+  listPassings: () => Promise<any[]>;
+  /** Start and finish passings, not capped like listPassings */
+  listTimingPassings: () => Promise<any[]>;
 
   // File dialog
   openXmlDialog: () => Promise<{ content: string; filename: string } | null>;
 
+  // Persistent store
+  loadStore: () => Promise<{ reads: any[]; logs: any[] }>;
+  saveValidation: (
+    readId: number, eventName: string | null, validation: any, competitorId: number | null
+  ) => Promise<any>;
+
+  // Competitors
+  listCompetitors: () => Promise<any[]>;
+  addCompetitor: (input: any) => Promise<any>;
+  updateCompetitor: (id: number, changes: any) => Promise<any>;
+  removeCompetitor: (id: number) => Promise<void>;
+  importCompetitors: () => Promise<{ added: number; updated: number } | null>;
+
+  // Start list
+  drawStartList: (settings: any[]) => Promise<any[]>;
+  exportStartListXml: (eventName: string, eventDate?: string) => Promise<string | null>;
+
+  // Results
+  exportResultsXml: (eventName: string, eventDate?: string) => Promise<string | null>;
+
   // Event listeners
-  onStatus: (callback: (status: string, msg?: string) => void) => void;
-  onCardRead: (callback: (card: any) => void) => void;
+  onStatus: (callback: (station: string, status: string, msg?: string) => void) => void;
+  onCardRead: (callback: (card: any, readId: number | null, station: string) => void) => void;
+  /** A card read failed part-way and the card has to be inserted again */
+  onReinsert: (callback: (read: any, station: string) => void) => void;
   onLog: (callback: (direction: string, msg: string) => void) => void;
+  onPassing: (callback: (passing: any) => void) => void;
 
   // Remove listeners
   removeAllListeners: () => void;
@@ -34,24 +85,60 @@ contextBridge.exposeInMainWorld('electronAPI', {
   listPorts: () => ipcRenderer.invoke(SERIAL_LIST_PORTS),
   autoDetect: () => ipcRenderer.invoke(SERIAL_AUTO_DETECT),
 
-  startDriver: (portPath: string) => ipcRenderer.invoke(DRIVER_START, portPath),
-  stopDriver: () => ipcRenderer.invoke(DRIVER_STOP),
+  startDriver: (portPath, time) => ipcRenderer.invoke(DRIVER_START, portPath, time),
+  stopDriver: (portPath?: string) => ipcRenderer.invoke(DRIVER_STOP, portPath),
+  setRecording: (enabled: boolean) => ipcRenderer.invoke(DRIVER_SET_RECORDING, enabled),
+  readStationBackup: (portPath: string) => ipcRenderer.invoke(STATION_READ_BACKUP, portPath),
+  readStationInfo: (portPath: string) => ipcRenderer.invoke(STATION_INFO, portPath),
+  configureStation: (portPath: string, settings: any) => ipcRenderer.invoke(STATION_CONFIGURE, portPath, settings),
+  checkCard: (portPath: string) => ipcRenderer.invoke(STATION_CHECK_CARD, portPath),
+  clearCard: (portPath: string) => ipcRenderer.invoke(STATION_CLEAR_CARD, portPath),
+
+  startRelay: (protocol, port, time, stationModes) => ipcRenderer.invoke(ONLINE_START_RELAY, protocol, port, time, stationModes),
+  stopRelay: () => ipcRenderer.invoke(ONLINE_STOP_RELAY),
+  listPassings: () => ipcRenderer.invoke(ONLINE_LIST),
+  listTimingPassings: () => ipcRenderer.invoke(ONLINE_LIST_TIMING),
 
   openXmlDialog: () => ipcRenderer.invoke(DIALOG_OPEN_XML),
 
-  onStatus: (callback: (status: string, msg?: string) => void) => {
-    ipcRenderer.on(DRIVER_STATUS, (_event, status, msg) => callback(status, msg));
+  loadStore: () => ipcRenderer.invoke(STORE_LOAD),
+  saveValidation: (readId: number, eventName: string | null, validation: any, competitorId: number | null) =>
+    ipcRenderer.invoke(STORE_SET_VALIDATION, readId, eventName, validation, competitorId),
+
+  listCompetitors: () => ipcRenderer.invoke(COMPETITORS_LIST),
+  addCompetitor: (input: any) => ipcRenderer.invoke(COMPETITORS_ADD, input),
+  updateCompetitor: (id: number, changes: any) => ipcRenderer.invoke(COMPETITORS_UPDATE, id, changes),
+  removeCompetitor: (id: number) => ipcRenderer.invoke(COMPETITORS_REMOVE, id),
+  importCompetitors: () => ipcRenderer.invoke(COMPETITORS_IMPORT),
+
+  drawStartList: (settings: any[]) => ipcRenderer.invoke(START_LIST_DRAW, settings),
+  exportStartListXml: (eventName: string, eventDate?: string) =>
+    ipcRenderer.invoke(START_LIST_EXPORT_XML, eventName, eventDate),
+
+  exportResultsXml: (eventName: string, eventDate?: string) =>
+    ipcRenderer.invoke(RESULTS_EXPORT_XML, eventName, eventDate),
+
+  onStatus: (callback: (station: string, status: string, msg?: string) => void) => {
+    ipcRenderer.on(DRIVER_STATUS, (_event, station, status, msg) => callback(station, status, msg));
+  },
+  onCardRead: (callback: (card: any, readId: number | null, station: string) => void) => {
+    ipcRenderer.on(DRIVER_CARD_READ, (_event, card, readId, station) => callback(card, readId, station));
   },
-  onCardRead: (callback: (card: any) => void) => {
-    ipcRenderer.on(DRIVER_CARD_READ, (_event, card) => callback(card));
+  onReinsert: (callback: (read: any, station: string) => void) => {
+    ipcRenderer.on(DRIVER_REINSERT, (_event, read, station) => callback(read, station));
   },
   onLog: (callback: (direction: string, msg: string) => void) => {
     ipcRenderer.on(DRIVER_LOG, (_event, direction, msg) => callback(direction, msg));
   },
+  onPassing: (callback: (passing: any) => void) => {
+    ipcRenderer.on(ONLINE_PASSING, (_event, passing) => callback(passing));
+  },
 
   removeAllListeners: () => {
     ipcRenderer.removeAllListeners(DRIVER_STATUS);
     ipcRenderer.removeAllListeners(DRIVER_CARD_READ);
+    ipcRenderer.removeAllListeners(DRIVER_REINSERT);
     ipcRenderer.removeAllListeners(DRIVER_LOG);
+    ipcRenderer.removeAllListeners(ONLINE_PASSING);
   },
 } as ElectronAPI);
@@ -1,15 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import './App.css';
 
-import type { SiCardData, ValidationResult, CourseEvent, PortInfo, LogEntry, ReadHistoryEntry, AppScreen } from './types';
-import { NO_TIME, autoDetectCourse } from './types';
-import { api, ANIMAL_O_EVENT, formatRaceTime, playSuccessSound, playErrorSound } from './utils';
+import type { SiCardData, SiPartialRead, ValidationResult, CourseEvent, PortInfo, LogEntry, ReadHistoryEntry, AppScreen, StoredRead, StoredLogEntry, Competitor, Passing, StationStatus } from './types';
+import { racePunches, validateForCompetitor, competitorFromCard, feedTiming, isTimingPassing, relayHandover } from './types';
+import { api, ANIMAL_O_EVENT, toHistoryEntry, overallStatus, playSuccessSound, playErrorSound } from './utils';
 
 import { StatusIndicator } from './components/StatusIndicator';
 import { SetupScreen } from './components/SetupScreen';
 import { WaitingScreen } from './components/WaitingScreen';
 import { ResultScreen } from './components/ResultScreen';
 import { LogScreen } from './components/LogScreen';
+import { ResultsScreen } from './components/ResultsScreen';
+import { RadioScreen } from './components/RadioScreen';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 
@@ -17,17 +19,43 @@ export default function App() {
   const [screen, setScreen] = useState<AppScreen>('setup');
   const [ports, setPorts] = useState<PortInfo[]>([]);
   const [selectedPort, setSelectedPort] = useState('');
-  const [driverStatus, setDriverStatus] = useState<string>('OFF');
+  const [stations, setStations] = useState<StationStatus[]>([]);
+  const driverStatus = overallStatus(stations);
   const [statusMessage, setStatusMessage] = useState('');
+  const [reinsert, setReinsert] = useState<{ read: SiPartialRead; station: string } | null>(null);
   const [events, setEvents] = useState<CourseEvent[]>([ANIMAL_O_EVENT]);
   const [activeEventIndex, setActiveEventIndex] = useState(0);
   const [lastCard, setLastCard] = useState<SiCardData | null>(null);
+  const [lastCompetitor, setLastCompetitor] = useState<Competitor | null>(null);
   const [lastValidation, setLastValidation] = useState<ValidationResult | null>(null);
   const [resultPaused, setResultPaused] = useState(false);
   const resultTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [history, setHistory] = useState<ReadHistoryEntry[]>([]);
+  const [reads, setReads] = useState<StoredRead[]>([]);
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [passings, setPassings] = useState<Passing[]>([]);
+  const [timingPassings, setTimingPassings] = useState<Passing[]>([]);
+  const [relayName, setRelayName] = useState<string | null>(null);
+  const [captureDir, setCaptureDir] = useState<string | null>(null);
   const activeCourses = events[activeEventIndex]?.courses || [];
+  const activeEventName = events[activeEventIndex]?.name ?? null;
+
+  const loadCompetitors = useCallback(async () => { const list: Competitor[] = await api.listCompetitors(); setCompetitors(list); return list; }, []);
+
+  // Restore competitors, read history and protocol log persisted by the main process
+  useEffect(() => {
+    Promise.all([loadCompetitors(), api.loadStore()]).then(([registered, { reads, logs }]: [Competitor[], { reads: StoredRead[]; logs: StoredLogEntry[] }]) => {
+      setReads(reads);
+      setHistory(reads.map(r => toHistoryEntry(r, registered)).reverse());
+      const last = reads[reads.length - 1];
+      if (last) { setLastCard(last.card); setLastValidation(last.validation); setLastCompetitor(registered.find(c => c.id === last.competitorId) ?? null); }
+      setLogs(logs.map(l => ({ time: new Date(l.time).toLocaleTimeString(), direction: l.direction, message: l.message })));
+    });
+  }, [loadCompetitors]);
+
+  // Radio punches received before this window opened
+  useEffect(() => { api.listPassings().then(setPassings); api.listTimingPassings().then(setTimingPassings); }, []);
 
   const scanPorts = useCallback(async () => {
     const found = await api.listPorts(); setPorts(found);
@@ -36,30 +64,49 @@ export default function App() {
   useEffect(() => { scanPorts(); }, [scanPorts]);
 
   useEffect(() => {
-    api.onStatus((status: string, msg?: string) => {
-      setDriverStatus(status); if (msg) setStatusMessage(msg);
-      if (status === 'READY' && screen !== 'result') setScreen('waiting');
+    api.onStatus((station: string, status: string, msg?: string) => {
+      setStations(prev => status === 'OFF' ? prev.filter(s => s.path !== station)
+        : prev.some(s => s.path === station) ? prev.map(s => s.path === station ? { path: station, status } : s) : [...prev, { path: station, status }]);
+      if (msg) setStatusMessage(msg);
+      if (status === 'READY' && screen !== 'result' && screen !== 'setup') setScreen('waiting');
+      if (status === 'PROCESSING') setReinsert(null);
+      // Back to setup with the failed port selected, where the error is shown (with a fix for wrong protocol settings)
+      if (status === 'FATAL_ERROR') { setSelectedPort(station); setScreen('setup'); }
+    });
+    // A failed read asks the runner to insert the card again, also over the last result
+    api.onReinsert((read: SiPartialRead, station: string) => {
+      setReinsert({ read, station });
+      playErrorSound();
+      if (screen !== 'setup') { if (resultTimerRef.current) clearTimeout(resultTimerRef.current); setScreen('waiting'); }
     });
-    api.onCardRead((card: SiCardData) => {
+    api.onCardRead((card: SiCardData, readId: number | null, station: string) => {
       setLastCard(card);
-      // Filter punches to only those between start and finish time
-      // This handles cards that weren't cleared — old punches from previous runs are ignored
-      let validPunches = card.punches;
-      if (card.startTime !== NO_TIME && card.finishTime !== NO_TIME) {
-        validPunches = card.punches.filter(p =>
-          p.timestampMs !== NO_TIME && p.timestampMs >= card.startTime && p.timestampMs <= card.finishTime
-        );
-      } else if (card.startTime !== NO_TIME) {
-        validPunches = card.punches.filter(p =>
-          p.timestampMs !== NO_TIME && p.timestampMs >= card.startTime
-        );
-      }
-      const v = activeCourses.length > 0 ? autoDetectCourse(activeCourses, validPunches) : null;
+      setReinsert(null);
+      // Only punches between start and finish count — old punches from previous runs are ignored
+      const validPunches = racePunches(card);
+      // Registered runners are checked against their own course, others are auto-detected
+      const competitor = competitors.find(c => c.cardNumber === card.cardNumber) ?? null;
+      // Start and finish from the start list, the card or start/finish stations on the radio feed; relay legs start at the handover
+      const handover = competitor ? relayHandover(competitor, competitors, reads.filter(r => r.eventName === activeEventName), events[activeEventIndex]?.zeroTimeMs) : undefined;
+      const timing = { ...card, startListTimeMs: competitor?.startTimeMs, handoverTimeMs: handover?.handoverTimeMs, ...feedTiming(timingPassings, card.cardNumber), precedence: events[activeEventIndex]?.timing, zeroTimeMs: events[activeEventIndex]?.zeroTimeMs };
+      const v = validateForCompetitor(activeCourses, validPunches, competitor ?? undefined, timing);
+      setLastCompetitor(competitor);
       setLastValidation(v);
+      if (readId !== null) api.saveValidation(readId, activeEventName, v, competitor?.id ?? null);
       (v ? (v.allCorrect ? playSuccessSound : playErrorSound) : playSuccessSound)();
-      const raceMs = (card.startTime !== NO_TIME && card.finishTime !== NO_TIME) ? card.finishTime - card.startTime : -1;
-      setHistory(h => [{ cardNumber: card.cardNumber, cardSeries: card.cardSeries, time: new Date().toLocaleTimeString(),
-        raceTime: formatRaceTime(raceMs), courseName: v?.course.name || '(no course)', allCorrect: v?.allCorrect ?? true, punchCount: card.punchCount }, ...h]);
+      const read: StoredRead = { id: readId ?? 0, readAt: new Date().toISOString(), station, card, eventName: activeEventName, competitorId: competitor?.id ?? null, validation: v };
+      setReads(r => [...r, read]);
+      setHistory(h => [toHistoryEntry(read, competitors), ...h]);
+      // Unregistered runners with their name stored on the card are entered from it
+      const entry = competitor ? null : competitorFromCard(card);
+      if (entry) api.addCompetitor(entry).then((added: Competitor) => {
+        setLastCompetitor(added);
+        if (readId !== null) {
+          api.saveValidation(readId, activeEventName, v, added.id);
+          setReads(r => r.map(x => x.id === readId ? { ...x, competitorId: added.id } : x));
+        }
+        loadCompetitors();
+      }).catch((err: Error) => setStatusMessage(err.message));
       setScreen('result'); setResultPaused(false);
       if (resultTimerRef.current) clearTimeout(resultTimerRef.current);
       resultTimerRef.current = setTimeout(() => setScreen('waiting'), 10000);
@@ -67,23 +114,36 @@ export default function App() {
     api.onLog((dir: string, msg: string) => {
       setLogs(prev => [...prev.slice(-200), { time: new Date().toLocaleTimeString(), direction: dir, message: msg }]);
     });
+    // Radio punches arrive on any screen; keep a bounded list like the main process
+    // Start and finish passings are kept apart without the cap: they time runs that started long ago
+    api.onPassing((p: Passing) => { setPassings(prev => [...prev.slice(-499), p]); if (isTimingPassing(p)) setTimingPassings(prev => [...prev, p]); });
     return () => api.removeAllListeners();
-  }, [activeCourses, screen]);
+  }, [activeCourses, activeEventName, competitors, reads, events, activeEventIndex, timingPassings, loadCompetitors, screen]);
 
-  const connect = async () => { if (!selectedPort) return; const r = await api.startDriver(selectedPort); r.success ? setScreen('waiting') : setStatusMessage(r.error || 'Failed'); };
-  const disconnect = async () => { await api.stopDriver(); setScreen('setup'); setDriverStatus('OFF'); };
+  const connect = async () => {
+    if (!selectedPort) return;
+    setStatusMessage('');
+    const ev = events[activeEventIndex];
+    const r = await api.startDriver(selectedPort, { zeroTimeMs: ev?.zeroTimeMs ?? 0, eventDate: ev?.date });
+    r.success ? setScreen('waiting') : setStatusMessage(r.error || 'Failed');
+  };
+  const disconnect = async () => { await api.stopDriver(); setScreen('setup'); setStations([]); };
+  const disconnectStation = async (path: string) => { await api.stopDriver(path); if (stations.length <= 1) setScreen('setup'); };
   const dismissResult = () => { if (resultTimerRef.current) clearTimeout(resultTimerRef.current); resultPaused ? (setScreen('waiting'), setResultPaused(false)) : setResultPaused(true); };
 
   return (
     <div className="app">
       <header className="top-bar">
         <div className="top-bar-left"><span className="logo">◈ NGZ</span></div>
-        <div className="top-bar-center"><StatusIndicator status={driverStatus} /></div>
+        <div className="top-bar-center"><StatusIndicator stations={stations} onDisconnect={disconnectStation} /></div>
         <div className="top-bar-right">
-          {screen !== 'setup' && (<>
+          {(screen !== 'setup' || stations.length > 0) && (<>
             {events[activeEventIndex] && <span className="active-event-label">{events[activeEventIndex].name}</span>}
             <button className="nav-btn" onClick={() => setScreen('waiting')} data-active={screen === 'waiting'}>Reader</button>
+            <button className="nav-btn" onClick={() => setScreen('results')} data-active={screen === 'results'}>Results</button>
+            <button className="nav-btn" onClick={() => setScreen('radio')} data-active={screen === 'radio'}>Radio ({passings.length})</button>
             <button className="nav-btn" onClick={() => setScreen('log')} data-active={screen === 'log'}>Log ({history.length})</button>
+            <button className="nav-btn" onClick={() => setScreen('setup')} title="Connect another readout station">+ Station</button>
             <button className="nav-btn disconnect" onClick={disconnect}>Disconnect</button>
           </>)}
         </div>
@@ -92,11 +152,16 @@ export default function App() {
         {screen === 'setup' && <SetupScreen ports={ports} selectedPort={selectedPort} onSelectPort={setSelectedPort} onScanPorts={scanPorts} onConnect={connect}
           events={events} activeEventIndex={activeEventIndex} onSelectEvent={setActiveEventIndex}
           onAddEvent={(ev) => { setEvents(p => [...p, ev]); setActiveEventIndex(events.length); }}
+          onUpdateEvent={(i, ev) => setEvents(p => p.map((e, j) => j === i ? ev : e))}
           onRemoveEvent={(i) => { setEvents(p => p.filter((_,j) => j!==i)); if (activeEventIndex >= i && activeEventIndex > 0) setActiveEventIndex(activeEventIndex-1); }}
+          competitors={competitors} onCompetitorsChanged={loadCompetitors}
           statusMessage={statusMessage} />}
-        {screen === 'waiting' && <WaitingScreen status={driverStatus} />}
-        {screen === 'result' && lastCard && <ResultScreen card={lastCard} validation={lastValidation} paused={resultPaused} onDismiss={dismissResult} />}
-        {screen === 'log' && <LogScreen history={history} logs={logs} />}
+        {screen === 'waiting' && <WaitingScreen status={driverStatus} reinsert={reinsert} multiStation={stations.length > 1} />}
+        {screen === 'result' && lastCard && <ResultScreen card={lastCard} competitor={lastCompetitor} validation={lastValidation} paused={resultPaused} onDismiss={dismissResult} />}
+        {screen === 'results' && <ResultsScreen reads={reads} competitors={competitors} eventName={activeEventName} zeroTimeMs={events[activeEventIndex]?.zeroTimeMs ?? 0} />}
+        {screen === 'radio' && <RadioScreen passings={passings} competitors={competitors} relayName={relayName} onRelayChanged={setRelayName}
+          eventTime={{ zeroTimeMs: events[activeEventIndex]?.zeroTimeMs ?? 0, eventDate: events[activeEventIndex]?.date }} />}
+        {screen === 'log' && <LogScreen history={history} logs={logs} eventName={activeEventName} eventDate={events[activeEventIndex]?.date} captureDir={captureDir} onRecord={async (on) => setCaptureDir(await api.setRecording(on))} />}
       </main>
     </div>
   );
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { Competitor, CompetitorInput, ClassStartList } from '../types';
+import { parseClockTime, formatClockTime } from '../types';
+import { api } from '../utils';
+
+const EMPTY_INPUT: CompetitorInput = { name: '', club: '', className: '', courseName: '', cardNumber: '', bib: '', rentedCard: false };
+
+export function CompetitorsPanel({ competitors, eventName, eventDate, onChanged }: {
+  competitors: Competitor[]; eventName: string | null; eventDate?: string; onChanged: () => void;
+}) {
+  const [input, setInput] = useState<CompetitorInput>(EMPTY_INPUT);
+  const [showAdd, setShowAdd] = useState(false);
+  const [showStartList, setShowStartList] = useState(false);
+  const [msg, setMsg] = useState('');
+  const [err, setErr] = useState('');
+
+  // Registry errors (duplicate card, bad file) come back as rejected invokes
+  const run = async (action: () => Promise<void>) => {
+    setErr(''); setMsg('');
+    try { await action(); onChanged(); } catch (e: any) { setErr(String(e?.message ?? e).replace(/^Error invoking remote method '[^']+': (Error: )?/, '')); }
+  };
+
+  const importFile = () => run(async () => {
+    const r = await api.importCompetitors();
+    if (r) setMsg(`Imported ${r.added} new, updated ${r.updated}`);
+  });
+  const add = () => run(async () => {
+    if (!input.name.trim() || !input.cardNumber.trim()) { setErr('Name and card number are required'); return; }
+    await api.addCompetitor({ ...input, name: input.name.trim(), cardNumber: input.cardNumber.trim() });
+    setInput(EMPTY_INPUT); setShowAdd(false);
+  });
+  const drawStartList = (firstStartMs: number, intervalMs: number, vacancies: number) => run(async () => {
+    // Relay runners start at the handover (mass starts and restarts come from the course and start times)
+    const classNames = [...new Set(competitors.filter(c => c.leg === undefined).map(c => c.className).filter(Boolean))].sort();
+    if (classNames.length === 0) { setErr('Competitors need a class to get a start time'); return; }
+    // Classes start in parallel from the first start
+    const lists: ClassStartList[] = await api.drawStartList(classNames.map(className => ({ className, firstStartMs, intervalMs, vacancies })));
+    const drawn = lists.reduce((n, l) => n + l.slots.filter(s => s.competitorId !== null).length, 0);
+    setMsg(`Drew start times for ${drawn} runners in ${lists.length} classes`);
+    setShowStartList(false);
+  });
+  const exportStartList = () => run(async () => {
+    if (!eventName) return;
+    const file = await api.exportStartListXml(eventName, eventDate);
+    if (file) setMsg(`Saved ${file}`);
+  });
+  const field = (key: 'name' | 'cardNumber' | 'club' | 'className' | 'courseName', placeholder: string) =>
+    <input type="text" placeholder={placeholder} value={input[key]} onChange={e => setInput({ ...input, [key]: e.target.value })} className="input-event-name" />;
+
+  return (
+    <section className="panel competitors-panel">
+      <h2>③ Competitors</h2>
+      <p className="hint">Register runners so card reads show their name and are checked against their class or course. Import an IOF XML entry list or a CSV file.</p>
+      {competitors.length === 0 ? <p className="empty-msg">No competitors registered</p> :
+      <div className="competitor-table-wrap"><table className="history-table"><thead><tr><th>Card</th><th>Name</th><th>Club</th><th>Class</th><th>Course</th><th>Start</th><th></th></tr></thead>
+        <tbody>{competitors.map(c => <tr key={c.id}>
+          <td className="mono">{c.cardNumber}{c.rentedCard ? ' (rented)' : ''}</td><td>{c.name}</td><td>{c.club}</td><td>{c.className}{c.team !== undefined && <span className="competitor-team">{c.team} · leg {c.leg}</span>}</td><td>{c.courseName}</td>
+          <td className="mono">{c.startTimeMs !== undefined ? formatClockTime(c.startTimeMs) : ''}</td>
+          <td><button className="event-remove competitor-remove" onClick={() => run(() => api.removeCompetitor(c.id))}>×</button></td>
+        </tr>)}</tbody></table></div>}
+      {showAdd ? <div className="new-event-form">
+        <div className="new-event-header"><h3>Add Competitor</h3><button className="btn-cancel" onClick={() => setShowAdd(false)}>Cancel</button></div>
+        {field('name', 'Name')}{field('cardNumber', 'SI card number')}{field('club', 'Club')}{field('className', 'Class')}{field('courseName', 'Course (defaults to class)')}
+        <button className="btn-primary" onClick={add}>Add</button>
+      </div> : showStartList ? <StartListForm onDraw={drawStartList} onCancel={() => setShowStartList(false)} />
+      : <div className="competitor-actions">
+        <button className="btn-new-event" onClick={() => setShowAdd(true)}>+ Add Competitor</button>
+        <button className="btn-new-event" onClick={importFile}>📁 Import Entries…</button>
+        <button className="btn-new-event" disabled={competitors.length === 0} onClick={() => setShowStartList(true)}>⏱ Draw Start List…</button>
+        <button className="btn-new-event" disabled={!eventName || !competitors.some(c => c.startTimeMs !== undefined)} onClick={exportStartList}>Export Start List…</button>
+      </div>}
+      {msg && <p className="hint">{msg}</p>}
+      {err && <p className="error-msg">{err}</p>}
+    </section>
+  );
+}
+
+// ─── StartListForm (private to CompetitorsPanel) ────────────────────────────
+
+function StartListForm({ onDraw, onCancel }: { onDraw: (firstStartMs: number, intervalMs: number, vacancies: number) => void; onCancel: () => void }) {
+  const [firstStart, setFirstStart] = useState('10:00');
+  const [intervalMin, setIntervalMin] = useState('2');
+  const [vacancies, setVacancies] = useState('1');
+  const firstStartMs = parseClockTime(firstStart);
+  const valid = firstStartMs !== null && Number(intervalMin) >= 0 && Number.isInteger(Number(vacancies)) && Number(vacancies) >= 0;
+  return (
+    <div className="new-event-form">
+      <div className="new-event-header"><h3>Draw Start List</h3><button className="btn-cancel" onClick={onCancel}>Cancel</button></div>
+      <p className="hint">Every class starts at the first start, runners in random order one interval apart (0 for a mass start), clubmates kept apart. Vacant times at the end of each class are kept for late entries. Drawing again replaces the start times.</p>
+      <div className="event-time">
+        <label>First start <input type="time" value={firstStart} onChange={e => setFirstStart(e.target.value)} /></label>
+        <label>Interval (min) <input type="number" min="0" step="0.5" value={intervalMin} onChange={e => setIntervalMin(e.target.value)} /></label>
+        <label>Vacancies <input type="number" min="0" value={vacancies} onChange={e => setVacancies(e.target.value)} /></label>
+      </div>
+      <button className="btn-primary" disabled={!valid} onClick={() => onDraw(firstStartMs!, Number(intervalMin) * 60000, Number(vacancies))}>Draw</button>
+    </div>
+  );
+}
@@ -1,19 +1,30 @@
 import React, { useState } from 'react';
 import type { ReadHistoryEntry, LogEntry } from '../types';
+import { api } from '../utils';
 
-export function LogScreen({ history, logs }: { history: ReadHistoryEntry[]; logs: LogEntry[] }) {
+export function LogScreen({ history, logs, eventName, eventDate, captureDir, onRecord }: {
+  history: ReadHistoryEntry[]; logs: LogEntry[]; eventName: string | null; eventDate?: string;
+  captureDir: string | null; onRecord: (enabled: boolean) => void;
+}) {
   const [tab, setTab] = useState<'history'|'protocol'>('history');
+  const [exported, setExported] = useState('');
+  const exportXml = async () => { if (!eventName) return; const file = await api.exportResultsXml(eventName, eventDate); if (file) setExported(`Saved ${file}`); };
   return (
     <div className="log-screen">
       <div className="log-tabs">
         <button className={`tab ${tab==='history'?'active':''}`} onClick={() => setTab('history')}>Read History ({history.length})</button>
         <button className={`tab ${tab==='protocol'?'active':''}`} onClick={() => setTab('protocol')}>Protocol Log</button>
+        {tab === 'history' && eventName && <button className="tab tab-action" onClick={exportXml} title={`IOF XML 3.0 ResultList for ${eventName}`}>Export Results (XML)</button>}
+        {tab === 'protocol' && <button className={`tab tab-action ${captureDir ? 'recording' : ''}`} onClick={() => onRecord(!captureDir)}
+          title="Save the serial traffic of stations connected from now on, to attach to a bug report">{captureDir ? '■ Stop Recording' : '● Record Traffic'}</button>}
+        {tab === 'protocol' && captureDir && <span className="log-tabs-note">Recording new connections to {captureDir}</span>}
+        {tab === 'history' && exported && <span className="log-tabs-note">{exported}</span>}
       </div>
       {tab === 'history' && <div className="history-table-wrap">
         {history.length === 0 ? <p className="empty-msg">No cards read yet</p> :
-        <table className="history-table"><thead><tr><th>Time</th><th>Card</th><th>Type</th><th>Course</th><th>Race Time</th><th>Punches</th><th>Status</th></tr></thead>
+        <table className="history-table"><thead><tr><th>Time</th><th>Station</th><th>Card</th><th>Name</th><th>Type</th><th>Course</th><th>Race Time</th><th>Punches</th><th>Status</th></tr></thead>
         <tbody>{history.map((h, i) => <tr key={i} className={h.allCorrect ? '' : 'row-error'}>
-          <td>{h.time}</td><td className="mono">{h.cardNumber}</td><td>{h.cardSeries}</td><td>{h.courseName}</td>
+          <td>{h.time}</td><td className="mono">{h.station}</td><td className="mono">{h.cardNumber}</td><td>{h.competitorName}</td><td>{h.cardSeries}</td><td>{h.courseName}</td>
           <td className="mono">{h.raceTime}</td><td>{h.punchCount}</td>
           <td><span className={`badge ${h.allCorrect ? 'badge-ok' : 'badge-pm'}`}>{h.allCorrect ? 'OK' : 'PM'}</span></td>
         </tr>)}</tbody></table>}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { Passing, RelayProtocol, StationModes, Competitor } from '../types';
+import { formatClockTime, parseStationModes } from '../types';
+import { api } from '../utils';
+
+const DEFAULT_RELAY_PORT = 10000;
+
+function RelayControls({ relayName, eventTime, onRelayChanged }: {
+  relayName: string | null; eventTime: { zeroTimeMs: number; eventDate?: string }; onRelayChanged: (name: string | null) => void;
+}) {
+  const [protocol, setProtocol] = useState<RelayProtocol>('tcp');
+  const [port, setPort] = useState(String(DEFAULT_RELAY_PORT));
+  const [modes, setModes] = useState('');
+  const [error, setError] = useState('');
+
+  const start = async () => {
+    setError('');
+    // Transmit records do not say which stations are starts and finishes
+    let stationModes: StationModes;
+    try { stationModes = parseStationModes(modes); } catch (err: any) { setError(err.message); return; }
+    const r = await api.startRelay(protocol, Number(port), eventTime, stationModes);
+    r.success ? onRelayChanged(r.name) : setError(r.error || 'Failed');
+  };
+  const stop = async () => { await api.stopRelay(); onRelayChanged(null); };
+
+  return (
+    <div className="relay-controls">
+      {relayName ? <>
+        <span className="relay-status">● Listening on {relayName}</span>
+        <button className="tab" onClick={stop}>Stop</button>
+      </> : <>
+        <select className="port-select relay-protocol" value={protocol} onChange={e => setProtocol(e.target.value as RelayProtocol)}>
+          <option value="tcp">TCP</option><option value="udp">UDP</option>
+        </select>
+        <input className="port-select relay-port" value={port} onChange={e => setPort(e.target.value)} />
+        <input className="port-select relay-modes" placeholder="Stations, e.g. 1=Start, 100=Finish" value={modes} onChange={e => setModes(e.target.value)} />
+        <button className="tab" onClick={start} disabled={!/^\d{1,5}$/.test(port)}>Listen</button>
+      </>}
+      {error && <span className="relay-error">{error}</span>}
+    </div>
+  );
+}
+
+export function RadioScreen({ passings, competitors, relayName, eventTime, onRelayChanged }: {
+  passings: Passing[]; competitors: Competitor[]; relayName: string | null;
+  eventTime: { zeroTimeMs: number; eventDate?: string }; onRelayChanged: (name: string | null) => void;
+}) {
+  const [control, setControl] = useState('');
+  const shown = passings.filter(p => !control || String(p.controlCode) === control.trim()).reverse();
+  return (
+    <div className="log-screen">
+      <div className="log-tabs">
+        <RelayControls relayName={relayName} eventTime={eventTime} onRelayChanged={onRelayChanged} />
+        <input className="port-select relay-filter" placeholder="Control" value={control} onChange={e => setControl(e.target.value)} />
+      </div>
+      <div className="history-table-wrap">
+        {shown.length === 0 ? <p className="empty-msg">No radio punches yet — autosend stations and relays report here</p> :
+        <table className="history-table"><thead><tr><th>Time</th><th>Control</th><th>Card</th><th>Name</th><th>Club</th><th>Class</th><th>Source</th></tr></thead>
+        <tbody>{shown.map(p => {
+          const c = competitors.find(c => c.cardNumber === p.cardNumber);
+          return <tr key={p.id}>
+            <td className="mono">{formatClockTime(p.timeMs)}</td><td className="mono">{p.controlCode}{p.mode && p.mode !== 'Control' ? ` ${p.mode}` : ''}</td>
+            <td className="mono">{p.cardNumber}</td><td>{c?.name ?? ''}</td><td>{c?.club ?? ''}</td><td>{c?.className ?? ''}</td>
+            <td className="relay-source">{p.source}</td>
+          </tr>;
+        })}</tbody></table>}
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,37 @@
 import React from 'react';
-import type { SiCardData, ValidationResult } from '../types';
-import { NO_TIME } from '../types';
+import type { SiCardData, ValidationResult, Competitor } from '../types';
+import { NO_TIME, courseStartTime, courseRaceTime, controlPoints, formatClockTime } from '../types';
 import { formatTime, formatRaceTime } from '../utils';
 
-export function ResultScreen({ card, validation, paused, onDismiss }: {
-  card: SiCardData; validation: ValidationResult | null; paused: boolean; onDismiss: () => void;
+export function ResultScreen({ card, competitor, validation, paused, onDismiss }: {
+  card: SiCardData; competitor: Competitor | null; validation: ValidationResult | null; paused: boolean; onDismiss: () => void;
 }) {
   const isGood = validation ? validation.allCorrect : true;
-  const raceMs = (card.startTime !== NO_TIME && card.finishTime !== NO_TIME) ? card.finishTime - card.startTime : -1;
+  // Validations carry the times resolved from all sources; reads stored before that are timed from the card
+  const raceMs = validation?.raceTimeMs ?? courseRaceTime(validation?.course, card);
+  const startMs = validation?.startTimeMs ?? courseStartTime(validation?.course, card);
+  const score = validation?.score;
+  const startCheck = validation?.startCheck;
   return (
     <div className={`result-screen ${isGood ? 'result-good' : 'result-bad'}`} onClick={onDismiss}>
       <div className="result-face"><div className="face-circle"><div className="face-eyes"><div className="eye" /><div className="eye" /></div>
         <div className={`face-mouth ${isGood ? 'mouth-happy' : 'mouth-sad'}`} /></div></div>
       <div className="result-info">
+        {competitor && <div className="result-course">{competitor.name}</div>}
+        {competitor && (competitor.club || competitor.className) && <div className="result-card-number">{[competitor.club, competitor.className].filter(Boolean).join(' · ')}</div>}
         <div className="result-card-number">Card {card.cardNumber}</div>
+        {card.siac?.batteryLow && <div className="result-battery-low">SIAC battery low ({card.siac.batteryVoltage?.toFixed(2)} V) — replace it</div>}
+        {startCheck && startCheck.status !== 'onTime' && <div className="result-start-check">
+          {startCheck.status === 'falseStart' ? 'False start' : 'Late start'}: {formatRaceTime(Math.abs(startCheck.differenceMs))} {startCheck.differenceMs < 0 ? 'before' : 'after'} {formatClockTime(startCheck.allocatedTimeMs)}</div>}
         {raceMs > 0 && <div className="result-time">{formatTime(raceMs)}</div>}
         {validation && <div className="result-course">{validation.course.name}</div>}
+        {score && <div className="result-score">{score.total} points{score.penalty > 0 && ` (${score.points} − ${score.penalty} late penalty)`}</div>}
       </div>
       {validation && <div className="result-controls">
-        {validation.controlResults.map((cr, i) => <div key={i} className={`control-row ${cr.found ? 'control-ok' : 'control-miss'}`}>
-          <span className="control-status">{cr.found ? '✓' : '✗'}</span><span className="control-code">{cr.expectedCode}</span>
-          {cr.found && cr.timestampMs !== NO_TIME && card.startTime !== NO_TIME && <span className="control-split">+{formatRaceTime(cr.timestampMs - card.startTime)}</span>}
+        {validation.controlResults.map((cr, i) => <div key={i} className={`control-row ${cr.found ? 'control-ok' : score ? 'control-skip' : 'control-miss'}`}>
+          <span className="control-status">{cr.found ? '✓' : score ? '·' : '✗'}</span><span className="control-code">{cr.expectedCode}</span>
+          {cr.found && cr.timestampMs !== NO_TIME && startMs !== NO_TIME && <span className="control-split">+{formatRaceTime(cr.timestampMs - startMs)}</span>}
+          {score && cr.found && <span className="control-split">{controlPoints(validation.course, cr.expectedCode)} pts</span>}
         </div>)}
         {validation.extraControls.length > 0 && <div className="extra-controls">Extra: {validation.extraControls.join(', ')}</div>}
       </div>}
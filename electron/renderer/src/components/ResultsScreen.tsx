@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import type { StoredRead, Competitor, Standing, LegResult, RelayTeamResult } from '../types';
+import { buildStandings, buildRelayResults, NO_TIME } from '../types';
+import { formatRaceTime } from '../utils';
+
+const STATUS_BADGE: Record<string, string> = { OK: 'badge-ok', NC: 'badge-nc', MP: 'badge-pm', DNF: 'badge-pm', DSQ: 'badge-pm' };
+
+function rank(r: number | null) { return r === null ? '' : ` (${r})`; }
+
+function LegsRow({ legs }: { legs: LegResult[] }) {
+  return (
+    <tr className="standing-legs"><td colSpan={7}><div className="legs-grid">
+      {legs.map((l, i) => <div key={i} className="leg-cell">
+        <span className="leg-code">{i + 1}{l.controlCode === null ? ' F' : `-${l.controlCode}`}</span>
+        <span className={`mono ${l.splitRank === 1 ? 'leg-best' : ''}`}>{l.splitTimeMs === NO_TIME ? '-----' : formatRaceTime(l.splitTimeMs)}{rank(l.splitRank)}</span>
+        <span className={`mono leg-time ${l.legRank === 1 ? 'leg-best' : ''}`}>{l.legTimeMs === NO_TIME ? '-----' : formatRaceTime(l.legTimeMs)}{rank(l.legRank)}</span>
+      </div>)}
+    </div></td></tr>
+  );
+}
+
+function StandingRow({ s }: { s: Standing }) {
+  const [open, setOpen] = useState(false);
+  const name = s.competitor?.name || `Card ${s.read.card.cardNumber}`;
+  return (<>
+    <tr className={`${s.status === 'OK' ? '' : 'row-error'} ${s.legs.length > 0 ? 'row-expandable' : ''}`} onClick={() => setOpen(o => !o)}>
+      <td className="mono">{s.position ?? ''}</td><td>{name}</td><td>{s.competitor?.club ?? ''}</td>
+      <td className="mono">{s.score ? `${s.score.total} pts` : ''}</td>
+      <td className="mono">{formatRaceTime(s.timeMs)}</td>
+      <td className="mono">{s.timeBehindMs ? `+${formatRaceTime(s.timeBehindMs)}` : ''}</td>
+      <td><span className={`badge ${STATUS_BADGE[s.status]}`}>{s.status}</span></td>
+    </tr>
+    {open && s.legs.length > 0 && <LegsRow legs={s.legs} />}
+  </>);
+}
+
+function TeamRow({ t }: { t: RelayTeamResult }) {
+  const [open, setOpen] = useState(false);
+  return (<>
+    <tr className={`${t.status === 'OK' ? '' : 'row-error'} row-expandable`} onClick={() => setOpen(o => !o)}>
+      <td className="mono">{t.position ?? ''}</td><td>{t.team}</td><td>{t.club}</td>
+      <td className="mono">{formatRaceTime(t.timeMs)}</td>
+      <td className="mono">{t.timeBehindMs ? `+${formatRaceTime(t.timeBehindMs)}` : ''}</td>
+      <td><span className={`badge ${STATUS_BADGE[t.status]}`}>{t.status}</span></td>
+    </tr>
+    {open && <tr className="standing-legs"><td colSpan={6}><div className="legs-grid">
+      {t.legs.map(l => <div key={l.leg} className="leg-cell">
+        <span className="leg-code">Leg {l.leg}{l.restarted ? ' (restart)' : ''}</span>
+        <span>{l.competitor?.name ?? '-----'}</span>
+        <span className="mono leg-time">{l.timeMs === NO_TIME ? '-----' : formatRaceTime(l.timeMs)} {l.read ? l.status : ''}</span>
+      </div>)}
+    </div></td></tr>}
+  </>);
+}
+
+function RelayResults({ reads, competitors, zeroTimeMs }: { reads: StoredRead[]; competitors: Competitor[]; zeroTimeMs: number }) {
+  const classes = useMemo(() => buildRelayResults(reads, competitors, zeroTimeMs), [reads, competitors, zeroTimeMs]);
+  return classes.length === 0 ? <p className="empty-msg">No relay teams entered</p> : <>{classes.map(cs => <div key={cs.className} className="standings-class">
+    <h3 className="standings-title">{cs.className}<span className="standings-course">{cs.legCount} legs</span></h3>
+    <table className="history-table"><thead><tr><th>Pos</th><th>Team</th><th>Club</th><th>Time</th><th>Behind</th><th>Status</th></tr></thead>
+    <tbody>{cs.teams.map(t => <TeamRow key={t.team} t={t} />)}</tbody></table>
+  </div>)}</>;
+}
+
+export function ResultsScreen({ reads, competitors, eventName, zeroTimeMs }: { reads: StoredRead[]; competitors: Competitor[]; eventName: string | null; zeroTimeMs: number }) {
+  const [groupBy, setGroupBy] = useState<'class'|'course'|'relay'>('class');
+  const eventReads = useMemo(() => reads.filter(r => r.eventName === eventName), [reads, eventName]);
+  const classes = useMemo(
+    () => groupBy === 'relay' ? [] : buildStandings(eventReads, competitors, { groupBy }),
+    [eventReads, competitors, groupBy]
+  );
+  const hasRelay = competitors.some(c => c.leg !== undefined);
+  return (
+    <div className="log-screen">
+      <div className="log-tabs">
+        <button className={`tab ${groupBy==='class'?'active':''}`} onClick={() => setGroupBy('class')}>By Class</button>
+        <button className={`tab ${groupBy==='course'?'active':''}`} onClick={() => setGroupBy('course')}>By Course</button>
+        {hasRelay && <button className={`tab ${groupBy==='relay'?'active':''}`} onClick={() => setGroupBy('relay')}>Relay</button>}
+        <span className="log-tabs-note">{groupBy === 'relay' ? 'Click a team for its legs' : 'Click a runner for splits — leg and split rank in brackets'}</span>
+      </div>
+      <div className="history-table-wrap">
+        {groupBy === 'relay' ? <RelayResults reads={eventReads} competitors={competitors} zeroTimeMs={zeroTimeMs} /> : classes.length === 0 ? <p className="empty-msg">No results yet</p> : classes.map(cs => <div key={cs.className} className="standings-class">
+          <h3 className="standings-title">{cs.className}{cs.courseName && cs.courseName !== cs.className && <span className="standings-course">{cs.courseName}</span>}</h3>
+          <table className="history-table"><thead><tr><th>Pos</th><th>Name</th><th>Club</th><th>Score</th><th>Time</th><th>Behind</th><th>Status</th></tr></thead>
+          <tbody>{cs.standings.map(s => <StandingRow key={s.read.id} s={s} />)}</tbody></table>
+        </div>)}
+      </div>
+    </div>
+  );
+}
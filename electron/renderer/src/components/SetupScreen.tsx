@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
-import type { Course, CourseEvent, PortInfo } from '../types';
-import { api, parseIofXml, ANIMAL_O_EVENT } from '../utils';
+import type { Course, CourseEvent, PortInfo, Competitor, CourseDataResult, RaceCourses, SiStationInfo, SiStationSettings, SiCardCheck, StartSource, FinishSource } from '../types';
+import { parseCourseData, parseCourseFile, parseClockTime, formatClockTime, isProtocolConfigError, DEFAULT_TIMING_PRECEDENCE } from '../types';
+import { api } from '../utils';
+import { CompetitorsPanel } from './CompetitorsPanel';
 
-export function SetupScreen({ ports, selectedPort, onSelectPort, onScanPorts, onConnect, events, activeEventIndex, onSelectEvent, onAddEvent, onRemoveEvent, statusMessage }: {
+export function SetupScreen({ ports, selectedPort, onSelectPort, onScanPorts, onConnect, events, activeEventIndex, onSelectEvent, onAddEvent, onUpdateEvent, onRemoveEvent, competitors, onCompetitorsChanged, statusMessage }: {
   ports: PortInfo[]; selectedPort: string; onSelectPort: (p: string) => void; onScanPorts: () => void; onConnect: () => void;
-  events: CourseEvent[]; activeEventIndex: number; onSelectEvent: (i: number) => void; onAddEvent: (ev: CourseEvent) => void; onRemoveEvent: (i: number) => void; statusMessage: string;
+  events: CourseEvent[]; activeEventIndex: number; onSelectEvent: (i: number) => void; onAddEvent: (ev: CourseEvent) => void;
+  onUpdateEvent: (i: number, ev: CourseEvent) => void; onRemoveEvent: (i: number) => void;
+  competitors: Competitor[]; onCompetitorsChanged: () => void; statusMessage: string;
 }) {
   const [showNew, setShowNew] = useState(false);
   return (
@@ -22,6 +26,7 @@ export function SetupScreen({ ports, selectedPort, onSelectPort, onScanPorts, on
           </div>
           <button className="btn-primary" onClick={onConnect} disabled={!selectedPort}>Connect</button>
           {statusMessage && <p className="error-msg">{statusMessage}</p>}
+          <StationTools portPath={selectedPort} needsProtocolFix={isProtocolConfigError(statusMessage)} onFixed={onConnect} />
         </section>
 
         <section className="panel events-panel">
@@ -38,14 +43,144 @@ export function SetupScreen({ ports, selectedPort, onSelectPort, onScanPorts, on
                 <div className="event-courses-preview">
                   {ev.courses.map((c, j) => <span key={j} className="course-chip">{c.name}<span className="course-chip-count">{c.controls.length}</span></span>)}
                 </div>
-                {ev !== ANIMAL_O_EVENT && <button className="event-remove" onClick={e => { e.stopPropagation(); onRemoveEvent(i); }}>×</button>}
+                {i === activeEventIndex && <EventTime event={ev} onChange={t => onUpdateEvent(i, { ...ev, ...t })} />}
+                {i > 0 && <button className="event-remove" onClick={e => { e.stopPropagation(); onRemoveEvent(i); }}>×</button>}
               </div>
             ))}
           </div>
           {!showNew ? <button className="btn-new-event" onClick={() => setShowNew(true)}>+ New Event</button>
           : <NewEventForm onAdd={ev => { onAddEvent(ev); setShowNew(false); }} onCancel={() => setShowNew(false)} />}
         </section>
+
+        <CompetitorsPanel competitors={competitors} eventName={events[activeEventIndex]?.name ?? null} eventDate={events[activeEventIndex]?.date} onChanged={onCompetitorsChanged} />
+      </div>
+    </div>
+  );
+}
+
+// ─── StationTools (private to SetupScreen) ──────────────────────────────────
+
+/**
+ * Direct commands to the station on the selected port: station info and
+ * configuration, reading the backup memory of a control or finish station, and
+ * clearing or checking the SI-Card 10/11/SIAC inserted in a master station.
+ * When the reader failed because of its protocol settings, offers to fix them and reconnect.
+ */
+function StationTools({ portPath, needsProtocolFix, onFixed }: { portPath: string; needsProtocolFix: boolean; onFixed: () => void }) {
+  const [busy, setBusy] = useState(false);
+  const [info, setInfo] = useState<SiStationInfo | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const run = async (command: () => Promise<any>): Promise<any> => {
+    setBusy(true); setMessage(null);
+    const result = await command();
+    setBusy(false);
+    if (!result.success) { setMessage({ text: result.error || 'Station command failed', error: true }); return null; }
+    return result;
+  };
+  const readInfo = async () => { const r = await run(() => api.readStationInfo(portPath)); if (r) setInfo(r.info); };
+  const configure = async (settings: SiStationSettings, done: string) => {
+    const r = await run(() => api.configureStation(portPath, settings));
+    if (r) { setInfo(r.info); setMessage({ text: done, error: false }); }
+    return r !== null;
+  };
+  const fixProtocol = async () => {
+    if (await configure({ protocol: { extendedProtocol: true, handshake: true } }, 'Extended protocol and handshake switched on.')) onFixed();
+  };
+  const readBackup = async () => {
+    const r = await run(() => api.readStationBackup(portPath));
+    if (!r) return;
+    const saved = r.file ? ` Saved to ${r.file}.` : ' Not saved.';
+    const overflow = r.overflow ? ' The backup memory overflowed, so the oldest punches are lost.' : '';
+    setMessage({ text: `Read ${r.count} backup records.${saved}${overflow}`, error: false });
+  };
+  const clearCard = async () => {
+    const r = await run(() => api.clearCard(portPath));
+    if (r) setMessage({ text: `Card ${r.cardNumber} cleared.`, error: false });
+  };
+  const checkCard = async () => {
+    const r = await run(() => api.checkCard(portPath));
+    if (!r) return;
+    const check: SiCardCheck = r.check;
+    const siac = check.siac;
+    const battery = siac && siac.batteryVoltage !== null ? ` Battery ${siac.batteryVoltage.toFixed(2)} V.` : '';
+    const airPlus = siac ? (siac.airPlusOn ? ' Air+ on.' : ' Air+ not allowed on this card.') : '';
+    const low = siac?.batteryLow ? ' Battery low, replace it before handing the card out.' : '';
+    setMessage({ text: `Card ${check.cardNumber} checked.${battery}${airPlus}${low}`, error: !!siac?.batteryLow });
+  };
+
+  return (
+    <div className="station-tools">
+      {needsProtocolFix && <button className="btn-primary" onClick={fixProtocol} disabled={!portPath || busy}>Fix Station Settings and Connect</button>}
+      <div className="station-buttons">
+        <button className="btn-secondary" onClick={readInfo} disabled={!portPath || busy}>Station Info</button>
+        <button className="btn-secondary" onClick={readBackup} disabled={!portPath || busy}
+          title="Read the punches stored in a control or finish station connected over USB">Read Backup</button>
+        <button className="btn-secondary" onClick={clearCard} disabled={!portPath || busy}
+          title="Erase the punches of the SI-Card 10/11/SIAC in the station and switch air+ off">Clear Card</button>
+        <button className="btn-secondary" onClick={checkCard} disabled={!portPath || busy}
+          title="Write the check time to the SI-Card 10/11/SIAC in the station and switch air+ on">Check Card</button>
       </div>
+      {info && <StationInfoTable info={info} busy={busy} onConfigure={configure} />}
+      {busy && <p className="info-msg">Talking to the station…</p>}
+      {message && <p className={message.error ? 'error-msg' : 'info-msg'}>{message.text}</p>}
+    </div>
+  );
+}
+
+function StationInfoTable({ info, busy, onConfigure }: {
+  info: SiStationInfo; busy: boolean; onConfigure: (settings: SiStationSettings, done: string) => void;
+}) {
+  const readoutReady = info.extendedProtocol && info.handshake;
+  const driftS = info.clock ? Math.round((new Date(info.clock).getTime() - Date.now()) / 1000) : null;
+  return (
+    <table className="station-info">
+      <tbody>
+        <tr><th>Station</th><td>{info.stationCode} ({info.mode ?? 'unknown mode'})</td><td /></tr>
+        <tr><th>Model</th><td>{info.model}, firmware {info.firmware}, serial {info.serialNumber}</td><td /></tr>
+        <tr>
+          <th>Protocol</th><td>{info.extendedProtocol ? 'Extended' : 'Legacy'}, {info.handshake ? 'handshake' : 'autosend'}</td>
+          <td>{!readoutReady && <button className="btn-link" disabled={busy} onClick={() => onConfigure({ protocol: { extendedProtocol: true, handshake: true } }, 'Extended protocol and handshake switched on.')}>Fix</button>}</td>
+        </tr>
+        <tr>
+          <th>SI-Card 6</th><td>192 punches {info.si6_192Punches ? 'on' : 'off'}</td>
+          <td><button className="btn-link" disabled={busy} onClick={() => onConfigure({ si6_192Punches: !info.si6_192Punches }, `192 punches mode switched ${info.si6_192Punches ? 'off' : 'on'}.`)}>{info.si6_192Punches ? 'Switch off' : 'Switch on'}</button></td>
+        </tr>
+        <tr>
+          <th>Clock</th><td>{info.clock ? new Date(info.clock).toLocaleString() : '—'}{driftS !== null && ` (${driftS >= 0 ? '+' : ''}${driftS} s)`}</td>
+          <td><button className="btn-link" disabled={busy} onClick={() => onConfigure({ setClock: true }, 'Station clock set to the computer time.')}>Set</button></td>
+        </tr>
+        <tr><th>Battery</th><td>{info.batteryVoltage.toFixed(2)} V, changed {info.batteryDate ?? 'unknown'}</td><td /></tr>
+      </tbody>
+    </table>
+  );
+}
+
+// ─── EventTime (private to SetupScreen) ─────────────────────────────────────
+
+/** Start time sources in order of precedence; "radio" is a start or finish station on the punch feed */
+const START_ORDERS: { label: string; sources: StartSource[] }[] = [
+  { label: 'Start list, mass start, card, radio', sources: DEFAULT_TIMING_PRECEDENCE.start },
+  { label: 'Start list, mass start, radio, card', sources: ['startList', 'fixed', 'startFeed', 'box'] },
+  { label: 'Card, radio', sources: ['box', 'startFeed'] },
+  { label: 'Radio, card', sources: ['startFeed', 'box'] },
+];
+const FINISH_ORDERS: { label: string; sources: FinishSource[] }[] = [
+  { label: 'Card, radio', sources: DEFAULT_TIMING_PRECEDENCE.finish },
+  { label: 'Radio, card', sources: ['finishFeed', 'card'] },
+];
+
+function EventTime({ event, onChange }: { event: CourseEvent; onChange: (t: Partial<CourseEvent>) => void }) {
+  const timing = event.timing ?? DEFAULT_TIMING_PRECEDENCE;
+  return (
+    <div className="event-time" onClick={e => e.stopPropagation()}
+      title="Card times before the zero time count as the next day. SI-Card 5 only stores 12-hour times: set the zero time just before the first start.">
+      <label>Zero time <input type="time" value={formatClockTime(event.zeroTimeMs ?? 0).slice(0, 5)} onChange={e => onChange({ zeroTimeMs: parseClockTime(e.target.value) ?? 0 })} /></label>
+      <label>Date <input type="date" value={event.date ?? ''} onChange={e => onChange({ date: e.target.value || undefined })} /></label>
+      <label>Start from <select value={timing.start.join(',')} onChange={e => onChange({ timing: { ...timing, start: e.target.value.split(',') as StartSource[] } })}>
+        {START_ORDERS.map(o => <option key={o.label} value={o.sources.join(',')}>{o.label}</option>)}</select></label>
+      <label>Finish from <select value={timing.finish.join(',')} onChange={e => onChange({ timing: { ...timing, finish: e.target.value.split(',') as FinishSource[] } })}>
+        {FINISH_ORDERS.map(o => <option key={o.label} value={o.sources.join(',')}>{o.label}</option>)}</select></label>
     </div>
   );
 }
@@ -57,6 +192,7 @@ function NewEventForm({ onAdd, onCancel }: { onAdd: (ev: CourseEvent) => void; o
   const [name, setName] = useState('');
   const [text, setText] = useState('');
   const [err, setErr] = useState('');
+  const [imported, setImported] = useState<CourseDataResult | null>(null);
 
   const addText = () => {
     const eName = name.trim() || 'Custom Event';
@@ -70,19 +206,31 @@ function NewEventForm({ onAdd, onCancel }: { onAdd: (ev: CourseEvent) => void; o
     if (courses.length > 0) onAdd({ name: eName, courses });
   };
 
+  // Files with one race and no problems are added directly; otherwise show the problems and let the user pick a race
+  const importXml = (content: string) => {
+    setErr(''); setImported(null);
+    let parsed: CourseDataResult;
+    try {
+      if (content.trim().startsWith('<')) { parsed = parseCourseData(content); }
+      else { const f = parseCourseFile(content); parsed = { eventName: f.eventName, races: [{ raceNumber: 1, controls: [], courses: f.courses, classAssignments: [] }], errors: f.errors }; }
+    } catch (e: any) { setErr(e.message); return; }
+    const races = parsed.races.filter(r => r.courses.length > 0);
+    if (races.length === 0) { setErr(['No courses found.', ...parsed.errors].join('\n')); return; }
+    races.length === 1 && parsed.errors.length === 0 ? addRace(parsed, races[0]) : setImported(parsed);
+  };
+  const addRace = (parsed: CourseDataResult, race: RaceCourses) => {
+    const suffix = parsed.races.length > 1 ? ` (race ${race.raceNumber})` : '';
+    onAdd({ name: (name.trim() || parsed.eventName) + suffix, courses: race.courses });
+  };
+
   const handleNativeFileOpen = async () => {
     setErr('');
     const result = await api.openXmlDialog();
     if (!result) return; // cancelled
-    const parsed = parseIofXml(result.content);
-    if (parsed) {
-      onAdd({ name: name.trim() || parsed.name, courses: parsed.courses });
-    } else {
-      setErr('Could not parse IOF XML file. Make sure it\'s a valid IOF v3 CourseData file.');
-    }
+    importXml(result.content);
   };
 
-  const handlePaste = () => { const p = parseIofXml(text); p ? onAdd({ name: name.trim() || p.name, courses: p.courses }) : setErr('Could not parse XML.'); };
+  const handlePaste = () => importXml(text);
 
   return (
     <div className="new-event-form">
@@ -90,7 +238,7 @@ function NewEventForm({ onAdd, onCancel }: { onAdd: (ev: CourseEvent) => void; o
       <input type="text" placeholder="Event name" value={name} onChange={e => setName(e.target.value)} className="input-event-name" />
       <div className="mode-tabs">
         <button className={`mode-tab ${mode==='text'?'active':''}`} onClick={() => setMode('text')}>Paste Controls</button>
-        <button className={`mode-tab ${mode==='xml'?'active':''}`} onClick={() => setMode('xml')}>IOF XML</button>
+        <button className={`mode-tab ${mode==='xml'?'active':''}`} onClick={() => setMode('xml')}>IOF XML / JSON</button>
       </div>
       {mode === 'text' && <div className="text-input-section">
         <textarea placeholder={'One course per line:\nLion: 31, 33, 36, 38, 39\nFrog: 32, 40, 39, 38, 35\n\nOr just controls (auto-named):\n31, 32, 33, 34, 35'}
@@ -98,11 +246,18 @@ function NewEventForm({ onAdd, onCancel }: { onAdd: (ev: CourseEvent) => void; o
         <button className="btn-primary" onClick={addText}>Create Event</button>
       </div>}
       {mode === 'xml' && <div className="xml-input-section">
-        <button className="btn-upload" onClick={handleNativeFileOpen}>📁 Open XML File…</button>
+        <button className="btn-upload" onClick={handleNativeFileOpen}>📁 Open XML/JSON File…</button>
         <div className="xml-divider"><span className="xml-or">or paste XML below</span></div>
-        <textarea placeholder="Paste IOF v3 XML here..." value={text} onChange={e => { setText(e.target.value); setErr(''); }} className="course-textarea" rows={6} />
+        <textarea placeholder="Paste IOF v3 XML or a JSON course list here..." value={text} onChange={e => { setText(e.target.value); setErr(''); }} className="course-textarea" rows={6} />
         {text.trim() && <button className="btn-primary" onClick={handlePaste}>Import from XML</button>}
         {err && <p className="error-msg">{err}</p>}
+        {imported && <div className="import-review">
+          {imported.errors.map((e, i) => <p key={i} className="error-msg">{e}</p>)}
+          {imported.races.filter(r => r.courses.length > 0).map(r =>
+            <button key={r.raceNumber} className="btn-primary" onClick={() => addRace(imported, r)}>
+              Add {imported.races.length > 1 ? `race ${r.raceNumber}` : 'event'} ({r.courses.length} courses)
+            </button>)}
+        </div>}
       </div>}
     </div>
   );
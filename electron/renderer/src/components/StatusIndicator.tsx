@@ -1,15 +1,30 @@
 import React from 'react';
+import type { StationStatus } from '../types';
 
 const labels: Record<string, string> = {
   OFF: 'Disconnected', STARTING: 'Connecting…', ON: 'Connected',
   READY: 'Ready', PROCESSING: 'Reading card…', PROCESSING_ERROR: 'Read error', FATAL_ERROR: 'Error',
+  RECONNECTING: 'Reconnecting…',
 };
 
-export function StatusIndicator({ status }: { status: string }) {
+function Indicator({ status, station, onDisconnect }: { status: string; station?: string; onDisconnect?: () => void }) {
   return (
-    <div className={`status-indicator ${['ON','READY','PROCESSING'].includes(status) ? 'active' : ''}`}>
+    <div className={`status-indicator ${['ON','READY','PROCESSING'].includes(status) ? 'active' : status === 'RECONNECTING' ? 'reconnecting' : ''}`}>
       <span className="status-dot" />
+      {station && <span className="status-station">{station}</span>}
       <span className="status-label">{labels[status] || status}</span>
+      {onDisconnect && <button className="status-disconnect" onClick={onDisconnect} title={`Disconnect ${station}`}>✕</button>}
+    </div>
+  );
+}
+
+/** One indicator per connected station; a single station keeps the plain layout */
+export function StatusIndicator({ stations, onDisconnect }: { stations: StationStatus[]; onDisconnect: (path: string) => void }) {
+  if (stations.length === 0) return <Indicator status="OFF" />;
+  if (stations.length === 1) return <Indicator status={stations[0].status} />;
+  return (
+    <div className="status-stations">
+      {stations.map(s => <Indicator key={s.path} status={s.status} station={s.path} onDisconnect={() => onDisconnect(s.path)} />)}
     </div>
   );
 }
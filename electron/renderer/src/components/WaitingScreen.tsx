@@ -1,13 +1,29 @@
 import React from 'react';
+import type { SiPartialRead } from '../types';
 
-export function WaitingScreen({ status }: { status: string }) {
+export function WaitingScreen({ status, reinsert, multiStation }: {
+  status: string; reinsert: { read: SiPartialRead; station: string } | null; multiStation: boolean;
+}) {
+  if (reinsert && status !== 'PROCESSING' && status !== 'RECONNECTING') {
+    const { read, station } = reinsert;
+    return (
+      <div className="waiting-screen reinsert">
+        <div className="waiting-content">
+          <div className="waiting-icon">⟲</div>
+          <h2>Please re-insert {read.cardNumber ? `card ${read.cardNumber}` : 'the card'}</h2>
+          <p>The card could not be read completely{multiStation ? ` on ${station}` : ''}. Insert it again and hold it until the station beeps.</p>
+          <p className="reinsert-detail">{read.cardSeries}: {read.reason}</p>
+        </div>
+      </div>
+    );
+  }
   return (
     <div className="waiting-screen">
       <div className="waiting-pulse" />
       <div className="waiting-content">
         <div className="waiting-icon">◈</div>
-        <h2>{status === 'PROCESSING' ? 'Reading card…' : 'Waiting for card'}</h2>
-        <p>Insert an SI card into the station</p>
+        <h2>{status === 'PROCESSING' ? 'Reading card…' : status === 'RECONNECTING' ? 'Station lost' : 'Waiting for card'}</h2>
+        <p>{status === 'RECONNECTING' ? 'Reconnecting — plug the station back in' : 'Insert an SI card into the station'}</p>
       </div>
     </div>
   );
@@ -1,16 +1,43 @@
 // Re-export core types so components only need one import source
-export type { SiPunch, SiCardData } from '@ngz/si-protocol/types';
+export type { SiPunch, SiCardData, SiPartialRead, SiacInfo, SiCardCheck, SiCardOwner } from '@ngz/si-protocol/types';
 export { NO_TIME } from '@ngz/si-protocol/types';
-export type { Course, ControlResult, ValidationResult } from '@ngz/course-validator/validator';
-export { autoDetectCourse } from '@ngz/course-validator/validator';
+export { parseClockTime, formatClockTime } from '@ngz/si-protocol/time';
+export type { SiStationInfo, SiStationSettings, SiStationMode } from '@ngz/si-protocol/system-data';
+export { STATION_MODES, isProtocolConfigError } from '@ngz/si-protocol/system-data';
+export type { Course, RelayLeg, ControlResult, ValidationResult } from '@ngz/course-validator/validator';
+export type { ScoreResult } from '@ngz/course-validator/validator';
+export { autoDetectCourse, racePunches, controlPoints } from '@ngz/course-validator/validator';
+export type { StartSource, FinishSource, TimingPrecedence, RaceStatus } from '@ngz/course-validator/timing';
+export { DEFAULT_TIMING_PRECEDENCE, courseStartTime, courseRaceTime } from '@ngz/course-validator/timing';
+export type { CourseDataResult, RaceCourses } from '@ngz/course-validator/iof-course-data';
+export { parseCourseData } from '@ngz/course-validator/iof-course-data';
+export { parseCourseFile } from '@ngz/course-validator/course-file';
+export type { StoredRead, StoredLogEntry } from '@ngz/storage/types';
+export type { Competitor, CompetitorInput } from '@ngz/competitors/types';
+export { validateForCompetitor, competitorFromCard } from '@ngz/competitors/resolve';
+export type { RunnerStatus, LegResult, Standing, ClassStandings } from '@ngz/results/types';
+export { buildStandings, readRaceTimeMs } from '@ngz/results/standings';
+export type { ClassStartSettings, StartSlot, ClassStartList } from '@ngz/start-list/types';
+export type { RelayHandover, RelayLegResult, RelayTeamResult, RelayClassResults } from '@ngz/relay/types';
+export { relayHandover, buildRelayResults } from '@ngz/relay/results';
+export type { Passing, RelayProtocol, StationModes } from '@ngz/online/types';
+export { feedTiming, isTimingPassing, parseStationModes } from '@ngz/online/types';
+import type { Course } from '@ngz/course-validator/validator';
+import type { TimingPrecedence } from '@ngz/course-validator/timing';
 
 // ─── Local types ────────────────────────────────────────────────────────────────
 
-export interface CourseEvent { name: string; courses: Course[]; }
+export interface CourseEvent {
+  name: string; courses: Course[];
+  zeroTimeMs?: number;   // Event zero time (ms since midnight), default 00:00
+  date?: string;         // YYYY-MM-DD, default the day of the read
+  timing?: TimingPrecedence;  // Start and finish time sources, default DEFAULT_TIMING_PRECEDENCE
+}
 export interface PortInfo { path: string; manufacturer?: string; vendorId?: string; productId?: string; isSportident: boolean; }
 export interface LogEntry { time: string; direction: string; message: string; }
+export interface StationStatus { path: string; status: string; }
 export interface ReadHistoryEntry {
-  cardNumber: string; cardSeries: string; time: string; raceTime: string;
+  cardNumber: string; cardSeries: string; competitorName: string; time: string; station: string; raceTime: string;
   courseName: string; allCorrect: boolean; punchCount: number;
 }
-export type AppScreen = 'setup' | 'waiting' | 'result' | 'log';
+export type AppScreen = 'setup' | 'waiting' | 'result' | 'results' | 'radio' | 'log';
@@ -1,14 +1,26 @@
-import { NO_TIME } from './types';
-import type { Course, CourseEvent } from './types';
+import { NO_TIME, readRaceTimeMs } from './types';
+import type { CourseEvent, StoredRead, ReadHistoryEntry, Competitor } from './types';
 
 // ─── Electron API ──────────────────────────────────────────────────────────────
 
 export const api = (window as any).electronAPI || {
   listPorts: async () => [], autoDetect: async () => null,
   startDriver: async () => ({ success: false, error: 'Not in Electron' }),
-  stopDriver: async () => {}, openXmlDialog: async () => null,
-  onStatus: () => {}, onCardRead: () => {},
-  onLog: () => {}, removeAllListeners: () => {},
+  stopDriver: async () => {}, setRecording: async () => null, openXmlDialog: async () => null,
+  readStationBackup: async () => ({ success: false, error: 'Not in Electron' }),
+  readStationInfo: async () => ({ success: false, error: 'Not in Electron' }),
+  configureStation: async () => ({ success: false, error: 'Not in Electron' }),
+  checkCard: async () => ({ success: false, error: 'Not in Electron' }),
+  clearCard: async () => ({ success: false, error: 'Not in Electron' }),
+  startRelay: async () => ({ success: false, error: 'Not in Electron' }),
+  stopRelay: async () => {}, listPassings: async () => [], listTimingPassings: async () => [],
+  loadStore: async () => ({ reads: [], logs: [] }), saveValidation: async () => null,
+  listCompetitors: async () => [], addCompetitor: async () => { throw new Error('Not in Electron'); },
+  updateCompetitor: async () => { throw new Error('Not in Electron'); }, removeCompetitor: async () => {},
+  importCompetitors: async () => null, exportResultsXml: async () => null,
+  drawStartList: async () => { throw new Error('Not in Electron'); }, exportStartListXml: async () => null,
+  onStatus: () => {}, onCardRead: () => {}, onReinsert: () => {},
+  onLog: () => {}, onPassing: () => {}, removeAllListeners: () => {},
 };
 
 // ─── Built-in Animal-O Event ───────────────────────────────────────────────────
@@ -43,46 +55,22 @@ export function formatRaceTime(ms: number): string {
   return `${Math.floor(t/60)}:${(t%60).toString().padStart(2,'0')}`;
 }
 
-// ─── IOF XML Parser ────────────────────────────────────────────────────────────
+// ─── Stations ──────────────────────────────────────────────────────────────────
 
-export function parseIofXml(xmlText: string): CourseEvent | null {
-  try {
-    const doc = new DOMParser().parseFromString(xmlText, 'text/xml');
-    if (doc.querySelector('parsererror')) return null;
-    const ns = 'http://www.orienteering.org/datastandard/3.0';
-    const g = (parent: Element, ...names: string[]) => {
-      for (const n of names) {
-        const el = parent.getElementsByTagNameNS(ns, n)[0] || parent.getElementsByTagName(n)[0];
-        if (el) return el;
-      }
-      return null;
-    };
-    const eventEl = g(doc.documentElement, 'Event');
-    let eventName = 'Imported Event';
-    if (eventEl) { const n = g(eventEl, 'n', 'Name'); if (n?.textContent) eventName = n.textContent.trim(); }
-    const courseEls = doc.getElementsByTagNameNS(ns, 'Course').length > 0
-      ? doc.getElementsByTagNameNS(ns, 'Course') : doc.getElementsByTagName('Course');
-    const courses: Course[] = [];
-    for (let i = 0; i < courseEls.length; i++) {
-      const ce = courseEls[i];
-      const nameEl = g(ce, 'n', 'Name');
-      const name = nameEl?.textContent?.trim() || `Course ${i+1}`;
-      const ccEls = ce.getElementsByTagNameNS(ns, 'CourseControl').length > 0
-        ? ce.getElementsByTagNameNS(ns, 'CourseControl') : ce.getElementsByTagName('CourseControl');
-      const controls: number[] = [];
-      for (let j = 0; j < ccEls.length; j++) {
-        const cc = ccEls[j];
-        if ((cc.getAttribute('type')||'') === 'Start' || (cc.getAttribute('type')||'') === 'Finish') continue;
-        const ctrl = g(cc, 'Control');
-        if (ctrl?.textContent) { const c = parseInt(ctrl.textContent.trim()); if (!isNaN(c)) controls.push(c); }
-      }
-      if (controls.length > 0) courses.push({ name, controls, isInline: true, useBoxStart: true });
-    }
-    return courses.length > 0 ? { name: eventName, courses } : null;
-  } catch (err) {
-    console.error('Failed to parse IOF XML:', err);
-    return null;
-  }
+/** Status shown for all stations together: the busiest one wins */
+export function overallStatus(stations: { status: string }[]): string {
+  const order = ['PROCESSING', 'READY', 'ON', 'STARTING', 'RECONNECTING', 'PROCESSING_ERROR', 'FATAL_ERROR'];
+  return order.find(s => stations.some(st => st.status === s)) ?? 'OFF';
+}
+
+// ─── Read History ───────────────────────────────────────────────────────────────
+
+export function toHistoryEntry(read: StoredRead, competitors: Competitor[] = []): ReadHistoryEntry {
+  const { card, validation: v } = read;
+  const raceMs = readRaceTimeMs(read);
+  const competitorName = competitors.find(c => c.id === read.competitorId)?.name ?? '';
+  return { cardNumber: card.cardNumber, cardSeries: card.cardSeries, competitorName, time: new Date(read.readAt).toLocaleTimeString(), station: read.station ?? '',
+    raceTime: formatRaceTime(raceMs), courseName: v?.course.name || '(no course)', allCorrect: v?.allCorrect ?? true, punchCount: card.punchCount };
 }
 
 // ─── Sound Effects ─────────────────────────────────────────────────────────────
@@ -8,11 +8,233 @@
  *   npx ts-node src/cli.ts COM3             # Windows — specify port
  *   npx ts-node src/cli.ts /dev/ttyUSB0     # Linux — specify port
  *   npx ts-node src/cli.ts --list           # list all serial ports
+ *   npx ts-node src/cli.ts --simulate       # simulated station with random demo cards
+ *   npx ts-node src/cli.ts COM3 --backup punches.csv  # save a station's backup memory and exit
+ *
+ * Station configuration (prints the station info and exits):
+ *   --info                                   # serial number, firmware, code, mode, battery
+ *   --fix-protocol                           # switch extended protocol and handshake on
+ *   --set-clock                              # set the station clock to the computer's time
+ *   --si6-192 <on|off>                       # SI-Card 6 192 punches mode
+ *   --set-mode <mode>                        # Control, Start, Finish, Readout, Clear, Check, ...
+ *   --set-code <n>                           # station code 1-1023
+ *
+ * Card in a master station (prints the card and exits):
+ *   --check-card                             # SI-Card 10/11/SIAC: write check time, switch air+ on
+ *   --clear-card                             # SI-Card 10/11/SIAC: erase punches, switch air+ off
+ *
+ * Radio controls (any of the above):
+ *   --listen <tcp:PORT|udp:PORT>             # receive punches from a network relay (repeatable);
+ *                                            # without a serial PORT or --simulate, only listen
+ *   --station-modes <code=mode,...>          # modes of relayed stations, e.g. 1=Start,100=Finish
+ *
+ * Course validation (any of the above):
+ *   --courses <file.xml|file.json>           # validate each read, auto-detecting the course
+ *   --course <name>                          # validate every read against one course
+ *   --start-from <sources>                   # start time sources in order of precedence
+ *                                            # (startList,fixed,box,startFeed)
+ *   --finish-from <sources>                  # finish time sources in order (card,finishFeed)
+ *
+ * Protocol traffic (reading cards):
+ *   --record <file.jsonl>                    # record the serial traffic to a capture file
+ *   --replay <file.jsonl>                    # replay a capture instead of opening a port
+ *
+ * Event time (any of the above):
+ *   --zero-time <HH:MM>                      # event zero time (default 00:00)
+ *   --date <YYYY-MM-DD>                      # event date (default today)
  */
 
-import { SiDriver } from './si-protocol/SiDriver';
+import { SiDriver, SiPortAdapter } from './si-protocol/SiDriver';
 import { SiCardData, NO_TIME } from './si-protocol/SiDataFrame';
 import { listPorts, autoDetectSiPort, openPort } from './si-protocol/SiSerial';
+import { SiSimulator, SIMULATOR_PORT_PATH, randomSimulatedCard } from './si-protocol/SiSimulator';
+import { SiTrafficRecorder, SiReplayAdapter, readCapture } from './si-protocol/capture';
+import { SiStation } from './si-protocol/SiStation';
+import { backupToCsv } from './si-protocol/backup';
+import { SiacInfo, SiCardOwner } from './si-protocol/types';
+import {
+  SiStationInfo,
+  SiStationMode,
+  SiStationSettings,
+  STATION_MODES,
+  isProtocolConfigError,
+} from './si-protocol/system-data';
+import { SiTimeConfig, parseClockTime, formatClockTime, localDate, isEventDate } from './si-protocol/time';
+import {
+  Course,
+  ValidationResult,
+  validateCourse,
+  autoDetectCourse,
+  racePunches,
+  controlPoints,
+} from './course-validator/validator';
+import {
+  TimingPrecedence,
+  START_SOURCES,
+  FINISH_SOURCES,
+  DEFAULT_TIMING_PRECEDENCE,
+  parsePrecedence,
+} from './course-validator/timing';
+import { parseCourseFile } from './course-validator/course-file';
+import { PunchFeed } from './online/PunchFeed';
+import { PunchRelay } from './online/PunchRelay';
+import { RelayProtocol, StationModes, parseStationModes } from './online/types';
+import { SerialPort } from 'serialport';
+import * as fs from 'fs';
+
+/** Interval between random cards inserted in --simulate mode */
+const SIMULATED_CARD_INTERVAL_MS = 8000;
+
+// ─── Arguments ─────────────────────────────────────────────────────────────────
+
+interface CliOptions {
+  port?: string;
+  list: boolean;
+  simulate: boolean;
+  coursesFile?: string;
+  courseName?: string;
+  /** Where start and finish times come from (--start-from, --finish-from) */
+  timing: TimingPrecedence;
+  zeroTimeMs: number;
+  eventDate?: string;
+  backupFile?: string;
+  /** Station info or configuration changes requested */
+  stationInfo: boolean;
+  stationSettings: SiStationSettings;
+  /** Clear or check the card in the station (--clear-card, --check-card) */
+  cardCommand?: 'clear' | 'check';
+  /** Network relays to listen on (--listen) */
+  relays: { protocol: RelayProtocol; port: number }[];
+  /** Modes of the stations forwarded by the relays (--station-modes) */
+  stationModes: StationModes;
+  /** Capture files (--record, --replay) */
+  recordFile?: string;
+  replayFile?: string;
+}
+
+function usageError(msg: string): never {
+  console.error(`\x1b[31m${msg}\x1b[0m`);
+  console.error(
+    'Usage: npx ts-node src/cli.ts [PORT | --simulate] [--courses <file.xml|json> [--course <name>]]' +
+      ' [--start-from <sources>] [--finish-from <sources>] [--zero-time <HH:MM>] [--date <YYYY-MM-DD>]'
+  );
+  console.error('       npx ts-node src/cli.ts [PORT | --simulate] --backup <file.csv>');
+  console.error(
+    '       npx ts-node src/cli.ts [PORT | --simulate] [--info] [--fix-protocol] [--set-clock]' +
+      ' [--si6-192 <on|off>] [--set-mode <mode>] [--set-code <n>]'
+  );
+  console.error('       npx ts-node src/cli.ts [PORT | --simulate] --check-card | --clear-card');
+  console.error('       npx ts-node src/cli.ts [PORT | --simulate] --record <file.jsonl>');
+  console.error('       npx ts-node src/cli.ts --replay <file.jsonl>');
+  console.error('       npx ts-node src/cli.ts [PORT | --simulate] --listen <tcp:PORT|udp:PORT> [--station-modes <code=mode,...>] [--zero-time <HH:MM>]');
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    list: false,
+    simulate: false,
+    timing: { ...DEFAULT_TIMING_PRECEDENCE },
+    zeroTimeMs: 0,
+    stationInfo: false,
+    stationSettings: {},
+    relays: [],
+    stationModes: {},
+  };
+  const settings = options.stationSettings;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): string => {
+      const v = args[++i];
+      if (v === undefined || v.startsWith('--')) usageError(`${arg} needs a value`);
+      return v;
+    };
+    if (arg === '--list' || arg === '-l') options.list = true;
+    else if (arg === '--simulate') options.simulate = true;
+    else if (arg === '--courses') options.coursesFile = value();
+    else if (arg === '--course') options.courseName = value();
+    else if (arg === '--start-from' || arg === '--finish-from') {
+      const text = value();
+      try {
+        if (arg === '--start-from') options.timing.start = parsePrecedence(text, START_SOURCES);
+        else options.timing.finish = parsePrecedence(text, FINISH_SOURCES);
+      } catch (err: any) {
+        usageError(`${arg}: ${err.message}`);
+      }
+    }
+    else if (arg === '--backup') options.backupFile = value();
+    else if (arg === '--record') options.recordFile = value();
+    else if (arg === '--replay') options.replayFile = value();
+    else if (arg === '--info') options.stationInfo = true;
+    else if (arg === '--fix-protocol') settings.protocol = { extendedProtocol: true, handshake: true };
+    else if (arg === '--set-clock') settings.setClock = true;
+    else if (arg === '--check-card') options.cardCommand = 'check';
+    else if (arg === '--clear-card') options.cardCommand = 'clear';
+    else if (arg === '--si6-192') {
+      const flag = value();
+      if (flag !== 'on' && flag !== 'off') usageError('--si6-192 needs on or off');
+      settings.si6_192Punches = flag === 'on';
+    } else if (arg === '--set-mode') {
+      const name = value().toLowerCase();
+      const mode = (Object.keys(STATION_MODES) as SiStationMode[]).find((m) => m.toLowerCase() === name);
+      if (!mode) usageError(`--set-mode needs one of ${Object.keys(STATION_MODES).join(', ')}`);
+      settings.mode = mode;
+    } else if (arg === '--set-code') {
+      settings.stationCode = Number(value());
+      if (!Number.isInteger(settings.stationCode)) usageError('--set-code needs a station code');
+    }
+    else if (arg === '--listen') {
+      const m = /^(tcp|udp):(\d{1,5})$/.exec(value());
+      if (!m || Number(m[2]) > 65535) usageError('--listen needs tcp:<port> or udp:<port>');
+      options.relays.push({ protocol: m[1] as RelayProtocol, port: Number(m[2]) });
+    } else if (arg === '--station-modes') {
+      try {
+        options.stationModes = parseStationModes(value());
+      } catch (err: any) {
+        usageError(`--station-modes: ${err.message}`);
+      }
+    } else if (arg === '--zero-time') {
+      const zeroTime = parseClockTime(value());
+      if (zeroTime === null) usageError('--zero-time needs a time of day as HH:MM');
+      options.zeroTimeMs = zeroTime;
+    } else if (arg === '--date') {
+      options.eventDate = value();
+      if (!isEventDate(options.eventDate)) usageError('--date needs a date as YYYY-MM-DD');
+    }
+    else if (arg.startsWith('-')) usageError(`Unknown option ${arg}`);
+    else options.port = arg;
+  }
+  if (options.courseName && !options.coursesFile) {
+    usageError('--course needs a course file (--courses <file>)');
+  }
+  if (options.replayFile && (options.port || options.simulate || options.recordFile)) {
+    usageError('--replay takes the place of the port, --simulate and --record');
+  }
+  return options;
+}
+
+/** Load the course file, or exit with a readable message */
+function loadCourses(file: string, courseName?: string): Course[] {
+  let courses: Course[];
+  try {
+    const loaded = parseCourseFile(fs.readFileSync(file, 'utf-8'));
+    for (const e of loaded.errors) {
+      console.log(`\x1b[33m⚠ ${e}\x1b[0m`);
+    }
+    courses = loaded.courses;
+    console.log(`Loaded ${courses.length} course(s) from ${file} (${loaded.eventName})`);
+  } catch (err: any) {
+    usageError(`Cannot load courses from ${file}: ${err.message}`);
+  }
+
+  if (!courseName) return courses;
+  const course = courses.find((c) => c.name.toLowerCase() === courseName.toLowerCase());
+  if (!course) {
+    usageError(`No course "${courseName}" in ${file}. Courses: ${courses.map((c) => c.name).join(', ')}`);
+  }
+  console.log(`Validating every card against ${course.name}`);
+  return [course];
+}
 
 // ─── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -25,14 +247,22 @@ function formatTime(ms: number): string {
   return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 }
 
-function printCard(card: SiCardData): void {
+/** Time of day, with the date when it isn't the event date */
+function formatClock(ms: number, dateTime: string | undefined, eventDate: string): string {
+  if (ms === NO_TIME) return '--:--:--';
+  const date = dateTime?.slice(0, 10);
+  return date && date !== eventDate ? `${formatClockTime(ms)} (${date})` : formatClockTime(ms);
+}
+
+function printCard(card: SiCardData, eventDate: string): void {
   console.log('');
   console.log('═══════════════════════════════════════════');
   console.log(`  Card: ${card.cardNumber}  (${card.cardSeries})`);
+  if (card.owner) printOwner(card.owner);
   console.log('═══════════════════════════════════════════');
-  console.log(`  Check:  ${formatTime(card.checkTime)}`);
-  console.log(`  Start:  ${formatTime(card.startTime)}`);
-  console.log(`  Finish: ${formatTime(card.finishTime)}`);
+  console.log(`  Check:  ${formatClock(card.checkTime, card.checkDateTime, eventDate)}`);
+  console.log(`  Start:  ${formatClock(card.startTime, card.startDateTime, eventDate)}`);
+  console.log(`  Finish: ${formatClock(card.finishTime, card.finishDateTime, eventDate)}`);
 
   if (card.startTime !== NO_TIME && card.finishTime !== NO_TIME) {
     const raceMs = card.finishTime - card.startTime;
@@ -40,13 +270,14 @@ function printCard(card: SiCardData): void {
   }
 
   console.log(`  Punches: ${card.punchCount}`);
+  if (card.siac) printSiacInfo(card.siac);
   console.log('───────────────────────────────────────────');
 
   for (let i = 0; i < card.punches.length; i++) {
     const p = card.punches[i];
     const num = (i + 1).toString().padStart(3, ' ');
     const code = p.code.toString().padStart(4, ' ');
-    const time = formatTime(p.timestampMs);
+    const time = formatClock(p.timestampMs, p.dateTime, eventDate);
 
     let split = '';
     if (p.timestampMs !== NO_TIME && card.startTime !== NO_TIME) {
@@ -60,32 +291,71 @@ function printCard(card: SiCardData): void {
   console.log('');
 }
 
-// ─── Main ──────────────────────────────────────────────────────────────────────
+function printValidation(v: ValidationResult): void {
+  const kind = v.course.isInline ? 'inline' : 'score';
+  console.log(`  Course: ${v.course.name}  (${kind}, ${v.course.controls.length} controls)`);
+  console.log('───────────────────────────────────────────');
 
-async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  // Score courses are run in any order: list visits by time, with their points
+  const results = v.score
+    ? v.controlResults.filter((cr) => cr.found).sort((a, b) => a.timestampMs - b.timestampMs)
+    : v.controlResults;
 
-  // --list: just list ports and exit
-  if (args.includes('--list') || args.includes('-l')) {
-    console.log('Available serial ports:');
-    console.log('');
-    const ports = await listPorts();
-    if (ports.length === 0) {
-      console.log('  (none found)');
+  const start = v.startTimeMs;
+  let previous = start;
+  results.forEach((cr, i) => {
+    const num = (i + 1).toString().padStart(3, ' ');
+    const code = cr.expectedCode.toString().padStart(4, ' ');
+    if (!cr.found) {
+      console.log(`\x1b[31m  ${num}. Control ${code}   ✗ missing\x1b[0m`);
+      return;
     }
-    for (const p of ports) {
-      const si = p.isSportident ? ' ★ SPORTident' : '';
-      const mfr = p.manufacturer ? ` [${p.manufacturer}]` : '';
-      const vid = p.vendorId ? ` VID:${p.vendorId}` : '';
-      const pid = p.productId ? ` PID:${p.productId}` : '';
-      console.log(`  ${p.path}${mfr}${vid}${pid}${si}`);
+    let times = '';
+    if (cr.timestampMs !== NO_TIME && start !== NO_TIME) {
+      const leg = previous !== NO_TIME ? formatTime(cr.timestampMs - previous) : '--:--:--';
+      times = `+${formatTime(cr.timestampMs - start)}   leg ${leg}`;
+      previous = cr.timestampMs;
     }
-    console.log('');
-    return;
+    const points = v.score ? `   ${controlPoints(v.course, cr.expectedCode)} pts` : '';
+    console.log(`  ${num}. Control ${code}   ✓ ${times}${points}`);
+  });
+
+  if (v.score) {
+    const skipped = v.controlResults.filter((cr) => !cr.found).map((cr) => cr.expectedCode);
+    if (skipped.length > 0) console.log(`  Not visited: ${skipped.join(', ')}`);
+  }
+  if (v.extraControls.length > 0) {
+    console.log(`  Extra:  ${v.extraControls.join(', ')}`);
+  }
+  console.log('───────────────────────────────────────────');
+  if (v.score) {
+    const { points, penalty, total, overtimeMs } = v.score;
+    const late = overtimeMs > 0 ? `  (${formatTime(overtimeMs)} over the limit)` : '';
+    console.log(`  Score:  ${points} − ${penalty} penalty = ${total}${late}`);
+  }
+  if (v.raceTimeMs !== NO_TIME) {
+    console.log(`  Time:   ${formatTime(v.raceTimeMs)}  (start: ${v.startSource}, finish: ${v.finishSource})`);
+  }
+  if (v.startCheck && v.startCheck.status !== 'onTime') {
+    const { status, differenceMs, allocatedTimeMs } = v.startCheck;
+    const when = `${formatTime(Math.abs(differenceMs))} ${differenceMs < 0 ? 'before' : 'after'} ${formatClockTime(allocatedTimeMs)}`;
+    console.log(`\x1b[33m  ${status === 'falseStart' ? 'False start' : 'Late start'}: ${when}\x1b[0m`);
   }
+  if (v.status === 'DNF') {
+    console.log('\x1b[33m  Status: DNF (no finish time)\x1b[0m');
+  } else if (v.status === 'OK') {
+    console.log('\x1b[32m  Status: OK\x1b[0m');
+  } else {
+    console.log(`\x1b[31m  Status: MP (${v.missingCount} missing)\x1b[0m`);
+  }
+  console.log('═══════════════════════════════════════════');
+  console.log('');
+}
 
+/** Find and open the serial port (auto-detected when not given) */
+async function openSerialPort(portArg: string | undefined): Promise<{ adapter: SiPortAdapter; port: SerialPort }> {
   // Determine which port to use
-  let portPath = args[0];
+  let portPath = portArg;
 
   if (!portPath) {
     console.log('Auto-detecting SPORTident station...');
@@ -101,6 +371,7 @@ async function main(): Promise<void> {
       console.log('Usage: npx ts-node src/cli.ts [PORT]');
       console.log('       npx ts-node src/cli.ts COM3');
       console.log('       npx ts-node src/cli.ts /dev/ttyUSB0');
+      console.log('       npx ts-node src/cli.ts --simulate');
       process.exit(1);
     }
     console.log(`Found: ${portPath}`);
@@ -108,21 +379,269 @@ async function main(): Promise<void> {
 
   console.log(`Opening ${portPath}...`);
 
-  // Zerohour: midnight today in milliseconds since midnight
-  // (We use 0 since SI times are already relative to midnight)
-  const zerohour = 0;
-
   // Open at 38400 (the driver will try to fall back to 4800 if needed)
-  const { adapter, port } = await openPort(portPath, 38400, () => {});
+  const opened = await openPort(portPath, 38400, () => {});
+  opened.port.removeAllListeners('data');
+  return opened;
+}
 
-  const driver = new SiDriver(adapter, zerohour);
+/** Find and open the serial port, returning a driver wired to it; recordFile captures its traffic */
+async function openSerialDriver(portArg: string | undefined, time: SiTimeConfig, recordFile?: string): Promise<SiDriver> {
+  const { adapter, port } = await openSerialPort(portArg);
+  const recorder = recordFile ? startRecording(recordFile, port.path) : null;
+  const driver = new SiDriver(recorder ? recorder.wrap(adapter) : adapter, time);
 
   // Wire serial data to the driver
-  port.removeAllListeners('data');
   port.on('data', (chunk: Buffer) => {
+    recorder?.received(chunk);
     driver.handleSerialData(chunk);
   });
 
+  return driver;
+}
+
+function startRecording(file: string, port: string): SiTrafficRecorder {
+  console.log(`Recording protocol traffic to ${file}`);
+  return new SiTrafficRecorder(file, port);
+}
+
+/** --replay: a driver answered from a capture file; reports the result once the capture has been played */
+function openReplayDriver(file: string, time: SiTimeConfig): SiDriver {
+  let replay: SiReplayAdapter;
+  try {
+    replay = new SiReplayAdapter(readCapture(file));
+  } catch (err: any) {
+    usageError(`Cannot load capture from ${file}: ${err.message}`);
+  }
+  console.log(`Replaying ${file}...`);
+  const driver = new SiDriver(replay, time);
+  replay.onData((chunk) => driver.handleSerialData(chunk));
+  replay.onFinished(() => {
+    // Let the driver handle the last answer before stopping it
+    setTimeout(() => {
+      driver.stop();
+      for (const m of replay.mismatches) {
+        console.log(`\x1b[31m✗ Entry ${m.index}: wrote ${m.actual}, capture has ${m.expected || '(nothing)'}\x1b[0m`);
+      }
+      console.log(`Replay finished, ${replay.mismatches.length} mismatch(es)`);
+      process.exit(replay.mismatches.length > 0 ? 1 : 0);
+    }, 100);
+  });
+  return driver;
+}
+
+/** Open a direct station session on the port, or on a simulator with a few demo punches */
+async function openStation(options: CliOptions): Promise<SiStation> {
+  if (options.simulate) {
+    const simulator = new SiSimulator();
+    for (let i = 0; i < 5; i++) simulator.recordPunch(parseInt(randomSimulatedCard().cardNumber, 10));
+    if (options.cardCommand) simulator.insertCard(randomSimulatedCard());
+    const station = new SiStation(simulator);
+    simulator.onData((chunk) => station.handleSerialData(chunk));
+    return station;
+  }
+  const { adapter, port } = await openSerialPort(options.port);
+  const station = new SiStation(adapter);
+  port.on('data', (chunk: Buffer) => station.handleSerialData(chunk));
+  return station;
+}
+
+/** --backup: read the station's backup memory into a CSV file */
+async function saveBackup(options: CliOptions, file: string): Promise<void> {
+  const station = await openStation(options);
+  try {
+    await station.connect();
+    console.log(`Reading backup memory of station ${station.stationCode}...`);
+    const backup = await station.readBackup((done, total) => {
+      process.stdout.write(`\r  ${Math.round((100 * done) / Math.max(total, 1))}%`);
+    });
+    console.log('');
+    if (backup.overflow) {
+      console.log('\x1b[33m⚠ Backup memory overflowed: the oldest records were overwritten\x1b[0m');
+    }
+    fs.writeFileSync(file, backupToCsv(backup));
+    console.log(`\x1b[32m✓ Saved ${backup.records.length} record(s) to ${file}\x1b[0m`);
+  } finally {
+    station.close();
+  }
+}
+
+/** --info and the configuration options: apply the changes, then print the station info */
+async function configureStation(options: CliOptions): Promise<void> {
+  const station = await openStation(options);
+  try {
+    await station.connect();
+    printStationInfo(await station.configure(options.stationSettings));
+    if (Object.keys(options.stationSettings).length > 0) {
+      console.log('\x1b[32m✓ Station configured\x1b[0m');
+    }
+  } finally {
+    station.close();
+  }
+}
+
+/** --check-card, --clear-card: check or clear the SI-Card 10/11/SIAC in the station */
+async function runCardCommand(options: CliOptions, command: 'clear' | 'check'): Promise<void> {
+  const station = await openStation(options);
+  try {
+    await station.connect();
+    if (command === 'clear') {
+      const cardNumber = await station.clearCard();
+      console.log(`\x1b[32m✓ Card ${cardNumber} cleared\x1b[0m`);
+      return;
+    }
+    const check = await station.checkCard();
+    console.log(`\x1b[32m✓ Card ${check.cardNumber} checked\x1b[0m`);
+    if (check.siac) printSiacInfo(check.siac);
+  } finally {
+    station.close();
+  }
+}
+
+function printOwner(owner: SiCardOwner): void {
+  const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ');
+  const details = [owner.club, owner.country, owner.email, owner.phone].filter(Boolean).join(', ');
+  console.log(`  Owner: ${name || 'no name'}${details ? `  (${details})` : ''}`);
+}
+
+function printSiacInfo(info: SiacInfo): void {
+  const voltage = info.batteryVoltage === null ? 'not measured' : `${info.batteryVoltage.toFixed(2)} V`;
+  const battery = `  Battery: ${voltage}, from ${info.batteryDate ?? 'unknown'}`;
+  console.log(info.batteryLow ? `\x1b[31m${battery}  — LOW, replace the battery\x1b[0m` : battery);
+  console.log(`  SIAC:    hardware ${info.hardwareVersion}, firmware ${info.firmwareVersion}, air+ ${info.airPlus ? (info.airPlusOn ? 'on' : 'off') : 'not allowed'}`);
+}
+
+function printStationInfo(info: SiStationInfo): void {
+  const onOff = (flag: boolean) => (flag ? 'on' : 'off');
+  console.log('');
+  console.log(`  Station:   ${info.stationCode}  (${info.mode ?? 'unknown mode'})`);
+  console.log(`  Model:     ${info.model}, firmware ${info.firmware}, serial ${info.serialNumber}`);
+  console.log(`  Protocol:  extended ${onOff(info.extendedProtocol)}, ${info.handshake ? 'handshake' : 'autosend'}`);
+  console.log(`  SI-Card 6: 192 punches ${onOff(info.si6_192Punches)}`);
+  console.log(`  Battery:   ${info.batteryVoltage.toFixed(2)} V, changed ${info.batteryDate ?? 'unknown'}`);
+  console.log(`  Memory:    ${info.memorySizeKb} KB`);
+  if (info.clock) {
+    const driftS = Math.round((info.clock.getTime() - Date.now()) / 1000);
+    console.log(`  Clock:     ${info.clock.toLocaleString()}  (${driftS >= 0 ? '+' : ''}${driftS} s)`);
+  }
+  console.log('');
+}
+
+// ─── Radio controls ────────────────────────────────────────────────────────────
+
+/** Print each passing of the feed once, whichever source delivered it */
+function printPassings(feed: PunchFeed, eventDate: string): void {
+  feed.onPassing((p) => {
+    const time = formatClock(p.timeMs, p.dateTime, eventDate);
+    const mode = p.mode ? ` ${p.mode}` : '';
+    console.log(`\x1b[36m⚑ Card ${p.cardNumber} punched${mode} station ${p.controlCode} at ${time}  [${p.source}]\x1b[0m`);
+  });
+}
+
+/** --listen: start the network relays and feed their punches into the feed */
+async function startRelays(options: CliOptions, time: SiTimeConfig, feed: PunchFeed): Promise<PunchRelay[]> {
+  const relays: PunchRelay[] = [];
+  for (const { protocol, port } of options.relays) {
+    const relay = new PunchRelay({ protocol, port, time, stationModes: options.stationModes });
+    relay.onLog((direction, msg) => {
+      if (direction !== 'READ') console.log(`${direction === 'ERROR' ? '\x1b[31m' : '\x1b[90m'}● ${msg}\x1b[0m`);
+    });
+    feed.attach(relay, relay.name);
+    try {
+      await relay.start();
+    } catch (err: any) {
+      console.error(`\x1b[31mCannot listen on ${relay.name}: ${err.message}\x1b[0m`);
+      process.exit(1);
+    }
+    relays.push(relay);
+  }
+  return relays;
+}
+
+/** Stop the network relays, closing their sockets before the process exits */
+async function stopRelays(relays: PunchRelay[]): Promise<void> {
+  await Promise.all(relays.map((r) => r.stop()));
+}
+
+// ─── Main ──────────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // --list: just list ports and exit
+  if (options.list) {
+    console.log('Available serial ports:');
+    console.log('');
+    const ports = await listPorts();
+    if (ports.length === 0) {
+      console.log('  (none found)');
+    }
+    for (const p of ports) {
+      const si = p.isSportident ? ' ★ SPORTident' : '';
+      const mfr = p.manufacturer ? ` [${p.manufacturer}]` : '';
+      const vid = p.vendorId ? ` VID:${p.vendorId}` : '';
+      const pid = p.productId ? ` PID:${p.productId}` : '';
+      console.log(`  ${p.path}${mfr}${vid}${pid}${si}`);
+    }
+    console.log('');
+    return;
+  }
+
+  if (options.backupFile) {
+    await saveBackup(options, options.backupFile);
+    return;
+  }
+
+  if (options.cardCommand) {
+    await runCardCommand(options, options.cardCommand);
+    return;
+  }
+
+  if (options.stationInfo || Object.keys(options.stationSettings).length > 0) {
+    await configureStation(options);
+    return;
+  }
+
+  // Times before the zero time count as the next day; SI-Card 5 times take their AM/PM half from it
+  const eventDate = options.eventDate ?? localDate(new Date());
+  const time: SiTimeConfig = { zeroTimeMs: options.zeroTimeMs, eventDate };
+  if (options.zeroTimeMs !== 0) console.log(`Zero time ${formatClockTime(options.zeroTimeMs)}`);
+
+  const courses = options.coursesFile ? loadCourses(options.coursesFile, options.courseName) : [];
+
+  // Radio punches from autosend stations and network relays, without duplicates
+  const feed = new PunchFeed();
+  printPassings(feed, eventDate);
+  const relays = await startRelays(options, time, feed);
+  if (relays.length > 0 && !options.port && !options.simulate) {
+    console.log('Waiting for punches... (Press Ctrl+C to exit)');
+    process.on('SIGINT', async () => {
+      await stopRelays(relays);
+      console.log(`\nPassings: ${feed.list().length}   duplicates dropped: ${feed.duplicates}`);
+      process.exit(0);
+    });
+    return;
+  }
+
+  let driver: SiDriver;
+  let simulator: SiSimulator | null = null;
+
+  if (options.replayFile) {
+    driver = openReplayDriver(options.replayFile, time);
+  } else if (options.simulate) {
+    console.log('Starting simulated SI station (a random card is inserted every few seconds)...');
+    const station = new SiSimulator({ eventDate });
+    simulator = station;
+    const recorder = options.recordFile ? startRecording(options.recordFile, SIMULATOR_PORT_PATH) : null;
+    driver = new SiDriver(recorder ? recorder.wrap(station) : station, time);
+    station.onData((chunk) => {
+      recorder?.received(chunk);
+      driver.handleSerialData(chunk);
+    });
+  } else {
+    driver = await openSerialDriver(options.port, time, options.recordFile);
+  }
+
   // Log protocol messages
   driver.onLog((direction, msg) => {
     const prefix = direction === 'SEND' ? '→' : direction === 'READ' ? '←' : '●';
@@ -144,7 +663,11 @@ async function main(): Promise<void> {
         console.log('\x1b[32m✓ Station connected and configured\x1b[0m');
         break;
       case 'READY':
-        console.log('\x1b[32m⏳ Waiting for card... (insert SI card into station)\x1b[0m');
+        console.log(
+          driver.autosendMode
+            ? '\x1b[32m⏳ Waiting for punches... (station in autosend mode)\x1b[0m'
+            : '\x1b[32m⏳ Waiting for card... (insert SI card into station)\x1b[0m'
+        );
         break;
       case 'PROCESSING':
         console.log('\x1b[36m📖 Reading card...\x1b[0m');
@@ -154,6 +677,9 @@ async function main(): Promise<void> {
         break;
       case 'FATAL_ERROR':
         console.log(`\x1b[31m✗ Fatal error: ${msg}\x1b[0m`);
+        if (isProtocolConfigError(msg)) {
+          console.log('  Run again with --fix-protocol to switch extended protocol and handshake on.');
+        }
         break;
       case 'OFF':
         console.log('\x1b[90m○ Disconnected\x1b[0m');
@@ -161,21 +687,59 @@ async function main(): Promise<void> {
     }
   });
 
+  // A read that failed part-way: the runner has to insert the card again
+  driver.onReinsert((read) => {
+    const failed = read.failedBlock !== null ? `, block ${read.failedBlock} failed` : '';
+    const card = read.cardNumber ? `card ${read.cardNumber}` : 'the card';
+    console.log(`\x1b[33m⟲ Please re-insert ${card} (${read.blocksRead.length} block(s) read${failed})\x1b[0m`);
+  });
+
+  // Punches from a station in autosend mode (finish station, radio control)
+  feed.attach(driver, options.simulate ? 'simulator' : options.port ?? 'serial');
+
   // Card read events — the main output!
-  let readCount = 0;
+  const summary = { reads: 0, ok: 0, mp: 0, dnf: 0 };
   driver.onCardRead((card: SiCardData) => {
-    readCount++;
-    console.log(`\x1b[32m✓ Card #${readCount} read successfully!\x1b[0m`);
-    printCard(card);
+    summary.reads++;
+    console.log(`\x1b[32m✓ Card #${summary.reads} read successfully!\x1b[0m`);
+    printCard(card, eventDate);
+    if (courses.length === 0) return;
+
+    const punches = racePunches(card);
+    const timing = { ...card, ...feed.timing(card.cardNumber), precedence: options.timing, zeroTimeMs: options.zeroTimeMs };
+    const v = options.courseName
+      ? validateCourse(courses[0], punches, timing)
+      : autoDetectCourse(courses, punches, timing);
+    printValidation(v);
+    if (v.status === 'DNF') summary.dnf++;
+    else if (v.status === 'OK') summary.ok++;
+    else summary.mp++;
   });
 
   // Graceful shutdown
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     console.log('\nShutting down...');
     driver.stop();
-    process.exit(0);
+    await stopRelays(relays);
+    console.log(`Cards read: ${summary.reads}`);
+    if (courses.length > 0) {
+      console.log(`  OK: ${summary.ok}   MP: ${summary.mp}   DNF: ${summary.dnf}`);
+    }
+    // Non-zero exit status when a validated card was not OK, for scripts
+    process.exit(summary.mp + summary.dnf > 0 ? 1 : 0);
   });
 
+  // Feed random demo cards into the simulated station
+  let cardTimer: NodeJS.Timeout | null = null;
+  if (simulator) {
+    const station = simulator;
+    cardTimer = setInterval(() => {
+      if (!station.cardInserted) {
+        station.insertCard(randomSimulatedCard());
+      }
+    }, SIMULATED_CARD_INTERVAL_MS);
+  }
+
   // Start the driver
   console.log('Starting SI protocol driver...');
   console.log('(Press Ctrl+C to exit)');
@@ -186,6 +750,9 @@ async function main(): Promise<void> {
   } catch (err: any) {
     console.error(`\x1b[31mDriver error: ${err.message}\x1b[0m`);
     process.exit(1);
+  } finally {
+    // The driver stopped (OFF or FATAL_ERROR): the timer must not keep the process alive
+    if (cardTimer) clearInterval(cardTimer);
   }
 }
 
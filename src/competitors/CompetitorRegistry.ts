@@ -0,0 +1,122 @@
+/**
+ * Persistent competitor registry.
+ *
+ * Links SI card numbers to runners. Changes are appended to a JSON Lines log
+ * (see storage/JsonLineFile) and replayed on startup, like the read store.
+ */
+
+import { JsonLineFile } from '../storage/JsonLineFile';
+import {
+  Competitor,
+  CompetitorInput,
+  CompetitorLogEntry,
+  CompetitorImportResult,
+} from './types';
+
+export class CompetitorRegistry {
+  private readonly log: JsonLineFile<CompetitorLogEntry>;
+  private competitors = new Map<number, Competitor>();
+  private nextId = 1;
+
+  constructor(filePath: string) {
+    this.log = new JsonLineFile<CompetitorLogEntry>(filePath);
+    for (const entry of this.log.readAll()) {
+      this.apply(entry);
+    }
+  }
+
+  list(): Competitor[] {
+    return [...this.competitors.values()];
+  }
+
+  get(id: number): Competitor | undefined {
+    return this.competitors.get(id);
+  }
+
+  /** Competitor currently holding the given card, if any */
+  findByCard(cardNumber: string): Competitor | undefined {
+    if (!cardNumber) return undefined;
+    return this.list().find((c) => c.cardNumber === cardNumber);
+  }
+
+  add(input: CompetitorInput): Competitor {
+    this.checkCardFree(input.cardNumber);
+    const competitor: Competitor = { ...input, id: this.nextId };
+    this.append({ op: 'upsert', competitor });
+    return competitor;
+  }
+
+  update(id: number, changes: Partial<CompetitorInput>): Competitor {
+    const existing = this.competitors.get(id);
+    if (!existing) {
+      throw new Error(`Unknown competitor id ${id}`);
+    }
+    if (changes.cardNumber !== undefined) {
+      this.checkCardFree(changes.cardNumber, id);
+    }
+    const competitor: Competitor = { ...existing, ...changes, id };
+    this.append({ op: 'upsert', competitor });
+    return competitor;
+  }
+
+  remove(id: number): void {
+    if (!this.competitors.has(id)) return;
+    this.append({ op: 'remove', id });
+  }
+
+  /**
+   * Import competitors: entries whose card number is already registered
+   * update that competitor, the rest are added. Entries without a card match
+   * a card-less competitor of the same name and class, so importing the same
+   * list again does not enter them twice.
+   */
+  importMany(inputs: CompetitorInput[]): CompetitorImportResult {
+    const result: CompetitorImportResult = { added: 0, updated: 0 };
+    for (const input of inputs) {
+      const existing = this.findImported(input);
+      if (existing) {
+        this.update(existing.id, input);
+        result.updated++;
+      } else {
+        this.add(input);
+        result.added++;
+      }
+    }
+    return result;
+  }
+
+  close(): void {
+    this.log.close();
+  }
+
+  // ─── Helpers ─────────────────────────────────────────────────────────
+
+  private findImported(input: CompetitorInput): Competitor | undefined {
+    if (input.cardNumber) return this.findByCard(input.cardNumber);
+    return this.list().find((c) => !c.cardNumber && c.name === input.name && c.className === input.className);
+  }
+
+  private checkCardFree(cardNumber: string, exceptId?: number): void {
+    const holder = this.findByCard(cardNumber);
+    if (holder && holder.id !== exceptId) {
+      throw new Error(`Card ${cardNumber} is already assigned to ${holder.name}`);
+    }
+  }
+
+  private append(entry: CompetitorLogEntry): void {
+    this.log.append(entry);
+    this.apply(entry);
+  }
+
+  private apply(entry: CompetitorLogEntry): void {
+    switch (entry.op) {
+      case 'upsert':
+        this.competitors.set(entry.competitor.id, entry.competitor);
+        this.nextId = Math.max(this.nextId, entry.competitor.id + 1);
+        break;
+      case 'remove':
+        this.competitors.delete(entry.id);
+        break;
+    }
+  }
+}
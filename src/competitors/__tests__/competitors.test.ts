@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompetitorRegistry } from '../CompetitorRegistry';
+import { parseCompetitorCsv, parseCompetitorFile } from '../import';
+import { competitorCourse, legCourses, validateForCompetitor, competitorFromCard } from '../resolve';
+import { CompetitorInput, Competitor } from '../types';
+import { Course } from '../../course-validator/validator';
+import { SiCardData, NO_TIME } from '../../si-protocol/types';
+
+const alice: CompetitorInput = {
+  name: 'Alice Smith',
+  club: 'OK Linné',
+  className: 'W21',
+  courseName: '',
+  cardNumber: '8123456',
+  bib: '101',
+  rentedCard: false,
+};
+
+// ─── Registry ──────────────────────────────────────────────────────────────────
+
+describe('CompetitorRegistry', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngz-competitors-'));
+    file = path.join(dir, 'competitors.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('persists adds, updates and removals', () => {
+    const registry = new CompetitorRegistry(file);
+    const a = registry.add(alice);
+    const b = registry.add({ ...alice, name: 'Bob', cardNumber: '8123457' });
+    registry.update(a.id, { club: 'IFK Lidingö' });
+    registry.remove(b.id);
+    registry.close();
+
+    const reloaded = new CompetitorRegistry(file);
+    expect(reloaded.list()).toEqual([{ ...alice, id: a.id, club: 'IFK Lidingö' }]);
+    expect(reloaded.findByCard('8123456')?.name).toBe('Alice Smith');
+    expect(reloaded.add({ ...alice, cardNumber: '1' }).id).toBe(3);
+    reloaded.close();
+  });
+
+  test('refuses to assign one card to two competitors', () => {
+    const registry = new CompetitorRegistry(file);
+    registry.add(alice);
+    expect(() => registry.add({ ...alice, name: 'Bob' })).toThrow('already assigned to Alice Smith');
+    registry.close();
+  });
+
+  test('import updates competitors with a known card and adds the rest', () => {
+    const registry = new CompetitorRegistry(file);
+    registry.add(alice);
+    const result = registry.importMany([
+      { ...alice, className: 'W35' },
+      { ...alice, name: 'Bob', cardNumber: '8123457' },
+    ]);
+    expect(result).toEqual({ added: 1, updated: 1 });
+    expect(registry.findByCard('8123456')?.className).toBe('W35');
+    registry.close();
+  });
+
+  test('importing the same list twice enters every runner once', () => {
+    const registry = new CompetitorRegistry(file);
+    const list = [alice, { ...alice, name: 'Bob', cardNumber: '' }, { ...alice, name: 'Bob', cardNumber: '', className: 'M21' }];
+    expect(registry.importMany(list)).toEqual({ added: 3, updated: 0 });
+    expect(registry.importMany(list)).toEqual({ added: 0, updated: 3 });
+    expect(registry.list()).toHaveLength(3);
+    registry.close();
+  });
+});
+
+// ─── Import formats ────────────────────────────────────────────────────────────
+
+describe('competitor import', () => {
+  test('parses an IOF XML 3.0 EntryList', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<EntryList xmlns="http://www.orienteering.org/datastandard/3.0" iofVersion="3.0">
+  <Event><Name>Club Night</Name></Event>
+  <PersonEntry>
+    <Person><Name><Family>Smith</Family><Given>Alice</Given></Name></Person>
+    <Organisation><Name>OK Linné</Name><ShortName>OKL</ShortName></Organisation>
+    <ControlCard punchingSystem="SI">8123456</ControlCard>
+    <Class><Name>W21</Name></Class>
+    <ServiceRequest><Service><Name>SI card rental</Name></Service><RequestedQuantity>1</RequestedQuantity></ServiceRequest>
+  </PersonEntry>
+  <PersonEntry>
+    <Person><Name><Family>Jones</Family><Given>Bob</Given></Name></Person>
+    <ControlCard punchingSystem="Emit">12345</ControlCard>
+    <ControlCard punchingSystem="SI">2123456</ControlCard>
+    <Class><Name>M21</Name></Class>
+  </PersonEntry>
+</EntryList>`;
+    expect(parseCompetitorFile(xml)).toEqual([
+      { ...alice, bib: '', rentedCard: true },
+      { name: 'Bob Jones', club: '', className: 'M21', courseName: '', cardNumber: '2123456', bib: '', rentedCard: false },
+    ]);
+  });
+
+  test('rejects XML that is not an EntryList', () => {
+    expect(() => parseCompetitorFile('<CourseData/>')).toThrow('Expected an IOF EntryList');
+  });
+
+  test('parses CSV with semicolons, quotes and split names', () => {
+    const csv = '﻿First name;Last name;Club;Class;SI card;Bib;Rented\r\n' +
+      'Alice;Smith;"OK Linné";W21;8123456;101;no\r\n' +
+      'Bob;"Jones ""BJ""";;M21;2123456;;yes\r\n';
+    expect(parseCompetitorCsv(csv)).toEqual([
+      alice,
+      { name: 'Bob Jones "BJ"', club: '', className: 'M21', courseName: '', cardNumber: '2123456', bib: '', rentedCard: true },
+    ]);
+  });
+
+  test('parses comma separated CSV with a course column', () => {
+    const csv = 'Name,Course,Card\nAlice Smith,Lion,8123456\n';
+    expect(parseCompetitorCsv(csv)[0]).toMatchObject({ name: 'Alice Smith', courseName: 'Lion', cardNumber: '8123456' });
+  });
+
+  test('reads allocated start times from a start column', () => {
+    const csv = 'Name,Class,Start\nAlice Smith,W21,10:02:30\nBob Jones,M21,\n';
+    const [alice, bob] = parseCompetitorCsv(csv);
+    expect(alice.startTimeMs).toBe((10 * 3600 + 2 * 60 + 30) * 1000);
+    expect(bob).not.toHaveProperty('startTimeMs');
+  });
+
+  test('enters every runner of an EntryList team with their leg', () => {
+    const xml = `<EntryList iofVersion="3.0">
+  <TeamEntry>
+    <Name>OK Linné 1</Name>
+    <Organisation><Name>OK Linné</Name></Organisation>
+    <TeamEntryPerson><Person><Name><Family>Smith</Family><Given>Alice</Given></Name></Person><Leg>1</Leg><ControlCard punchingSystem="SI">8123456</ControlCard></TeamEntryPerson>
+    <TeamEntryPerson><Person><Name><Family>Berg</Family><Given>Ola</Given></Name></Person><Leg>2</Leg><ControlCard>8123457</ControlCard></TeamEntryPerson>
+    <TeamEntryPerson><Person><Name><Family>Reserve</Family></Name></Person></TeamEntryPerson>
+    <Class><Name>Open</Name></Class>
+  </TeamEntry>
+</EntryList>`;
+    expect(parseCompetitorFile(xml)).toEqual([
+      { ...alice, className: 'Open', bib: '', team: 'OK Linné 1', leg: 1 },
+      { ...alice, name: 'Ola Berg', className: 'Open', cardNumber: '8123457', bib: '', team: 'OK Linné 1', leg: 2 },
+    ]);
+  });
+
+  test('reads relay teams and legs from CSV columns', () => {
+    const csv = 'Name,Class,Relay team,Leg\nAlice Smith,Open,OKL 1,2\nBob Jones,Open,,1\nCarol,Open,OKL 1,x\n';
+    const [alice, bob, carol] = parseCompetitorCsv(csv);
+    expect(alice).toMatchObject({ team: 'OKL 1', leg: 2 });
+    expect(bob).not.toHaveProperty('team');
+    expect(carol).not.toHaveProperty('leg');
+  });
+
+  test('rejects CSV without a name column', () => {
+    expect(() => parseCompetitorCsv('Card,Club\n1,OKL\n')).toThrow('no name column');
+  });
+});
+
+// ─── Course resolution ─────────────────────────────────────────────────────────
+
+describe('competitor course resolution', () => {
+  const lion: Course = { name: 'Lion', controls: [31, 33], isInline: true, useBoxStart: true };
+  const w21: Course = { name: 'W21', controls: [31, 32, 33], isInline: true, useBoxStart: true };
+  const competitor: Competitor = { ...alice, id: 1 };
+
+  test('prefers the assigned course, then the class name', () => {
+    expect(competitorCourse({ ...competitor, courseName: 'lion' }, [lion, w21])).toBe(lion);
+    expect(competitorCourse(competitor, [lion, w21])).toBe(w21);
+    expect(competitorCourse(competitor, [lion])).toBeUndefined();
+    expect(competitorCourse(competitor, [w21, { ...lion, classNames: ['W21', 'M21'] }])?.name).toBe('Lion');
+  });
+
+  test('validates against the competitor course instead of auto-detecting', () => {
+    const punches = [{ code: 31, timestampMs: 1000 }, { code: 33, timestampMs: 2000 }];
+    expect(validateForCompetitor([lion, w21], punches)?.course).toBe(lion);
+    const result = validateForCompetitor([lion, w21], punches, competitor);
+    expect(result?.course).toBe(w21);
+    expect(result?.allCorrect).toBe(false);
+    expect(validateForCompetitor([], punches, competitor)).toBeNull();
+  });
+
+  test('gives relay runners the course of their leg, or a variant of it', () => {
+    const open1: Course = { ...lion, name: 'Open 1', relayLegs: [{ className: 'Open', leg: 1 }] };
+    const open2a: Course = { ...lion, name: 'Open 2A', relayLegs: [{ className: 'Open', leg: 2 }] };
+    const open2b: Course = { ...w21, name: 'Open 2B', relayLegs: [{ className: 'open', leg: 2 }] };
+    const courses = [open1, open2a, open2b, w21];
+    const runner: Competitor = { ...competitor, className: 'Open', team: 'OKL 1', leg: 1 };
+
+    expect(competitorCourse(runner, courses)).toBe(open1);
+    expect(legCourses({ ...runner, leg: 2 }, courses)).toEqual([open2a, open2b]);
+    expect(competitorCourse({ ...runner, leg: 2 }, courses)).toBeUndefined();
+    expect(competitorCourse({ ...runner, leg: 2, courseName: 'Open 2B' }, courses)).toBe(open2b);
+
+    // A forked leg is matched among its own variants only
+    const punches = [31, 32, 33].map((code, i) => ({ code, timestampMs: (i + 1) * 1000 }));
+    expect(validateForCompetitor(courses, punches, { ...runner, leg: 2 })?.course).toBe(open2b);
+  });
+});
+
+// ─── Entries from card owner data ──────────────────────────────────────────────
+
+describe('competitor from card owner data', () => {
+  const card: SiCardData = {
+    cardNumber: '8123456',
+    cardSeries: 'SIAC',
+    startTime: NO_TIME,
+    finishTime: NO_TIME,
+    checkTime: NO_TIME,
+    punchCount: 0,
+    punches: [],
+    owner: { firstName: 'Alice', lastName: 'Smith', club: 'OK Linné', country: 'SWE' },
+  };
+
+  test('enters the name and club stored on the card', () => {
+    expect(competitorFromCard(card)).toEqual({ ...alice, className: '', bib: '' });
+  });
+
+  test('needs a name on the card', () => {
+    expect(competitorFromCard({ ...card, owner: undefined })).toBeNull();
+    expect(competitorFromCard({ ...card, owner: { firstName: '', lastName: '', club: 'OK Linné' } })).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Competitor import from CSV and IOF XML EntryList and StartList files.
+ */
+
+import { parseEntryList } from '../iof-xml/entry-list';
+import { parseStartList } from '../iof-xml/start-list';
+import { parseClockTime } from '../si-protocol/time';
+import { CompetitorInput } from './types';
+
+/** Recognised CSV header names (lower case, spaces and punctuation removed) */
+const CSV_COLUMNS: Record<keyof CompetitorInput | 'given' | 'family', string[]> = {
+  name: ['name', 'fullname', 'competitor', 'runner'],
+  given: ['firstname', 'given', 'givenname', 'forename'],
+  family: ['lastname', 'family', 'familyname', 'surname'],
+  club: ['club', 'organisation', 'organization', 'team'],
+  className: ['class', 'classname', 'category'],
+  courseName: ['course', 'coursename'],
+  cardNumber: ['card', 'cardnumber', 'si', 'sicard', 'sinumber', 'chip', 'chipnumber'],
+  bib: ['bib', 'bibnumber', 'startnumber', 'number'],
+  rentedCard: ['rented', 'rentedcard', 'rent', 'rental', 'hired', 'hire'],
+  startTimeMs: ['start', 'starttime'],
+  team: ['relayteam', 'teamname'],
+  leg: ['leg', 'legnumber'],
+};
+
+const TRUE_VALUES = ['1', 'y', 'yes', 'true', 'x', 'ja', 'oui'];
+
+/** Split CSV text into rows, honouring quoted fields with "" escapes */
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  );
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Parse a CSV file with a header row. Columns are matched by name (see
+ * CSV_COLUMNS); the delimiter (comma, semicolon or tab) is auto-detected.
+ */
+export function parseCompetitorCsv(text: string): CompetitorInput[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = splitCsv(content, detectDelimiter(content.split(/\r?\n/, 1)[0]));
+  if (rows.length === 0) return [];
+
+  const headers = rows[0].map(normaliseHeader);
+  const column = (key: keyof typeof CSV_COLUMNS): number =>
+    headers.findIndex((h) => CSV_COLUMNS[key].includes(h));
+  const columns = Object.fromEntries(
+    Object.keys(CSV_COLUMNS).map((key) => [key, column(key as keyof typeof CSV_COLUMNS)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (columns.name < 0 && columns.given < 0 && columns.family < 0) {
+    throw new Error('CSV file has no name column');
+  }
+
+  return rows.slice(1).map((row) => {
+    const get = (key: keyof typeof CSV_COLUMNS): string =>
+      columns[key] >= 0 ? (row[columns[key]] ?? '').trim() : '';
+    const name = get('name') || [get('given'), get('family')].filter(Boolean).join(' ');
+    const startTimeMs = parseClockTime(get('startTimeMs'));
+    const team = get('team');
+    const leg = Number(get('leg'));
+    return {
+      name,
+      club: get('club'),
+      className: get('className'),
+      courseName: get('courseName'),
+      cardNumber: get('cardNumber'),
+      bib: get('bib'),
+      rentedCard: TRUE_VALUES.includes(get('rentedCard').toLowerCase()),
+      ...(startTimeMs !== null && { startTimeMs }),
+      ...(team && Number.isInteger(leg) && leg > 0 && { team, leg }),
+    };
+  });
+}
+
+/** Parse an imported competitor file, choosing the format from its content */
+export function parseCompetitorFile(content: string): CompetitorInput[] {
+  if (!content.trimStart().startsWith('<')) return parseCompetitorCsv(content);
+  return /<StartList[\s>]/.test(content) ? parseStartList(content) : parseEntryList(content);
+}
@@ -0,0 +1,4 @@
+export { Competitor, CompetitorInput, CompetitorLogEntry, CompetitorImportResult } from './types';
+export { CompetitorRegistry } from './CompetitorRegistry';
+export { parseCompetitorCsv, parseCompetitorFile } from './import';
+export { competitorCourse, legCourses, validateForCompetitor, competitorFromCard } from './resolve';
@@ -0,0 +1,84 @@
+/**
+ * Resolve a card read to its competitor's course, and turn the owner data of
+ * an unregistered card into a new entry.
+ *
+ * Course names and class names match regardless of case, since entry lists
+ * and course files often come from different programs.
+ */
+
+import { SiPunch, SiCardData } from '../si-protocol/types';
+import {
+  Course,
+  ValidationResult,
+  RaceTiming,
+  validateCourse,
+  autoDetectCourse,
+} from '../course-validator/validator';
+import { Competitor, CompetitorInput } from './types';
+
+/**
+ * Course assigned to a competitor: the explicitly assigned course first,
+ * then the course their class is assigned to in the course file, then a
+ * course with the same name as their class. A relay runner without an
+ * assigned course gets the course of their leg when the leg is not forked.
+ */
+export function competitorCourse(
+  competitor: Competitor,
+  courses: Course[]
+): Course | undefined {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const byName = (name: string) => (name ? courses.find((c) => same(c.name, name)) : undefined);
+  if (competitor.leg !== undefined) {
+    const variants = legCourses(competitor, courses);
+    return byName(competitor.courseName) ?? (variants.length === 1 ? variants[0] : undefined);
+  }
+  const byClass = (name: string) =>
+    name ? courses.find((c) => c.classNames?.some((cn) => same(cn, name))) : undefined;
+  return byName(competitor.courseName) ?? byClass(competitor.className) ?? byName(competitor.className);
+}
+
+/** Courses run on a relay runner's leg of their class; more than one when the leg is forked */
+export function legCourses(competitor: Competitor, courses: Course[]): Course[] {
+  const className = competitor.className.toLowerCase();
+  return courses.filter((c) =>
+    c.relayLegs?.some((rl) => rl.leg === competitor.leg && rl.className.toLowerCase() === className)
+  );
+}
+
+/**
+ * Validate a read against the competitor's assigned course, falling back to
+ * auto-detection when the card is unregistered or the course is unknown.
+ * A relay runner on a forked leg is matched among the variants of the leg.
+ * Returns null when there are no courses at all.
+ */
+export function validateForCompetitor(
+  courses: Course[],
+  punches: SiPunch[],
+  competitor?: Competitor,
+  timing?: RaceTiming
+): ValidationResult | null {
+  const assigned = competitor && competitorCourse(competitor, courses);
+  if (assigned) return validateCourse(assigned, punches, timing);
+  const variants = competitor?.leg !== undefined ? legCourses(competitor, courses) : [];
+  const candidates = variants.length > 0 ? variants : courses;
+  return candidates.length > 0 ? autoDetectCourse(candidates, punches, timing) : null;
+}
+
+/**
+ * Entry for an unregistered runner from the owner data on their card, so the
+ * download desk does not have to type it in. Null when the card carries no name.
+ * Class and course are left for the desk to fill in.
+ */
+export function competitorFromCard(card: SiCardData): CompetitorInput | null {
+  const name = [card.owner?.firstName, card.owner?.lastName].filter(Boolean).join(' ');
+  if (!name || !card.cardNumber) return null;
+  return {
+    name,
+    club: card.owner?.club ?? '',
+    className: '',
+    courseName: '',
+    cardNumber: card.cardNumber,
+    bib: '',
+    rentedCard: false,
+  };
+}
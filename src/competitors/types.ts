@@ -0,0 +1,34 @@
+/**
+ * Shared types for the competitor registry.
+ *
+ * A competitor links an SI card to a runner, their class and optionally a
+ * course, start time and relay leg. The registry logs every change as an
+ * upsert of the whole competitor or a removal by id.
+ */
+
+export interface Competitor {
+  id: number;
+  name: string;
+  club: string;
+  className: string;      // Class from the entry list (e.g. "M21", "Yellow")
+  courseName: string;     // Assigned course; empty = course named like the class
+  cardNumber: string;     // SI card number, empty if not yet known
+  bib: string;
+  rentedCard: boolean;
+  startTimeMs?: number;   // Allocated start time from the start list (ms since midnight)
+  team?: string;          // Relay team name; the class is the relay class
+  leg?: number;           // Relay leg run by this competitor, from 1
+}
+
+/** Competitor fields without the registry-assigned id */
+export type CompetitorInput = Omit<Competitor, 'id'>;
+
+/** One line of the append-only competitor log */
+export type CompetitorLogEntry =
+  | { op: 'upsert'; competitor: Competitor }
+  | { op: 'remove'; id: number };
+
+export interface CompetitorImportResult {
+  added: number;
+  updated: number;
+}
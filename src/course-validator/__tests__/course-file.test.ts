@@ -0,0 +1,73 @@
+import { parseCourseFile } from '../course-file';
+import { CourseDataError } from '../iof-course-data';
+import { racePunches } from '../validator';
+import { NO_TIME, SiCardData } from '../../si-protocol/types';
+
+describe('parseCourseFile', () => {
+  test('reads a JSON event with defaults for optional fields', () => {
+    const file = parseCourseFile(
+      JSON.stringify({ name: 'Park', courses: [{ name: 'Short', controls: [31, '32'] }, { name: 'Score', controls: [40], isInline: false }] })
+    );
+    expect(file.eventName).toBe('Park');
+    expect(file.courses).toEqual([
+      { name: 'Short', controls: [31, 32], isInline: true, useBoxStart: true },
+      { name: 'Score', controls: [40], isInline: false, useBoxStart: true },
+    ]);
+  });
+
+  test('reads a plain JSON course array', () => {
+    expect(parseCourseFile('[{"name":"A","controls":[31]}]').courses).toHaveLength(1);
+  });
+
+  test('rejects malformed JSON courses', () => {
+    expect(() => parseCourseFile('{')).toThrow('Invalid JSON');
+    expect(() => parseCourseFile('{"courses":{}}')).toThrow(CourseDataError);
+    expect(() => parseCourseFile('[{"name":"A"}]')).toThrow('needs a "name" and a "controls" array');
+    expect(() => parseCourseFile('[null]')).toThrow('Course 1 needs');
+    expect(() => parseCourseFile('[{"name":"A","controls":[]},"B"]')).toThrow('Course 2 needs');
+    expect(() => parseCourseFile('[{"name":"A","controls":[31,"x"]}]')).toThrow('invalid control code');
+  });
+
+  const xml = `<CourseData iofVersion="3.0"><Event><Name>Relay Day</Name></Event>
+    <RaceCourseData><Course><Name>Empty</Name></Course></RaceCourseData>
+    <RaceCourseData><Course><Name>B</Name><CourseControl><Control>31</Control></CourseControl></Course></RaceCourseData>
+  </CourseData>`;
+
+  test('loads the first race with courses from IOF XML', () => {
+    const file = parseCourseFile(xml);
+    expect(file.eventName).toBe('Relay Day');
+    expect(file.courses.map((c) => c.name)).toEqual(['B']);
+    expect(file.errors).toEqual(['Race 1: course "Empty" has no controls']);
+  });
+
+  test('loads a requested race', () => {
+    expect(() => parseCourseFile(xml, 3)).toThrow('No race 3');
+    expect(parseCourseFile(xml, 1).courses).toEqual([]);
+  });
+});
+
+describe('racePunches', () => {
+  const card: SiCardData = {
+    cardNumber: '8000001',
+    cardSeries: 'SIAC',
+    startTime: 1000,
+    finishTime: 5000,
+    checkTime: NO_TIME,
+    punchCount: 4,
+    punches: [
+      { code: 31, timestampMs: 500 },
+      { code: 32, timestampMs: 2000 },
+      { code: 33, timestampMs: NO_TIME },
+      { code: 34, timestampMs: 6000 },
+    ],
+  };
+
+  test('keeps only punches between start and finish', () => {
+    expect(racePunches(card).map((p) => p.code)).toEqual([32]);
+    expect(racePunches({ ...card, finishTime: NO_TIME }).map((p) => p.code)).toEqual([32, 34]);
+  });
+
+  test('keeps every punch when there is no start punch', () => {
+    expect(racePunches({ ...card, startTime: NO_TIME })).toHaveLength(4);
+  });
+});
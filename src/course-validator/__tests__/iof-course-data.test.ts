@@ -0,0 +1,130 @@
+import { parseCourseData, CourseDataError } from '../iof-course-data';
+
+const COURSE_DATA = `<?xml version="1.0" encoding="utf-8"?>
+<CourseData xmlns="http://www.orienteering.org/datastandard/3.0" iofVersion="3.0" createTime="2026-10-01T20:00:00" creator="Purple Pen">
+  <Event><Name>Autumn Sprint</Name></Event>
+  <RaceCourseData>
+    <Map><Scale>4000</Scale></Map>
+    <Control><Id>S1</Id><Position lng="18.0686" lat="59.3293"/><MapPosition x="12.5" y="-40.25" unit="mm"/></Control>
+    <Control><Id>31</Id><Position lng="18.0701" lat="59.3301"/><MapPosition x="30" y="-20"/></Control>
+    <Control><Id>32</Id></Control>
+    <Control><Id>33</Id></Control>
+    <Control><Id>F1</Id></Control>
+    <Course>
+      <Name>Long</Name>
+      <Length>2450</Length>
+      <Climb>35</Climb>
+      <CourseControl type="Start"><Control>S1</Control></CourseControl>
+      <CourseControl type="Control"><Control>31</Control><LegLength>400</LegLength></CourseControl>
+      <CourseControl type="CrossingPoint"><Control>X1</Control><LegLength>150</LegLength></CourseControl>
+      <CourseControl type="Control"><Control>32</Control><LegLength>250</LegLength></CourseControl>
+      <CourseControl type="Control"><Control>33</Control><LegLength>1500</LegLength></CourseControl>
+      <CourseControl type="Finish"><Control>F1</Control><LegLength>150</LegLength></CourseControl>
+    </Course>
+    <Course>
+      <Name>Score</Name>
+      <CourseControl type="Start"><Control>S1</Control></CourseControl>
+      <CourseControl><Control>31</Control><Score>10</Score></CourseControl>
+      <CourseControl><Control>33</Control><Score>30</Score></CourseControl>
+      <CourseControl type="Finish"><Control>F1</Control></CourseControl>
+    </Course>
+    <Course>
+      <Name>Broken</Name>
+      <CourseControl type="Control"><Control>F1</Control></CourseControl>
+    </Course>
+    <ClassCourseAssignment><ClassName>M21</ClassName><CourseName>Long</CourseName></ClassCourseAssignment>
+    <ClassCourseAssignment><ClassName>W21</ClassName><CourseName>Long</CourseName></ClassCourseAssignment>
+    <ClassCourseAssignment><ClassName>Open</ClassName><CourseName>Missing</CourseName></ClassCourseAssignment>
+  </RaceCourseData>
+  <RaceCourseData>
+    <Control><Id>41</Id></Control>
+    <Course>
+      <Name>Long</Name>
+      <CourseControl type="Control" randomOrder="true"><Control>41</Control></CourseControl>
+      <CourseControl type="Control" randomOrder="true"><Control>42</Control></CourseControl>
+    </Course>
+  </RaceCourseData>
+</CourseData>`;
+
+describe('parseCourseData', () => {
+  const result = parseCourseData(COURSE_DATA);
+  const [race1, race2] = result.races;
+
+  test('reads the event and one entry per race', () => {
+    expect(result.eventName).toBe('Autumn Sprint');
+    expect(result.races.map((r) => r.raceNumber)).toEqual([1, 2]);
+  });
+
+  test('reads an inline course with start, finish, length, climb and leg lengths', () => {
+    expect(race1.courses[0]).toEqual({
+      name: 'Long',
+      controls: [31, 32, 33],
+      isInline: true,
+      useBoxStart: true,
+      length: 2450,
+      climb: 35,
+      legLengths: [400, 400, 1500, 150],
+      startControl: 'S1',
+      finishControl: 'F1',
+      classNames: ['M21', 'W21'],
+    });
+  });
+
+  test('treats courses with score values as score-O', () => {
+    const score = race1.courses[1];
+    expect(score.isInline).toBe(false);
+    expect(score.controlScores).toEqual({ 31: 10, 33: 30 });
+    expect(score.legLengths).toBeUndefined();
+  });
+
+  test('reads control positions', () => {
+    expect(race1.controls[0]).toEqual({
+      id: 'S1',
+      code: null,
+      position: { lat: 59.3293, lng: 18.0686 },
+      mapPosition: { x: 12.5, y: -40.25, unit: 'mm' },
+    });
+    expect(race1.controls[2]).toEqual({ id: '32', code: 32 });
+  });
+
+  test('reads class assignments per race', () => {
+    expect(race1.classAssignments).toHaveLength(3);
+    expect(race2.classAssignments).toEqual([]);
+  });
+
+  test('controls all in random order make a score-O course', () => {
+    expect(race2.courses[0].isInline).toBe(false);
+    expect(race2.courses[0].controlScores).toBeUndefined();
+  });
+
+  test('reports problems without dropping the rest of the file', () => {
+    expect(result.errors).toEqual([
+      'Race 1: course "Broken" uses control "F1" which has no numeric code',
+      'Race 1: course "Broken" has no controls',
+      'Race 1: class Open is assigned to unknown course "Missing"',
+      'Race 2: course "Long" uses undefined control 42',
+    ]);
+    expect(race1.courses.map((c) => c.name)).toEqual(['Long', 'Score']);
+  });
+
+  test('assigns relay courses to the legs they are allowed on', () => {
+    const relay = parseCourseData(`<CourseData iofVersion="3.0"><RaceCourseData>
+      <Control><Id>31</Id></Control>
+      <Course><Name>1A</Name><CourseControl type="Control"><Control>31</Control></CourseControl></Course>
+      <Course><Name>Short</Name><CourseControl type="Control"><Control>31</Control></CourseControl></Course>
+      <ClassCourseAssignment><ClassName>Open</ClassName><CourseName>1A</CourseName><AllowedOnLeg>1</AllowedOnLeg><AllowedOnLeg>3</AllowedOnLeg></ClassCourseAssignment>
+      <ClassCourseAssignment><ClassName>H10</ClassName><CourseName>1A</CourseName></ClassCourseAssignment>
+    </RaceCourseData></CourseData>`);
+    const [course, short] = relay.races[0].courses;
+    expect(relay.races[0].classAssignments[0].legs).toEqual([1, 3]);
+    expect(course.classNames).toEqual(['H10']);
+    expect(course.relayLegs).toEqual([{ className: 'Open', leg: 1 }, { className: 'Open', leg: 3 }]);
+    expect(short.relayLegs).toBeUndefined();
+  });
+
+  test('rejects files that are not CourseData', () => {
+    expect(() => parseCourseData('<EntryList iofVersion="3.0"/>')).toThrow(CourseDataError);
+    expect(() => parseCourseData('<CourseData iofVersion="2.0.3"/>')).toThrow('Unsupported IOF XML version');
+    expect(() => parseCourseData('<CourseData><Course>')).toThrow('Invalid XML');
+  });
+});
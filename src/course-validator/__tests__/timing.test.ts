@@ -0,0 +1,163 @@
+import { resolveRaceTimes, checkStart, parsePrecedence, START_SOURCES, FINISH_SOURCES } from '../timing';
+import { Course, validateCourse } from '../validator';
+import { feedTiming, Passing } from '../../online/types';
+import { NO_TIME } from '../../si-protocol/types';
+
+const MIN = 60 * 1000;
+const HOUR = 60 * MIN;
+
+const boxStart: Course = { name: 'Box', controls: [31, 32], isInline: true, useBoxStart: true };
+const massStart: Course = { ...boxStart, name: 'Mass', useBoxStart: false, fixedStartTimeMs: 10 * HOUR };
+
+function passing(cardNumber: string, mode: Passing['mode'], timeMs: number): Passing {
+  return { id: 0, cardNumber, controlCode: 1, timeMs, mode, source: 'COM4', receivedAt: '' };
+}
+
+describe('resolveRaceTimes', () => {
+  test('times a run from the card by default', () => {
+    expect(resolveRaceTimes(boxStart, { startTime: 10 * HOUR, finishTime: 10 * HOUR + 25 * MIN })).toEqual({
+      startTimeMs: 10 * HOUR,
+      startSource: 'box',
+      finishTimeMs: 10 * HOUR + 25 * MIN,
+      finishSource: 'card',
+      raceTimeMs: 25 * MIN,
+    });
+  });
+
+  test('prefers the start list, then the fixed start, over the start punch', () => {
+    const timing = { startTime: 10 * HOUR + 2 * MIN, finishTime: 10 * HOUR + 30 * MIN };
+    expect(resolveRaceTimes(massStart, timing)).toMatchObject({ startSource: 'fixed', raceTimeMs: 30 * MIN });
+    expect(resolveRaceTimes(massStart, { ...timing, startListTimeMs: 10 * HOUR + MIN })).toMatchObject({
+      startSource: 'startList',
+      raceTimeMs: 29 * MIN,
+    });
+  });
+
+  test('falls back to the feeds when the card has no start or finish', () => {
+    const times = resolveRaceTimes(boxStart, {
+      startTime: NO_TIME,
+      finishTime: NO_TIME,
+      startFeedTimeMs: 11 * HOUR,
+      finishFeedTimeMs: 11 * HOUR + 40 * MIN,
+    });
+    expect(times).toMatchObject({ startSource: 'startFeed', finishSource: 'finishFeed', raceTimeMs: 40 * MIN });
+  });
+
+  test('follows a configured precedence and never uses sources left out', () => {
+    const timing = {
+      startTime: 11 * HOUR,
+      finishTime: 11 * HOUR + 40 * MIN,
+      startFeedTimeMs: 11 * HOUR + MIN,
+      finishFeedTimeMs: 11 * HOUR + 39 * MIN,
+    };
+    expect(
+      resolveRaceTimes(boxStart, { ...timing, precedence: { start: ['startFeed', 'box'], finish: ['finishFeed', 'card'] } })
+    ).toMatchObject({ startSource: 'startFeed', finishSource: 'finishFeed', raceTimeMs: 38 * MIN });
+    expect(resolveRaceTimes(massStart, { ...timing, precedence: { start: ['startList'], finish: ['card'] } })).toMatchObject({
+      startTimeMs: NO_TIME,
+      startSource: null,
+      raceTimeMs: NO_TIME,
+    });
+  });
+
+  test('a finish before the start crossed midnight', () => {
+    const night = { ...massStart, fixedStartTimeMs: 23.5 * HOUR };
+    expect(resolveRaceTimes(night, { startTime: NO_TIME, finishTime: 20 * MIN }).raceTimeMs).toBe(50 * MIN);
+  });
+
+  test('puts start list times on the event clock of the card times', () => {
+    // Zero time 22:00: the card counts a 00:30 finish as 24:30
+    const timing = { startTime: NO_TIME, finishTime: 24.5 * HOUR, startListTimeMs: 10 * MIN, zeroTimeMs: 22 * HOUR };
+    expect(resolveRaceTimes(boxStart, timing)).toMatchObject({ startTimeMs: 24 * HOUR + 10 * MIN, raceTimeMs: 20 * MIN });
+    expect(resolveRaceTimes(boxStart, { ...timing, startListTimeMs: 23.5 * HOUR }).raceTimeMs).toBe(HOUR);
+    expect(checkStart(boxStart, { ...timing, startTime: 24 * HOUR + 10 * MIN })?.status).toBe('onTime');
+  });
+});
+
+describe('validation status', () => {
+  const punches = [
+    { code: 31, timestampMs: 10 * HOUR + 10 * MIN },
+    { code: 32, timestampMs: 10 * HOUR + 20 * MIN },
+  ];
+
+  test('is OK, MP or DNF from the punches and the finish time', () => {
+    const timing = { startTime: 10 * HOUR, finishTime: 10 * HOUR + 25 * MIN };
+    expect(validateCourse(boxStart, punches, timing)).toMatchObject({ status: 'OK', raceTimeMs: 25 * MIN });
+    expect(validateCourse(boxStart, punches.slice(1), timing).status).toBe('MP');
+    expect(validateCourse(boxStart, punches, { ...timing, finishTime: NO_TIME }).status).toBe('DNF');
+    expect(validateCourse(boxStart, punches, { ...timing, finishTime: NO_TIME, finishFeedTimeMs: timing.finishTime }))
+      .toMatchObject({ status: 'OK', finishSource: 'finishFeed' });
+  });
+
+  test('only reflects the punches without timing', () => {
+    expect(validateCourse(boxStart, punches)).toMatchObject({ status: 'OK', raceTimeMs: NO_TIME, startSource: null });
+    expect(validateCourse(boxStart, punches.slice(1)).status).toBe('MP');
+  });
+});
+
+describe('checkStart', () => {
+  const allocated = 10 * HOUR;
+
+  test('compares the start punch with the start list time', () => {
+    const timing = (punched: number) => ({ startTime: punched, finishTime: NO_TIME, startListTimeMs: allocated });
+    expect(checkStart(boxStart, timing(allocated + 20000))).toEqual({
+      allocatedTimeMs: allocated,
+      punchedTimeMs: allocated + 20000,
+      differenceMs: 20000,
+      status: 'onTime',
+    });
+    expect(checkStart(boxStart, timing(allocated - 500))?.status).toBe('onTime');
+    expect(checkStart(boxStart, timing(allocated - 5000))?.status).toBe('falseStart');
+    expect(checkStart(boxStart, timing(allocated + 2 * MIN))?.status).toBe('lateStart');
+    expect(checkStart(boxStart, { ...timing(allocated + 2 * MIN), startTolerance: { earlyMs: 0, lateMs: 3 * MIN } })?.status)
+      .toBe('onTime');
+  });
+
+  test('checks punches at a mass start against the fixed start', () => {
+    const check = checkStart(massStart, { startTime: NO_TIME, finishTime: NO_TIME, startFeedTimeMs: allocated - 3000 });
+    expect(check).toMatchObject({ allocatedTimeMs: allocated, status: 'falseStart' });
+  });
+
+  test('needs an allocated start and a start punch', () => {
+    expect(checkStart(boxStart, { startTime: allocated, finishTime: NO_TIME })).toBeUndefined();
+    expect(checkStart(massStart, { startTime: NO_TIME, finishTime: NO_TIME })).toBeUndefined();
+  });
+
+  test('leaves a relay leg starting at the handover unchecked', () => {
+    const handoverTimeMs = allocated + 20 * MIN;
+    const timing = { startTime: allocated + 25 * MIN, finishTime: allocated + HOUR, startListTimeMs: allocated, handoverTimeMs };
+    expect(checkStart(boxStart, timing)).toBeUndefined();
+    expect(resolveRaceTimes(boxStart, timing)).toMatchObject({ startTimeMs: handoverTimeMs, startSource: 'startList' });
+  });
+
+  test('is part of the validation', () => {
+    const timing = { startTime: allocated - 5000, finishTime: allocated + 30 * MIN, startListTimeMs: allocated };
+    expect(validateCourse(boxStart, [], timing).startCheck?.status).toBe('falseStart');
+    expect(validateCourse(boxStart, [], { ...timing, startListTimeMs: undefined })).not.toHaveProperty('startCheck');
+  });
+});
+
+describe('feedTiming', () => {
+  test('takes the latest finish and the latest start before it', () => {
+    const passings = [
+      passing('8123456', 'Start', 9 * HOUR),
+      passing('8123456', 'Finish', 9 * HOUR + 30 * MIN),
+      passing('8123456', 'BeaconStart', 10 * HOUR),
+      passing('8123456', 'Control', 10 * HOUR + 5 * MIN),
+      passing('8123456', 'Finish', 10 * HOUR + 45 * MIN),
+      passing('8123456', 'Start', 11 * HOUR),
+      passing('7000001', 'Finish', 12 * HOUR),
+    ];
+    expect(feedTiming(passings, '8123456')).toEqual({ startFeedTimeMs: 10 * HOUR, finishFeedTimeMs: 10 * HOUR + 45 * MIN });
+    expect(feedTiming(passings, '9000000')).toEqual({});
+  });
+});
+
+describe('parsePrecedence', () => {
+  test('reads a comma separated list of sources', () => {
+    expect(parsePrecedence('startFeed, box', START_SOURCES)).toEqual(['startFeed', 'box']);
+    expect(() => parsePrecedence('card,chip', FINISH_SOURCES)).toThrow('Unknown timing source "chip"');
+    expect(() => parsePrecedence('box,box', START_SOURCES)).toThrow('listed twice');
+    expect(() => parsePrecedence('', START_SOURCES)).toThrow('No timing source');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Course file loading for the CLI and other non-UI callers.
+ *
+ * Accepts an IOF XML 3.0 CourseData file or a JSON file holding either an
+ * array of courses or an event object `{ "name": ..., "courses": [...] }`.
+ * JSON courses only need a name and controls; isInline and useBoxStart
+ * default to true.
+ */
+
+import { Course } from './validator';
+import { CourseDataError, parseCourseData } from './iof-course-data';
+
+export interface CourseFile {
+  eventName: string;
+  courses: Course[];
+  errors: string[];            // Non-fatal problems, as in CourseDataResult
+}
+
+/**
+ * Parse a course file. XML files with several races load the first race
+ * that has courses, unless another race number is given.
+ */
+export function parseCourseFile(content: string, raceNumber?: number): CourseFile {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('<')) {
+    const data = parseCourseData(text);
+    const race =
+      raceNumber !== undefined
+        ? data.races.find((r) => r.raceNumber === raceNumber)
+        : data.races.find((r) => r.courses.length > 0);
+    if (!race) {
+      throw new CourseDataError(
+        raceNumber !== undefined ? `No race ${raceNumber} in course file` : 'No courses in course file'
+      );
+    }
+    return { eventName: data.eventName, courses: race.courses, errors: data.errors };
+  }
+  return parseCourseJson(text);
+}
+
+/** A course in a JSON file: name and controls, optionally the other Course fields */
+type CourseEntry = Omit<Partial<Course>, 'name' | 'controls'> & { name: string; controls: unknown[] };
+
+function isCourseEntry(value: unknown): value is CourseEntry {
+  const entry = value as { name?: unknown; controls?: unknown } | null;
+  return typeof entry === 'object' && entry !== null && typeof entry.name === 'string' && Array.isArray(entry.controls);
+}
+
+function parseCourseJson(text: string): CourseFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err: any) {
+    throw new CourseDataError(`Invalid JSON: ${err.message}`);
+  }
+
+  const event = json as { name?: unknown; courses?: unknown };
+  const list = Array.isArray(json) ? json : event?.courses;
+  if (!Array.isArray(list)) {
+    throw new CourseDataError('Expected an array of courses or an object with a "courses" array');
+  }
+
+  const courses = list.map((c: unknown, i: number): Course => {
+    if (!isCourseEntry(c)) {
+      throw new CourseDataError(`Course ${i + 1} needs a "name" and a "controls" array`);
+    }
+    const controls = c.controls.map(Number);
+    if (controls.some((code) => !Number.isInteger(code) || code <= 0)) {
+      throw new CourseDataError(`Course "${c.name}" has an invalid control code`);
+    }
+    return { ...c, controls, isInline: c.isInline ?? true, useBoxStart: c.useBoxStart ?? true };
+  });
+
+  return {
+    eventName: !Array.isArray(json) && typeof event.name === 'string' ? event.name : 'Courses',
+    courses,
+    errors: courses.length === 0 ? ['No courses in course file'] : [],
+  };
+}
@@ -1,8 +1,46 @@
 export {
   Course,
+  RelayLeg,
   ControlResult,
   ValidationResult,
+  ScoreResult,
   validateInline,
   validateScoreO,
+  validateCourse,
+  racePunches,
+  isScoreCourse,
+  controlPoints,
+  compareScores,
   autoDetectCourse,
 } from './validator';
+export {
+  StartSource,
+  FinishSource,
+  TimingPrecedence,
+  RaceTiming,
+  RaceTimes,
+  RaceStatus,
+  StartTolerance,
+  StartCheckStatus,
+  StartCheck,
+  START_SOURCES,
+  FINISH_SOURCES,
+  DEFAULT_TIMING_PRECEDENCE,
+  DEFAULT_START_TOLERANCE,
+  resolveRaceTimes,
+  checkStart,
+  courseStartTime,
+  courseRaceTime,
+  raceStatus,
+  parsePrecedence,
+} from './timing';
+export {
+  IofControlType,
+  IofControl,
+  ClassCourseAssignment,
+  RaceCourses,
+  CourseDataResult,
+  CourseDataError,
+  parseCourseData,
+} from './iof-course-data';
+export { CourseFile, parseCourseFile } from './course-file';
@@ -0,0 +1,213 @@
+/**
+ * IOF XML 3.0 CourseData import.
+ *
+ * Parses the course files written by Purple Pen, OCAD and Condes into
+ * Course objects, one set per RaceCourseData element. Start and finish
+ * controls, course length and climb, leg lengths, score values and
+ * ClassCourseAssignment are kept; control positions are returned per race.
+ *
+ * Uses the dependency-free XML reader so it runs in Node.js and the browser.
+ * Problems that only affect part of the file (an undefined control, a course
+ * without controls) are reported in `errors` and the rest is still returned;
+ * a file that is not CourseData at all throws a CourseDataError.
+ */
+
+import { XmlElement, XmlParseError, parseXml, child, children, childText } from '../iof-xml/xml';
+import { Course } from './validator';
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export type IofControlType = 'Start' | 'Control' | 'Finish' | 'CrossingPoint' | 'EndOfMarkedRoute';
+
+export interface IofControl {
+  id: string;                  // Control id as written in the file, e.g. "31", "S1"
+  code: number | null;         // Punched code, null for non-numeric ids
+  position?: { lat: number; lng: number };
+  mapPosition?: { x: number; y: number; unit: string };
+}
+
+export interface ClassCourseAssignment {
+  className: string;
+  courseName: string;
+  legs?: number[];             // Relay legs the course is allowed on (AllowedOnLeg)
+}
+
+export interface RaceCourses {
+  raceNumber: number;
+  controls: IofControl[];
+  courses: Course[];
+  classAssignments: ClassCourseAssignment[];
+}
+
+export interface CourseDataResult {
+  eventName: string;
+  races: RaceCourses[];
+  errors: string[];
+}
+
+export class CourseDataError extends Error {
+  constructor(msg: string) {
+    super(msg);
+    this.name = 'CourseDataError';
+  }
+}
+
+// ─── Parser ────────────────────────────────────────────────────────────────────
+
+export function parseCourseData(source: string): CourseDataResult {
+  let root: XmlElement;
+  try {
+    root = parseXml(source);
+  } catch (err) {
+    if (err instanceof XmlParseError) throw new CourseDataError(`Invalid XML: ${err.message}`);
+    throw err;
+  }
+  if (root.name !== 'CourseData') {
+    throw new CourseDataError(`Expected an IOF CourseData file, got <${root.name}>`);
+  }
+  if (root.attributes.iofVersion && !root.attributes.iofVersion.startsWith('3')) {
+    throw new CourseDataError(`Unsupported IOF XML version ${root.attributes.iofVersion}`);
+  }
+
+  const errors: string[] = [];
+  const races = children(root, 'RaceCourseData').map((el, i) => parseRace(el, i + 1, errors));
+  if (races.length === 0) {
+    errors.push('No RaceCourseData in file');
+  }
+  return { eventName: childText(root, 'Event', 'Name') ?? 'Imported Event', races, errors };
+}
+
+function parseRace(el: XmlElement, defaultNumber: number, errors: string[]): RaceCourses {
+  const raceNumber =
+    parseNumber(el.attributes.raceNumber) ?? parseNumber(childText(el, 'RaceNumber')) ?? defaultNumber;
+
+  const controls = children(el, 'Control').map(parseControl);
+  const byId = new Map(controls.map((c) => [c.id, c]));
+
+  const classAssignments: ClassCourseAssignment[] = [];
+  for (const a of children(el, 'ClassCourseAssignment')) {
+    const className = childText(a, 'ClassName');
+    const courseName = childText(a, 'CourseName');
+    const legs = children(a, 'AllowedOnLeg')
+      .map((leg) => parseNumber(leg.text))
+      .filter((leg): leg is number => leg !== undefined);
+    if (className && courseName) {
+      classAssignments.push({ className, courseName, ...(legs.length > 0 && { legs }) });
+    } else {
+      errors.push(`Race ${raceNumber}: ClassCourseAssignment without class or course name`);
+    }
+  }
+
+  const courses: Course[] = [];
+  children(el, 'Course').forEach((courseEl, i) => {
+    const course = parseCourse(courseEl, i, byId, (msg) => errors.push(`Race ${raceNumber}: ${msg}`));
+    if (!course) return;
+    const assigned = classAssignments.filter((a) => a.courseName === course.name);
+    const classNames = assigned.filter((a) => !a.legs).map((a) => a.className);
+    if (classNames.length > 0) course.classNames = classNames;
+    // Relay classes run the course on some legs only
+    const relayLegs = assigned.flatMap((a) => (a.legs ?? []).map((leg) => ({ className: a.className, leg })));
+    if (relayLegs.length > 0) course.relayLegs = relayLegs;
+    courses.push(course);
+  });
+
+  for (const a of classAssignments) {
+    if (!courses.some((c) => c.name === a.courseName)) {
+      errors.push(`Race ${raceNumber}: class ${a.className} is assigned to unknown course "${a.courseName}"`);
+    }
+  }
+  return { raceNumber, controls, courses, classAssignments };
+}
+
+function parseControl(el: XmlElement): IofControl {
+  const id = childText(el, 'Id') ?? '';
+  const control: IofControl = { id, code: /^\d+$/.test(id) ? parseInt(id, 10) : null };
+
+  const position = child(el, 'Position');
+  const lat = parseNumber(position?.attributes.lat);
+  const lng = parseNumber(position?.attributes.lng);
+  if (lat !== undefined && lng !== undefined) control.position = { lat, lng };
+
+  const mapPosition = child(el, 'MapPosition');
+  const x = parseNumber(mapPosition?.attributes.x);
+  const y = parseNumber(mapPosition?.attributes.y);
+  if (x !== undefined && y !== undefined) {
+    control.mapPosition = { x, y, unit: mapPosition?.attributes.unit ?? 'mm' };
+  }
+  return control;
+}
+
+function parseCourse(
+  el: XmlElement,
+  index: number,
+  controlsById: Map<string, IofControl>,
+  error: (msg: string) => void
+): Course | null {
+  const name = childText(el, 'Name') ?? `Course ${index + 1}`;
+  const course: Course = { name, controls: [], isInline: true, useBoxStart: true };
+
+  const length = parseNumber(childText(el, 'Length'));
+  const climb = parseNumber(childText(el, 'Climb'));
+  if (length !== undefined) course.length = length;
+  if (climb !== undefined) course.climb = climb;
+
+  const legLengths: (number | undefined)[] = [];
+  const scores: Record<number, number> = {};
+  let pendingLeg: number | undefined;
+  let randomOrder = 0;
+
+  for (const cc of children(el, 'CourseControl')) {
+    const type = (cc.attributes.type ?? 'Control') as IofControlType;
+    const id = childText(cc, 'Control') ?? '';
+    const leg = parseNumber(childText(cc, 'LegLength'));
+
+    if (type === 'Start') {
+      course.startControl = id;
+      continue;
+    }
+    // Legs via crossing points are added up into the next punched leg
+    if (leg !== undefined) pendingLeg = (pendingLeg ?? 0) + leg;
+    if (type === 'CrossingPoint' || type === 'EndOfMarkedRoute') continue;
+
+    legLengths.push(pendingLeg);
+    pendingLeg = undefined;
+    if (type === 'Finish') {
+      course.finishControl = id;
+      continue;
+    }
+
+    const code = controlsById.get(id)?.code ?? (/^\d+$/.test(id) ? parseInt(id, 10) : null);
+    if (code === null) {
+      error(`course "${name}" uses control "${id}" which has no numeric code`);
+      continue;
+    }
+    if (controlsById.size > 0 && !controlsById.has(id)) {
+      error(`course "${name}" uses undefined control ${id}`);
+    }
+    course.controls.push(code);
+
+    const score = parseNumber(childText(cc, 'Score'));
+    if (score !== undefined) scores[code] = score;
+    if (cc.attributes.randomOrder === 'true') randomOrder++;
+  }
+
+  if (course.controls.length === 0) {
+    error(`course "${name}" has no controls`);
+    return null;
+  }
+  // Score values or all-random order mean the controls can be taken in any order
+  if (Object.keys(scores).length > 0 || randomOrder === course.controls.length) {
+    course.isInline = false;
+  }
+  if (Object.keys(scores).length > 0) course.controlScores = scores;
+  if (legLengths.length > 0 && legLengths.every((l) => l !== undefined)) {
+    course.legLengths = legLengths as number[];
+  }
+  return course;
+}
+
+function parseNumber(text: string | undefined): number | undefined {
+  if (text === undefined || text.trim() === '') return undefined;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : undefined;
+}
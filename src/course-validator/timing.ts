@@ -0,0 +1,202 @@
+/**
+ * Race timing: where the start and finish of a run come from.
+ *
+ * Start sources:
+ *   startList  start time allocated to the runner in the start list
+ *   fixed      fixed start time of the course (mass start), unless it uses a box start
+ *   box        start punch on the card (start box or punching start)
+ *   startFeed  start station punch from the online feed (start station in autosend)
+ *
+ * Finish sources:
+ *   card        finish punch on the card
+ *   finishFeed  finish station punch from the online feed
+ *
+ * The first source in the precedence list that has a time wins. The default
+ * precedence prefers the start list, then the fixed start of a mass start
+ * course, then the card, and takes the card's finish before the feed: without
+ * a start list or feeds that is the card's own timing.
+ *
+ * Card and feed times already count past 24 h after midnight; start list and
+ * fixed start times are plain times of day. Every source is put on the event
+ * clock against the zero time (see eventClockTime) before they are compared.
+ *
+ * Runners with an allocated start (start list, or the fixed start of a mass
+ * start course) who also punched a start get a start check: a punch earlier
+ * than the allocated time is a false start, one well after it a late start.
+ *
+ * Relay legs after the first start at the handover, which stands in for the
+ * start list time. Runners do not start on a time there, so a start punch on
+ * such a leg gets no start check.
+ */
+
+import { NO_TIME } from '../si-protocol/types';
+import { DAY_MS, eventClockTime } from '../si-protocol/time';
+import type { Course } from './validator';
+
+// ─── Public types ──────────────────────────────────────────────────────────────
+
+export type StartSource = 'startList' | 'fixed' | 'box' | 'startFeed';
+export type FinishSource = 'card' | 'finishFeed';
+
+export const START_SOURCES: StartSource[] = ['startList', 'fixed', 'box', 'startFeed'];
+export const FINISH_SOURCES: FinishSource[] = ['card', 'finishFeed'];
+
+/** Order in which the sources are tried; sources left out are never used */
+export interface TimingPrecedence {
+  start: StartSource[];
+  finish: FinishSource[];
+}
+
+export const DEFAULT_TIMING_PRECEDENCE: TimingPrecedence = {
+  start: START_SOURCES,
+  finish: FINISH_SOURCES,
+};
+
+/**
+ * Everything that can time a run. The card's start and finish punches are
+ * required (an SiCardData fits), the other sources are optional. All times
+ * are ms since midnight, NO_TIME or absent when the source has none.
+ */
+export interface RaceTiming {
+  startTime: number;           // Start punch on the card
+  finishTime: number;          // Finish punch on the card
+  startListTimeMs?: number;    // Allocated start time
+  handoverTimeMs?: number;     // Relay leg start at the handover; replaces the start list time
+  startFeedTimeMs?: number;    // Start station punch from the online feed
+  finishFeedTimeMs?: number;   // Finish station punch from the online feed
+  precedence?: TimingPrecedence;  // DEFAULT_TIMING_PRECEDENCE when absent
+  startTolerance?: StartTolerance;  // DEFAULT_START_TOLERANCE when absent
+  zeroTimeMs?: number;         // Event zero time; earlier times count as the next day (default 00:00)
+}
+
+/** Start, finish and race time of a run, with the source each time came from */
+export interface RaceTimes {
+  startTimeMs: number;                 // NO_TIME when no source had a start
+  startSource: StartSource | null;
+  finishTimeMs: number;                // NO_TIME when no source had a finish
+  finishSource: FinishSource | null;
+  raceTimeMs: number;                  // finish − start, NO_TIME when either is missing
+}
+
+/**
+ * Outcome of a run: DNF without a finish time from any source, MP with
+ * missing controls, OK otherwise.
+ */
+export type RaceStatus = 'OK' | 'MP' | 'DNF';
+
+/** How far the start punch may be from the allocated start time */
+export interface StartTolerance {
+  earlyMs: number;             // Punches earlier than this before the allocated time are false starts
+  lateMs: number;              // Punches later than this after the allocated time are late starts
+}
+
+/** Clock drift between start stations, and a minute to get through the start */
+export const DEFAULT_START_TOLERANCE: StartTolerance = { earlyMs: 1000, lateMs: 60000 };
+
+export type StartCheckStatus = 'onTime' | 'falseStart' | 'lateStart';
+
+/** Start punch compared with the allocated start time */
+export interface StartCheck {
+  allocatedTimeMs: number;     // Start list time, or the fixed start of a mass start course
+  punchedTimeMs: number;       // Start punch on the card, or from the start feed
+  differenceMs: number;        // punched − allocated; negative when punched early
+  status: StartCheckStatus;
+}
+
+// ─── Resolution ────────────────────────────────────────────────────────────────
+
+function known(time: number | undefined): time is number {
+  return time !== undefined && time !== NO_TIME;
+}
+
+/** A source time on the event clock */
+function clockTime(time: number | undefined, timing: RaceTiming): number | undefined {
+  return known(time) ? eventClockTime(time, timing.zeroTimeMs ?? 0) : time;
+}
+
+function startTimeFrom(source: StartSource, course: Course | undefined, timing: RaceTiming): number | undefined {
+  switch (source) {
+    case 'startList':
+      return clockTime(timing.handoverTimeMs ?? timing.startListTimeMs, timing);
+    case 'fixed':
+      return course && !course.useBoxStart ? clockTime(course.fixedStartTimeMs, timing) : undefined;
+    case 'box':
+      return clockTime(timing.startTime, timing);
+    case 'startFeed':
+      return clockTime(timing.startFeedTimeMs, timing);
+  }
+}
+
+function finishTimeFrom(source: FinishSource, timing: RaceTiming): number | undefined {
+  return clockTime(source === 'card' ? timing.finishTime : timing.finishFeedTimeMs, timing);
+}
+
+/**
+ * Start, finish and race time of a run on a course, on the event clock. A
+ * finish still before the start (no zero time set) crossed midnight.
+ */
+export function resolveRaceTimes(course: Course | undefined, timing: RaceTiming): RaceTimes {
+  const precedence = timing.precedence ?? DEFAULT_TIMING_PRECEDENCE;
+  const startSource = precedence.start.find((s) => known(startTimeFrom(s, course, timing))) ?? null;
+  const finishSource = precedence.finish.find((s) => known(finishTimeFrom(s, timing))) ?? null;
+  const startTimeMs = startSource ? startTimeFrom(startSource, course, timing)! : NO_TIME;
+  const finishTimeMs = finishSource ? finishTimeFrom(finishSource, timing)! : NO_TIME;
+
+  let raceTimeMs = NO_TIME;
+  if (startTimeMs !== NO_TIME && finishTimeMs !== NO_TIME) {
+    raceTimeMs = finishTimeMs - startTimeMs;
+    if (raceTimeMs < 0) raceTimeMs += DAY_MS;
+  }
+  return { startTimeMs, startSource, finishTimeMs, finishSource, raceTimeMs };
+}
+
+/** Start time for a course, see resolveRaceTimes */
+export function courseStartTime(course: Course | undefined, timing: RaceTiming): number {
+  return resolveRaceTimes(course, timing).startTimeMs;
+}
+
+/** Running time in ms on a course, or NO_TIME when the start or finish is missing */
+export function courseRaceTime(course: Course | undefined, timing: RaceTiming): number {
+  return resolveRaceTimes(course, timing).raceTimeMs;
+}
+
+/**
+ * Compare the start punch with the allocated start time. Undefined when the
+ * runner has no allocated start, did not punch one, or starts at a handover.
+ */
+export function checkStart(course: Course | undefined, timing: RaceTiming): StartCheck | undefined {
+  if (known(timing.handoverTimeMs)) return undefined;
+  const allocated = [startTimeFrom('startList', course, timing), startTimeFrom('fixed', course, timing)].find(known);
+  const punched = [clockTime(timing.startTime, timing), clockTime(timing.startFeedTimeMs, timing)].find(known);
+  if (allocated === undefined || punched === undefined) return undefined;
+
+  const tolerance = timing.startTolerance ?? DEFAULT_START_TOLERANCE;
+  const differenceMs = punched - allocated;
+  const status: StartCheckStatus =
+    differenceMs < -tolerance.earlyMs ? 'falseStart' : differenceMs > tolerance.lateMs ? 'lateStart' : 'onTime';
+  return { allocatedTimeMs: allocated, punchedTimeMs: punched, differenceMs, status };
+}
+
+/** Status of a run from its finish time and whether every control was punched */
+export function raceStatus(times: RaceTimes, allCorrect: boolean): RaceStatus {
+  if (times.finishTimeMs === NO_TIME) return 'DNF';
+  return allCorrect ? 'OK' : 'MP';
+}
+
+// ─── Configuration ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse a comma separated precedence list such as "startList,box"; throws
+ * on unknown or repeated sources.
+ */
+export function parsePrecedence<T extends string>(text: string, sources: readonly T[]): T[] {
+  const list = text.split(',').map((s) => s.trim()).filter(Boolean);
+  for (const [i, name] of list.entries()) {
+    if (!sources.includes(name as T)) {
+      throw new Error(`Unknown timing source "${name}"; expected ${sources.join(', ')}`);
+    }
+    if (list.indexOf(name) !== i) throw new Error(`Timing source "${name}" is listed twice`);
+  }
+  if (list.length === 0) throw new Error('No timing source given');
+  return list as T[];
+}
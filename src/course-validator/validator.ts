@@ -8,7 +8,11 @@
  * Original author: Thierry (EasyGec)
  */
 
-import { SiPunch, NO_TIME } from '../si-protocol/types';
+import { SiPunch, SiCardData, NO_TIME } from '../si-protocol/types';
+import { RaceTiming, RaceTimes, RaceStatus, StartCheck, resolveRaceTimes, raceStatus, checkStart } from './timing';
+
+export type { RaceTiming, RaceTimes, RaceStatus } from './timing';
+export { courseStartTime, courseRaceTime } from './timing';
 
 // ─── Public types ──────────────────────────────────────────────────────────────
 
@@ -18,6 +22,26 @@ export interface Course {
   isInline: boolean;           // true = ordered (inline), false = score-O
   useBoxStart: boolean;        // true = use SI card start time, false = fixed start time
   fixedStartTimeMs?: number;   // If useBoxStart is false, the fixed start time
+
+  // Optional details from IOF XML CourseData (see iof-course-data.ts)
+  length?: number;             // Course length in metres
+  climb?: number;              // Course climb in metres
+  legLengths?: number[];       // Metres to each control, then to the finish
+  controlScores?: Record<number, number>;  // Score-O points per control code
+
+  // Score-O rules: a course with points or a time limit is a score course
+  timeLimitMs?: number;        // Time allowed; running over costs penalty points
+  penaltyPerMinute?: number;   // Points lost per started minute over the limit
+  startControl?: string;       // Start control id, e.g. "S1"
+  finishControl?: string;      // Finish control id, e.g. "F1"
+  classNames?: string[];       // Classes assigned to the course
+  relayLegs?: RelayLeg[];      // Relay legs run on the course; several courses on one leg are forked variants
+}
+
+/** A leg of a relay class, numbered from 1 */
+export interface RelayLeg {
+  className: string;
+  leg: number;
 }
 
 export interface ControlResult {
@@ -26,12 +50,27 @@ export interface ControlResult {
   timestampMs: number;         // NO_TIME if not found
 }
 
-export interface ValidationResult {
+export interface ScoreResult {
+  points: number;              // Points for the controls visited
+  penalty: number;             // Late penalty
+  total: number;               // points − penalty
+  overtimeMs: number;          // Time over the limit, 0 if within it or unknown
+}
+
+/**
+ * Outcome of validating a read against a course. The race times come from
+ * the timing passed to the validator (see resolveRaceTimes); without timing
+ * they are NO_TIME and the status only reflects the punches (OK or MP).
+ */
+export interface ValidationResult extends RaceTimes {
   course: Course;
   controlResults: ControlResult[];
   missingCount: number;
   extraControls: number[];     // Control codes punched but not on the course
   allCorrect: boolean;
+  status: RaceStatus;          // DNF without a finish, MP with missing controls, OK otherwise
+  startCheck?: StartCheck;     // Only with an allocated start and a start punch
+  score?: ScoreResult;         // Only for score courses
 }
 
 // ─── Validate inline course (order matters) ────────────────────────────────────
@@ -45,7 +84,8 @@ export interface ValidationResult {
  */
 export function validateInline(
   course: Course,
-  punches: SiPunch[]
+  punches: SiPunch[],
+  timing?: RaceTiming
 ): ValidationResult {
   const expected = course.controls;
 
@@ -138,13 +178,10 @@ export function validateInline(
 
   const missingCount = controlResults.filter((r) => !r.found).length;
 
-  return {
-    course,
-    controlResults,
-    missingCount,
-    extraControls,
-    allCorrect: missingCount === 0,
-  };
+  return withRaceTimes(
+    { course, controlResults, missingCount, extraControls, allCorrect: missingCount === 0 },
+    timing
+  );
 }
 
 // ─── Validate score-O course (order doesn't matter) ────────────────────────────
@@ -154,11 +191,16 @@ export function validateInline(
  * is checked against the punch list; each punch can only satisfy one expected
  * control.
  *
+ * On a score course (see isScoreCourse) no control is compulsory: the result
+ * is always correct and carries the points instead, less the late penalty
+ * when the race timing shows the runner over the time limit.
+ *
  * Algorithm ported from EasyGec's `AuScore.java`.
  */
 export function validateScoreO(
   course: Course,
-  punches: SiPunch[]
+  punches: SiPunch[],
+  timing?: RaceTiming
 ): ValidationResult {
   const expected = course.controls;
 
@@ -185,15 +227,111 @@ export function validateScoreO(
   });
 
   const extraControls = findExtraControls(expected, punches);
+
+  if (isScoreCourse(course)) {
+    const result = withRaceTimes(
+      { course, controlResults, missingCount: 0, extraControls, allCorrect: true },
+      timing
+    );
+    return { ...result, score: computeScore(course, controlResults, result.raceTimeMs) };
+  }
+
   const missingCount = controlResults.filter((r) => !r.found).length;
+  return withRaceTimes(
+    { course, controlResults, missingCount, extraControls, allCorrect: missingCount === 0 },
+    timing
+  );
+}
+
+// ─── Score-O points ────────────────────────────────────────────────────────────
+
+/** Score courses have control points or a time limit; no control is compulsory */
+export function isScoreCourse(course: Course): boolean {
+  return !course.isInline && (course.controlScores !== undefined || course.timeLimitMs !== undefined);
+}
+
+/** Points for a control: its score value, or 1 when the course has no score values */
+export function controlPoints(course: Course, code: number): number {
+  if (!course.controlScores) return 1;
+  return course.controlScores[code] ?? 0;
+}
+
+function computeScore(course: Course, controlResults: ControlResult[], raceTime: number): ScoreResult {
+  const points = controlResults
+    .filter((cr) => cr.found)
+    .reduce((sum, cr) => sum + controlPoints(course, cr.expectedCode), 0);
 
-  return {
-    course,
-    controlResults,
-    missingCount,
-    extraControls,
-    allCorrect: missingCount === 0,
-  };
+  const overtimeMs =
+    course.timeLimitMs !== undefined && raceTime !== NO_TIME ? Math.max(0, raceTime - course.timeLimitMs) : 0;
+  const penalty = Math.ceil(overtimeMs / 60000) * (course.penaltyPerMinute ?? 0);
+
+  return { points, penalty, total: points - penalty, overtimeMs };
+}
+
+/**
+ * Ranking order for score courses: higher total first, then the faster
+ * race time. Usable with Array.prototype.sort.
+ */
+export function compareScores(
+  a: { score: ScoreResult; timeMs: number },
+  b: { score: ScoreResult; timeMs: number }
+): number {
+  return b.score.total - a.score.total || a.timeMs - b.timeMs;
+}
+
+// ─── Race time ─────────────────────────────────────────────────────────────────
+
+type PunchValidation = Omit<ValidationResult, keyof RaceTimes | 'status' | 'startCheck' | 'score'>;
+
+/** Add the race times, status and start check to a punch validation */
+function withRaceTimes(result: PunchValidation, timing?: RaceTiming): ValidationResult {
+  if (!timing) {
+    return {
+      ...result,
+      startTimeMs: NO_TIME,
+      startSource: null,
+      finishTimeMs: NO_TIME,
+      finishSource: null,
+      raceTimeMs: NO_TIME,
+      status: result.allCorrect ? 'OK' : 'MP',
+    };
+  }
+  const times = resolveRaceTimes(result.course, timing);
+  const startCheck = checkStart(result.course, timing);
+  return { ...result, ...times, status: raceStatus(times, result.allCorrect), ...(startCheck && { startCheck }) };
+}
+
+// ─── Punch selection ───────────────────────────────────────────────────────────
+
+/**
+ * Punches made between the card's start and finish. Cards that weren't
+ * cleared still hold old punches from previous runs; these are ignored.
+ */
+export function racePunches(card: SiCardData): SiPunch[] {
+  if (card.startTime === NO_TIME) return card.punches;
+  return card.punches.filter(
+    (p) =>
+      p.timestampMs !== NO_TIME &&
+      p.timestampMs >= card.startTime &&
+      (card.finishTime === NO_TIME || p.timestampMs <= card.finishTime)
+  );
+}
+
+// ─── Validate against a single course ──────────────────────────────────────────
+
+/**
+ * Validate punches against one course, inline or score-O as configured.
+ * The race timing gives the result its times and status; score courses
+ * also need it to apply their time limit.
+ */
+export function validateCourse(
+  course: Course,
+  punches: SiPunch[],
+  timing?: RaceTiming
+): ValidationResult {
+  return course.isInline
+    ? validateInline(course, punches, timing)
+    : validateScoreO(course, punches, timing);
 }
 
 // ─── Auto-detect course ────────────────────────────────────────────────────────
@@ -202,35 +340,55 @@ export function validateScoreO(
  * Given multiple courses, validate against all of them and return the one
  * with the fewest missing controls. Ties are broken by course length (prefer
  * longer courses, since a shorter course is more likely a subset match).
+ *
+ * Score courses never miss controls, so they are ranked separately: a
+ * complete regular course wins, then the score course with the most points
+ * (fewest extra punches on a tie), then the regular course closest to
+ * complete. A score course where no control was visited comes last.
  */
 export function autoDetectCourse(
   courses: Course[],
-  punches: SiPunch[]
+  punches: SiPunch[],
+  timing?: RaceTiming
 ): ValidationResult {
   if (courses.length === 0) {
     throw new Error('No courses defined');
   }
 
   let bestResult: ValidationResult | null = null;
+  let bestRank: number[] = [];
 
   for (const course of courses) {
-    const result = course.isInline
-      ? validateInline(course, punches)
-      : validateScoreO(course, punches);
-
-    if (
-      bestResult === null ||
-      result.missingCount < bestResult.missingCount ||
-      (result.missingCount === bestResult.missingCount &&
-        result.course.controls.length > bestResult.course.controls.length)
-    ) {
+    const result = validateCourse(course, punches, timing);
+    const rank = detectionRank(result);
+
+    if (bestResult === null || compareRanks(rank, bestRank) < 0) {
       bestResult = result;
+      bestRank = rank;
     }
   }
 
   return bestResult!;
 }
 
+/** Sort key for autoDetectCourse, lowest first */
+function detectionRank(result: ValidationResult): number[] {
+  if (result.score) {
+    const visited = result.controlResults.some((cr) => cr.found);
+    return visited ? [1, -result.score.points, result.extraControls.length] : [3, 0, 0];
+  }
+  return result.missingCount === 0
+    ? [0, -result.course.controls.length, 0]
+    : [2, result.missingCount, -result.course.controls.length];
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
 // ─── Helpers ───────────────────────────────────────────────────────────────────
 
 /** Check if a given code exists in the punch list starting from a given index */
@@ -1,2 +1,9 @@
 export * from './si-protocol';
 export * from './course-validator';
+export * from './storage';
+export * from './competitors';
+export * from './results';
+export * from './start-list';
+export * from './relay';
+export * from './iof-xml';
+export * from './online';
@@ -0,0 +1,147 @@
+import { buildResultList } from '../result-list';
+import { el, serializeXml } from '../writer';
+import { parseXml, child, children, childText, XmlElement } from '../xml';
+import { NO_TIME, SiCardData } from '../../si-protocol/types';
+import { validateCourse, Course } from '../../course-validator/validator';
+import { StoredRead } from '../../storage/types';
+import { Competitor } from '../../competitors/types';
+
+const HOUR = 3600 * 1000;
+const lion: Course = { name: 'Lion', controls: [31, 33, 36], isInline: true, useBoxStart: true };
+
+function card(cardNumber: string, codes: number[], start: number, finish: number): SiCardData {
+  return {
+    cardNumber,
+    cardSeries: 'SIAC',
+    startTime: start,
+    finishTime: finish,
+    checkTime: NO_TIME,
+    punchCount: codes.length,
+    punches: codes.map((code, i) => ({ code, timestampMs: start + (i + 1) * 60000 })),
+  };
+}
+
+function read(id: number, c: SiCardData, competitorId: number | null = null, course: Course | null = lion): StoredRead {
+  return {
+    id,
+    readAt: '2026-10-18T10:00:00.000Z',
+    card: c,
+    eventName: 'Club Night',
+    competitorId,
+    validation: course ? validateCourse(course, c.punches, c) : null,
+  };
+}
+
+const alice: Competitor = {
+  id: 1, name: 'Alice van Smith', club: 'OK Linné', className: 'W21', courseName: 'Lion',
+  cardNumber: '8000001', bib: '7', rentedCard: false,
+};
+const bob: Competitor = { ...alice, id: 2, name: 'Bob Jones', club: '', cardNumber: '8000002', bib: '' };
+const carol: Competitor = { ...alice, id: 3, name: 'Carol', cardNumber: '8000003' };
+
+function personResults(xml: string): XmlElement[] {
+  return children(parseXml(xml), 'ClassResult').flatMap((cr) => children(cr, 'PersonResult'));
+}
+
+// ─── Writer ────────────────────────────────────────────────────────────────────
+
+describe('XML writer', () => {
+  test('escapes text and attributes and skips empty content', () => {
+    const xml = serializeXml(el('a', { x: 'say "hi"', y: undefined }, el('b', {}, 'R&D <1>'), null, false, el('c')));
+    expect(xml).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n<a x="say &quot;hi&quot;">\n  <b>R&amp;D &lt;1&gt;</b>\n  <c/>\n</a>\n'
+    );
+    expect(childText(parseXml(xml), 'b')).toBe('R&D <1>');
+  });
+});
+
+// ─── ResultList ────────────────────────────────────────────────────────────────
+
+describe('buildResultList', () => {
+  const reads = [
+    read(1, card('8000001', [31, 33, 36], 10 * HOUR, 10 * HOUR + 300000), 1),
+    read(2, card('8000002', [31, 33, 36], 10 * HOUR, 10 * HOUR + 240000), 2),
+    read(3, card('8000003', [31, 34, 36], 10 * HOUR, 10 * HOUR + 200000), 3),
+    read(4, card('8000009', [31, 33, 36], 23 * HOUR, 25 * HOUR)),
+  ];
+  const xml = buildResultList(reads, [alice, bob, carol], {
+    eventName: 'Club Night',
+    eventDate: '2026-10-18',
+    createTime: new Date('2026-10-18T12:00:00Z'),
+  });
+  const doc = parseXml(xml);
+
+  test('writes an IOF 3.0 ResultList header', () => {
+    expect(doc.name).toBe('ResultList');
+    expect(doc.attributes).toMatchObject({ iofVersion: '3.0', createTime: '2026-10-18T12:00:00.000Z', status: 'Complete' });
+    expect(xml).toContain('xmlns="http://www.orienteering.org/datastandard/3.0"');
+    expect(childText(doc, 'Event', 'Name')).toBe('Club Night');
+    expect(childText(doc, 'Event', 'StartTime', 'Date')).toBe('2026-10-18');
+  });
+
+  test('groups by class, falling back to the course for unregistered cards', () => {
+    const classes = children(doc, 'ClassResult');
+    expect(classes.map((c) => childText(c, 'Class', 'Name'))).toEqual(['Lion', 'W21']);
+    expect(childText(classes[1], 'Course', 'Name')).toBe('Lion');
+  });
+
+  test('ranks OK results by time and lists the rest after them', () => {
+    const w21 = personResults(xml).slice(1);
+    expect(w21.map((p) => childText(p, 'Person', 'Name', 'Family'))).toEqual(['Jones', 'Smith', 'Carol']);
+    expect(w21.map((p) => childText(p, 'Result', 'Position'))).toEqual(['1', '2', undefined]);
+    expect(w21.map((p) => childText(p, 'Result', 'Status'))).toEqual(['OK', 'OK', 'MissingPunch']);
+    expect(childText(w21[1], 'Person', 'Name', 'Given')).toBe('Alice van');
+    expect(childText(w21[1], 'Organisation', 'Name')).toBe('OK Linné');
+    expect(childText(w21[1], 'Result', 'BibNumber')).toBe('7');
+    expect(childText(w21[1], 'Result', 'Time')).toBe('300');
+    expect(childText(w21[1], 'Result', 'TimeBehind')).toBe('60');
+  });
+
+  test('writes split times with missing and additional controls', () => {
+    const result = child(personResults(xml)[3], 'Result')!;
+    const splits = children(result, 'SplitTime').map((s) => [s.attributes.status, childText(s, 'ControlCode'), childText(s, 'Time')]);
+    expect(splits).toEqual([
+      [undefined, '31', '60'],
+      ['Missing', '33', undefined],
+      [undefined, '36', '180'],
+      ['Additional', '34', '120'],
+    ]);
+    expect(child(result, 'ControlCard')?.attributes.punchingSystem).toBe('SI');
+  });
+
+  test('writes absolute start and finish times across midnight', () => {
+    const result = child(personResults(xml)[0], 'Result')!;
+    expect(childText(result, 'StartTime')).toBe('2026-10-18T23:00:00');
+    expect(childText(result, 'FinishTime')).toBe('2026-10-19T01:00:00');
+    expect(childText(personResults(xml)[0], 'Person', 'Name', 'Family')).toBe('Card 8000009');
+  });
+
+  test('ranks score courses by score, then time, and writes the score', () => {
+    const score: Course = { name: 'Score', controls: [31, 33, 36], isInline: false, useBoxStart: true, controlScores: { 31: 10, 33: 20, 36: 30 } };
+    const scoreRead = (id: number, codes: number[], finish: number) => {
+      const c = card(`800010${id}`, codes, 10 * HOUR, 10 * HOUR + finish);
+      return { ...read(id, c, null, null), validation: validateCourse(score, c.punches, c) };
+    };
+    const results = personResults(buildResultList(
+      [scoreRead(1, [31, 33], 300000), scoreRead(2, [36, 33], 400000), scoreRead(3, [33, 36], 350000)],
+      [],
+      { eventName: 'x' }
+    ));
+    expect(results.map((p) => childText(p, 'Result', 'ControlCard'))).toEqual(['8000103', '8000102', '8000101']);
+    expect(results.map((p) => childText(p, 'Result', 'Position'))).toEqual(['1', '2', '3']);
+    const scores = children(child(results[0], 'Result')!, 'Score').map((e) => [e.attributes.type, e.text]);
+    expect(scores).toEqual([['Score', '50'], ['Points', '50'], ['Penalty', '0']]);
+  });
+
+  test('writes disqualified runners with the IOF status', () => {
+    const results = personResults(buildResultList(reads, [alice, bob, carol], { eventName: 'x', disqualifiedReadIds: new Set([2]) }));
+    expect(results.map((p) => childText(p, 'Result', 'Status'))).toEqual(['OK', 'OK', 'MissingPunch', 'Disqualified']);
+  });
+
+  test('exports only the latest read of a card', () => {
+    const again = read(5, card('8000001', [31], 10 * HOUR, 10 * HOUR + 100000), 1);
+    const results = personResults(buildResultList([reads[0], again], [alice], { eventName: 'x' }));
+    expect(results).toHaveLength(1);
+    expect(childText(results[0], 'Result', 'Status')).toBe('MissingPunch');
+  });
+});
@@ -0,0 +1,63 @@
+import { buildStartList, parseStartList } from '../start-list';
+import { parseXml, children, childText } from '../xml';
+import { parseCompetitorFile } from '../../competitors/import';
+import { Competitor } from '../../competitors/types';
+
+const HOUR = 3600 * 1000;
+
+const alice: Competitor = {
+  id: 1, name: 'Alice van Smith', club: 'OK Linné', className: 'W21', courseName: 'Lion',
+  cardNumber: '8000001', bib: '7', rentedCard: false, startTimeMs: 10 * HOUR + 4 * 60000,
+};
+const bob: Competitor = { ...alice, id: 2, name: 'Bob Jones', club: '', className: 'M21', bib: '', cardNumber: '8000002', startTimeMs: 10 * HOUR };
+const carol: Competitor = { ...alice, id: 3, name: 'Carol', cardNumber: '8000003', startTimeMs: 10 * HOUR + 2 * 60000 };
+const dave: Competitor = { ...alice, id: 4, name: 'Dave', cardNumber: '8000004', startTimeMs: undefined };
+
+describe('buildStartList', () => {
+  const xml = buildStartList([alice, bob, carol, dave], {
+    eventName: 'Club Night',
+    eventDate: '2026-10-18',
+    createTime: new Date('2026-10-18T08:00:00Z'),
+  });
+  const root = parseXml(xml);
+
+  test('writes a class start per class in start order, without runners who have no start', () => {
+    expect(root.name).toBe('StartList');
+    expect(root.attributes.iofVersion).toBe('3.0');
+    expect(childText(root, 'Event', 'StartTime', 'Date')).toBe('2026-10-18');
+    const classes = children(root, 'ClassStart');
+    expect(classes.map((cs) => childText(cs, 'Class', 'Name'))).toEqual(['M21', 'W21']);
+    const w21 = children(classes[1], 'PersonStart');
+    expect(w21.map((ps) => childText(ps, 'Person', 'Name', 'Given'))).toEqual([undefined, 'Alice van']);
+    expect(childText(w21[1], 'Start', 'StartTime')).toBe('2026-10-18T10:04:00');
+    expect(childText(w21[1], 'Start', 'BibNumber')).toBe('7');
+    expect(childText(w21[1], 'Start', 'ControlCard')).toBe('8000001');
+    expect(childText(w21[1], 'Organisation', 'Name')).toBe('OK Linné');
+  });
+
+  test('reads back into competitors with their start times', () => {
+    const imported = parseStartList(xml);
+    expect(imported).toHaveLength(3);
+    expect(imported[2]).toEqual({
+      name: 'Alice van Smith', club: 'OK Linné', className: 'W21', courseName: '', cardNumber: '8000001',
+      bib: '7', rentedCard: false, startTimeMs: 10 * HOUR + 4 * 60000,
+    });
+    expect(parseCompetitorFile(xml)).toEqual(imported);
+  });
+});
+
+describe('parseStartList', () => {
+  test('keeps the local start time and skips runners without one', () => {
+    const [withOffset, without] = parseStartList(`<StartList iofVersion="3.0"><ClassStart><Class><Name>H16</Name></Class>
+      <PersonStart><Person><Name><Family>Berg</Family><Given>Ola</Given></Name></Person>
+        <Start><StartTime>2026-10-18T11:30:15+02:00</StartTime><ControlCard punchingSystem="Emit">1</ControlCard><ControlCard>501234</ControlCard></Start></PersonStart>
+      <PersonStart><Person><Name><Family>Dahl</Family><Given>Kari</Given></Name></Person><Start/></PersonStart>
+    </ClassStart></StartList>`);
+    expect(withOffset).toMatchObject({ name: 'Ola Berg', className: 'H16', cardNumber: '501234', startTimeMs: 11.5 * HOUR + 15000 });
+    expect(without).not.toHaveProperty('startTimeMs');
+  });
+
+  test('rejects XML that is not a StartList', () => {
+    expect(() => parseStartList('<EntryList/>')).toThrow('Expected an IOF StartList');
+  });
+});
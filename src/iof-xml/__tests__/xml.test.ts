@@ -0,0 +1,36 @@
+import { parseXml, child, childText, children, descendants, XmlParseError } from '../xml';
+
+describe('parseXml', () => {
+  const doc = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<!-- exported by some tool -->
+<iof:CourseData xmlns:iof="http://www.orienteering.org/datastandard/3.0" iof:createTime="2026-10-19">
+  <iof:Event><iof:Name>Autumn &amp; Co &#x263A;</iof:Name></iof:Event>
+  <iof:Control type='Start'><iof:Id>S1</iof:Id></iof:Control>
+  <iof:Control><iof:Id>31</iof:Id><iof:Note><![CDATA[<tree>]]></iof:Note></iof:Control>
+  <iof:Empty/>
+</iof:CourseData>`);
+
+  test('strips namespace prefixes from elements and attributes', () => {
+    expect(doc.name).toBe('CourseData');
+    expect(doc.attributes).toEqual({ createTime: '2026-10-19' });
+  });
+
+  test('decodes entities and CDATA', () => {
+    expect(childText(doc, 'Event', 'Name')).toBe('Autumn & Co ☺');
+    expect(childText(children(doc, 'Control')[1], 'Note')).toBe('<tree>');
+  });
+
+  test('query helpers find children and descendants', () => {
+    expect(children(doc, 'Control')).toHaveLength(2);
+    expect(child(doc, 'Control')?.attributes.type).toBe('Start');
+    expect(descendants(doc, 'Id').map((e) => e.text)).toEqual(['S1', '31']);
+    expect(child(doc, 'Empty')?.children).toEqual([]);
+    expect(childText(doc, 'Missing', 'Name')).toBeUndefined();
+  });
+
+  test('rejects mismatched and unclosed tags', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(XmlParseError);
+    expect(() => parseXml('<a><b>')).toThrow('Unclosed element <b>');
+    expect(() => parseXml('not xml')).toThrow(XmlParseError);
+  });
+});
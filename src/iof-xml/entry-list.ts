@@ -0,0 +1,85 @@
+/**
+ * IOF XML 3.0 EntryList import.
+ *
+ * Reads PersonEntry elements into competitor records. Each runner of a
+ * TeamEntry (relay) becomes a competitor with the team name and their leg.
+ */
+
+import { CompetitorInput } from '../competitors/types';
+import { XmlElement, parseXml, child, children, childText } from './xml';
+
+/** Card rental is not part of the standard; exporters list it as a service */
+const RENTAL_SERVICE_RE = /rent|hire|loan/i;
+
+export function parseEntryList(source: string): CompetitorInput[] {
+  const root = parseXml(source);
+  if (root.name !== 'EntryList') {
+    throw new Error(`Expected an IOF EntryList, got <${root.name}>`);
+  }
+  return [
+    ...children(root, 'PersonEntry').map(parsePersonEntry),
+    ...children(root, 'TeamEntry').flatMap(parseTeamEntry),
+  ];
+}
+
+function parsePersonEntry(entry: XmlElement): CompetitorInput {
+  const rentedCard = children(entry, 'ServiceRequest').some((sr) =>
+    RENTAL_SERVICE_RE.test(childText(sr, 'Service', 'Name') ?? '')
+  );
+
+  return {
+    name: personName(entry),
+    club: organisationName(entry),
+    className: className(entry),
+    courseName: '',
+    cardNumber: siCardNumber(entry),
+    bib: childText(entry, 'BibNumber') ?? '',
+    rentedCard,
+  };
+}
+
+/** One competitor per runner; runners without a leg are left out */
+function parseTeamEntry(entry: XmlElement): CompetitorInput[] {
+  const team = childText(entry, 'Name') ?? '';
+  return children(entry, 'TeamEntryPerson').flatMap((member): CompetitorInput[] => {
+    const leg = Number(childText(member, 'Leg'));
+    if (!Number.isInteger(leg) || leg < 1) return [];
+    return [
+      {
+        name: personName(member),
+        club: organisationName(member) || organisationName(entry),
+        className: className(entry),
+        courseName: '',
+        cardNumber: siCardNumber(member),
+        bib: '',
+        rentedCard: false,
+        team,
+        leg,
+      },
+    ];
+  });
+}
+
+// ─── Fields ────────────────────────────────────────────────────────────────────
+
+function personName(entry: XmlElement): string {
+  const person = child(entry, 'Person');
+  const given = person ? childText(person, 'Name', 'Given') : undefined;
+  const family = person ? childText(person, 'Name', 'Family') : undefined;
+  return [given, family].filter(Boolean).join(' ');
+}
+
+function organisationName(entry: XmlElement): string {
+  return childText(entry, 'Organisation', 'Name') ?? childText(entry, 'Organisation', 'ShortName') ?? '';
+}
+
+function className(entry: XmlElement): string {
+  return childText(entry, 'Class', 'Name') ?? childText(entry, 'Class', 'ShortName') ?? '';
+}
+
+function siCardNumber(entry: XmlElement): string {
+  const cards = children(entry, 'ControlCard');
+  const siCard =
+    cards.find((c) => (c.attributes.punchingSystem ?? 'SI').toUpperCase() === 'SI') ?? cards[0];
+  return siCard?.text.trim() ?? '';
+}
@@ -0,0 +1,5 @@
+export { XmlElement, XmlParseError, parseXml, child, children, childText, descendants } from './xml';
+export { parseEntryList } from './entry-list';
+export { el, serializeXml } from './writer';
+export { IOF_NAMESPACE, ResultListOptions, buildResultList } from './result-list';
+export { StartListOptions, buildStartList, parseStartList } from './start-list';
@@ -0,0 +1,154 @@
+/**
+ * IOF XML 3.0 ResultList export.
+ *
+ * Writes the result standings (see results/standings.ts) as ClassResults
+ * with one PersonResult per card, including position, time behind and
+ * status. Split times come from ValidationResult.controlResults; extra
+ * punches are written as "Additional" splits.
+ */
+
+import { NO_TIME } from '../si-protocol/types';
+import { localDate, localDateTime } from '../si-protocol/time';
+import { StoredRead } from '../storage/types';
+import { Competitor } from '../competitors/types';
+import { ScoreResult } from '../course-validator/validator';
+import { RunnerStatus, Standing, ClassStandings, StandingsOptions } from '../results/types';
+import { buildStandings, readStartTime, readFinishTime } from '../results/standings';
+import { XmlElement } from './xml';
+import { el, serializeXml } from './writer';
+
+export const IOF_NAMESPACE = 'http://www.orienteering.org/datastandard/3.0';
+
+/** IOF ResultStatus for each runner status */
+const IOF_STATUS: Record<RunnerStatus, string> = {
+  OK: 'OK',
+  NC: 'Finished',
+  MP: 'MissingPunch',
+  DNF: 'DidNotFinish',
+  DSQ: 'Disqualified',
+};
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ResultListOptions extends StandingsOptions {
+  eventName: string;
+  /** Event date as YYYY-MM-DD; defaults to the local date of the first read */
+  eventDate?: string;
+  /** Document creation time (default: now) */
+  createTime?: Date;
+  /** Creator attribute of the document (default: "NGZ") */
+  creator?: string;
+}
+
+// ─── Export ────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a ResultList document from the standings (see results/standings.ts).
+ * When a runner's card was read more than once, the latest read is exported.
+ */
+export function buildResultList(
+  reads: StoredRead[],
+  competitors: Competitor[],
+  options: ResultListOptions
+): string {
+  const eventDate = options.eventDate ?? localDate(new Date(reads[0]?.readAt ?? Date.now()));
+
+  const root = el(
+    'ResultList',
+    {
+      xmlns: IOF_NAMESPACE,
+      iofVersion: '3.0',
+      createTime: (options.createTime ?? new Date()).toISOString(),
+      creator: options.creator ?? 'NGZ',
+      status: 'Complete',
+    },
+    el('Event', {}, el('Name', {}, options.eventName), el('StartTime', {}, el('Date', {}, eventDate))),
+    buildStandings(reads, competitors, options).map((cs) => classResult(cs, eventDate))
+  );
+  return serializeXml(root);
+}
+
+function classResult(classStandings: ClassStandings, eventDate: string): XmlElement {
+  const { className, courseName, standings } = classStandings;
+  return el(
+    'ClassResult',
+    {},
+    el('Class', {}, el('Name', {}, className)),
+    courseName && el('Course', {}, el('Name', {}, courseName)),
+    standings.map((s) => personResult(s, eventDate))
+  );
+}
+
+function personResult(standing: Standing, eventDate: string): XmlElement {
+  const { read, competitor, status, timeMs, position, timeBehindMs } = standing;
+  const { card } = read;
+  const start = readStartTime(read);
+  const finish = readFinishTime(read);
+  const [given, family] = competitor ? splitName(competitor.name) : ['', `Card ${card.cardNumber}`];
+
+  return el(
+    'PersonResult',
+    {},
+    el('Person', {}, el('Name', {}, el('Family', {}, family), el('Given', {}, given))),
+    competitor?.club && el('Organisation', {}, el('Name', {}, competitor.club)),
+    el(
+      'Result',
+      {},
+      competitor?.bib && el('BibNumber', {}, competitor.bib),
+      start !== NO_TIME &&
+        el('StartTime', {}, (start === card.startTime && card.startDateTime) || localDateTime(eventDate, start)),
+      finish !== NO_TIME &&
+        el('FinishTime', {}, (finish === card.finishTime && card.finishDateTime) || localDateTime(eventDate, finish)),
+      timeMs !== NO_TIME && el('Time', {}, seconds(timeMs)),
+      timeBehindMs !== null && el('TimeBehind', {}, seconds(timeBehindMs)),
+      position !== null && el('Position', {}, position),
+      el('Status', {}, IOF_STATUS[status]),
+      read.validation?.score && scoreElements(read.validation.score),
+      splitTimes(read, start),
+      el('ControlCard', { punchingSystem: 'SI' }, card.cardNumber)
+    )
+  );
+}
+
+function splitTimes(read: StoredRead, start: number): XmlElement[] {
+  const validation = read.validation;
+  if (!validation) return [];
+  const splitTime = (code: number, timestampMs: number, status?: string): XmlElement =>
+    el(
+      'SplitTime',
+      { status },
+      el('ControlCode', {}, code),
+      timestampMs !== NO_TIME && start !== NO_TIME && el('Time', {}, seconds(timestampMs - start))
+    );
+
+  const splits = validation.controlResults.map((cr) =>
+    cr.found ? splitTime(cr.expectedCode, cr.timestampMs) : splitTime(cr.expectedCode, NO_TIME, 'Missing')
+  );
+  const additional = read.card.punches
+    .filter((p) => validation.extraControls.includes(p.code))
+    .filter((p) => start === NO_TIME || p.timestampMs === NO_TIME || p.timestampMs >= start)
+    .map((p) => splitTime(p.code, p.timestampMs, 'Additional'));
+  return [...splits, ...additional];
+}
+
+/** Score-O result: the total counts, points and penalty are informational */
+function scoreElements(score: ScoreResult): XmlElement[] {
+  return [
+    el('Score', { type: 'Score' }, score.total),
+    el('Score', { type: 'Points' }, score.points),
+    el('Score', { type: 'Penalty' }, score.penalty),
+  ];
+}
+
+// ─── Formatting ────────────────────────────────────────────────────────────────
+
+/** IOF names are split into given and family name; the last word is the family name */
+export function splitName(name: string): [string, string] {
+  const words = name.trim().split(/\s+/);
+  if (words.length < 2) return ['', words[0] ?? ''];
+  return [words.slice(0, -1).join(' '), words[words.length - 1]];
+}
+
+function seconds(ms: number): string {
+  return String(Math.round(ms) / 1000);
+}
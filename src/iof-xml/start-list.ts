@@ -0,0 +1,117 @@
+/**
+ * IOF XML 3.0 StartList import and export.
+ *
+ * Export writes one ClassStart per class with a PersonStart for every
+ * competitor with an allocated start time (see start-list/allocate.ts).
+ * Import reads the PersonStart elements into competitor records with their
+ * start times, like an EntryList with start times added.
+ */
+
+import { localDate, localDateTime, parseClockTime } from '../si-protocol/time';
+import { Competitor, CompetitorInput } from '../competitors/types';
+import { startListsOf } from '../start-list/allocate';
+import { XmlElement, parseXml, child, children, childText } from './xml';
+import { el, serializeXml } from './writer';
+import { IOF_NAMESPACE, splitName } from './result-list';
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface StartListOptions {
+  eventName: string;
+  /** Event date as YYYY-MM-DD (default: today) */
+  eventDate?: string;
+  /** Document creation time (default: now) */
+  createTime?: Date;
+  /** Creator attribute of the document (default: "NGZ") */
+  creator?: string;
+}
+
+// ─── Export ────────────────────────────────────────────────────────────────────
+
+/** Build a StartList document of the competitors that have a start time */
+export function buildStartList(competitors: Competitor[], options: StartListOptions): string {
+  const createTime = options.createTime ?? new Date();
+  const eventDate = options.eventDate ?? localDate(createTime);
+  const byId = new Map(competitors.map((c) => [c.id, c]));
+
+  const root = el(
+    'StartList',
+    {
+      xmlns: IOF_NAMESPACE,
+      iofVersion: '3.0',
+      createTime: createTime.toISOString(),
+      creator: options.creator ?? 'NGZ',
+      status: 'Complete',
+    },
+    el('Event', {}, el('Name', {}, options.eventName), el('StartTime', {}, el('Date', {}, eventDate))),
+    startListsOf(competitors).map((list) =>
+      el(
+        'ClassStart',
+        {},
+        el('Class', {}, el('Name', {}, list.className)),
+        list.slots.map((slot) => personStart(byId.get(slot.competitorId!)!, eventDate))
+      )
+    )
+  );
+  return serializeXml(root);
+}
+
+function personStart(competitor: Competitor, eventDate: string): XmlElement {
+  const [given, family] = splitName(competitor.name);
+  return el(
+    'PersonStart',
+    {},
+    el('Person', {}, el('Name', {}, el('Family', {}, family), el('Given', {}, given))),
+    competitor.club && el('Organisation', {}, el('Name', {}, competitor.club)),
+    el(
+      'Start',
+      {},
+      competitor.bib && el('BibNumber', {}, competitor.bib),
+      el('StartTime', {}, localDateTime(eventDate, competitor.startTimeMs!)),
+      competitor.cardNumber && el('ControlCard', { punchingSystem: 'SI' }, competitor.cardNumber)
+    )
+  );
+}
+
+// ─── Import ────────────────────────────────────────────────────────────────────
+
+export function parseStartList(source: string): CompetitorInput[] {
+  const root = parseXml(source);
+  if (root.name !== 'StartList') {
+    throw new Error(`Expected an IOF StartList, got <${root.name}>`);
+  }
+  return children(root, 'ClassStart').flatMap((classStart) => {
+    const className = childText(classStart, 'Class', 'Name') ?? childText(classStart, 'Class', 'ShortName') ?? '';
+    return children(classStart, 'PersonStart').map((ps) => parsePersonStart(ps, className));
+  });
+}
+
+function parsePersonStart(personStart: XmlElement, className: string): CompetitorInput {
+  const person = child(personStart, 'Person');
+  const given = person ? childText(person, 'Name', 'Given') : undefined;
+  const family = person ? childText(person, 'Name', 'Family') : undefined;
+
+  // Relay and multi-race start lists can hold several Start elements: the first counts
+  const start = child(personStart, 'Start');
+  const cards = start ? children(start, 'ControlCard') : [];
+  const siCard =
+    cards.find((c) => (c.attributes.punchingSystem ?? 'SI').toUpperCase() === 'SI') ?? cards[0];
+  const startTimeMs = parseStartTime(start ? childText(start, 'StartTime') : undefined);
+
+  return {
+    name: [given, family].filter(Boolean).join(' '),
+    club: childText(personStart, 'Organisation', 'Name') ?? childText(personStart, 'Organisation', 'ShortName') ?? '',
+    className,
+    courseName: '',
+    cardNumber: siCard?.text.trim() ?? '',
+    bib: (start && childText(start, 'BibNumber')) ?? '',
+    rentedCard: false,
+    ...(startTimeMs !== null && { startTimeMs }),
+  };
+}
+
+/** Time of day of an IOF dateTime, e.g. "2026-10-18T10:02:00+02:00"; the local time is kept as written */
+function parseStartTime(dateTime: string | undefined): number | null {
+  const m = dateTime && /T(\d{2}:\d{2}:\d{2})/.exec(dateTime);
+  return m ? parseClockTime(m[1]) : null;
+}
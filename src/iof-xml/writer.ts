@@ -0,0 +1,71 @@
+/**
+ * Minimal XML writer, the counterpart of the reader in xml.ts.
+ *
+ * Documents are built as XmlElement trees with `el()` and serialized with
+ * two-space indentation. Elements hold either text or child elements, which
+ * is all the IOF data standard needs (it has no mixed content).
+ */
+
+import { XmlElement } from './xml';
+
+type Content = XmlElement | string | number | null | undefined | false | Content[];
+
+/**
+ * Build an element. String and number content becomes the element's text;
+ * null, undefined and false are skipped so optional children can be written
+ * inline (`cond && el(...)`).
+ */
+export function el(
+  name: string,
+  attributes: Record<string, string | number | undefined> = {},
+  ...content: Content[]
+): XmlElement {
+  const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) element.attributes[key] = String(value);
+  }
+  const add = (item: Content): void => {
+    if (item === null || item === undefined || item === false) return;
+    if (Array.isArray(item)) {
+      item.forEach(add);
+    } else if (typeof item === 'object') {
+      element.children.push(item);
+    } else {
+      element.text += String(item);
+    }
+  };
+  content.forEach(add);
+  return element;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function writeElement(element: XmlElement, indent: string, lines: string[]): void {
+  const attributes = Object.entries(element.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  const open = `${indent}<${element.name}${attributes}`;
+
+  if (element.children.length === 0) {
+    lines.push(element.text ? `${open}>${escapeXml(element.text)}</${element.name}>` : `${open}/>`);
+    return;
+  }
+  lines.push(`${open}>`);
+  for (const c of element.children) {
+    writeElement(c, indent + '  ', lines);
+  }
+  lines.push(`${indent}</${element.name}>`);
+}
+
+/** Serialize a document with an XML declaration */
+export function serializeXml(root: XmlElement): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  writeElement(root, '', lines);
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,192 @@
+/**
+ * Minimal XML reader for IOF data standard documents.
+ *
+ * Has no Node.js or DOM dependencies so it runs in both the main process and
+ * the renderer. Namespace prefixes are stripped from element and attribute
+ * names (IOF 3.0 files use a default namespace, but some exporters prefix it).
+ * DTDs, processing instructions and comments are skipped.
+ */
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface XmlElement {
+  name: string;                        // Local name (prefix stripped)
+  attributes: Record<string, string>;  // Local attribute names
+  children: XmlElement[];
+  text: string;                        // Concatenated direct text content
+}
+
+export class XmlParseError extends Error {
+  constructor(msg: string, public readonly position: number) {
+    super(`${msg} (at offset ${position})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+// ─── Parser ────────────────────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.substring(colon + 1) : name;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, ref: string) => {
+    if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.substring(2), 16));
+    if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.substring(1), 10));
+    return ENTITIES[ref] ?? match;
+  });
+}
+
+const ATTRIBUTE_RE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const m of source.matchAll(ATTRIBUTE_RE)) {
+    const name = m[1];
+    if (name === 'xmlns' || name.startsWith('xmlns:')) continue;
+    attributes[localName(name)] = decodeEntities(m[3] ?? m[4]);
+  }
+  return attributes;
+}
+
+/** Parse an XML document and return its root element */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const skipPast = (terminator: string, what: string): void => {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) throw new XmlParseError(`Unterminated ${what}`, pos);
+    pos = end + terminator.length;
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    const textEnd = lt < 0 ? source.length : lt;
+    if (textEnd > pos) {
+      const text = source.substring(pos, textEnd);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += decodeEntities(text);
+      } else if (text.trim()) {
+        throw new XmlParseError('Text outside the root element', pos);
+      }
+    }
+    if (lt < 0) break;
+    pos = lt;
+
+    if (source.startsWith('<!--', pos)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos);
+      if (end < 0) throw new XmlParseError('Unterminated CDATA section', pos);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += source.substring(pos + 9, end);
+      }
+      pos = end + 3;
+    } else if (source.startsWith('<?', pos)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', pos)) {
+      skipPast('>', 'declaration');
+    } else if (source.startsWith('</', pos)) {
+      const end = source.indexOf('>', pos);
+      if (end < 0) throw new XmlParseError('Unterminated end tag', pos);
+      const name = localName(source.substring(pos + 2, end).trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new XmlParseError(`Unexpected end tag </${name}>`, pos);
+      }
+      pos = end + 1;
+    } else {
+      const end = findTagEnd(source, pos);
+      const selfClosing = source[end - 1] === '/';
+      const inner = source.substring(pos + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(inner);
+      if (!nameMatch) throw new XmlParseError('Invalid start tag', pos);
+
+      const element: XmlElement = {
+        name: localName(nameMatch[0]),
+        attributes: parseAttributes(inner.substring(nameMatch[0].length)),
+        children: [],
+        text: '',
+      };
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new XmlParseError('Multiple root elements', pos);
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`, pos);
+  }
+  if (!root) {
+    throw new XmlParseError('No root element', pos);
+  }
+  return root;
+}
+
+/** Find the closing '>' of a start tag, skipping quoted attribute values */
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const c = source[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '>') {
+      return i;
+    }
+  }
+  throw new XmlParseError('Unterminated start tag', start);
+}
+
+// ─── Query helpers ─────────────────────────────────────────────────────────────
+
+/** First direct child with the given name */
+export function child(el: XmlElement, name: string): XmlElement | undefined {
+  return el.children.find((c) => c.name === name);
+}
+
+/** All direct children with the given name */
+export function children(el: XmlElement, name: string): XmlElement[] {
+  return el.children.filter((c) => c.name === name);
+}
+
+/** Trimmed text of the element found by following a path of child names */
+export function childText(el: XmlElement, ...path: string[]): string | undefined {
+  let current: XmlElement | undefined = el;
+  for (const name of path) {
+    current = current && child(current, name);
+  }
+  const text = current?.text.trim();
+  return text ? text : undefined;
+}
+
+/** All descendants (depth-first, document order) with the given name */
+export function descendants(el: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement): void => {
+    for (const c of node.children) {
+      if (c.name === name) found.push(c);
+      visit(c);
+    }
+  };
+  visit(el);
+  return found;
+}
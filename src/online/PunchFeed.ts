@@ -0,0 +1,120 @@
+/**
+ * Online punch feed.
+ *
+ * Merges the punch streams of radio controls and online stations (serial
+ * stations in autosend mode, see SiDriver, and network relays, see
+ * PunchRelay) into one stream of passings. The same punch often arrives
+ * more than once, through a second radio path or a retransmission; only
+ * the first copy is published. Start and finish passings are also kept per
+ * card without the cap of the recent list, since they time the runs.
+ *
+ * Usage:
+ *   const feed = new PunchFeed();
+ *   feed.attach(driver, 'COM4');
+ *   feed.attach(relay, relay.name);
+ *   feed.onPassing((p) => console.log(`${p.cardNumber} passed ${p.controlCode}`));
+ */
+
+import { EventEmitter } from 'events';
+import { SiStationPunch } from '../si-protocol/types';
+import { RaceTiming } from '../course-validator/timing';
+import { Passing, punchKey, isTimingPassing, feedTiming } from './types';
+
+/** Punches remembered for deduplication */
+const DEFAULT_MAX_REMEMBERED = 20000;
+/** Passings kept for list() */
+const DEFAULT_MAX_RECENT = 500;
+
+export interface PunchFeedOptions {
+  maxRemembered?: number;
+  maxRecent?: number;
+}
+
+/** Anything that emits station punches: SiDriver, PunchRelay */
+export interface PunchSource {
+  onPunch(listener: (punch: SiStationPunch) => void): unknown;
+}
+
+export class PunchFeed extends EventEmitter {
+  private readonly maxRemembered: number;
+  private readonly maxRecent: number;
+  private seen = new Set<string>();
+  private recent: Passing[] = [];
+  private timingByCard = new Map<string, Passing[]>();
+  private nextId = 1;
+  private _duplicates = 0;
+
+  constructor(options: PunchFeedOptions = {}) {
+    super();
+    this.maxRemembered = options.maxRemembered ?? DEFAULT_MAX_REMEMBERED;
+    this.maxRecent = options.maxRecent ?? DEFAULT_MAX_RECENT;
+  }
+
+  onPassing(listener: (passing: Passing) => void): this {
+    return this.on('passing', listener);
+  }
+
+  /** Publish the punches of a source under the given name */
+  attach(source: PunchSource, name: string): void {
+    source.onPunch((punch) => this.add(punch, name));
+  }
+
+  /** Add a punch; returns the new passing, or null for a duplicate */
+  add(punch: SiStationPunch, source: string): Passing | null {
+    const key = punchKey(punch);
+    if (this.seen.has(key)) {
+      this._duplicates++;
+      return null;
+    }
+    this.seen.add(key);
+    if (this.seen.size > this.maxRemembered) {
+      // Sets iterate in insertion order: forget the oldest punch
+      this.seen.delete(this.seen.values().next().value!);
+    }
+
+    const passing: Passing = {
+      id: this.nextId++,
+      cardNumber: punch.cardNumber,
+      controlCode: punch.stationCode,
+      timeMs: punch.timeMs,
+      ...(punch.dateTime ? { dateTime: punch.dateTime } : {}),
+      mode: punch.mode,
+      source,
+      receivedAt: new Date().toISOString(),
+    };
+    this.recent.push(passing);
+    if (this.recent.length > this.maxRecent) this.recent.shift();
+    if (isTimingPassing(passing)) {
+      this.timingByCard.set(passing.cardNumber, [...(this.timingByCard.get(passing.cardNumber) ?? []), passing]);
+    }
+    this.emit('passing', passing);
+    return passing;
+  }
+
+  /** The most recent passings, oldest first */
+  list(): Passing[] {
+    return [...this.recent];
+  }
+
+  /** Every start and finish passing, per card in arrival order; not capped like list() */
+  listTiming(): Passing[] {
+    return [...this.timingByCard.values()].flat();
+  }
+
+  /** Start and finish times of a card from start and finish stations (see feedTiming) */
+  timing(cardNumber: string): Pick<RaceTiming, 'startFeedTimeMs' | 'finishFeedTimeMs'> {
+    return feedTiming(this.timingByCard.get(cardNumber) ?? [], cardNumber);
+  }
+
+  /** Number of duplicate punches dropped */
+  get duplicates(): number {
+    return this._duplicates;
+  }
+
+  clear(): void {
+    this.seen.clear();
+    this.recent = [];
+    this.timingByCard.clear();
+    this._duplicates = 0;
+  }
+}
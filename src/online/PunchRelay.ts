@@ -0,0 +1,181 @@
+/**
+ * Network punch relay.
+ *
+ * Listens on a local TCP or UDP port for SI transmit records (the frames an
+ * autosend station or SRR dongle sends, see SiDriver) and emits them as
+ * station punches. Stands in for online controls whose punches are forwarded
+ * over the network, e.g. by a mobile radio gateway or a serial-to-network
+ * bridge next to a remote station. Transmit records do not carry the mode of
+ * the station: give the modes of start and finish stations by code, so their
+ * punches can time runs.
+ *
+ * Usage:
+ *   const relay = new PunchRelay({ protocol: 'tcp', port: 10000 });
+ *   relay.onPunch((punch) => feed.add(punch, relay.name));
+ *   await relay.start();
+ */
+
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as dgram from 'dgram';
+import { SiMessage, TRANSMIT_RECORD } from '../si-protocol/SiMessage';
+import { SiFramer } from '../si-protocol/SiFramer';
+import { parseTransmitRecord } from '../si-protocol/SiDataFrame';
+import { SiStationPunch } from '../si-protocol/types';
+import { SiTimeConfig, DEFAULT_TIME_CONFIG } from '../si-protocol/time';
+import { RelayProtocol, StationModes } from './types';
+
+export interface PunchRelayOptions {
+  protocol: RelayProtocol;
+  /** Port to listen on; 0 picks a free port (see PunchRelay.port) */
+  port: number;
+  /** Address to listen on (default: all interfaces) */
+  host?: string;
+  time?: SiTimeConfig;
+  /** Mode of the forwarded stations by code; punches of other stations have no mode */
+  stationModes?: StationModes;
+}
+
+export interface PunchRelayEvents {
+  punch: (punch: SiStationPunch) => void;
+  log: (direction: 'READ' | 'INFO' | 'ERROR', message: string) => void;
+}
+
+export class PunchRelay extends EventEmitter {
+  private readonly options: PunchRelayOptions;
+  private time: SiTimeConfig;
+  private tcpServer: net.Server | null = null;
+  private udpSocket: dgram.Socket | null = null;
+  private connections = new Set<net.Socket>();
+  private boundPort: number | null = null;
+
+  constructor(options: PunchRelayOptions) {
+    super();
+    this.options = options;
+    this.time = { ...(options.time ?? DEFAULT_TIME_CONFIG) };
+  }
+
+  /** Change the zero time and event date; applies to the next punch */
+  setTimeConfig(time: SiTimeConfig): void {
+    this.time = { ...time };
+  }
+
+  /** Source name of the relay, e.g. "tcp:10000" */
+  get name(): string {
+    return `${this.options.protocol}:${this.port}`;
+  }
+
+  /** Port the relay listens on (the requested port until started) */
+  get port(): number {
+    return this.boundPort ?? this.options.port;
+  }
+
+  get running(): boolean {
+    return this.tcpServer !== null || this.udpSocket !== null;
+  }
+
+  onPunch(listener: PunchRelayEvents['punch']): this {
+    return this.on('punch', listener);
+  }
+
+  onLog(listener: PunchRelayEvents['log']): this {
+    return this.on('log', listener);
+  }
+
+  private log(direction: 'READ' | 'INFO' | 'ERROR', msg: string): void {
+    this.emit('log', direction, msg);
+  }
+
+  // ─── Lifecycle ───────────────────────────────────────────────────────
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    if (this.options.protocol === 'tcp') {
+      await this.startTcp();
+    } else {
+      await this.startUdp();
+    }
+    this.log('INFO', `Listening for punches on ${this.name}`);
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.connections) socket.destroy();
+    this.connections.clear();
+
+    const server = this.tcpServer;
+    const socket = this.udpSocket;
+    this.tcpServer = null;
+    this.udpSocket = null;
+    if (server) await new Promise<void>((resolve) => server.close(() => resolve()));
+    if (socket) await new Promise<void>((resolve) => socket.close(() => resolve()));
+    if (server || socket) this.log('INFO', `Stopped listening on ${this.name}`);
+    this.boundPort = null;
+  }
+
+  private startTcp(): Promise<void> {
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        server.on('error', (err) => this.log('ERROR', err.message));
+        this.tcpServer = server;
+        this.boundPort = (server.address() as net.AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  private startUdp(): Promise<void> {
+    const socket = dgram.createSocket('udp4');
+    socket.on('message', (datagram, remote) => {
+      // Each datagram carries whole frames
+      const framer = this.framer(`${remote.address}:${remote.port}`);
+      framer.push(datagram);
+      framer.reset();
+    });
+    return new Promise((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(this.options.port, this.options.host, () => {
+        socket.off('error', reject);
+        socket.on('error', (err) => this.log('ERROR', err.message));
+        this.udpSocket = socket;
+        this.boundPort = socket.address().port;
+        resolve();
+      });
+    });
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+    this.connections.add(socket);
+    this.log('INFO', `Relay connected: ${peer}`);
+
+    // A TCP stream may split a frame or join several
+    const framer = this.framer(peer);
+    socket.on('data', (chunk: Buffer) => framer.push(chunk));
+    socket.on('error', (err) => this.log('ERROR', `${peer}: ${err.message}`));
+    socket.on('close', () => {
+      this.connections.delete(socket);
+      this.log('INFO', `Relay disconnected: ${peer}`);
+    });
+  }
+
+  // ─── Frames ──────────────────────────────────────────────────────────
+
+  private framer(peer: string): SiFramer {
+    return new SiFramer((message) => this.handleFrame(message, peer), {
+      onDiscard: (bytes, reason) => this.log('ERROR', `${peer}: discarded ${new SiMessage(bytes).toString()} (${reason})`),
+    });
+  }
+
+  private handleFrame(message: SiMessage, peer: string): void {
+    this.log('READ', `${peer}: ${message.toString()}`);
+    if (!message.check(TRANSMIT_RECORD)) {
+      this.log('ERROR', `${peer}: ignored frame that is not a valid transmit record`);
+      return;
+    }
+    const punch = parseTransmitRecord(message, this.time.zeroTimeMs, this.time.eventDate);
+    this.emit('punch', { ...punch, mode: this.options.stationModes?.[punch.stationCode] ?? null });
+  }
+}
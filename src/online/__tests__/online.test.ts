@@ -0,0 +1,138 @@
+import * as net from 'net';
+import * as dgram from 'dgram';
+import { PunchFeed } from '../PunchFeed';
+import { PunchRelay } from '../PunchRelay';
+import { Passing, parseStationModes } from '../types';
+import { SiStationPunch } from '../../si-protocol/types';
+import { buildMessage, TRANSMIT_RECORD, GET_SYSTEM_VALUE } from '../../si-protocol/SiMessage';
+
+function punch(cardNumber: string, stationCode: number, timeMs: number): SiStationPunch {
+  return { stationCode, cardNumber, timeMs, mode: 'Control', memoryAddress: 0 };
+}
+
+/** Transmit record of station 31, card 8123456 at 01:02:03.5, with the given backup address */
+function record(address = 0x108): Buffer {
+  return buildMessage(TRANSMIT_RECORD, [
+    0x00, 0x1f, 0x00, 0x7b, 0xf4, 0x40, 0x00, 0x0e, 0x8b, 0x80, 0x00, 0x01, address & 0xff,
+  ]).sequence;
+}
+
+function nextPunches(relay: PunchRelay, count: number): Promise<SiStationPunch[]> {
+  const punches: SiStationPunch[] = [];
+  return new Promise((resolve) =>
+    relay.onPunch((p) => {
+      punches.push(p);
+      if (punches.length === count) resolve(punches);
+    })
+  );
+}
+
+// ─── Punch feed ────────────────────────────────────────────────────────────────
+
+describe('PunchFeed', () => {
+  test('publishes each punch once, whichever source delivers it first', () => {
+    const feed = new PunchFeed();
+    const passings: Passing[] = [];
+    feed.onPassing((p) => passings.push(p));
+
+    expect(feed.add(punch('8123456', 31, 36000000), 'COM4')).not.toBeNull();
+    expect(feed.add(punch('8123456', 31, 36000000), 'tcp:10000')).toBeNull();
+    feed.add(punch('8123456', 32, 36060000), 'tcp:10000');
+
+    expect(passings.map((p) => [p.id, p.controlCode, p.source])).toEqual([
+      [1, 31, 'COM4'],
+      [2, 32, 'tcp:10000'],
+    ]);
+    expect(passings[0]).toMatchObject({ cardNumber: '8123456', timeMs: 36000000, mode: 'Control' });
+    expect(feed.duplicates).toBe(1);
+    expect(feed.list()).toEqual(passings);
+  });
+
+  test('keeps the most recent passings and forgets the oldest punches', () => {
+    const feed = new PunchFeed({ maxRemembered: 2, maxRecent: 2 });
+    feed.add(punch('1', 31, 1000), 'a');
+    feed.add(punch('2', 31, 2000), 'a');
+    feed.add(punch('3', 31, 3000), 'a');
+
+    expect(feed.list().map((p) => p.cardNumber)).toEqual(['2', '3']);
+    expect(feed.add(punch('1', 31, 1000), 'a')).not.toBeNull();
+    expect(feed.add(punch('3', 31, 3000), 'a')).toBeNull();
+  });
+
+  test('keeps start and finish passings for timing after the recent list dropped them', () => {
+    const feed = new PunchFeed({ maxRecent: 2 });
+    feed.add({ ...punch('8123456', 1, 36000000), mode: 'Start' }, 'COM4');
+    feed.add(punch('8123456', 31, 36600000), 'COM4');
+    feed.add(punch('7000001', 31, 36700000), 'COM4');
+    feed.add({ ...punch('8123456', 2, 37800000), mode: 'Finish' }, 'COM4');
+
+    expect(feed.list().map((p) => p.controlCode)).toEqual([31, 2]);
+    expect(feed.timing('8123456')).toEqual({ startFeedTimeMs: 36000000, finishFeedTimeMs: 37800000 });
+    expect(feed.timing('7000001')).toEqual({});
+    expect(feed.listTiming().map((p) => p.controlCode)).toEqual([1, 2]);
+  });
+
+  test('attaches to punch sources', () => {
+    const feed = new PunchFeed();
+    const relay = new PunchRelay({ protocol: 'tcp', port: 0 });
+    feed.attach(relay, 'radio');
+    relay.emit('punch', punch('8123456', 31, 1000));
+    expect(feed.list()[0].source).toBe('radio');
+  });
+});
+
+// ─── Punch relay ───────────────────────────────────────────────────────────────
+
+describe('PunchRelay', () => {
+  let relay: PunchRelay;
+
+  afterEach(async () => {
+    await relay.stop();
+  });
+
+  test('receives transmit records over TCP, split or joined', async () => {
+    relay = new PunchRelay({ protocol: 'tcp', port: 0, host: '127.0.0.1', stationModes: { 31: 'Finish' } });
+    await relay.start();
+    expect(relay.name).toBe(`tcp:${relay.port}`);
+    const received = nextPunches(relay, 3);
+
+    const client = net.createConnection(relay.port, '127.0.0.1');
+    await new Promise<void>((resolve) => client.once('connect', () => resolve()));
+    const first = record(0x108);
+    client.write(first.subarray(0, 5));
+    await new Promise((r) => setTimeout(r, 20));
+    client.write(Buffer.concat([first.subarray(5), record(0x110), record(0x118)]));
+
+    const punches = await received;
+    client.destroy();
+    expect(punches.map((p) => p.memoryAddress)).toEqual([0x108, 0x110, 0x118]);
+    expect(punches[0]).toMatchObject({ stationCode: 31, cardNumber: '8123456', timeMs: 3723500, mode: 'Finish' });
+  });
+
+  test('receives transmit records over UDP and ignores other frames', async () => {
+    relay = new PunchRelay({ protocol: 'udp', port: 0, host: '127.0.0.1', time: { zeroTimeMs: 0, eventDate: '2026-10-18' } });
+    const errors: string[] = [];
+    relay.onLog((direction, msg) => direction === 'ERROR' && errors.push(msg));
+    await relay.start();
+    const received = nextPunches(relay, 1);
+
+    const client = dgram.createSocket('udp4');
+    const datagram = Buffer.concat([buildMessage(GET_SYSTEM_VALUE, [0x00, 0x1f]).sequence, record()]);
+    await new Promise<void>((resolve) => client.send(datagram, relay.port, '127.0.0.1', () => resolve()));
+
+    const [p] = await received;
+    client.close();
+    expect(p.dateTime).toBe('2026-10-18T01:02:03');
+    expect(p.mode).toBeNull();
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('parseStationModes', () => {
+  test('reads the mode of each station code', () => {
+    expect(parseStationModes('1=Start, 100 = finish,')).toEqual({ 1: 'Start', 100: 'Finish' });
+    expect(parseStationModes('')).toEqual({});
+    expect(() => parseStationModes('1=Gate')).toThrow('Unknown station mode "Gate"');
+    expect(() => parseStationModes('Start')).toThrow('Expected <code>=<mode>');
+  });
+});
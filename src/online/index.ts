@@ -0,0 +1,8 @@
+export {
+  Passing,
+  RelayProtocol,
+  StationModes,
+  parseStationModes,
+  punchKey, isTimingPassing, feedTiming } from './types';
+export { PunchFeed, PunchFeedOptions, PunchSource } from './PunchFeed';
+export { PunchRelay, PunchRelayOptions, PunchRelayEvents } from './PunchRelay';
@@ -0,0 +1,82 @@
+/**
+ * Shared types for the online punch feed.
+ *
+ * Radio punches arrive from autosend stations and relays over several paths
+ * at once; the feed keeps one Passing per punch. Also the helpers around it:
+ * station mode lists, the deduplication key and start/finish timing.
+ */
+
+import type { SiStationPunch } from '../si-protocol/types';
+import { SiStationMode, STATION_MODES } from '../si-protocol/system-data';
+import type { RaceTiming } from '../course-validator/timing';
+
+/** "Runner passed control X at T": a radio punch after deduplication */
+export interface Passing {
+  id: number;                  // Sequence number in the feed
+  cardNumber: string;
+  controlCode: number;         // Code of the station that was punched
+  timeMs: number;              // ms since midnight, past 24h after midnight (see SiStationPunch)
+  dateTime?: string;           // Local "YYYY-MM-DDTHH:MM:SS", when the event date is known
+  mode: SiStationMode | null;
+  source: string;              // Source that delivered it first, e.g. "COM4" or "tcp:10000"
+  receivedAt: string;          // ISO timestamp
+}
+
+export type RelayProtocol = 'tcp' | 'udp';
+
+/** Mode of each station by code, for punches that do not carry it (transmit records) */
+export type StationModes = Record<number, SiStationMode>;
+
+/**
+ * Parse a comma separated list of station modes such as "1=Start, 100=Finish";
+ * throws on a bad entry or an unknown mode. Mode names ignore case.
+ */
+export function parseStationModes(text: string): StationModes {
+  const modes: StationModes = {};
+  for (const entry of text.split(',').map((s) => s.trim()).filter(Boolean)) {
+    const m = /^(\d+)\s*=\s*(\w+)$/.exec(entry);
+    if (!m) throw new Error(`Expected <code>=<mode>, got "${entry}"`);
+    const mode = (Object.keys(STATION_MODES) as SiStationMode[]).find((name) => name.toLowerCase() === m[2].toLowerCase());
+    if (!mode) throw new Error(`Unknown station mode "${m[2]}"`);
+    modes[Number(m[1])] = mode;
+  }
+  return modes;
+}
+
+/** Key that identifies the same punch arriving over several radio paths */
+export function punchKey(punch: SiStationPunch): string {
+  return `${punch.stationCode}/${punch.cardNumber}/${punch.timeMs}`;
+}
+
+const START_MODES: (SiStationMode | null)[] = ['Start', 'BeaconStart'];
+const FINISH_MODES: (SiStationMode | null)[] = ['Finish', 'BeaconFinish'];
+
+/** Whether a passing is from a start or finish station, and can time a run */
+export function isTimingPassing(passing: Passing): boolean {
+  return START_MODES.includes(passing.mode) || FINISH_MODES.includes(passing.mode);
+}
+
+/**
+ * Start and finish times of a card from start and finish stations in the
+ * feed: its latest finish passing, and its latest start passing before that
+ * finish. A card that was not cleared between runs keeps older passings;
+ * these are ignored.
+ */
+export function feedTiming(
+  passings: Passing[],
+  cardNumber: string
+): Pick<RaceTiming, 'startFeedTimeMs' | 'finishFeedTimeMs'> {
+  const own = passings.filter((p) => p.cardNumber === cardNumber);
+  const latest = (times: number[]): number | undefined => (times.length > 0 ? Math.max(...times) : undefined);
+
+  const finishFeedTimeMs = latest(own.filter((p) => FINISH_MODES.includes(p.mode)).map((p) => p.timeMs));
+  const startFeedTimeMs = latest(
+    own
+      .filter((p) => START_MODES.includes(p.mode) && (finishFeedTimeMs === undefined || p.timeMs <= finishFeedTimeMs))
+      .map((p) => p.timeMs)
+  );
+  return {
+    ...(startFeedTimeMs !== undefined && { startFeedTimeMs }),
+    ...(finishFeedTimeMs !== undefined && { finishFeedTimeMs }),
+  };
+}
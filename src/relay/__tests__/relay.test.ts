@@ -0,0 +1,128 @@
+import { relayHandover, buildRelayResults } from '../results';
+import { NO_TIME, SiCardData } from '../../si-protocol/types';
+import { validateCourse, Course } from '../../course-validator/validator';
+import { StoredRead } from '../../storage/types';
+import { Competitor } from '../../competitors/types';
+
+const MIN = 60000;
+const TEN = 600 * MIN;
+const DAY = 24 * 60 * MIN;
+const NIGHT_ZERO = 22 * 60 * MIN;
+const leg1: Course = { name: 'Open 1', controls: [31, 32], isInline: true, useBoxStart: false, fixedStartTimeMs: TEN };
+const leg2: Course = { name: 'Open 2', controls: [41, 42], isInline: true, useBoxStart: true };
+
+function runner(id: number, team: string, leg: number, extra: Partial<Competitor> = {}): Competitor {
+  return {
+    id, name: `Runner ${id}`, club: team.split(' ')[0], className: 'Open', courseName: '',
+    cardNumber: String(8000000 + id), bib: '', rentedCard: false, team, leg, ...extra,
+  };
+}
+
+/** Read of a run punching the course controls, finishing at the given minute after 10:00 */
+function read(competitor: Competitor, course: Course, finishMin: number, punched = course.controls): StoredRead {
+  const card: SiCardData = {
+    cardNumber: competitor.cardNumber,
+    cardSeries: 'SIAC',
+    startTime: NO_TIME,
+    finishTime: finishMin === NO_TIME ? NO_TIME : TEN + finishMin * MIN,
+    checkTime: NO_TIME,
+    punchCount: punched.length,
+    punches: punched.map((code, i) => ({ code, timestampMs: TEN + (i + 1) * MIN })),
+  };
+  return {
+    id: competitor.id,
+    readAt: '2026-10-18T10:00:00.000Z',
+    card,
+    eventName: 'Autumn Relay',
+    competitorId: competitor.id,
+    validation: validateCourse(course, card.punches, card),
+  };
+}
+
+const okl1 = runner(1, 'OKL 1', 1);
+const okl2 = runner(2, 'OKL 1', 2);
+const ifk1 = runner(3, 'IFK 1', 1);
+const ifk2 = runner(4, 'IFK 1', 2);
+const competitors = [okl1, okl2, ifk1, ifk2];
+
+describe('relayHandover', () => {
+  test('starts a leg at the finish of the previous leg', () => {
+    expect(relayHandover(okl2, competitors, [read(okl1, leg1, 30)])).toEqual({
+      handoverTimeMs: TEN + 30 * MIN,
+      fromCompetitorId: 1,
+      restarted: false,
+    });
+    expect(relayHandover(okl1, competitors, [read(okl1, leg1, 30)])).toBeUndefined();
+    expect(relayHandover(okl2, competitors, [])).toBeUndefined();
+  });
+
+  test('restarts a leg when the previous runner is not in by the restart time', () => {
+    const restarted = { ...okl2, startTimeMs: TEN + 45 * MIN };
+    expect(relayHandover(restarted, [okl1, restarted], [read(okl1, leg1, 50)])).toEqual({
+      handoverTimeMs: TEN + 45 * MIN,
+      fromCompetitorId: null,
+      restarted: true,
+    });
+    expect(relayHandover(restarted, [okl1, restarted], [read(okl1, leg1, 40)])?.restarted).toBe(false);
+    expect(relayHandover(restarted, [okl1, restarted], [])?.handoverTimeMs).toBe(TEN + 45 * MIN);
+  });
+
+  test('hands over across midnight on the event clock', () => {
+    // Zero time 22:00: the card counts a 00:10 finish as 24:10, the 00:30 restart is put on the same clock
+    const night = { ...leg1, fixedStartTimeMs: 22 * 60 * MIN };
+    const restarted = { ...okl2, startTimeMs: 30 * MIN };
+    const finishing = (ms: number) => read(okl1, night, (ms - TEN) / MIN);
+
+    expect(relayHandover(restarted, [okl1, restarted], [finishing(DAY + 10 * MIN)], NIGHT_ZERO)).toEqual({
+      handoverTimeMs: DAY + 10 * MIN,
+      fromCompetitorId: 1,
+      restarted: false,
+    });
+    expect(relayHandover(restarted, [okl1, restarted], [finishing(DAY + 40 * MIN)], NIGHT_ZERO)).toMatchObject({
+      handoverTimeMs: DAY + 30 * MIN,
+      restarted: true,
+    });
+
+    const reads = [finishing(DAY + 10 * MIN), read(restarted, leg2, (DAY + 60 * MIN - TEN) / MIN)];
+    const [open] = buildRelayResults(reads, [okl1, restarted], NIGHT_ZERO);
+    expect(open.teams[0].legs.map((l) => [l.startTimeMs, l.timeMs, l.restarted])).toEqual([
+      [22 * 60 * MIN, 130 * MIN, false],
+      [DAY + 10 * MIN, 50 * MIN, false],
+    ]);
+  });
+});
+
+describe('buildRelayResults', () => {
+  test('adds up the legs and ranks the teams by time', () => {
+    const reads = [read(okl1, leg1, 30), read(ifk1, leg1, 25), read(okl2, leg2, 50), read(ifk2, leg2, 60)];
+    const [open] = buildRelayResults(reads, [...competitors, { ...okl1, id: 9, team: undefined, leg: undefined }]);
+
+    expect(open).toMatchObject({ className: 'Open', legCount: 2 });
+    expect(open.teams.map((t) => [t.team, t.position, t.timeMs, t.timeBehindMs])).toEqual([
+      ['OKL 1', 1, 50 * MIN, 0],
+      ['IFK 1', 2, 60 * MIN, 10 * MIN],
+    ]);
+    expect(open.teams[1].legs.map((l) => [l.competitor?.id, l.startTimeMs, l.timeMs])).toEqual([
+      [3, TEN, 25 * MIN],
+      [4, TEN + 25 * MIN, 35 * MIN],
+    ]);
+  });
+
+  test('makes a team MP when any leg is MP, DNF while a leg is out', () => {
+    const reads = [read(okl1, leg1, 30, [31]), read(ifk1, leg1, 25), read(okl2, leg2, 50)];
+    const [open] = buildRelayResults(reads, competitors);
+    const byTeam = new Map(open.teams.map((t) => [t.team, t]));
+
+    expect(byTeam.get('OKL 1')).toMatchObject({ status: 'MP', position: null });
+    expect(byTeam.get('IFK 1')).toMatchObject({ status: 'DNF', timeMs: NO_TIME });
+    expect(byTeam.get('IFK 1')!.legs[1]).toMatchObject({ status: 'DNF', read: undefined, startTimeMs: TEN + 25 * MIN });
+    expect(open.teams.map((t) => t.team)).toEqual(['IFK 1', 'OKL 1']);
+  });
+
+  test('leaves a leg without a runner empty', () => {
+    const [open] = buildRelayResults([read(okl1, leg1, 30)], [okl1, runner(5, 'OKL 1', 3)]);
+    expect(open.legCount).toBe(3);
+    expect(open.teams[0].legs[1]).toMatchObject({ leg: 2, competitor: undefined, timeMs: NO_TIME });
+    expect(open.teams[0].status).toBe('DNF');
+  });
+});
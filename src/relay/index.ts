@@ -0,0 +1,2 @@
+export { RelayHandover, RelayLegResult, RelayTeamResult, RelayClassResults } from './types';
+export { relayHandover, buildRelayResults } from './results';
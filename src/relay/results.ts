@@ -0,0 +1,159 @@
+/**
+ * Relay results.
+ *
+ * A relay team is the competitors of a class with the same team name, one
+ * per leg, each with their own card. Every leg after the first starts at the
+ * handover: the finish of the previous leg, or the runner's allocated start
+ * time when the class restarts the legs still out. Allocated starts are times
+ * of day and are put on the event clock of the card times against the zero
+ * time, so night relays hand over across midnight. Team status and time add
+ * up the legs; OK teams are ranked by time with shared positions on ties.
+ */
+
+import { NO_TIME } from '../si-protocol/types';
+import { eventClockTime } from '../si-protocol/time';
+import { StoredRead } from '../storage/types';
+import { Competitor } from '../competitors/types';
+import { RunnerStatus } from '../results/types';
+import { readStartTime, readFinishTime, readStatus } from '../results/standings';
+import { RelayHandover, RelayLegResult, RelayTeamResult, RelayClassResults } from './types';
+
+/** Team status from the worst leg, in this order */
+const TEAM_STATUS_ORDER: RunnerStatus[] = ['DSQ', 'MP', 'DNF', 'NC', 'OK'];
+
+function isRelayRunner(competitor: Competitor): competitor is Competitor & { team: string; leg: number } {
+  return competitor.team !== undefined && competitor.leg !== undefined;
+}
+
+/** Latest read of a competitor's card */
+function latestRead(competitor: Competitor, reads: StoredRead[]): StoredRead | undefined {
+  for (let i = reads.length - 1; i >= 0; i--) {
+    const read = reads[i];
+    if (read.competitorId === competitor.id) return read;
+    if (read.competitorId === null && read.card.cardNumber === competitor.cardNumber) return read;
+  }
+  return undefined;
+}
+
+/** Allocated start of a competitor on the event clock, undefined when none */
+function allocatedStart(competitor: Competitor, zeroTimeMs: number): number | undefined {
+  return competitor.startTimeMs === undefined ? undefined : eventClockTime(competitor.startTimeMs, zeroTimeMs);
+}
+
+/**
+ * Start of a relay runner's leg from the previous leg's finish. A runner
+ * with an allocated start time is restarted at it when the previous leg is
+ * not in by then. Undefined for the first leg, for individual runners, and
+ * while neither time is known.
+ */
+export function relayHandover(
+  competitor: Competitor,
+  competitors: Competitor[],
+  reads: StoredRead[],
+  zeroTimeMs = 0
+): RelayHandover | undefined {
+  if (!isRelayRunner(competitor) || competitor.leg < 2) return undefined;
+
+  const previous = competitors.find(
+    (c) => c.className === competitor.className && c.team === competitor.team && c.leg === competitor.leg - 1
+  );
+  const read = previous && latestRead(previous, reads);
+  const finish = read ? readFinishTime(read) : NO_TIME;
+  const restart = allocatedStart(competitor, zeroTimeMs);
+
+  if (restart !== undefined && (finish === NO_TIME || finish > restart)) {
+    return { handoverTimeMs: restart, fromCompetitorId: null, restarted: true };
+  }
+  if (finish === NO_TIME) return undefined;
+  return { handoverTimeMs: finish, fromCompetitorId: previous!.id, restarted: false };
+}
+
+// ─── Results ───────────────────────────────────────────────────────────────────
+
+/** Relay results per class, for the competitors entered with a team and leg */
+export function buildRelayResults(reads: StoredRead[], competitors: Competitor[], zeroTimeMs = 0): RelayClassResults[] {
+  const classes = new Map<string, Map<string, Competitor[]>>();
+  for (const competitor of competitors.filter(isRelayRunner)) {
+    const teams = classes.get(competitor.className) ?? new Map<string, Competitor[]>();
+    teams.set(competitor.team, [...(teams.get(competitor.team) ?? []), competitor]);
+    classes.set(competitor.className, teams);
+  }
+
+  return [...classes.keys()]
+    .sort((a, b) => a.localeCompare(b))
+    .map((className) => {
+      const teams = classes.get(className)!;
+      const legCount = Math.max(...[...teams.values()].flat().map((c) => c.leg!));
+      const results = [...teams.entries()].map(([team, runners]) =>
+        teamResult(team, runners, legCount, competitors, reads, zeroTimeMs)
+      );
+      return { className, legCount, teams: rankTeams(results) };
+    });
+}
+
+function teamResult(
+  team: string,
+  runners: Competitor[],
+  legCount: number,
+  competitors: Competitor[],
+  reads: StoredRead[],
+  zeroTimeMs: number
+): RelayTeamResult {
+  const legs = Array.from({ length: legCount }, (_, i) =>
+    legResult(i + 1, runners.find((c) => c.leg === i + 1), competitors, reads, zeroTimeMs)
+  );
+  const status = TEAM_STATUS_ORDER.find((s) => legs.some((l) => l.status === s)) ?? 'OK';
+  const timeMs = legs.every((l) => l.timeMs !== NO_TIME) ? legs.reduce((sum, l) => sum + l.timeMs, 0) : NO_TIME;
+  return {
+    team,
+    club: runners.find((c) => c.club)?.club ?? '',
+    status,
+    timeMs,
+    position: null,
+    timeBehindMs: null,
+    legs,
+  };
+}
+
+function legResult(
+  leg: number,
+  competitor: Competitor | undefined,
+  competitors: Competitor[],
+  reads: StoredRead[],
+  zeroTimeMs: number
+): RelayLegResult {
+  const read = competitor && latestRead(competitor, reads);
+  const handover = competitor && relayHandover(competitor, competitors, reads, zeroTimeMs);
+  // The first leg starts as an individual run: start list, mass start or start punch
+  let startTimeMs = handover?.handoverTimeMs ?? NO_TIME;
+  if (leg === 1) {
+    startTimeMs = read ? readStartTime(read) : (competitor && allocatedStart(competitor, zeroTimeMs)) ?? NO_TIME;
+  }
+  const finishTimeMs = read ? readFinishTime(read) : NO_TIME;
+  return {
+    leg,
+    competitor,
+    read,
+    status: read ? readStatus(read) : 'DNF',
+    startTimeMs,
+    restarted: handover?.restarted ?? false,
+    timeMs: startTimeMs !== NO_TIME && finishTimeMs !== NO_TIME ? finishTimeMs - startTimeMs : NO_TIME,
+  };
+}
+
+/** OK teams by time, then the rest by status and name */
+function rankTeams(teams: RelayTeamResult[]): RelayTeamResult[] {
+  const ranked = teams.filter((t) => t.status === 'OK' && t.timeMs !== NO_TIME).sort((a, b) => a.timeMs - b.timeMs);
+  ranked.forEach((t, i) => {
+    const previous = ranked[i - 1];
+    t.position = previous && previous.timeMs === t.timeMs ? previous.position : i + 1;
+    t.timeBehindMs = t.timeMs - ranked[0].timeMs;
+  });
+  const unranked = teams
+    .filter((t) => !ranked.includes(t))
+    .sort(
+      (a, b) =>
+        TEAM_STATUS_ORDER.indexOf(b.status) - TEAM_STATUS_ORDER.indexOf(a.status) || a.team.localeCompare(b.team)
+    );
+  return [...ranked, ...unranked];
+}
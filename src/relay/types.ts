@@ -0,0 +1,44 @@
+/**
+ * Shared types for relay results.
+ *
+ * Results nest class, team and leg. Legs keep the read of their runner so
+ * the results view can show each leg's status next to the team's.
+ */
+
+import type { StoredRead } from '../storage/types';
+import type { Competitor } from '../competitors/types';
+import type { RunnerStatus } from '../results/types';
+
+/** Start of a relay leg after the first */
+export interface RelayHandover {
+  handoverTimeMs: number;          // Finish of the previous leg, or the restart
+  fromCompetitorId: number | null; // Runner of the previous leg, null on a restart
+  restarted: boolean;              // Previous leg not in before the runner's restart time
+}
+
+export interface RelayLegResult {
+  leg: number;
+  competitor: Competitor | undefined;  // No runner entered on the leg
+  read: StoredRead | undefined;        // Card not read out (yet)
+  status: RunnerStatus;                // DNF while the card is not read
+  startTimeMs: number;                 // Handover on later legs, NO_TIME if unknown
+  restarted: boolean;
+  timeMs: number;                      // Leg time, NO_TIME if unknown
+}
+
+export interface RelayTeamResult {
+  team: string;
+  club: string;
+  /** MP when any leg is MP, DNF while a leg is missing or unfinished, NC when a leg was not checked */
+  status: RunnerStatus;
+  timeMs: number;                      // Sum of the leg times, NO_TIME unless all are known
+  position: number | null;             // Only for OK teams
+  timeBehindMs: number | null;
+  legs: RelayLegResult[];              // In leg order, one per leg of the class
+}
+
+export interface RelayClassResults {
+  className: string;
+  legCount: number;
+  teams: RelayTeamResult[];
+}
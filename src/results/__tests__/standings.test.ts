@@ -0,0 +1,152 @@
+import { buildStandings, readStatus, readRaceTimeMs } from '../standings';
+import { NO_TIME, SiCardData } from '../../si-protocol/types';
+import { validateCourse, Course } from '../../course-validator/validator';
+import { StoredRead } from '../../storage/types';
+import { Competitor } from '../../competitors/types';
+
+const MIN = 60000;
+const lion: Course = { name: 'Lion', controls: [31, 32, 33], isInline: true, useBoxStart: true };
+const frog: Course = { name: 'Frog', controls: [33, 32], isInline: true, useBoxStart: true };
+
+/** Card punching the given controls at the given minutes after a 10:00 start */
+function card(cardNumber: string, punches: [number, number][], finishMin: number): SiCardData {
+  const start = 600 * MIN;
+  return {
+    cardNumber,
+    cardSeries: 'SIAC',
+    startTime: start,
+    finishTime: finishMin === NO_TIME ? NO_TIME : start + finishMin * MIN,
+    checkTime: NO_TIME,
+    punchCount: punches.length,
+    punches: punches.map(([code, min]) => ({ code, timestampMs: start + min * MIN })),
+  };
+}
+
+let nextId = 1;
+function read(c: SiCardData, course: Course | null = lion, competitorId: number | null = null): StoredRead {
+  return {
+    id: nextId++,
+    readAt: '2026-10-18T10:00:00.000Z',
+    card: c,
+    eventName: 'Club Night',
+    competitorId,
+    validation: course ? validateCourse(course, c.punches, c) : null,
+  };
+}
+
+function competitor(id: number, name: string, className: string, cardNumber: string): Competitor {
+  return { id, name, club: '', className, courseName: '', cardNumber, bib: '', rentedCard: false };
+}
+
+// ─── Per-read results ──────────────────────────────────────────────────────────
+
+describe('read results', () => {
+  test('derives the status from the finish punch and validation', () => {
+    expect(readStatus(read(card('1', [[31, 1], [32, 2], [33, 3]], 4)))).toBe('OK');
+    expect(readStatus(read(card('1', [[31, 1], [33, 3]], 4)))).toBe('MP');
+    expect(readStatus(read(card('1', [[31, 1], [32, 2], [33, 3]], NO_TIME)))).toBe('DNF');
+    expect(readStatus(read(card('1', [[31, 1]], 4), null))).toBe('NC');
+  });
+
+  test('uses the fixed start time of mass start courses', () => {
+    const massStart: Course = { ...lion, useBoxStart: false, fixedStartTimeMs: 590 * MIN };
+    expect(readRaceTimeMs(read(card('1', [[31, 1]], 20), massStart))).toBe(30 * MIN);
+    expect(readRaceTimeMs(read({ ...card('1', [[31, 1]], 20), startTime: NO_TIME }))).toBe(NO_TIME);
+  });
+});
+
+// ─── Standings ─────────────────────────────────────────────────────────────────
+
+describe('buildStandings', () => {
+  const ok = [[31, 2], [32, 5], [33, 7]] as [number, number][];
+  const reads = [
+    read(card('101', ok, 10), lion, 1),
+    read(card('102', [[31, 3], [32, 5], [33, 6]], 9), lion, 2),
+    read(card('103', [[31, 2], [32, 4], [33, 8]], 10), lion, 3),
+    read(card('104', [[31, 1], [33, 5]], 6), lion, 4),
+    read(card('105', ok, NO_TIME), lion, 5),
+    read(card('106', ok, 12), lion, 6),
+    read(card('201', [[33, 2], [32, 4]], 5), frog),
+  ];
+  const competitors = [
+    competitor(1, 'Ann', 'W21', '101'),
+    competitor(2, 'Bea', 'W21', '102'),
+    competitor(3, 'Cat', 'W21', '103'),
+    competitor(4, 'Dot', 'W21', '104'),
+    competitor(5, 'Eve', 'W21', '105'),
+    competitor(6, 'Fay', 'W21', '106'),
+  ];
+  const classes = buildStandings(reads, competitors, { disqualifiedReadIds: new Set([reads[5].id]) });
+  const w21 = classes.find((c) => c.className === 'W21')!;
+
+  test('groups by class, unregistered cards by course', () => {
+    expect(classes.map((c) => [c.className, c.courseName])).toEqual([
+      ['Frog', 'Frog'],
+      ['W21', 'Lion'],
+    ]);
+  });
+
+  test('ranks OK runners by time with shared positions, then MP, DNF and DSQ', () => {
+    expect(w21.standings.map((s) => [s.competitor?.name, s.status, s.position])).toEqual([
+      ['Bea', 'OK', 1],
+      ['Ann', 'OK', 2],
+      ['Cat', 'OK', 2],
+      ['Dot', 'MP', null],
+      ['Eve', 'DNF', null],
+      ['Fay', 'DSQ', null],
+    ]);
+  });
+
+  test('computes time behind the winner', () => {
+    expect(w21.standings.map((s) => s.timeBehindMs)).toEqual([0, MIN, MIN, null, null, null]);
+  });
+
+  test('ranks legs and splits among runners of the course', () => {
+    const [bea, ann, cat, dot] = w21.standings;
+    expect(ann.legs.map((l) => l.controlCode)).toEqual([31, 32, 33, null]);
+    expect(ann.legs.map((l) => l.legTimeMs / MIN)).toEqual([2, 3, 2, 3]);
+    // Dot missed 32: no time for the legs into and out of it
+    expect(dot.legs.map((l) => l.legTimeMs)).toEqual([MIN, NO_TIME, NO_TIME, MIN]);
+    expect(dot.legs[0].legRank).toBe(1);
+    expect([ann, cat, bea].map((s) => s.legs[0].legRank)).toEqual([2, 2, 6]);
+    expect([bea, ann, cat].map((s) => s.legs[2].splitRank)).toEqual([2, 3, 6]);
+    expect(bea.legs[3].splitRank).toBe(2);
+  });
+
+  test('ranks score courses by score, then time, without time behind', () => {
+    const score: Course = { name: 'Score', controls: [31, 32, 33], isInline: false, useBoxStart: true, controlScores: { 31: 10, 32: 20, 33: 30 } };
+    const [standings] = buildStandings(
+      [read(card('1', [[31, 1]], 20), score), read(card('2', [[33, 1]], 30), score), read(card('3', [[33, 1]], 25), score)],
+      []
+    );
+    expect(standings.standings.map((s) => [s.read.card.cardNumber, s.position, s.timeBehindMs])).toEqual([
+      ['3', 1, null],
+      ['2', 2, null],
+      ['1', 3, null],
+    ]);
+    expect(standings.standings[0].legs).toEqual([]);
+  });
+
+  test('can group by course instead of class', () => {
+    expect(buildStandings(reads, competitors, { groupBy: 'course' }).map((c) => c.className)).toEqual(['Frog', 'Lion']);
+  });
+
+  test('uses the latest read of a card', () => {
+    const again = read(card('101', [[31, 1]], 3), lion, 1);
+    const [standings] = buildStandings([reads[0], again], competitors);
+    expect(standings.standings).toHaveLength(1);
+    expect(standings.standings[0].status).toBe('MP');
+  });
+
+  test('keeps a result for each runner who used a shared card', () => {
+    const rented = [competitor(7, 'Gil', 'W21', '900'), competitor(8, 'Hal', 'W21', '900')];
+    const [standings] = buildStandings(
+      [read(card('900', ok, 11), lion, 7), read(card('900', ok, 9), lion, 8)],
+      rented
+    );
+    expect(standings.standings.map((s) => [s.competitor?.name, s.position])).toEqual([
+      ['Hal', 1],
+      ['Gil', 2],
+    ]);
+  });
+});
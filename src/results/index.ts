@@ -0,0 +1,2 @@
+export { RunnerStatus, LegResult, Standing, ClassStandings, StandingsOptions } from './types';
+export { UNKNOWN_CLASS, readStartTime, readFinishTime, readRaceTimeMs, readStatus, buildStandings } from './standings';
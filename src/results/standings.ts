@@ -0,0 +1,201 @@
+/**
+ * Result standings.
+ *
+ * Turns stored reads into ranked standings per class (or per course): OK
+ * runners by time (score courses by score, then time) with shared positions
+ * on ties and time behind the winner, followed by the unranked runners in
+ * status order. Inline courses also get per-leg and cumulative split ranks.
+ *
+ * Used by the live results view and the IOF XML ResultList export.
+ */
+
+import { NO_TIME } from '../si-protocol/types';
+import { StoredRead } from '../storage/types';
+import { Competitor } from '../competitors/types';
+import { ScoreResult, compareScores } from '../course-validator/validator';
+import { RaceTimes, resolveRaceTimes } from '../course-validator/timing';
+import {
+  RunnerStatus,
+  LegResult,
+  Standing,
+  ClassStandings,
+  StandingsOptions,
+} from './types';
+
+/** Group for unregistered cards without a validated course */
+export const UNKNOWN_CLASS = 'Unknown';
+
+const STATUS_ORDER: RunnerStatus[] = ['OK', 'NC', 'MP', 'DNF', 'DSQ'];
+
+/** Stand-in for non-score results, so they compare by time alone */
+const NO_SCORE: ScoreResult = { points: 0, penalty: 0, total: 0, overtimeMs: 0 };
+
+// ─── Per-read results ──────────────────────────────────────────────────────────
+
+/**
+ * Times of a read as resolved when it was validated (start list, feeds and
+ * precedence included). Reads not validated, or stored before validations
+ * carried their times, are timed from the card and course alone.
+ */
+function readTimes(read: StoredRead): RaceTimes {
+  const validation = read.validation;
+  return validation && validation.raceTimeMs !== undefined
+    ? validation
+    : resolveRaceTimes(validation?.course, read.card);
+}
+
+/** Start time of a read, NO_TIME when no source had one */
+export function readStartTime(read: StoredRead): number {
+  return readTimes(read).startTimeMs;
+}
+
+/** Finish time of a read, NO_TIME when no source had one */
+export function readFinishTime(read: StoredRead): number {
+  return readTimes(read).finishTimeMs;
+}
+
+/** Running time in ms, or NO_TIME when the start or finish is missing */
+export function readRaceTimeMs(read: StoredRead): number {
+  return readTimes(read).raceTimeMs;
+}
+
+/**
+ * Status of a read. A read without a finish time did not finish; a card that
+ * was not checked against a course is NC.
+ */
+export function readStatus(read: StoredRead): RunnerStatus {
+  if (readFinishTime(read) === NO_TIME) return 'DNF';
+  if (!read.validation) return 'NC';
+  return read.validation.allCorrect ? 'OK' : 'MP';
+}
+
+/** Leg and split times along an inline course, ranks still unset */
+function legTimes(read: StoredRead): LegResult[] {
+  const validation = read.validation;
+  if (!validation || !validation.course.isInline) return [];
+
+  const start = readStartTime(read);
+  const points = [
+    ...validation.controlResults.map((cr) => ({ code: cr.expectedCode as number | null, time: cr.timestampMs })),
+    { code: null, time: readFinishTime(read) },
+  ];
+  let previous = start;
+  return points.map(({ code, time }) => {
+    const leg: LegResult = {
+      controlCode: code,
+      legTimeMs: time !== NO_TIME && previous !== NO_TIME ? time - previous : NO_TIME,
+      legRank: null,
+      splitTimeMs: time !== NO_TIME && start !== NO_TIME ? time - start : NO_TIME,
+      splitRank: null,
+    };
+    previous = time;
+    return leg;
+  });
+}
+
+// ─── Standings ─────────────────────────────────────────────────────────────────
+
+/**
+ * Build standings from stored reads. When a runner's card was read more than
+ * once, the latest read counts. Reads are told apart by runner, so runners
+ * who shared a rented card each keep their own result; unregistered cards
+ * by card number.
+ */
+export function buildStandings(
+  reads: StoredRead[],
+  competitors: Competitor[],
+  options: StandingsOptions = {}
+): ClassStandings[] {
+  const byId = new Map(competitors.map((c) => [c.id, c]));
+  const latest = new Map<string, { read: StoredRead; competitor: Competitor | undefined }>();
+  for (const read of reads) {
+    const competitor =
+      (read.competitorId !== null ? byId.get(read.competitorId) : undefined) ??
+      competitors.find((c) => c.cardNumber === read.card.cardNumber);
+    latest.set(competitor ? `competitor:${competitor.id}` : `card:${read.card.cardNumber}`, { read, competitor });
+  }
+
+  const groups = new Map<string, Standing[]>();
+  for (const { read, competitor } of latest.values()) {
+    const courseName = read.validation?.course.name;
+    const group =
+      (options.groupBy === 'course' ? courseName : competitor?.className || courseName) || UNKNOWN_CLASS;
+
+    const standing: Standing = {
+      read,
+      competitor,
+      status: options.disqualifiedReadIds?.has(read.id) ? 'DSQ' : readStatus(read),
+      timeMs: readRaceTimeMs(read),
+      position: null,
+      timeBehindMs: null,
+      score: read.validation?.score,
+      legs: legTimes(read),
+    };
+    groups.set(group, [...(groups.get(group) ?? []), standing]);
+  }
+
+  return [...groups.keys()]
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => rankGroup(name, groups.get(name)!));
+}
+
+/** Ranking order: score first on score courses, then time */
+function compareResults(a: Standing, b: Standing): number {
+  return compareScores(
+    { score: a.score ?? NO_SCORE, timeMs: a.timeMs },
+    { score: b.score ?? NO_SCORE, timeMs: b.timeMs }
+  );
+}
+
+function rankGroup(className: string, standings: Standing[]): ClassStandings {
+  const ranked = standings.filter((s) => s.status === 'OK' && s.timeMs !== NO_TIME).sort(compareResults);
+  ranked.forEach((s, i) => {
+    const previous = ranked[i - 1];
+    s.position = previous && compareResults(previous, s) === 0 ? previous.position : i + 1;
+    s.timeBehindMs = s.score ? null : s.timeMs - ranked[0].timeMs;
+  });
+
+  // Unranked runners by status, then time (unknown times last), then name
+  const byTime = (a: Standing, b: Standing) =>
+    (a.timeMs === NO_TIME ? Infinity : a.timeMs) - (b.timeMs === NO_TIME ? Infinity : b.timeMs);
+  const unranked = standings
+    .filter((s) => !ranked.includes(s))
+    .sort(
+      (a, b) =>
+        STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+        byTime(a, b) ||
+        (a.competitor?.name ?? '').localeCompare(b.competitor?.name ?? '')
+    );
+
+  const courseNames = new Set(standings.map((s) => s.read.validation?.course.name));
+  const courseName = courseNames.size === 1 ? [...courseNames][0] : undefined;
+
+  rankLegs(standings);
+  return { className, courseName, standings: [...ranked, ...unranked] };
+}
+
+/** Rank each leg and split among runners of the same course with a time for it */
+function rankLegs(standings: Standing[]): void {
+  const byCourse = new Map<string, Standing[]>();
+  for (const s of standings) {
+    if (s.legs.length === 0) continue;
+    const name = s.read.validation!.course.name;
+    byCourse.set(name, [...(byCourse.get(name) ?? []), s]);
+  }
+
+  for (const runners of byCourse.values()) {
+    const legCount = runners[0].legs.length;
+    for (let i = 0; i < legCount; i++) {
+      assignRanks(runners.map((s) => s.legs[i]), 'legTimeMs', 'legRank');
+      assignRanks(runners.map((s) => s.legs[i]), 'splitTimeMs', 'splitRank');
+    }
+  }
+}
+
+function assignRanks(legs: LegResult[], timeKey: 'legTimeMs' | 'splitTimeMs', rankKey: 'legRank' | 'splitRank'): void {
+  const timed = legs.filter((l) => l[timeKey] !== NO_TIME).sort((a, b) => a[timeKey] - b[timeKey]);
+  timed.forEach((leg, i) => {
+    const previous = timed[i - 1];
+    leg[rankKey] = previous && previous[timeKey] === leg[timeKey] ? previous[rankKey] : i + 1;
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared types for result standings.
+ *
+ * A standing is one runner's latest read in a class, with status, time,
+ * position and split times; all times are in ms and NO_TIME when unknown.
+ */
+
+import type { StoredRead } from '../storage/types';
+import type { Competitor } from '../competitors/types';
+import type { ScoreResult } from '../course-validator/validator';
+
+/**
+ * Runner status, in standings order after the ranked runners:
+ * OK, NC (finished, not checked against a course), MP (missing punch),
+ * DNF (no finish punch), DSQ (disqualified by the organiser).
+ */
+export type RunnerStatus = 'OK' | 'NC' | 'MP' | 'DNF' | 'DSQ';
+
+export interface LegResult {
+  controlCode: number | null;  // Control at the end of the leg, null = finish
+  legTimeMs: number;           // NO_TIME when either end is missing
+  legRank: number | null;
+  splitTimeMs: number;         // Time since start, NO_TIME when missing
+  splitRank: number | null;
+}
+
+export interface Standing {
+  read: StoredRead;
+  competitor: Competitor | undefined;
+  status: RunnerStatus;
+  timeMs: number;              // Running time, NO_TIME if unknown
+  position: number | null;     // Only for OK runners with a time
+  timeBehindMs: number | null; // Behind the winner; null on score courses
+  score?: ScoreResult;
+  legs: LegResult[];           // Inline courses only
+}
+
+export interface ClassStandings {
+  className: string;
+  courseName?: string;         // Set when every runner ran the same course
+  standings: Standing[];
+}
+
+export interface StandingsOptions {
+  /** Group by competitor class (default) or by validated course */
+  groupBy?: 'class' | 'course';
+  /** Reads the organiser disqualified */
+  disqualifiedReadIds?: ReadonlySet<number>;
+}
@@ -0,0 +1,367 @@
+/**
+ * SPORTident card memory encoder — the inverse of the SiDataFrame parsers.
+ *
+ * Takes a SiCardData and a target card type and produces the raw card memory
+ * blocks a station would return, plus the wrapped readout messages that
+ * parseSi5 / parseSi6 / parseSi8Plus accept. Times are stored the way the
+ * cards store them: 12-hour words for SI-Card 5, 12-hour words with a PM flag
+ * for SI-Card 6 and later, plus the day of the week on SI-Card 10/11/SIAC.
+ */
+
+import {
+  SiMessage,
+  buildMessage,
+  GET_SI_CARD_5,
+  GET_SI_CARD_6_BN,
+  GET_SI_CARD_8_PLUS_BN,
+  SI_CARD_10_PLUS_SERIES,
+  SICARD_6_READOUT_COMMANDS,
+  SICARD_8_9_READOUT_COMMANDS,
+  SICARD_10_PLUS_READOUT_COMMANDS,
+} from './SiMessage';
+import { SiCardData, NO_TIME } from './types';
+import { DAY_MS, NO_DAY_OF_WEEK, dayOfWeek } from './time';
+import { SIAC_INFO_BLOCK, DEFAULT_SIAC_INFO, isSiacNumber, encodeSiacInfo } from './siac';
+import {
+  SI6_OWNER_START,
+  SI8_PLUS_OWNER_START,
+  SI8_OWNER_END,
+  SI9_OWNER_END,
+  SI10_PLUS_OWNER_END,
+  hasOwnerData,
+  encodeSi6Owner,
+  encodeSi8PlusOwner,
+} from './owner';
+
+// ─── Constants ─────────────────────────────────────────────────────────────────
+
+export const CARD_BLOCK_SIZE = 128;
+
+const NO_SI_TIME = 0xeeee;
+const TWELVE_HOURS_SEC = 12 * 3600;
+const ONE_DAY_SEC = 24 * 3600;
+const PUNCHES_PER_BLOCK = 32;
+
+const SI5_TIMED_PUNCHES = 30;
+const SI5_MAX_PUNCHES = 36;
+const SI6_MAX_PUNCHES = 64;
+const SI6_192_MAX_PUNCHES = 192;
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export type SiCardType = 'SI5' | 'SI6' | 'SI8' | 'SI9' | 'SI10' | 'SI11' | 'SIAC';
+
+export interface SiEncodeOptions {
+  /** Allow up to 192 punches on SI-Card 6 (station in 192 punches mode) */
+  si6_192Punches?: boolean;
+  /**
+   * Event date (YYYY-MM-DD) for the day-of-week bits of SI-Card 10/11/SIAC
+   * records; without it they are written as unknown
+   */
+  eventDate?: string;
+}
+
+export interface EncodedCard {
+  type: SiCardType;
+  /** Card number bytes (CN3..CN0) as sent in detection/removal messages */
+  numberBytes: number[];
+  /** Raw card memory, CARD_BLOCK_SIZE bytes per block */
+  memory: Buffer;
+}
+
+/** Card series labels, matching the ones produced by the SiDataFrame parsers */
+export const CARD_SERIES_LABELS: Record<SiCardType, string> = {
+  SI5: 'SiCard 5',
+  SI6: 'SiCard 6',
+  SI8: 'SiCard 8',
+  SI9: 'SiCard 9',
+  SI10: 'SiCard 10/11',
+  SI11: 'SiCard 10/11',
+  SIAC: 'SIAC',
+};
+
+/** Guess the card type from its number, following SPORTident number ranges */
+export function inferCardType(cardNumber: number): SiCardType {
+  if (cardNumber < 500000) return 'SI5';
+  if (cardNumber < 1000000) return 'SI6';
+  if (cardNumber < 2000000) return 'SI9';
+  if (cardNumber < 3000000) return 'SI8';
+  if (cardNumber >= 7000000 && cardNumber < 8000000) return 'SI10';
+  if (isSiacNumber(cardNumber)) return 'SIAC';
+  if (cardNumber >= 9000000 && cardNumber < 10000000) return 'SI11';
+  throw new Error(`Cannot infer SI card type for card number ${cardNumber}`);
+}
+
+// ─── Shared helper functions ───────────────────────────────────────────────────
+
+function writeWord(mem: Buffer, i: number, value: number): void {
+  mem[i] = (value >> 8) & 0xff;
+  mem[i + 1] = value & 0xff;
+}
+
+function writeBlock3(mem: Buffer, i: number, value: number): void {
+  mem[i] = (value >> 16) & 0xff;
+  writeWord(mem, i + 1, value & 0xffff);
+}
+
+function block3Bytes(value: number): number[] {
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function secondsOfDay(timeMs: number): number {
+  const sec = Math.floor(timeMs / 1000) % ONE_DAY_SEC;
+  return sec < 0 ? sec + ONE_DAY_SEC : sec;
+}
+
+/** 12-hour time word (seconds modulo 12h), or 0xEEEE for NO_TIME */
+function twelveHourWord(timeMs: number): number {
+  if (timeMs === NO_TIME) return NO_SI_TIME;
+  return secondsOfDay(timeMs) % TWELVE_HOURS_SEC;
+}
+
+/**
+ * Day-of-week bits for a record written on the event date plus any days the
+ * time runs past midnight. `null` writes no weekday (SI-Card 6, 8, 9).
+ */
+type WeekdayOf = ((timeMs: number) => number) | null;
+
+function weekdayOf(type: SiCardType, eventDate: string | undefined): WeekdayOf {
+  if (type !== 'SI10' && type !== 'SI11' && type !== 'SIAC') return null;
+  if (!eventDate) return () => NO_DAY_OF_WEEK;
+  return (timeMs) => (dayOfWeek(eventDate) + Math.floor(Math.max(timeMs, 0) / DAY_MS)) % 7;
+}
+
+/**
+ * Write a 4-byte SI-Card 6+ time record: [PTD] [CN] [TH] [TL].
+ * PTD holds the PM flag in bit 0, the day of the week in bits 1-3 and the
+ * control code high bits in bits 6-7.
+ */
+function writeFullTime(mem: Buffer, i: number, timeMs: number, code: number, weekday: WeekdayOf = null): void {
+  const pm = timeMs !== NO_TIME && secondsOfDay(timeMs) >= TWELVE_HOURS_SEC ? 1 : 0;
+  const day = weekday ? weekday(timeMs) << 1 : 0;
+  mem[i] = ((code >> 2) & 0xc0) | day | pm;
+  mem[i + 1] = code & 0xff;
+  writeWord(mem, i + 2, twelveHourWord(timeMs));
+}
+
+/** Write a start/finish/check record; absent times leave an empty (0xEE) page */
+function writeStationTime(mem: Buffer, i: number, timeMs: number, weekday: WeekdayOf = null): void {
+  if (timeMs === NO_TIME) {
+    mem.fill(0xee, i, i + 4);
+  } else {
+    writeFullTime(mem, i, timeMs, 0, weekday);
+  }
+}
+
+function checkPunches(card: SiCardData, maxPunches: number, maxCode: number, label: string): void {
+  if (card.punches.length > maxPunches) {
+    throw new Error(`${label} holds at most ${maxPunches} punches, got ${card.punches.length}`);
+  }
+  const bad = card.punches.find((p) => p.code < 0 || p.code > maxCode);
+  if (bad) {
+    throw new Error(`${label} cannot store control code ${bad.code}`);
+  }
+}
+
+function parseCardNumber(card: SiCardData): number {
+  const cardNumber = parseInt(card.cardNumber, 10);
+  if (isNaN(cardNumber) || cardNumber <= 0 || cardNumber > 0xffffff) {
+    throw new Error(`Invalid card number: ${card.cardNumber}`);
+  }
+  return cardNumber;
+}
+
+// ─── SI-Card 5 encoder ─────────────────────────────────────────────────────────
+
+/**
+ * Encode an SI-Card 5 (one 128-byte block). Card numbers above 65535 are
+ * stored as a CNS byte (hundred thousands) plus a word, like the real cards.
+ * Punches 31-36 keep their code but lose their time.
+ */
+export function encodeSi5(card: SiCardData): EncodedCard {
+  const cardNumber = parseCardNumber(card);
+  let cns = 0;
+  let word = cardNumber;
+  if (cardNumber > 0xffff) {
+    cns = Math.floor(cardNumber / 100000);
+    word = cardNumber % 100000;
+    if (cns < 2 || word > 0xffff) {
+      throw new Error(`Card number ${cardNumber} cannot be stored on a SiCard 5`);
+    }
+  }
+  checkPunches(card, SI5_MAX_PUNCHES, 0xff, 'SiCard 5');
+
+  const mem = Buffer.alloc(CARD_BLOCK_SIZE);
+  writeWord(mem, 0x04, word);
+  mem[0x06] = cns;
+  writeWord(mem, 0x13, twelveHourWord(card.startTime));
+  writeWord(mem, 0x15, twelveHourWord(card.finishTime));
+  mem[0x17] = card.punches.length + 1;
+  writeWord(mem, 0x19, twelveHourWord(card.checkTime));
+
+  for (let i = 0; i < SI5_TIMED_PUNCHES; i++) {
+    const offset = 0x21 + Math.floor(i / 5) * 0x10 + (i % 5) * 0x03;
+    const punch = card.punches[i];
+    mem[offset] = punch ? punch.code : 0;
+    writeWord(mem, offset + 1, punch ? twelveHourWord(punch.timestampMs) : NO_SI_TIME);
+  }
+  // Untimed punches: code only, in the first byte of each 16-byte row
+  for (let i = SI5_TIMED_PUNCHES; i < card.punches.length; i++) {
+    mem[0x20 + (i - SI5_TIMED_PUNCHES) * 0x10] = card.punches[i].code;
+  }
+
+  return { type: 'SI5', numberBytes: [0x00, cns, (word >> 8) & 0xff, word & 0xff], memory: mem };
+}
+
+// ─── SI-Card 6 encoder ─────────────────────────────────────────────────────────
+
+/**
+ * Encode an SI-Card 6 (eight blocks). Punches 1-64 live in blocks 6-7; in
+ * 192 punches mode punches 65-192 continue in blocks 2-5.
+ */
+export function encodeSi6(card: SiCardData, options: SiEncodeOptions = {}): EncodedCard {
+  const cardNumber = parseCardNumber(card);
+  const maxPunches = options.si6_192Punches ? SI6_192_MAX_PUNCHES : SI6_MAX_PUNCHES;
+  checkPunches(card, maxPunches, 0x3ff, 'SiCard 6');
+
+  const mem = Buffer.alloc(8 * CARD_BLOCK_SIZE, 0xee);
+  mem.fill(0x00, 0, 32);
+  writeBlock3(mem, 11, cardNumber);
+  mem[18] = card.punches.length;
+  writeStationTime(mem, 20, card.finishTime);
+  writeStationTime(mem, 24, card.startTime);
+  writeStationTime(mem, 28, card.checkTime);
+
+  card.punches.forEach((p, i) => {
+    const offset =
+      i < SI6_MAX_PUNCHES
+        ? 6 * CARD_BLOCK_SIZE + i * 4
+        : 2 * CARD_BLOCK_SIZE + (i - SI6_MAX_PUNCHES) * 4;
+    writeFullTime(mem, offset, p.timestampMs, p.code);
+  });
+  if (card.owner) encodeSi6Owner(card.owner, mem);
+
+  return { type: 'SI6', numberBytes: [0x00, ...block3Bytes(cardNumber)], memory: mem };
+}
+
+// ─── SI-Card 8/9/10/11/SIAC encoder ───────────────────────────────────────────
+
+const SI8_PLUS_LAYOUT: Record<
+  'SI8' | 'SI9' | 'SI10',
+  { series: number; blocks: number; punchesPage: number; ownerEnd: number }
+> = {
+  SI8: { series: 0x02, blocks: 2, punchesPage: 34, ownerEnd: SI8_OWNER_END },
+  SI9: { series: 0x01, blocks: 2, punchesPage: 14, ownerEnd: SI9_OWNER_END },
+  // SI-Card 10/11/SIAC: header and owner data in blocks 0-1, SIAC info in block 3, punch pages in blocks 4-7
+  SI10: { series: SI_CARD_10_PLUS_SERIES, blocks: 8, punchesPage: 128, ownerEnd: SI10_PLUS_OWNER_END },
+};
+
+/** Encode an SI-Card 8, 9, 10, 11 or SIAC */
+export function encodeSi8Plus(card: SiCardData, type: SiCardType, options: SiEncodeOptions = {}): EncodedCard {
+  if (type === 'SI5' || type === 'SI6') {
+    throw new Error(`${type} is not an SI-Card 8+ type`);
+  }
+  const cardNumber = parseCardNumber(card);
+  const layout = SI8_PLUS_LAYOUT[type === 'SI8' || type === 'SI9' ? type : 'SI10'];
+  const maxPunches = (layout.blocks * CARD_BLOCK_SIZE) / 4 - layout.punchesPage;
+  checkPunches(card, maxPunches, 0x3ff, CARD_SERIES_LABELS[type]);
+
+  const weekday = weekdayOf(type, options.eventDate);
+  const mem = Buffer.alloc(layout.blocks * CARD_BLOCK_SIZE, 0xee);
+  mem.fill(0x00, 0, 28);
+  writeStationTime(mem, 8, card.checkTime, weekday);
+  writeStationTime(mem, 12, card.startTime, weekday);
+  writeStationTime(mem, 16, card.finishTime, weekday);
+  mem[22] = card.punches.length;
+  mem[24] = layout.series;
+  writeBlock3(mem, 25, cardNumber);
+
+  card.punches.forEach((p, i) => {
+    writeFullTime(mem, (layout.punchesPage + i) * 4, p.timestampMs, p.code, weekday);
+  });
+  if (card.owner) encodeSi8PlusOwner(card.owner, mem, layout.ownerEnd, CARD_SERIES_LABELS[type]);
+  if (type === 'SIAC') {
+    const infoStart = SIAC_INFO_BLOCK * CARD_BLOCK_SIZE;
+    encodeSiacInfo(card.siac ?? DEFAULT_SIAC_INFO, mem.subarray(infoStart, infoStart + CARD_BLOCK_SIZE));
+  }
+
+  return { type, numberBytes: [layout.series, ...block3Bytes(cardNumber)], memory: mem };
+}
+
+// ─── Generic entry points ──────────────────────────────────────────────────────
+
+/**
+ * Encode card data for the given type (inferred from the card number when
+ * omitted).
+ */
+export function encodeCard(
+  card: SiCardData,
+  type: SiCardType = inferCardType(parseCardNumber(card)),
+  options: SiEncodeOptions = {}
+): EncodedCard {
+  switch (type) {
+    case 'SI5':
+      return encodeSi5(card);
+    case 'SI6':
+      return encodeSi6(card, options);
+    default:
+      return encodeSi8Plus(card, type, options);
+  }
+}
+
+/** Extract one 128-byte block from encoded card memory */
+export function cardBlock(encoded: EncodedCard, blockNumber: number): Buffer {
+  const offset = blockNumber * CARD_BLOCK_SIZE;
+  if (offset < 0 || offset + CARD_BLOCK_SIZE > encoded.memory.length) {
+    throw new Error(`${encoded.type} has no block ${blockNumber}`);
+  }
+  return encoded.memory.subarray(offset, offset + CARD_BLOCK_SIZE);
+}
+
+/**
+ * Wrap a card block in the readout answer a station would send for it:
+ * [cmd] [len] [station code] [block number] [128 bytes] (no block number for
+ * SI-Card 5).
+ */
+export function encodeBlockMessage(encoded: EncodedCard, blockNumber: number, stationCode = 1): SiMessage {
+  const station = [(stationCode >> 8) & 0xff, stationCode & 0xff];
+  const block = cardBlock(encoded, blockNumber);
+  if (encoded.type === 'SI5') {
+    return buildMessage(GET_SI_CARD_5, [...station, ...block]);
+  }
+  const command = encoded.type === 'SI6' ? GET_SI_CARD_6_BN : GET_SI_CARD_8_PLUS_BN;
+  return buildMessage(command, [...station, blockNumber, ...block]);
+}
+
+/**
+ * Build the readout answers SiDriver would receive for this card, in the
+ * order it requests them. Like the driver, SI-Card 6 and 10+ only include as
+ * many punch blocks as the punch count requires, plus block 1 when the card
+ * has owner data. The result can be fed
+ * straight to parseSi5 / parseSi6 / parseSi8Plus.
+ */
+export function encodeReadoutMessages(encoded: EncodedCard, stationCode = 1): SiMessage[] {
+  if (encoded.type === 'SI5') {
+    return [encodeBlockMessage(encoded, 0, stationCode)];
+  }
+
+  let commands: SiMessage[];
+  let nbPunches: number;
+  if (encoded.type === 'SI6') {
+    commands = SICARD_6_READOUT_COMMANDS;
+    nbPunches = encoded.memory[18];
+  } else if (encoded.type === 'SI8' || encoded.type === 'SI9') {
+    commands = SICARD_8_9_READOUT_COMMANDS;
+    nbPunches = -1;
+  } else {
+    commands = SICARD_10_PLUS_READOUT_COMMANDS;
+    nbPunches = encoded.memory[22];
+  }
+
+  const blockCount =
+    nbPunches < 0 ? commands.length : 1 + Math.ceil(nbPunches / PUNCHES_PER_BLOCK);
+  const blocks = commands.slice(0, blockCount).map((cmd) => cmd.byteAt(3));
+  const ownerStart = encoded.type === 'SI6' ? SI6_OWNER_START : SI8_PLUS_OWNER_START;
+  if (nbPunches >= 0 && hasOwnerData(cardBlock(encoded, 0), ownerStart)) blocks.push(1);
+  return blocks.map((block) => encodeBlockMessage(encoded, block, stationCode));
+}
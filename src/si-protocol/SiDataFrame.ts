@@ -16,8 +16,20 @@ import { SiMessage } from './SiMessage';
 
 // Re-export shared types so existing consumers are unaffected
 export { SiPunch, SiCardData, NO_TIME } from './types';
-import type { SiPunch, SiCardData } from './types';
+import type { SiPunch, SiCardData, SiCardOwner, SiStationPunch } from './types';
+import type { SiStationMode } from './system-data';
 import { NO_TIME } from './types';
+import { cardDateTime } from './time';
+import { decodeCardNumber } from './backup';
+import { isSiacNumber } from './siac';
+import {
+  OWNER_MEMORY_SIZE,
+  SI8_OWNER_END,
+  SI9_OWNER_END,
+  SI10_PLUS_OWNER_END,
+  decodeSi6Owner,
+  decodeSi8PlusOwner,
+} from './owner';
 
 // ─── Internal constants ────────────────────────────────────────────────────────
 
@@ -45,7 +57,9 @@ function timestampAt(data: Buffer, i: number): number {
 
 /**
  * Advance a timestamp forward in steps until it's within one hour before refTime.
- * Handles 12-hour rollovers and day boundaries.
+ * Handles 12-hour rollovers and day boundaries: the first reference is the
+ * event zero time, so a 12-hour SI-Card 5 time gets its AM/PM half from the
+ * zero time and a time before the zero time counts as the next day.
  */
 function advanceTimePast(
   timestamp: number,
@@ -66,11 +80,38 @@ function newRefTime(refTime: number, punchTime: number): number {
   return punchTime !== NO_TIME ? punchTime : refTime;
 }
 
+/**
+ * Add absolute date-times to parsed card data. `weekdays` holds the
+ * day-of-week bits of the start, finish, check and punch records, on cards
+ * that store them.
+ */
+function withDateTimes(
+  card: SiCardData,
+  eventDate: string | undefined,
+  weekdays?: { start: number; finish: number; check: number; punches: number[] }
+): SiCardData {
+  if (!eventDate) return card;
+  return {
+    ...card,
+    punches: card.punches.map((p, i) => {
+      const dateTime = cardDateTime(eventDate, p.timestampMs, weekdays?.punches[i]);
+      return dateTime ? { ...p, dateTime } : p;
+    }),
+    startDateTime: cardDateTime(eventDate, card.startTime, weekdays?.start),
+    finishDateTime: cardDateTime(eventDate, card.finishTime, weekdays?.finish),
+    checkDateTime: cardDateTime(eventDate, card.checkTime, weekdays?.check),
+  };
+}
+
 // ─── SI-Card 5 parser ──────────────────────────────────────────────────────────
 
 const SI5_TIMED_PUNCHES = 30;
 
-export function parseSi5(message: SiMessage, zerohour: number): SiCardData {
+/**
+ * Parse an SI-Card 5 readout. `zerohour` is the event zero time in ms since
+ * midnight; with an `eventDate` (YYYY-MM-DD) the times also get date-times.
+ */
+export function parseSi5(message: SiMessage, zerohour: number, eventDate?: string): SiCardData {
   // Extract data frame: bytes 5..132 of the message
   const data = message.sequence.subarray(5, 133);
 
@@ -123,15 +164,18 @@ export function parseSi5(message: SiMessage, zerohour: number): SiCardData {
       : newRefTime(zerohour, startTime);
   const finishTime = advanceTimePast(rawFinish, lastTimedRef, TWELVE_HOURS);
 
-  return {
-    cardNumber: siNumber.toString(),
-    cardSeries: 'SiCard 5',
-    startTime,
-    finishTime,
-    checkTime,
-    punchCount: nbPunches,
-    punches,
-  };
+  return withDateTimes(
+    {
+      cardNumber: siNumber.toString(),
+      cardSeries: 'SiCard 5',
+      startTime,
+      finishTime,
+      checkTime,
+      punchCount: nbPunches,
+      punches,
+    },
+    eventDate
+  );
 }
 
 // ─── SI-Card 6+ shared logic ───────────────────────────────────────────────────
@@ -156,6 +200,19 @@ function extractSi6PlusDataFrame(dataMessages: SiMessage[]): Buffer {
   return dataFrame;
 }
 
+/**
+ * Blocks 0 and 1, where the owner data lives, found by their block number
+ * wherever they are in the readout. Blocks not read stay empty (0xEE).
+ */
+function extractOwnerMemory(dataMessages: SiMessage[]): Buffer {
+  const memory = Buffer.alloc(OWNER_MEMORY_SIZE, 0xee);
+  for (const message of dataMessages) {
+    const blockNumber = message.byteAt(5);
+    if (blockNumber * 128 < OWNER_MEMORY_SIZE) message.sequence.copy(memory, blockNumber * 128, 6, 6 + 128);
+  }
+  return memory;
+}
+
 /**
  * Extract full time (with PM flag) from a 4-byte page.
  * Format: [TD byte with PM flag in bit 0] [unused] [time_high] [time_low]
@@ -167,6 +224,14 @@ function extractFullTime(data: Buffer, pageStart: number): number {
   return pmFlag * TWELVE_HOURS + twelveHoursTime;
 }
 
+/**
+ * Day of the week from the TD byte of a 4-byte record (bits 1-3,
+ * 0 = Sunday). Only SI-Card 10/11/SIAC records are known to carry it.
+ */
+function extractWeekday(data: Buffer, pageStart: number): number {
+  return (byteAt(data, pageStart) >> 1) & 0x07;
+}
+
 /** Extract control code from a 4-byte punch record */
 function extractCode(data: Buffer, punchIndex: number): number {
   const codeHigh = (byteAt(data, punchIndex) & 0xc0) << 2;
@@ -175,7 +240,9 @@ function extractCode(data: Buffer, punchIndex: number): number {
 }
 
 /**
- * Parse an SI-6+ card given its specific memory layout indices.
+ * Parse an SI-6+ card given its specific memory layout indices. Punch blocks
+ * are merged in reading order; the owner data is taken from blocks 0 and 1
+ * by block number, so block 1 may come after the punch blocks.
  */
 function parseSi6Plus(
   dataMessages: SiMessage[],
@@ -188,10 +255,14 @@ function parseSi6Plus(
     punchesStartIndex: number;
     punchPageSize: number;
     cardSeries: string;
+    hasWeekday: boolean;
+    owner: (memory: Buffer) => SiCardOwner | undefined;
   },
-  zerohour: number
+  zerohour: number,
+  eventDate: string | undefined
 ): SiCardData {
   const data = extractSi6PlusDataFrame(dataMessages);
+  const owner = layout.owner(extractOwnerMemory(dataMessages));
 
   const cardNumber = block3At(data, layout.siNumberIndex).toString();
   const nbPunches = byteAt(data, layout.nbPunchesIndex);
@@ -223,15 +294,28 @@ function parseSi6Plus(
   const rawFinish = extractFullTime(data, layout.finishTimeIndex);
   const finishTime = advanceTimePast(rawFinish, refTime, ONE_DAY);
 
-  return {
-    cardNumber,
-    cardSeries: layout.cardSeries,
-    startTime,
-    finishTime,
-    checkTime,
-    punchCount: nbPunches,
-    punches,
-  };
+  const weekdays = layout.hasWeekday
+    ? {
+        start: extractWeekday(data, layout.startTimeIndex),
+        finish: extractWeekday(data, layout.finishTimeIndex),
+        check: extractWeekday(data, layout.checkTimeIndex),
+        punches: punches.map((_, i) => extractWeekday(data, (layout.punchesStartIndex + i) * layout.punchPageSize)),
+      }
+    : undefined;
+  return withDateTimes(
+    {
+      cardNumber,
+      cardSeries: layout.cardSeries,
+      startTime,
+      finishTime,
+      checkTime,
+      punchCount: nbPunches,
+      punches,
+      ...(owner && { owner }),
+    },
+    eventDate,
+    weekdays
+  );
 }
 
 // ─── SI-Card 6 parser ──────────────────────────────────────────────────────────
@@ -241,7 +325,8 @@ const SI6_DOUBLE_WORD = 4;
 
 export function parseSi6(
   dataMessages: SiMessage[],
-  zerohour: number
+  zerohour: number,
+  eventDate?: string
 ): SiCardData {
   return parseSi6Plus(
     dataMessages,
@@ -254,8 +339,11 @@ export function parseSi6(
       punchesStartIndex: 8 * SI6_PAGE_SIZE / SI6_DOUBLE_WORD, // start at page-index 32
       punchPageSize: SI6_DOUBLE_WORD,
       cardSeries: 'SiCard 6',
+      hasWeekday: false,
+      owner: decodeSi6Owner,
     },
-    zerohour
+    zerohour,
+    eventDate
   );
 }
 
@@ -267,7 +355,8 @@ const SI8_SINUMBER_PAGE = 6 * SI8_PAGE_SIZE; // byte 24
 enum Si8PlusSeries {
   SI8 = 'SiCard 8',
   SI9 = 'SiCard 9',
-  SI10PLUS = 'SiCard 10/11/SIAC',
+  SI10PLUS = 'SiCard 10/11',
+  SIAC = 'SIAC',
   PCARD = 'pCard',
   UNKNOWN = 'Unknown',
 }
@@ -276,10 +365,19 @@ const SI8_PLUS_PUNCHES_START: Record<Si8PlusSeries, number> = {
   [Si8PlusSeries.SI8]: 34,
   [Si8PlusSeries.SI9]: 14,
   [Si8PlusSeries.SI10PLUS]: 32,
+  [Si8PlusSeries.SIAC]: 32,
   [Si8PlusSeries.PCARD]: 44,
   [Si8PlusSeries.UNKNOWN]: 0,
 };
 
+/** End of the owner text (see owner.ts); pCards carry none */
+const SI8_PLUS_OWNER_END: Partial<Record<Si8PlusSeries, number>> = {
+  [Si8PlusSeries.SI8]: SI8_OWNER_END,
+  [Si8PlusSeries.SI9]: SI9_OWNER_END,
+  [Si8PlusSeries.SI10PLUS]: SI10_PLUS_OWNER_END,
+  [Si8PlusSeries.SIAC]: SI10_PLUS_OWNER_END,
+};
+
 function detectSi8Series(data: Buffer): Si8PlusSeries {
   switch (byteAt(data, SI8_SINUMBER_PAGE) & 0x0f) {
     case 2:
@@ -289,7 +387,8 @@ function detectSi8Series(data: Buffer): Si8PlusSeries {
     case 4:
       return Si8PlusSeries.PCARD;
     case 15:
-      return Si8PlusSeries.SI10PLUS;
+      // SIAC shares the SI-Card 10/11 layout and is told apart by its number range
+      return isSiacNumber(block3At(data, SI8_SINUMBER_PAGE + 1)) ? Si8PlusSeries.SIAC : Si8PlusSeries.SI10PLUS;
     default:
       return Si8PlusSeries.UNKNOWN;
   }
@@ -297,7 +396,8 @@ function detectSi8Series(data: Buffer): Si8PlusSeries {
 
 export function parseSi8Plus(
   dataMessages: SiMessage[],
-  zerohour: number
+  zerohour: number,
+  eventDate?: string
 ): SiCardData {
   // We need to peek at the merged data to detect the series
   const data = extractSi6PlusDataFrame(dataMessages);
@@ -315,7 +415,49 @@ export function parseSi8Plus(
       punchesStartIndex: punchesStart,
       punchPageSize: SI8_PAGE_SIZE,
       cardSeries: series,
+      hasWeekday: series === Si8PlusSeries.SI10PLUS || series === Si8PlusSeries.SIAC,
+      owner: (memory) => {
+        const end = SI8_PLUS_OWNER_END[series];
+        return end ? decodeSi8PlusOwner(memory, end) : undefined;
+      },
     },
-    zerohour
+    zerohour,
+    eventDate
   );
 }
+
+// ─── Transmit record (autosend) ────────────────────────────────────────────────
+
+/**
+ * Parse a punch pushed by a station in autosend mode:
+ *
+ *   [STX] [D3] [len] [CN1] [CN0] [SI3] [SI2] [SI1] [SI0] [TD] [TH] [TL] [TSS] [MEM2] [MEM1] [MEM0] [CRC] [ETX]
+ *
+ * TD holds the PM flag (bit 0) and the day of the week (bits 1-3), TSS the
+ * sub-second in 1/256 s. The time is placed after `zerohour` like card times.
+ * `mode` is the operating mode of the station, which the record does not carry.
+ */
+export function parseTransmitRecord(
+  message: SiMessage,
+  zerohour: number,
+  eventDate?: string,
+  mode: SiStationMode | null = null
+): SiStationPunch {
+  const data = message.sequence;
+  const twelveHoursTime = timestampAt(data, 10);
+  const subSecondMs = Math.floor((byteAt(data, 12) * 1000) / 256);
+  const timeMs =
+    twelveHoursTime === NO_SI_TIME
+      ? NO_TIME
+      : advanceTimePast((byteAt(data, 9) & 1) * TWELVE_HOURS + twelveHoursTime, zerohour, ONE_DAY) + subSecondMs;
+
+  const punch: SiStationPunch = {
+    stationCode: wordAt(data, 3),
+    cardNumber: decodeCardNumber(byteAt(data, 6), byteAt(data, 7), byteAt(data, 8)).toString(),
+    timeMs,
+    mode,
+    memoryAddress: block3At(data, 13),
+  };
+  const dateTime = eventDate ? cardDateTime(eventDate, timeMs, extractWeekday(data, 9)) : undefined;
+  return dateTime ? { ...punch, dateTime } : punch;
+}
@@ -20,6 +20,9 @@ import {
   SICARD_6_READOUT_COMMANDS,
   SICARD_8_9_READOUT_COMMANDS,
   SICARD_10_PLUS_READOUT_COMMANDS,
+  READ_SICARD_6_B1,
+  READ_SICARD_10_PLUS_B1,
+  READ_SICARD_10_PLUS_B3,
   SET_MASTER_MODE,
   GET_SYSTEM_VALUE,
   SI_CARD_5_DETECTED,
@@ -29,31 +32,48 @@ import {
   SI3_NUMBER_INDEX,
   SI_CARD_10_PLUS_SERIES,
   BEEP,
+  TRANSMIT_RECORD,
+  buildMessage,
 } from './SiMessage';
 import {
   SiCardData,
   parseSi5,
   parseSi6,
   parseSi8Plus,
+  parseTransmitRecord,
 } from './SiDataFrame';
-import { SiMessageQueue, TimeoutError, InvalidMessageError } from './SiMessageQueue';
+import { SiStationPunch, SiPartialRead } from './types';
+import { SiMessageQueue, TimeoutError, InvalidMessageError, NakError } from './SiMessageQueue';
+import { SiFramer } from './SiFramer';
+import { LEGACY_STARTUP_SEQUENCE, extendedToLegacy } from './legacy';
+import { SI6_OWNER_START, SI8_PLUS_OWNER_START, hasOwnerData } from './owner';
+import { SiTimeConfig } from './time';
+import { decodeCardNumber } from './backup';
+import { isSiacNumber, parseSiacInfo } from './siac';
+import {
+  SiStationMode,
+  STATION_MODES,
+  OPERATING_MODE_ADDRESS,
+  EXTENDED_PROTOCOL_ERROR,
+  HANDSHAKE_ERROR,
+} from './system-data';
 
 // ─── Protocol constants ─────────────────────────────────────────────────────
 
 /** Baud rate for high-speed SI stations (BSM7/8, most modern stations) */
-const BAUD_HIGH = 38400;
+export const BAUD_HIGH = 38400;
 /** Baud rate for legacy SI stations (BSM3/4) */
-const BAUD_LOW = 4800;
-/** Max serial frame size: STX + cmd + len(1) + data(max 128) + CRC(2) + ETX = 134, plus margin */
-const SERIAL_BUFFER_SIZE = 139;
-/** Time (ms) after which incomplete serial data is discarded */
-const SERIAL_TIMEOUT_MS = 500;
+export const BAUD_LOW = 4800;
 /** Default timeout (ms) for waiting for a protocol response */
 const RESPONSE_TIMEOUT_MS = 2000;
 /** Timeout (ms) for waiting for the user to remove the card from the station */
 const CARD_REMOVAL_TIMEOUT_MS = 5000;
 /** Number of punches that fit in a single data block (SI-Card 6+) */
 const PUNCHES_PER_BLOCK = 32;
+/** Times a failed card block read is re-sent before the card has to be re-inserted */
+const DEFAULT_BLOCK_RETRIES = 2;
+/** Position of the block number in a card block answer (STX cmd len CN1 CN0 BN) */
+const BLOCK_NUMBER_INDEX = 5;
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
 
@@ -64,7 +84,8 @@ export type CommStatus =
   | 'PROCESSING'
   | 'PROCESSING_ERROR'
   | 'OFF'
-  | 'FATAL_ERROR';
+  | 'FATAL_ERROR'
+  | 'RECONNECTING'; // Set by SiSupervisor while the station is away, never by SiDriver
 
 export interface SiPortAdapter {
   /** Write raw bytes to the serial port */
@@ -73,17 +94,32 @@ export interface SiPortAdapter {
   setBaudRate(rate: number): Promise<void>;
   /** Close the port */
   close(): void;
+  /**
+   * Register a listener for the port going away on its own (USB unplugged,
+   * station switched off); not called after close(). Optional: adapters
+   * without it are only restarted when the driver fails.
+   */
+  onLost?(listener: (reason: string) => void): void;
+}
+
+export interface SiDriverOptions {
+  /** Re-sends of a card block read that timed out or came back corrupted (default 2) */
+  blockRetries?: number;
 }
 
 export interface SiDriverEvents {
   status: (status: CommStatus, message?: string) => void;
   cardRead: (data: SiCardData) => void;
+  /** A card read failed part-way: ask the runner to insert the card again */
+  reinsert: (read: SiPartialRead) => void;
+  punch: (punch: SiStationPunch) => void;
   log: (direction: 'SEND' | 'READ' | 'INFO' | 'ERROR', msg: string) => void;
 }
 
 // ─── Protocol config check masks ───────────────────────────────────────────────
 
 const EXTENDED_PROTOCOL_MASK = 1;
+const AUTOSEND_MODE_MASK = 2;
 const HANDSHAKE_MODE_MASK = 4;
 const CONFIG_CHECK_MASK = EXTENDED_PROTOCOL_MASK | HANDSHAKE_MODE_MASK;
 
@@ -93,18 +129,39 @@ export class SiDriver extends EventEmitter {
   private port: SiPortAdapter;
   private messageQueue = new SiMessageQueue();
   private running = false;
-  private zerohour: number;
+  private time: SiTimeConfig;
   private si6_192PunchesMode = false;
+  private autosend = false;
+  private stationMode: SiStationMode | null = null;
+  /** Station speaks the legacy protocol: commands are translated, SI-Card 5 and 6 only */
+  private legacy = false;
+  private readonly blockRetries: number;
+  /** Card being read, for the partial read when it fails */
+  private readout: SiPartialRead | null = null;
+
+  // Serial framing: complete frames go to the message queue, dropped bytes to the log
+  private framer = new SiFramer(
+    (msg) => {
+      this.log('READ', msg.toString());
+      this.messageQueue.push(msg);
+    },
+    { onDiscard: (bytes, reason) => this.log('ERROR', `Discarded ${new SiMessage(bytes).toString()} (${reason})`) }
+  );
 
-  // Accumulator for serial framing
-  private accBuffer = Buffer.alloc(SERIAL_BUFFER_SIZE);
-  private accSize = 0;
-  private lastDataTime = 0;
-
-  constructor(port: SiPortAdapter, zerohour: number = 0) {
+  /**
+   * `time` is the event zero time in ms since midnight, or the full time
+   * configuration including the event date for absolute date-times.
+   */
+  constructor(port: SiPortAdapter, time: number | SiTimeConfig = 0, options: SiDriverOptions = {}) {
     super();
     this.port = port;
-    this.zerohour = zerohour;
+    this.time = typeof time === 'number' ? { zeroTimeMs: time } : { ...time };
+    this.blockRetries = options.blockRetries ?? DEFAULT_BLOCK_RETRIES;
+  }
+
+  /** Change the zero time and event date; applies to the next card read */
+  setTimeConfig(time: SiTimeConfig): void {
+    this.time = { ...time };
   }
 
   // ─── Typed event helpers ─────────────────────────────────────────────
@@ -117,57 +174,49 @@ export class SiDriver extends EventEmitter {
     return this.on('cardRead', listener);
   }
 
+  onReinsert(listener: SiDriverEvents['reinsert']): this {
+    return this.on('reinsert', listener);
+  }
+
+  /** Punches pushed by a station in autosend mode */
+  onPunch(listener: SiDriverEvents['punch']): this {
+    return this.on('punch', listener);
+  }
+
   onLog(listener: SiDriverEvents['log']): this {
     return this.on('log', listener);
   }
 
+  /** True when the station pushes punch records instead of waiting for card reads */
+  get autosendMode(): boolean {
+    return this.autosend;
+  }
+
+  /** True when the station speaks the legacy (non-extended) protocol */
+  get legacyProtocol(): boolean {
+    return this.legacy;
+  }
+
   // ─── Serial data input ───────────────────────────────────────────────
 
   /** Feed raw serial bytes into the driver (called by the serial port adapter) */
   handleSerialData(chunk: Buffer): void {
-    const now = Date.now();
-    if (now > this.lastDataTime + SERIAL_TIMEOUT_MS) {
-      this.accSize = 0; // reset on timeout
-    }
-    this.lastDataTime = now;
-
-    // Accumulate
-    chunk.copy(this.accBuffer, this.accSize, 0, Math.min(chunk.length, SERIAL_BUFFER_SIZE - this.accSize));
-    this.accSize += Math.min(chunk.length, SERIAL_BUFFER_SIZE - this.accSize);
-
-    // Check if single-byte message (like ACK)
-    if (this.accSize === 1 && this.accBuffer[0] !== 0x02) {
-      this.dispatchMessage();
-      return;
-    }
-
-    // Check for complete multi-byte message
-    if (this.accSize >= 3) {
-      const expectedDataLen = this.accBuffer[2] & 0xff;
-      const expectedTotal = expectedDataLen + 6; // STX + cmd + len + data + CRC(2) + ETX
-      if (this.accSize >= expectedTotal) {
-        this.dispatchMessage();
-      }
-    }
-  }
-
-  private dispatchMessage(): void {
-    const msgBuf = Buffer.from(this.accBuffer.subarray(0, this.accSize));
-    const msg = new SiMessage(msgBuf);
-    this.log('READ', msg.toString());
-    this.messageQueue.push(msg);
-    this.accSize = 0;
+    this.framer.push(chunk);
   }
 
   // ─── Port communication helpers ──────────────────────────────────────
 
   private async send(msg: SiMessage): Promise<void> {
-    this.log('SEND', msg.toString());
-    await this.port.write(msg.sequence);
+    const bytes = this.legacy ? extendedToLegacy(msg) : msg.sequence;
+    this.log('SEND', new SiMessage(bytes).toString());
+    await this.port.write(bytes);
   }
 
   private async pollAnswer(command: number, timeoutMs = RESPONSE_TIMEOUT_MS): Promise<SiMessage> {
     const msg = await this.messageQueue.take(timeoutMs);
+    if (msg.isNak) {
+      throw new NakError(command);
+    }
     if (!msg.check(command)) {
       throw new InvalidMessageError(msg, command);
     }
@@ -213,50 +262,65 @@ export class SiDriver extends EventEmitter {
   // ─── Startup sequence ────────────────────────────────────────────────
 
   private async startupBootstrap(): Promise<void> {
-    // Try high speed first (38400), fall back to low (4800)
-    try {
-      await this.port.setBaudRate(BAUD_HIGH);
-      await this.startup();
-    } catch (err) {
-      if (err instanceof TimeoutError) {
-        try {
-          await this.port.setBaudRate(BAUD_LOW);
-          await this.startup();
-        } catch (err2) {
-          if (err2 instanceof TimeoutError) {
-            throw new Error(
-              'Master station did not answer to startup sequence (high/low baud)'
-            );
-          }
-          throw err2;
-        }
-      } else {
-        throw err;
+    // Try the extended protocol at high speed first (38400), then low (4800),
+    // then the legacy protocol for BSM3/4 stations, most likely at low speed
+    const attempts: [number, () => Promise<void>][] = [
+      [BAUD_HIGH, () => this.startup()],
+      [BAUD_LOW, () => this.startup()],
+      [BAUD_LOW, () => this.legacyStartup()],
+      [BAUD_HIGH, () => this.legacyStartup()],
+    ];
+    for (const [baudRate, startup] of attempts) {
+      try {
+        await this.port.setBaudRate(baudRate);
+        await startup();
+        return;
+      } catch (err) {
+        if (!(err instanceof TimeoutError)) throw err;
       }
     }
+    throw new Error('Master station did not answer to startup sequence (high/low baud)');
   }
 
   private async startup(): Promise<void> {
+    this.legacy = false;
     // Send startup sequence → expect SET_MASTER_MODE response
     await this.send(STARTUP_SEQUENCE);
     await this.pollAnswer(SET_MASTER_MODE);
 
-    // Get protocol config → check extended protocol + handshake mode
+    // Get protocol config → check extended protocol + handshake (or autosend) mode
     await this.send(GET_PROTOCOL_CONFIGURATION);
     const configMsg = await this.pollAnswer(GET_SYSTEM_VALUE);
     const cpcByte = configMsg.byteAt(6);
+    this.autosend = false;
+    this.stationMode = null;
+    let legacyCards = false;
     if ((cpcByte & CONFIG_CHECK_MASK) !== CONFIG_CHECK_MASK) {
       if ((cpcByte & EXTENDED_PROTOCOL_MASK) === 0) {
-        throw new Error(
-          'Master station should be configured with extended protocol'
-        );
+        // Autosend records only exist in the extended protocol
+        if ((cpcByte & AUTOSEND_MODE_MASK) !== 0) throw new Error(EXTENDED_PROTOCOL_ERROR);
+        // The station answers extended commands but reports cards in the legacy protocol
+        legacyCards = true;
+      } else if ((cpcByte & AUTOSEND_MODE_MASK) === 0) {
+        throw new Error(HANDSHAKE_ERROR);
       } else {
-        throw new Error(
-          'Master station should be configured in handshake mode (no autosend)'
-        );
+        this.autosend = true;
       }
     }
 
+    if (this.autosend) {
+      // Punches arrive as transmit records; the record does not say which mode the station is in
+      await this.send(buildMessage(GET_SYSTEM_VALUE, [OPERATING_MODE_ADDRESS, 1]));
+      const modeMsg = await this.pollAnswer(GET_SYSTEM_VALUE);
+      const modeByte = modeMsg.byteAt(6);
+      this.stationMode =
+        (Object.keys(STATION_MODES) as SiStationMode[]).find((m) => STATION_MODES[m] === modeByte) ?? null;
+      this.log('INFO', `Autosend mode: waiting for punches (${this.stationMode ?? 'unknown'} station)`);
+      await this.send(BEEP_TWICE);
+      this.emit('status', 'ON');
+      return;
+    }
+
     // Get SI-Card 6 block configuration
     await this.send(GET_CARDBLOCKS_CONFIGURATION);
     const blockMsg = await this.pollAnswer(GET_SYSTEM_VALUE);
@@ -266,33 +330,57 @@ export class SiDriver extends EventEmitter {
       `SiCard6 192 Punches Mode ${this.si6_192PunchesMode ? 'Enabled' : 'Disabled'}`
     );
 
+    if (legacyCards) {
+      this.legacy = true;
+      this.log('INFO', 'Legacy protocol: reading SI-Card 5 and 6 only');
+      this.emit('status', 'ON');
+      return;
+    }
+
     // Beep twice to confirm ready
     await this.send(BEEP_TWICE);
     this.emit('status', 'ON');
   }
 
+  /** Startup for stations that only speak the legacy protocol (BSM3/4) */
+  private async legacyStartup(): Promise<void> {
+    this.log('SEND', new SiMessage(LEGACY_STARTUP_SEQUENCE).toString());
+    await this.port.write(LEGACY_STARTUP_SEQUENCE);
+    await this.pollAnswer(SET_MASTER_MODE);
+    this.legacy = true;
+    this.autosend = false;
+    this.stationMode = null;
+    this.log('INFO', 'Legacy protocol: reading SI-Card 5 and 6 only');
+    this.emit('status', 'ON');
+  }
+
   // ─── Card dispatch ───────────────────────────────────────────────────
 
   private async dispatchReady(): Promise<void> {
-    const message = await this.messageQueue.takeForever();
+    let message = await this.messageQueue.takeForever();
+    // Autosend punches need no answer, so the driver stays READY
+    while (this.running && message.check(TRANSMIT_RECORD)) {
+      this.handleTransmitRecord(message);
+      message = await this.messageQueue.takeForever();
+    }
     if (!this.running) return;
 
     this.emit('status', 'PROCESSING');
 
     switch (message.commandByte) {
       case SI_CARD_5_DETECTED:
-        await this.retrieveSiCard5();
+        await this.retrieveSiCard5(message);
         break;
 
       case SI_CARD_6_PLUS_DETECTED:
-        await this.retrieveSiCard6();
+        await this.retrieveSiCard6(message);
         break;
 
       case SI_CARD_8_PLUS_DETECTED:
         if (message.byteAt(SI3_NUMBER_INDEX) === SI_CARD_10_PLUS_SERIES) {
-          await this.retrieveSiCard10Plus();
+          await this.retrieveSiCard10Plus(message);
         } else {
-          await this.retrieveSiCard8_9();
+          await this.retrieveSiCard8_9(message);
         }
         break;
 
@@ -309,22 +397,25 @@ export class SiDriver extends EventEmitter {
     }
   }
 
+  // ─── Autosend punches ────────────────────────────────────────────────
+
+  private handleTransmitRecord(message: SiMessage): void {
+    const punch = parseTransmitRecord(message, this.time.zeroTimeMs, this.time.eventDate, this.stationMode);
+    this.log('INFO', `Punch: card ${punch.cardNumber} at station ${punch.stationCode}`);
+    this.emit('punch', punch);
+  }
+
   // ─── Card read operations ────────────────────────────────────────────
 
-  private async retrieveSiCard5(): Promise<void> {
-    try {
-      await this.send(READ_SICARD_5);
-      const response = await this.pollAnswer(READ_SICARD_5.commandByte);
-      const cardData = parseSi5(response, this.zerohour);
-      this.emit('cardRead', cardData);
-      await this.ackAndWaitRemoval();
-    } catch (err) {
-      this.handleReadError(err, 'SiCard 5');
-    }
+  private retrieveSiCard5(detected: SiMessage): Promise<void> {
+    return this.retrieveCard(detected, 'SiCard 5', async () => {
+      const response = await this.readBlock(READ_SICARD_5);
+      return parseSi5(response, this.time.zeroTimeMs, this.time.eventDate);
+    });
   }
 
-  private async retrieveSiCard6(): Promise<void> {
-    try {
+  private retrieveSiCard6(detected: SiMessage): Promise<void> {
+    return this.retrieveCard(detected, 'SiCard 6', async () => {
       const commands = SICARD_6_READOUT_COMMANDS;
       const nbPunchesIndex = 18 + 6; // Si6DataFrame.NB_PUNCHES_INDEX + metadata offset
       const dataMessages = await this.readMultipleBlocks(
@@ -332,40 +423,68 @@ export class SiDriver extends EventEmitter {
         nbPunchesIndex,
         'SiCard 6'
       );
-      const cardData = parseSi6(dataMessages, this.zerohour);
-      this.emit('cardRead', cardData);
-      await this.ackAndWaitRemoval();
-    } catch (err) {
-      this.handleReadError(err, 'SiCard 6');
-    }
+      await this.readOwnerBlock(dataMessages, SI6_OWNER_START, READ_SICARD_6_B1);
+      return parseSi6(dataMessages, this.time.zeroTimeMs, this.time.eventDate);
+    });
   }
 
-  private async retrieveSiCard8_9(): Promise<void> {
-    try {
+  private retrieveSiCard8_9(detected: SiMessage): Promise<void> {
+    return this.retrieveCard(detected, 'SiCard 8/9', async () => {
       const commands = SICARD_8_9_READOUT_COMMANDS;
       const dataMessages = await this.readAllBlocks(commands, 'SiCard 8/9');
-      const cardData = parseSi8Plus(dataMessages, this.zerohour);
-      this.emit('cardRead', cardData);
-      await this.ackAndWaitRemoval();
-    } catch (err) {
-      this.handleReadError(err, 'SiCard 8/9');
-    }
+      return parseSi8Plus(dataMessages, this.time.zeroTimeMs, this.time.eventDate);
+    });
   }
 
-  private async retrieveSiCard10Plus(): Promise<void> {
-    try {
+  private retrieveSiCard10Plus(detected: SiMessage): Promise<void> {
+    const siac = isSiacNumber(decodeCardNumber(detected.byteAt(6), detected.byteAt(7), detected.byteAt(8)));
+    const label = siac ? 'SIAC' : 'SiCard 10/11';
+    return this.retrieveCard(detected, label, async () => {
       const commands = SICARD_10_PLUS_READOUT_COMMANDS;
       const nbPunchesIndex = 22 + 6; // Si8PlusDataFrame.NB_PUNCHES_INDEX + metadata offset
       const dataMessages = await this.readMultipleBlocks(
         commands,
         nbPunchesIndex,
-        'SiCard 10/11/SIAC'
+        label
       );
-      const cardData = parseSi8Plus(dataMessages, this.zerohour);
+      await this.readOwnerBlock(dataMessages, SI8_PLUS_OWNER_START, READ_SICARD_10_PLUS_B1);
+      const card = parseSi8Plus(dataMessages, this.time.zeroTimeMs, this.time.eventDate);
+      if (!siac) return card;
+
+      // Battery, versions and air+ state live in block 3
+      const info = parseSiacInfo(await this.readBlock(READ_SICARD_10_PLUS_B3));
+      if (info.batteryLow) {
+        this.log('INFO', `SIAC ${card.cardNumber}: battery low (${info.batteryVoltage} V)`);
+      }
+      return { ...card, siac: info };
+    });
+  }
+
+  /**
+   * Owner data starts in block 0 and continues in block 1, which the punch
+   * readout skips: read it too when block 0 has owner data.
+   */
+  private async readOwnerBlock(dataMessages: SiMessage[], start: number, cmd: SiMessage): Promise<void> {
+    if (hasOwnerData(dataMessages[0].sequence.subarray(6, 6 + 128), start)) {
+      dataMessages.push(await this.readBlock(cmd));
+    }
+  }
+
+  /** Read the detected card, emit it and wait for its removal; a failed read asks for the card again */
+  private async retrieveCard(detected: SiMessage, cardSeries: string, read: () => Promise<SiCardData>): Promise<void> {
+    // Detection: STX cmd len CN1 CN0 SI3 SI2 SI1 SI0; legacy detections have no number
+    const number = decodeCardNumber(detected.byteAt(6), detected.byteAt(7), detected.byteAt(8));
+    const cardNumber = number > 0 ? String(number) : '';
+    this.readout = { cardNumber, cardSeries, blocksRead: [], failedBlock: null, reason: '' };
+    try {
+      const cardData = await read();
+      this.readout = null;
       this.emit('cardRead', cardData);
       await this.ackAndWaitRemoval();
     } catch (err) {
-      this.handleReadError(err, 'SiCard 10/11/SIAC');
+      this.handleReadError(err, cardSeries);
+    } finally {
+      this.readout = null;
     }
   }
 
@@ -381,8 +500,7 @@ export class SiDriver extends EventEmitter {
   ): Promise<SiMessage[]> {
     const messages: SiMessage[] = [];
     for (const cmd of commands) {
-      await this.send(cmd);
-      messages.push(await this.pollAnswer(cmd.commandByte));
+      messages.push(await this.readBlock(cmd));
     }
     return messages;
   }
@@ -398,9 +516,7 @@ export class SiDriver extends EventEmitter {
     label: string
   ): Promise<SiMessage[]> {
     // Read first block
-    const firstCmd = commands[0];
-    await this.send(firstCmd);
-    const firstBlock = await this.pollAnswer(firstCmd.commandByte);
+    const firstBlock = await this.readBlock(commands[0]);
 
     // Determine how many blocks we need
     const nbPunches = firstBlock.byteAt(nbPunchesIndex) & 0xff;
@@ -417,13 +533,43 @@ export class SiDriver extends EventEmitter {
 
     const messages: SiMessage[] = [firstBlock];
     for (let i = 1; i < totalBlocks && i < commands.length; i++) {
-      await this.send(commands[i]);
-      messages.push(await this.pollAnswer(commands[i].commandByte));
+      messages.push(await this.readBlock(commands[i]));
     }
 
     return messages;
   }
 
+  /**
+   * Send one block read command and take its answer, re-sending the command
+   * when the answer times out, comes back corrupted or NAKed. A late answer to
+   * an earlier attempt, for another block, is skipped. No retry once the card
+   * has been pulled out.
+   */
+  private async readBlock(cmd: SiMessage): Promise<SiMessage> {
+    // SI-Card 5 is read in one command without a block number
+    const block = cmd.byteAt(2) > 0 ? cmd.byteAt(3) : 0;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.send(cmd);
+        let answer = await this.pollAnswer(cmd.commandByte);
+        while (cmd.byteAt(2) > 0 && answer.byteAt(BLOCK_NUMBER_INDEX) !== block) {
+          this.log('INFO', `Skipped late answer for block ${answer.byteAt(BLOCK_NUMBER_INDEX)}`);
+          answer = await this.pollAnswer(cmd.commandByte);
+        }
+        this.readout?.blocksRead.push(block);
+        return answer;
+      } catch (err) {
+        const cardRemoved = err instanceof InvalidMessageError && err.receivedMessage.check(SI_CARD_REMOVED);
+        const retryable = err instanceof TimeoutError || err instanceof NakError || err instanceof InvalidMessageError;
+        if (this.readout) this.readout.failedBlock = block;
+        if (cardRemoved) throw new Error('Card removed during readout');
+        if (!this.running || !retryable || attempt > this.blockRetries) throw err;
+        const reason = err instanceof Error ? err.message : String(err);
+        this.log('INFO', `Block ${block} failed (${reason}), retrying (${attempt}/${this.blockRetries})`);
+      }
+    }
+  }
+
   // ─── Post-read: ACK and wait for card removal ────────────────────────
 
   private async ackAndWaitRemoval(): Promise<void> {
@@ -442,6 +588,13 @@ export class SiDriver extends EventEmitter {
     const msg =
       err instanceof Error ? err.message : String(err);
     this.log('ERROR', `Error reading ${cardType}: ${msg}`);
-    this.emit('status', 'PROCESSING_ERROR');
+    if (!this.running) return; // Stopped during the read, not the card's fault
+    const read = this.readout;
+    if (read) {
+      this.emit('status', 'PROCESSING_ERROR', `Please re-insert ${read.cardNumber ? `card ${read.cardNumber}` : 'the card'}`);
+      this.emit('reinsert', { ...read, reason: msg });
+    } else {
+      this.emit('status', 'PROCESSING_ERROR');
+    }
   }
 }
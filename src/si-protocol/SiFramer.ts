@@ -0,0 +1,163 @@
+/**
+ * Serial framing for SI station answers.
+ *
+ * Splits the raw serial byte stream into frames: extended protocol frames
+ * (STX cmd len data CRC ETX), legacy protocol frames (STX cmd data ETX,
+ * passed on translated to the extended equivalent, see legacy.ts) and the
+ * single-byte ACK and NAK answers. Several
+ * frames in one chunk and frames split over chunks are both handled. Bytes
+ * that cannot start a frame, frames with a bad length, ETX or CRC, and
+ * incomplete frames after a quiet period are dropped and reported through
+ * onDiscard, and the framer resynchronises on the next STX. Only the known
+ * legacy commands start a legacy frame, so junk before an extended frame
+ * does not swallow it. Wakeup bytes and a doubled STX before a frame are
+ * skipped. Shared by SiDriver, SiStation and PunchRelay.
+ *
+ * A NAK is passed on as a one-byte frame (see SiMessage.isNak): the station
+ * rejected the last command, usually because it arrived corrupted.
+ */
+
+import { SiMessage, STX, ETX, ACK, NAK, WAKEUP, METADATA_SIZE, MAX_MESSAGE_SIZE } from './SiMessage';
+import {
+  scanLegacyFrame,
+  legacyToExtended,
+  isLegacyCommand,
+  FIRST_EXTENDED_COMMAND,
+  MAX_LEGACY_FRAME_SIZE,
+} from './legacy';
+
+/** Time (ms) after which incomplete serial data is discarded */
+const SERIAL_TIMEOUT_MS = 500;
+
+export interface SiFramerOptions {
+  /** Dropped bytes, with the reason they were dropped (e.g. "bad CRC") */
+  onDiscard?: (bytes: Buffer, reason: string) => void;
+  /** Quiet time after which an incomplete frame is dropped (default 500 ms) */
+  timeoutMs?: number;
+}
+
+export class SiFramer {
+  private pending: Buffer = Buffer.alloc(0);
+  private lastDataTime = 0;
+  private readonly onDiscard: (bytes: Buffer, reason: string) => void;
+  private readonly timeoutMs: number;
+
+  // Consecutive dropped bytes, reported together with the reason of the first
+  private junk: number[] = [];
+  private junkReason = '';
+
+  constructor(private readonly onFrame: (msg: SiMessage) => void, options: SiFramerOptions = {}) {
+    this.onDiscard = options.onDiscard ?? (() => {});
+    this.timeoutMs = options.timeoutMs ?? SERIAL_TIMEOUT_MS;
+  }
+
+  /** Feed raw serial bytes; complete frames are passed to onFrame */
+  push(chunk: Buffer): void {
+    const now = Date.now();
+    if (this.pending.length > 0 && now > this.lastDataTime + this.timeoutMs) {
+      this.reset('incomplete frame timed out');
+    }
+    this.lastDataTime = now;
+
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.pending.length) {
+      const consumed = this.scan(offset);
+      if (consumed === 0) break; // Frame not complete yet
+      offset += consumed;
+    }
+    this.pending = Buffer.from(this.pending.subarray(offset));
+    this.flushJunk();
+  }
+
+  /** Drop any incomplete frame, reporting it with the reason */
+  reset(reason = 'incomplete frame'): void {
+    if (this.pending.length > 0) this.onDiscard(this.pending, reason);
+    this.pending = Buffer.alloc(0);
+  }
+
+  // ─── Scanning ────────────────────────────────────────────────────────
+
+  /** Handle the bytes at offset; returns how many were used, or 0 to wait for more */
+  private scan(offset: number): number {
+    const data = this.pending;
+    const first = data[offset];
+
+    if (first === WAKEUP) return 1;
+    if (first === ACK || first === NAK) {
+      this.emitFrame(Buffer.from([first]));
+      return 1;
+    }
+    if (first !== STX) {
+      this.discard(first, 'no STX');
+      return 1;
+    }
+
+    if (offset + 1 >= data.length) return 0;
+    const command = data[offset + 1];
+    if (command === STX) return 1; // Doubled STX, the frame starts at the next one
+    if (command < FIRST_EXTENDED_COMMAND) {
+      if (isLegacyCommand(command)) return this.scanLegacy(offset);
+      this.discard(first, `unknown legacy command 0x${command.toString(16)}`);
+      return 1;
+    }
+
+    if (offset + 2 >= data.length) return 0;
+    const total = data[offset + 2] + METADATA_SIZE;
+    if (total > MAX_MESSAGE_SIZE) {
+      this.discard(first, `frame length ${total} over ${MAX_MESSAGE_SIZE}`);
+      return 1;
+    }
+    if (offset + total > data.length) return 0;
+
+    // A bad frame may be the head of a frame cut short: resynchronise right after its STX
+    const frame = Buffer.from(data.subarray(offset, offset + total));
+    const message = new SiMessage(frame);
+    if (message.endByte !== ETX) {
+      this.discard(first, 'missing ETX');
+      return 1;
+    }
+    if (!message.validCRC) {
+      this.discard(first, 'bad CRC');
+      return 1;
+    }
+    this.emitFrame(frame);
+    return total;
+  }
+
+  private scanLegacy(offset: number): number {
+    const frame = scanLegacyFrame(this.pending, offset);
+    if (!frame) {
+      if (this.pending.length - offset <= MAX_LEGACY_FRAME_SIZE) return 0;
+      this.discard(STX, `legacy frame over ${MAX_LEGACY_FRAME_SIZE} bytes`);
+      return 1;
+    }
+    // Junk that only looks like a legacy frame may run into a real frame: resynchronise right after its STX
+    const message = legacyToExtended(frame);
+    if (!message) {
+      this.discard(STX, `bad legacy frame 0x${frame.command.toString(16)}`);
+      return 1;
+    }
+    this.flushJunk();
+    this.onFrame(message);
+    return frame.length;
+  }
+
+  private emitFrame(frame: Buffer): void {
+    this.flushJunk();
+    this.onFrame(new SiMessage(frame));
+  }
+
+  private discard(byte: number, reason: string): void {
+    if (byte === STX) this.flushJunk(); // A rejected frame is reported on its own
+    if (this.junk.length === 0) this.junkReason = reason;
+    this.junk.push(byte);
+  }
+
+  private flushJunk(): void {
+    if (this.junk.length === 0) return;
+    const bytes = Buffer.from(this.junk);
+    this.junk = [];
+    this.onDiscard(bytes, this.junkReason);
+  }
+}
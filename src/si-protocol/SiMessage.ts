@@ -18,6 +18,10 @@ export const NAK = 0x15;
 // ─── Command instructions ──────────────────────────────────────────────────────
 
 export const GET_SYSTEM_VALUE = 0x83;
+export const SET_SYSTEM_VALUE = 0x82;
+export const GET_BACKUP_MEMORY = 0x81;
+export const SET_TIME = 0xf6;
+export const GET_TIME = 0xf7;
 export const SET_MASTER_MODE = 0xf0;
 export const DIRECT_MODE = 0x4d;
 export const BEEP = 0xf9;
@@ -29,12 +33,22 @@ export const SI_CARD_6_PLUS_DETECTED = 0xe6;
 export const SI_CARD_8_PLUS_DETECTED = 0xe8;
 export const SI_CARD_REMOVED = 0xe7;
 
+// ─── Autosend ──────────────────────────────────────────────────────────────────
+
+/** Punch record pushed by a station in autosend mode */
+export const TRANSMIT_RECORD = 0xd3;
+
 // ─── Card readout instructions ─────────────────────────────────────────────────
 
 export const GET_SI_CARD_5 = 0xb1;
 export const GET_SI_CARD_6_BN = 0xe1;
 export const GET_SI_CARD_8_PLUS_BN = 0xef;
 
+// ─── Card write instructions ───────────────────────────────────────────────────
+
+/** Write one 4-byte page of an SI-Card 8+: [page] [4 bytes] */
+export const WRITE_SI_CARD_8_PLUS_PAGE = 0xea;
+
 // ─── SiCard special data ───────────────────────────────────────────────────────
 
 export const SI3_NUMBER_INDEX = 5;
@@ -105,6 +119,11 @@ export class SiMessage {
     return this.startByte === STX && this.endByte === ETX && this.validCRC;
   }
 
+  /** One-byte NAK: the station rejected the last command */
+  get isNak(): boolean {
+    return this._sequence.length === 1 && this._sequence[0] === NAK;
+  }
+
   /** Check validity and that command matches expected */
   check(command: number): boolean {
     return this.valid && this.commandByte === command;
@@ -118,6 +137,23 @@ export class SiMessage {
   }
 }
 
+/**
+ * Build an extended-protocol frame (STX cmd len data CRC ETX) for the given
+ * command and payload, computing the length byte and CRC.
+ */
+export function buildMessage(command: number, payload: Buffer | number[] = []): SiMessage {
+  const data = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+  const body = Buffer.concat([Buffer.from([command, data.length]), data]);
+  const checksum = crc(body);
+  return new SiMessage(
+    Buffer.concat([
+      Buffer.from([STX]),
+      body,
+      Buffer.from([(checksum >> 8) & 0xff, checksum & 0xff, ETX]),
+    ])
+  );
+}
+
 // ─── Pre-built command messages ────────────────────────────────────────────────
 
 export const STARTUP_SEQUENCE = new SiMessage([
@@ -147,6 +183,8 @@ export const READ_SICARD_5 = new SiMessage([
 export const READ_SICARD_6_B0 = new SiMessage([
   STX, GET_SI_CARD_6_BN, 0x01, 0x00, 0x46, 0x0a, ETX,
 ]);
+/** Owner data, second half (see owner.ts) */
+export const READ_SICARD_6_B1 = buildMessage(GET_SI_CARD_6_BN, [0x01]);
 export const READ_SICARD_6_B6 = new SiMessage([
   STX, GET_SI_CARD_6_BN, 0x01, 0x06, 0x40, 0x0a, ETX,
 ]);
@@ -174,6 +212,10 @@ export const READ_SICARD_8_PLUS_B1 = new SiMessage([
 ]);
 
 export const READ_SICARD_10_PLUS_B0 = READ_SICARD_8_PLUS_B0;
+/** Owner data, second half (see owner.ts) */
+export const READ_SICARD_10_PLUS_B1 = READ_SICARD_8_PLUS_B1;
+/** SIAC battery, versions and air+ flags (see siac.ts) */
+export const READ_SICARD_10_PLUS_B3 = buildMessage(GET_SI_CARD_8_PLUS_BN, [0x03]);
 export const READ_SICARD_10_PLUS_B4 = new SiMessage([
   STX, GET_SI_CARD_8_PLUS_BN, 0x01, 0x04, 0xe6, 0x09, ETX,
 ]);
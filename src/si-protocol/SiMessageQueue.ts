@@ -28,6 +28,17 @@ export class InvalidMessageError extends Error {
   }
 }
 
+/** The station answered NAK: it rejected the command, usually because it arrived corrupted */
+export class NakError extends Error {
+  constructor(expectedCommand?: number) {
+    super(
+      'Station answered NAK' +
+        (expectedCommand !== undefined ? ` (to command 0x${expectedCommand.toString(16)})` : '')
+    );
+    this.name = 'NakError';
+  }
+}
+
 export class SiMessageQueue {
   private queue: SiMessage[] = [];
   private waiters: Array<{
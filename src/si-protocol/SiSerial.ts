@@ -9,6 +9,7 @@
 
 import { SerialPort } from 'serialport';
 import { SiPortAdapter } from './SiDriver';
+import { PortLocator } from './SiSupervisor';
 
 // SPORTident stations use a CP210x USB-to-UART chip
 // Silicon Labs CP210x: VID 10C4, PID 800A (common for SI stations)
@@ -45,6 +46,22 @@ export async function listPorts(): Promise<PortInfo[]> {
   }));
 }
 
+/**
+ * Finds a station's port again after it was unplugged, by the USB serial
+ * number of the port (SPORTident USB stations report their station serial
+ * number). The path can change on re-plug, e.g. COM5 → COM6.
+ */
+export const usbPortLocator: PortLocator = {
+  async identify(path: string): Promise<string | null> {
+    const port = (await listPorts()).find((p) => p.path === path);
+    return port?.serialNumber || null;
+  },
+  async find(serialNumber: string): Promise<string | null> {
+    const port = (await listPorts()).find((p) => p.serialNumber === serialNumber);
+    return port?.path ?? null;
+  },
+};
+
 /**
  * Auto-detect the first SPORTident port, or return null.
  */
@@ -114,6 +131,14 @@ export function openPort(
             port.close();
           }
         },
+
+        onLost: (listener: (reason: string) => void) => {
+          // close() by us carries no error; an unplugged device closes with one
+          port.on('close', (closeErr?: Error) => {
+            if (closeErr) listener(closeErr.message);
+          });
+          port.on('error', (portErr: Error) => listener(portErr.message));
+        },
       };
 
       resolve({ adapter, port });
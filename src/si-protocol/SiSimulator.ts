@@ -0,0 +1,549 @@
+/**
+ * Simulated SPORTident master station.
+ *
+ * Implements SiPortAdapter so SiDriver can run without any hardware attached.
+ * The simulator answers the extended-protocol commands sent by the driver
+ * (startup, system value reads, beeps, card block reads and page writes)
+ * with correctly CRC'd frames, and lets callers insert and remove virtual
+ * cards built from a SiCardData description (encoded by SiCardEncoder).
+ * Like a real readout station it keeps a backup memory record of every card
+ * inserted, which SiStation can read back.
+ *
+ * With the extended protocol switched off, cards are reported and read in the
+ * legacy protocol (SI-Card 5 and 6 only); a legacyOnly station (BSM3/4) also
+ * ignores extended commands.
+ *
+ * Usage:
+ *   const station = new SiSimulator();
+ *   const driver = new SiDriver(station, 0);
+ *   station.on('data', (chunk) => driver.handleSerialData(chunk));
+ *   driver.start();
+ *   station.insertCard(card);
+ */
+
+import { EventEmitter } from 'events';
+import { SiPortAdapter } from './SiDriver';
+import {
+  SiMessage,
+  buildMessage,
+  STX,
+  ACK,
+  NAK,
+  METADATA_SIZE,
+  SET_MASTER_MODE,
+  GET_SYSTEM_VALUE,
+  SET_SYSTEM_VALUE,
+  GET_BACKUP_MEMORY,
+  SET_TIME,
+  GET_TIME,
+  BEEP,
+  GET_SI_CARD_5,
+  GET_SI_CARD_6_BN,
+  GET_SI_CARD_8_PLUS_BN,
+  WRITE_SI_CARD_8_PLUS_PAGE,
+  SI_CARD_5_DETECTED,
+  SI_CARD_6_PLUS_DETECTED,
+  SI_CARD_8_PLUS_DETECTED,
+  SI_CARD_REMOVED,
+  TRANSMIT_RECORD,
+} from './SiMessage';
+import { SiCardData } from './types';
+import { localDate } from './time';
+import { BACKUP_START_ADDRESS, BACKUP_RECORD_SIZE, encodeBackupRecord } from './backup';
+import {
+  SYSTEM_DATA_SIZE,
+  SERIAL_NUMBER_ADDRESS,
+  FIRMWARE_ADDRESS,
+  MODEL_ID_ADDRESS,
+  MEMORY_SIZE_ADDRESS,
+  BATTERY_DATE_ADDRESS,
+  BACKUP_POINTER_HIGH_ADDRESS,
+  BACKUP_POINTER_LOW_ADDRESS,
+  CARDBLOCKS_CONFIG_ADDRESS,
+  MEMORY_OVERFLOW_ADDRESS,
+  BATTERY_VOLTAGE_ADDRESS,
+  OPERATING_MODE_ADDRESS,
+  STATION_CODE_ADDRESS,
+  PROTOCOL_CONFIG_ADDRESS,
+  EXTENDED_PROTOCOL_BIT,
+  AUTOSEND_BIT,
+  HANDSHAKE_BIT,
+  CARDBLOCKS_192_PUNCHES,
+  CARDBLOCKS_DEFAULT,
+  STATION_MODES,
+  stationCodeFrom,
+  encodeStationClock,
+  decodeStationClock,
+} from './system-data';
+import {
+  SiCardType,
+  EncodedCard,
+  CARD_BLOCK_SIZE,
+  CARD_SERIES_LABELS,
+  inferCardType,
+  encodeCard,
+  encodeBlockMessage,
+  cardBlock,
+} from './SiCardEncoder';
+import {
+  FIRST_EXTENDED_COMMAND,
+  LEGACY_SET_MASTER_MODE,
+  LEGACY_SI_CARD_5_EVENT,
+  LEGACY_SI_CARD_6_EVENT,
+  LEGACY_GET_SI_CARD_5,
+  LEGACY_GET_SI_CARD_6_BN,
+  LEGACY_CARD_INSERTED,
+  LEGACY_CARD_REMOVED,
+  encodeLegacyFrame,
+  scanLegacyFrame,
+} from './legacy';
+
+// ─── Constants ─────────────────────────────────────────────────────────────────
+
+/** Pseudo port path used by the CLI and the Electron app to select the simulator */
+export const SIMULATOR_PORT_PATH = 'SIMULATOR';
+
+const DEFAULT_BAUD_RATE = 38400;
+
+/** Identity of the simulated station: a BSM8 master with firmware 656 */
+const SIMULATED_MODEL_ID = 0x9198;
+const SIMULATED_FIRMWARE = '656';
+
+/** Controls used by the random demo cards */
+const DEMO_CONTROLS = [31, 32, 33, 34, 35, 36, 37, 38, 39, 40];
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SiSimulatorOptions {
+  /** Station code reported in every answer (default 1) */
+  stationCode?: number;
+  /** Serial number in the system data (default 500001) */
+  serialNumber?: number;
+  /** Baud rate the station listens at; other rates get no answer (default 38400) */
+  baudRate?: number;
+  /** Extended protocol flag of the station; off, cards are reported in the legacy protocol (default true) */
+  extendedProtocol?: boolean;
+  /** Old station (BSM3/4) that only answers legacy commands; implies extendedProtocol: false (default false) */
+  legacyOnly?: boolean;
+  /** Handshake mode flag; false means autosend, which pushes every punch as a transmit record (default true) */
+  handshake?: boolean;
+  /** SI-Card 6 192 punches mode (default false) */
+  si6_192Punches?: boolean;
+  /** Remove the card as soon as the driver acknowledges the read (default true) */
+  autoRemove?: boolean;
+  /** Delay (ms) before each answer is emitted (default 0) */
+  responseDelayMs?: number;
+  /** Date the virtual cards were punched (YYYY-MM-DD), for SIAC day-of-week bits (default today) */
+  eventDate?: string;
+  /** Backup memory size in KB (default 128) */
+  memorySizeKb?: number;
+}
+
+// ─── Demo cards ────────────────────────────────────────────────────────────────
+
+/**
+ * Build card data for a runner who punched the given controls in order,
+ * one control every `legTimeMs` after `startTime` (ms since midnight).
+ */
+export function createSimulatedCard(
+  cardNumber: number,
+  controls: number[],
+  startTime: number,
+  legTimeMs = 60000
+): SiCardData {
+  return {
+    cardNumber: cardNumber.toString(),
+    cardSeries: CARD_SERIES_LABELS[inferCardType(cardNumber)],
+    startTime,
+    finishTime: startTime + (controls.length + 1) * legTimeMs,
+    checkTime: startTime - 60000,
+    punchCount: controls.length,
+    punches: controls.map((code, i) => ({ code, timestampMs: startTime + (i + 1) * legTimeMs })),
+  };
+}
+
+/**
+ * Build a random SIAC card punching five controls from the pool, finishing
+ * just now. Used by the CLI and the Electron app in simulator mode.
+ */
+export function randomSimulatedCard(controlPool: number[] = DEMO_CONTROLS): SiCardData {
+  const pool = [...controlPool];
+  const controls: number[] = [];
+  while (controls.length < 5 && pool.length > 0) {
+    controls.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+  }
+  const legTimeMs = 60000 + Math.floor(Math.random() * 120) * 1000;
+  const now = new Date();
+  const nowMs = 1000 * (now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds());
+  const startTime = Math.max(0, nowMs - (controls.length + 1) * legTimeMs);
+  const cardNumber = 8000000 + Math.floor(Math.random() * 1000000);
+  return createSimulatedCard(cardNumber, controls, startTime, legTimeMs);
+}
+
+// ─── SI Simulator ──────────────────────────────────────────────────────────────
+
+export class SiSimulator extends EventEmitter implements SiPortAdapter {
+  private readonly baudRate: number;
+  private readonly legacyOnly: boolean;
+  private readonly autoRemove: boolean;
+  private readonly responseDelayMs: number;
+  private readonly eventDate: string;
+  private readonly systemData = Buffer.alloc(SYSTEM_DATA_SIZE);
+  private readonly backupMemory: Buffer;
+  private backupPointer = BACKUP_START_ADDRESS;
+  private clockOffsetMs = 0;
+
+  private hostBaudRate = DEFAULT_BAUD_RATE;
+  private inBuffer = Buffer.alloc(0);
+  private card: EncodedCard | null = null;
+  private timers = new Set<NodeJS.Timeout>();
+  private closed = false;
+
+  constructor(options: SiSimulatorOptions = {}) {
+    super();
+    this.baudRate = options.baudRate ?? DEFAULT_BAUD_RATE;
+    this.legacyOnly = options.legacyOnly ?? false;
+    this.autoRemove = options.autoRemove ?? true;
+    this.responseDelayMs = options.responseDelayMs ?? 0;
+    this.eventDate = options.eventDate ?? localDate(new Date());
+
+    const stationCode = options.stationCode ?? 1;
+    const extended = !this.legacyOnly && (options.extendedProtocol ?? true);
+    const handshake = options.handshake ?? true;
+    this.systemData.writeUInt32BE(options.serialNumber ?? 500001, SERIAL_NUMBER_ADDRESS);
+    this.systemData.write(SIMULATED_FIRMWARE, FIRMWARE_ADDRESS, 'ascii');
+    this.systemData.writeUInt16BE(SIMULATED_MODEL_ID, MODEL_ID_ADDRESS);
+    this.systemData.set([24, 3, 1], BATTERY_DATE_ADDRESS);
+    this.systemData.writeUInt16BE(0x9999, BATTERY_VOLTAGE_ADDRESS); // 3.0 V
+    this.systemData[OPERATING_MODE_ADDRESS] = STATION_MODES.Readout;
+    this.systemData[STATION_CODE_ADDRESS] = stationCode & 0xff;
+    this.systemData[STATION_CODE_ADDRESS + 1] = (stationCode >> 2) & 0xc0;
+    this.systemData[PROTOCOL_CONFIG_ADDRESS] =
+      (extended ? EXTENDED_PROTOCOL_BIT : 0) | (handshake ? HANDSHAKE_BIT : AUTOSEND_BIT);
+    this.systemData[CARDBLOCKS_CONFIG_ADDRESS] = options.si6_192Punches ? CARDBLOCKS_192_PUNCHES : CARDBLOCKS_DEFAULT;
+
+    const memorySizeKb = options.memorySizeKb ?? 128;
+    this.systemData[MEMORY_SIZE_ADDRESS] = memorySizeKb;
+    this.backupMemory = Buffer.alloc(memorySizeKb * 1024, 0xff);
+    this.writeBackupPointer();
+  }
+
+  /** Station code from the system data, so SET_SYSTEM_VALUE can change it */
+  private get stationCode(): number {
+    return stationCodeFrom(this.systemData[STATION_CODE_ADDRESS], this.systemData[STATION_CODE_ADDRESS + 1]);
+  }
+
+  private get si6_192Punches(): boolean {
+    return this.systemData[CARDBLOCKS_CONFIG_ADDRESS] === CARDBLOCKS_192_PUNCHES;
+  }
+
+  /** Cards are reported in the legacy protocol when the extended protocol is off */
+  private get legacyCards(): boolean {
+    return (this.systemData[PROTOCOL_CONFIG_ADDRESS] & EXTENDED_PROTOCOL_BIT) === 0;
+  }
+
+  /** Current time of the station clock */
+  get clock(): Date {
+    return new Date(Date.now() + this.clockOffsetMs);
+  }
+
+  // ─── Typed event helpers ─────────────────────────────────────────────
+
+  /** Listen for bytes sent by the station (wire these to SiDriver.handleSerialData) */
+  onData(listener: (chunk: Buffer) => void): this {
+    return this.on('data', listener);
+  }
+
+  // ─── SiPortAdapter ───────────────────────────────────────────────────
+
+  async write(data: Buffer): Promise<void> {
+    if (this.closed) {
+      throw new Error('Simulated station is closed');
+    }
+    // At the wrong speed the station only sees garbage
+    if (this.hostBaudRate !== this.baudRate) return;
+    this.inBuffer = Buffer.concat([this.inBuffer, data]);
+    this.processInput();
+  }
+
+  async setBaudRate(rate: number): Promise<void> {
+    this.hostBaudRate = rate;
+    this.inBuffer = Buffer.alloc(0);
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  // ─── Virtual cards ───────────────────────────────────────────────────
+
+  get cardInserted(): boolean {
+    return this.card !== null;
+  }
+
+  /**
+   * Insert a virtual card. The card type is inferred from the card number
+   * unless given explicitly.
+   */
+  insertCard(data: SiCardData, type?: SiCardType): void {
+    if (this.card) {
+      throw new Error('A card is already inserted');
+    }
+    const cardType = type ?? inferCardType(parseInt(data.cardNumber, 10));
+    this.card = encodeCard(data, cardType, { si6_192Punches: this.si6_192Punches, eventDate: this.eventDate });
+    this.recordPunch(parseInt(data.cardNumber, 10));
+
+    if (this.legacyCards) {
+      // The legacy protocol has no detection for SI-Card 8 and newer
+      const event = this.legacyCardEvent;
+      if (event) this.transmit(encodeLegacyFrame(event, [LEGACY_CARD_INSERTED]));
+      return;
+    }
+    const detected =
+      cardType === 'SI5'
+        ? SI_CARD_5_DETECTED
+        : cardType === 'SI6'
+          ? SI_CARD_6_PLUS_DETECTED
+          : SI_CARD_8_PLUS_DETECTED;
+    this.transmit(this.reply(detected, this.card.numberBytes));
+  }
+
+  /** Remove the inserted card, if any */
+  removeCard(): void {
+    if (!this.card) return;
+    const numberBytes = this.card.numberBytes;
+    const legacyEvent = this.legacyCards ? this.legacyCardEvent : null;
+    this.card = null;
+    if (legacyEvent) {
+      this.transmit(encodeLegacyFrame(legacyEvent, [LEGACY_CARD_REMOVED]));
+    } else if (!this.legacyCards) {
+      this.transmit(this.reply(SI_CARD_REMOVED, numberBytes));
+    }
+  }
+
+  /** Legacy command reporting the inserted card, null for cards the legacy protocol cannot read */
+  private get legacyCardEvent(): number | null {
+    if (this.card?.type === 'SI5') return LEGACY_SI_CARD_5_EVENT;
+    if (this.card?.type === 'SI6') return LEGACY_SI_CARD_6_EVENT;
+    return null;
+  }
+
+  // ─── Backup memory ───────────────────────────────────────────────────
+
+  /**
+   * Store a backup record for a card, at the given time (default now). The
+   * memory is a ring buffer: when full, the oldest records are overwritten.
+   * In autosend mode the punch is also pushed to the host as a transmit record.
+   */
+  recordPunch(cardNumber: number, at: Date = new Date()): void {
+    const timeMs = ((at.getHours() * 60 + at.getMinutes()) * 60 + at.getSeconds()) * 1000 + at.getMilliseconds();
+    const record = encodeBackupRecord(cardNumber, localDate(at), timeMs);
+    record.copy(this.backupMemory, this.backupPointer);
+    if (this.systemData[PROTOCOL_CONFIG_ADDRESS] & AUTOSEND_BIT) {
+      // [SI3] [SI2 SI1 SI0] [TD TH TL TSS] [MEM2 MEM1 MEM0]
+      const [, , , ptd, th, tl, tss] = encodeStationClock(at);
+      const address = [(this.backupPointer >> 16) & 0xff, (this.backupPointer >> 8) & 0xff, this.backupPointer & 0xff];
+      this.transmit(this.reply(TRANSMIT_RECORD, [0, ...record.subarray(0, 3), ptd, th, tl, tss, ...address]));
+    }
+    this.backupPointer += BACKUP_RECORD_SIZE;
+    if (this.backupPointer + BACKUP_RECORD_SIZE > this.backupMemory.length) {
+      this.backupPointer = BACKUP_START_ADDRESS;
+      this.systemData[MEMORY_OVERFLOW_ADDRESS] = 1;
+    }
+    this.writeBackupPointer();
+  }
+
+  private writeBackupPointer(): void {
+    this.systemData.writeUInt16BE(this.backupPointer >> 16, BACKUP_POINTER_HIGH_ADDRESS);
+    this.systemData.writeUInt16BE(this.backupPointer & 0xffff, BACKUP_POINTER_LOW_ADDRESS);
+  }
+
+  // ─── Host input processing ───────────────────────────────────────────
+
+  private processInput(): void {
+    while (this.inBuffer.length > 0) {
+      const first = this.inBuffer[0];
+
+      if (first === ACK) {
+        this.inBuffer = this.inBuffer.subarray(1);
+        this.handleAck();
+        continue;
+      }
+      // Wakeup bytes, doubled STX and stray bytes are skipped
+      if (first !== STX || (this.inBuffer.length > 1 && this.inBuffer[1] === STX)) {
+        this.inBuffer = this.inBuffer.subarray(1);
+        continue;
+      }
+
+      if (this.inBuffer.length < 2) return;
+      if (this.inBuffer[1] < FIRST_EXTENDED_COMMAND) {
+        const frame = scanLegacyFrame(this.inBuffer);
+        if (!frame) return;
+        this.inBuffer = this.inBuffer.subarray(frame.length);
+        this.handleLegacyCommand(frame.command, frame.data);
+        continue;
+      }
+
+      if (this.inBuffer.length < 3) return;
+      const total = this.inBuffer[2] + METADATA_SIZE;
+      if (this.inBuffer.length < total) return;
+
+      const msg = new SiMessage(Buffer.from(this.inBuffer.subarray(0, total)));
+      this.inBuffer = this.inBuffer.subarray(total);
+      if (this.legacyOnly) continue; // Extended commands mean nothing to a BSM3/4
+      if (!msg.valid) {
+        this.transmit(new SiMessage([NAK]));
+        continue;
+      }
+      this.handleCommand(msg.commandByte, msg.sequence.subarray(3, total - 3));
+    }
+  }
+
+  private handleCommand(command: number, params: Buffer): void {
+    switch (command) {
+      case SET_MASTER_MODE:
+        this.transmit(this.reply(SET_MASTER_MODE, [params[0]]));
+        break;
+
+      case GET_SYSTEM_VALUE: {
+        const address = params[0];
+        const length = params[1];
+        const value = this.systemData.subarray(address, address + length);
+        this.transmit(this.reply(GET_SYSTEM_VALUE, [address, ...value]));
+        break;
+      }
+
+      case SET_SYSTEM_VALUE: {
+        const address = params[0];
+        this.systemData.set(params.subarray(1, 1 + Math.max(0, SYSTEM_DATA_SIZE - address)), address);
+        this.transmit(this.reply(SET_SYSTEM_VALUE, [address]));
+        break;
+      }
+
+      case SET_TIME:
+        this.clockOffsetMs = decodeStationClock(params).getTime() - Date.now();
+        this.transmit(this.reply(SET_TIME, encodeStationClock(this.clock)));
+        break;
+
+      case GET_TIME:
+        this.transmit(this.reply(GET_TIME, encodeStationClock(this.clock)));
+        break;
+
+      case BEEP:
+        this.transmit(this.reply(BEEP, [params[0]]));
+        break;
+
+      case GET_BACKUP_MEMORY: {
+        const address = (params[0] << 16) | (params[1] << 8) | params[2];
+        const value = this.backupMemory.subarray(address, address + params[3]);
+        this.transmit(this.reply(GET_BACKUP_MEMORY, [...params.subarray(0, 3), ...value]));
+        break;
+      }
+
+      case GET_SI_CARD_5:
+        if (this.card?.type === 'SI5') {
+          this.transmit(encodeBlockMessage(this.card, 0, this.stationCode));
+        } else {
+          this.transmit(new SiMessage([NAK]));
+        }
+        break;
+
+      case GET_SI_CARD_6_BN:
+      case GET_SI_CARD_8_PLUS_BN:
+        this.answerBlockRead(command, params[0]);
+        break;
+
+      case WRITE_SI_CARD_8_PLUS_PAGE:
+        this.writeCardPage(params[0], params.subarray(1, 5));
+        break;
+
+      default:
+        this.transmit(new SiMessage([NAK]));
+    }
+  }
+
+  private answerBlockRead(command: number, blockNumber: number): void {
+    const card = this.card;
+    const isSi6 = card?.type === 'SI6';
+    if (
+      !card ||
+      card.type === 'SI5' ||
+      isSi6 !== (command === GET_SI_CARD_6_BN) ||
+      (blockNumber + 1) * CARD_BLOCK_SIZE > card.memory.length
+    ) {
+      this.transmit(new SiMessage([NAK]));
+      return;
+    }
+    this.transmit(encodeBlockMessage(card, blockNumber, this.stationCode));
+  }
+
+  /** Write a 4-byte page of the inserted SI-Card 8+, as a clear or check station does */
+  private writeCardPage(page: number, data: Buffer): void {
+    const card = this.card;
+    if (!card || card.type === 'SI5' || card.type === 'SI6' || data.length < 4 || (page + 1) * 4 > card.memory.length) {
+      this.transmit(new SiMessage([NAK]));
+      return;
+    }
+    data.copy(card.memory, page * 4);
+    this.transmit(this.reply(WRITE_SI_CARD_8_PLUS_PAGE, [page]));
+  }
+
+  private handleLegacyCommand(command: number, data: Buffer): void {
+    const card = this.card;
+    switch (command) {
+      case LEGACY_SET_MASTER_MODE:
+        this.transmit(encodeLegacyFrame(LEGACY_SET_MASTER_MODE, [data[0]]));
+        break;
+
+      case LEGACY_GET_SI_CARD_5:
+        if (card?.type === 'SI5') {
+          this.transmit(encodeLegacyFrame(LEGACY_GET_SI_CARD_5, cardBlock(card, 0)));
+        } else {
+          this.transmit(new SiMessage([NAK]));
+        }
+        break;
+
+      case LEGACY_GET_SI_CARD_6_BN: {
+        const blockNumber = data[0];
+        if (card?.type === 'SI6' && (blockNumber + 1) * CARD_BLOCK_SIZE <= card.memory.length) {
+          this.transmit(encodeLegacyFrame(LEGACY_GET_SI_CARD_6_BN, [blockNumber, ...cardBlock(card, blockNumber)]));
+        } else {
+          this.transmit(new SiMessage([NAK]));
+        }
+        break;
+      }
+
+      default:
+        this.transmit(new SiMessage([NAK]));
+    }
+  }
+
+  private handleAck(): void {
+    if (this.card && this.autoRemove) {
+      this.removeCard();
+    }
+  }
+
+  // ─── Output helpers ──────────────────────────────────────────────────
+
+  /** Build an answer frame, prefixed with the station code */
+  private reply(command: number, data: Buffer | number[]): SiMessage {
+    return buildMessage(command, [
+      (this.stationCode >> 8) & 0xff,
+      this.stationCode & 0xff,
+      ...data,
+    ]);
+  }
+
+  private transmit(msg: SiMessage | Buffer): void {
+    if (this.closed) return;
+    const bytes = msg instanceof SiMessage ? msg.sequence : msg;
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.emit('data', bytes);
+    }, this.responseDelayMs);
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Direct commands to a single SI station, outside the card readout loop.
+ *
+ * SiDriver runs a master station that reads cards; SiStation talks to any
+ * station connected to the computer in direct mode, e.g. to read the backup
+ * memory of a control or finish station when a runner disputes a mispunch,
+ * to read and change the station configuration (see system-data.ts), or to
+ * clear and check an SI-Card 10/11 or SIAC inserted in a master station.
+ * Wire the port data to handleSerialData, as for SiDriver.
+ *
+ * Usage:
+ *   const station = new SiStation(adapter);
+ *   port.on('data', (chunk) => station.handleSerialData(chunk));
+ *   await station.connect();
+ *   const backup = await station.readBackup();
+ *   await station.setProtocol({ extendedProtocol: true, handshake: true });
+ *   station.close();
+ */
+
+import { EventEmitter } from 'events';
+import {
+  SiMessage,
+  buildMessage,
+  STARTUP_SEQUENCE,
+  SET_MASTER_MODE,
+  GET_SYSTEM_VALUE,
+  SET_SYSTEM_VALUE,
+  GET_BACKUP_MEMORY,
+  SET_TIME,
+  GET_TIME,
+  SI_CARD_5_DETECTED,
+  SI_CARD_6_PLUS_DETECTED,
+  SI_CARD_8_PLUS_DETECTED,
+  SI_CARD_REMOVED,
+  GET_SI_CARD_8_PLUS_BN,
+  WRITE_SI_CARD_8_PLUS_PAGE,
+  SI_CARD_10_PLUS_SERIES,
+} from './SiMessage';
+import { SiPortAdapter, SiDriverEvents, BAUD_HIGH, BAUD_LOW } from './SiDriver';
+import { SiMessageQueue, TimeoutError, InvalidMessageError, NakError } from './SiMessageQueue';
+import { SiFramer } from './SiFramer';
+import { SiBackup, SiBackupRecord, BACKUP_START_ADDRESS, parseBackupRecords } from './backup';
+import { SiacInfo, SiCardCheck } from './types';
+import {
+  SIAC_INFO_BLOCK,
+  SIAC_AIR_FLAGS_OFFSET,
+  AIR_PLUS_ON_BIT,
+  isSiacNumber,
+  siacPage,
+  decodeSiacInfo,
+} from './siac';
+import {
+  SiStationInfo,
+  SiStationMode,
+  SiProtocolSettings,
+  SiStationSettings,
+  SYSTEM_DATA_SIZE,
+  MEMORY_SIZE_ADDRESS,
+  BACKUP_POINTER_HIGH_ADDRESS,
+  BACKUP_POINTER_LOW_ADDRESS,
+  MEMORY_OVERFLOW_ADDRESS,
+  CARDBLOCKS_CONFIG_ADDRESS,
+  CARDBLOCKS_192_PUNCHES,
+  CARDBLOCKS_DEFAULT,
+  OPERATING_MODE_ADDRESS,
+  STATION_CODE_ADDRESS,
+  PROTOCOL_CONFIG_ADDRESS,
+  STATION_MODES,
+  MAX_STATION_CODE,
+  parseSystemData,
+  applyProtocolSettings,
+  encodeStationClock,
+  decodeStationClock,
+} from './system-data';
+
+// ─── Constants ─────────────────────────────────────────────────────────────────
+
+const RESPONSE_TIMEOUT_MS = 2000;
+
+/** Bytes per backup memory read (a multiple of the record size) */
+const BACKUP_CHUNK_SIZE = 0x80;
+
+/** SI-Card 10/11/SIAC header pages (4 bytes each) */
+const CHECK_PAGE = 2;
+const START_PAGE = 3;
+const FINISH_PAGE = 4;
+const PUNCH_COUNT_PAGE = 5; // Punch count in byte 2
+const SERIES_INDEX = 24;
+const CARD_NUMBER_INDEX = 25;
+const EMPTY_PAGE = [0xee, 0xee, 0xee, 0xee];
+
+/** Card insertions and removals the station reports on its own */
+const CARD_EVENTS = [SI_CARD_5_DETECTED, SI_CARD_6_PLUS_DETECTED, SI_CARD_8_PLUS_DETECTED, SI_CARD_REMOVED];
+
+// ─── SI Station ────────────────────────────────────────────────────────────────
+
+export class SiStation extends EventEmitter {
+  private port: SiPortAdapter;
+  private messageQueue = new SiMessageQueue();
+  private _stationCode = 0;
+
+  // Serial framing: complete frames go to the message queue, dropped bytes to the log
+  private framer = new SiFramer(
+    (msg) => {
+      this.log('READ', msg.toString());
+      this.messageQueue.push(msg);
+    },
+    { onDiscard: (bytes, reason) => this.log('ERROR', `Discarded ${new SiMessage(bytes).toString()} (${reason})`) }
+  );
+
+  constructor(port: SiPortAdapter) {
+    super();
+    this.port = port;
+  }
+
+  onLog(listener: SiDriverEvents['log']): this {
+    return this.on('log', listener);
+  }
+
+  /** Feed raw serial bytes (called by the serial port adapter) */
+  handleSerialData(chunk: Buffer): void {
+    this.framer.push(chunk);
+  }
+
+  /** Station code, known once connected */
+  get stationCode(): number {
+    return this._stationCode;
+  }
+
+  // ─── Connection ──────────────────────────────────────────────────────
+
+  /** Put the station in direct mode, at 38400 baud or else 4800 */
+  async connect(): Promise<void> {
+    for (const rate of [BAUD_HIGH, BAUD_LOW]) {
+      await this.port.setBaudRate(rate);
+      try {
+        await this.send(STARTUP_SEQUENCE);
+        const answer = await this.pollAnswer(SET_MASTER_MODE);
+        this._stationCode = (answer.byteAt(3) << 8) | answer.byteAt(4);
+        this.log('INFO', `Connected to station ${this._stationCode} at ${rate} baud`);
+        return;
+      } catch (err) {
+        if (!(err instanceof TimeoutError)) throw err;
+      }
+    }
+    throw new Error('Station did not answer to startup sequence (high/low baud)');
+  }
+
+  close(): void {
+    this.messageQueue.clear();
+    this.port.close();
+  }
+
+  // ─── Configuration ───────────────────────────────────────────────────
+
+  /** Serial number, firmware, code, mode, protocol flags, battery and clock */
+  async readInfo(): Promise<SiStationInfo> {
+    const info = parseSystemData(await this.readSystemData(0, SYSTEM_DATA_SIZE));
+    return { ...info, clock: await this.readClock() };
+  }
+
+  async readClock(): Promise<Date> {
+    await this.send(buildMessage(GET_TIME));
+    const answer = await this.pollAnswer(GET_TIME);
+    // [STX] [cmd] [len] [CN1] [CN0] [YY MM DD PTD TH TL TSS]
+    return decodeStationClock(answer.sequence.subarray(5, 12));
+  }
+
+  /** Set the station clock (default: the computer's time) */
+  async setClock(at: Date = new Date()): Promise<void> {
+    await this.send(buildMessage(SET_TIME, encodeStationClock(at)));
+    await this.pollAnswer(SET_TIME);
+    this.log('INFO', `Station clock set to ${at.toLocaleString()}`);
+  }
+
+  /** Switch extended protocol and handshake (or autosend) on or off */
+  async setProtocol(settings: SiProtocolSettings): Promise<void> {
+    const [current] = await this.readSystemData(PROTOCOL_CONFIG_ADDRESS, 1);
+    await this.writeSystemData(PROTOCOL_CONFIG_ADDRESS, [applyProtocolSettings(current, settings)]);
+  }
+
+  /** SI-Card 6 192 punches mode: the station then reads all 8 blocks of SI-Card 6 */
+  async setSi6_192Punches(enabled: boolean): Promise<void> {
+    await this.writeSystemData(CARDBLOCKS_CONFIG_ADDRESS, [enabled ? CARDBLOCKS_192_PUNCHES : CARDBLOCKS_DEFAULT]);
+  }
+
+  async setMode(mode: SiStationMode): Promise<void> {
+    await this.writeSystemData(OPERATING_MODE_ADDRESS, [STATION_MODES[mode]]);
+  }
+
+  /** Station code 1-1023; the high bits share a byte with other flags */
+  async setStationCode(code: number): Promise<void> {
+    if (!Number.isInteger(code) || code < 1 || code > MAX_STATION_CODE) {
+      throw new Error(`Station code must be 1-${MAX_STATION_CODE}, got ${code}`);
+    }
+    const [, flags] = await this.readSystemData(STATION_CODE_ADDRESS, 2);
+    await this.writeSystemData(STATION_CODE_ADDRESS, [code & 0xff, (flags & 0x3f) | ((code >> 2) & 0xc0)]);
+    this._stationCode = code;
+  }
+
+  /** Apply several settings at once and return the resulting station info */
+  async configure(settings: SiStationSettings): Promise<SiStationInfo> {
+    if (settings.protocol) await this.setProtocol(settings.protocol);
+    if (settings.si6_192Punches !== undefined) await this.setSi6_192Punches(settings.si6_192Punches);
+    if (settings.mode) await this.setMode(settings.mode);
+    if (settings.stationCode !== undefined) await this.setStationCode(settings.stationCode);
+    if (settings.setClock) await this.setClock();
+    return this.readInfo();
+  }
+
+  /** Write bytes of system data from `address` */
+  async writeSystemData(address: number, data: number[]): Promise<void> {
+    await this.send(buildMessage(SET_SYSTEM_VALUE, [address, ...data]));
+    await this.pollAnswer(SET_SYSTEM_VALUE);
+  }
+
+  // ─── Memory reads ────────────────────────────────────────────────────
+
+  /** Read `length` bytes of system data from `address` */
+  async readSystemData(address: number, length: number): Promise<Buffer> {
+    await this.send(buildMessage(GET_SYSTEM_VALUE, [address, length]));
+    const answer = await this.pollAnswer(GET_SYSTEM_VALUE);
+    // [STX] [cmd] [len] [CN1] [CN0] [address] [data...]
+    return Buffer.from(answer.sequence.subarray(6, 6 + length));
+  }
+
+  /** Read up to 128 bytes of backup memory from a 24-bit address */
+  async readBackupMemory(address: number, length: number): Promise<Buffer> {
+    const params = [(address >> 16) & 0xff, (address >> 8) & 0xff, address & 0xff, length];
+    await this.send(buildMessage(GET_BACKUP_MEMORY, params));
+    const answer = await this.pollAnswer(GET_BACKUP_MEMORY);
+    // [STX] [cmd] [len] [CN1] [CN0] [ADR2] [ADR1] [ADR0] [data...]
+    return Buffer.from(answer.sequence.subarray(8, 8 + length));
+  }
+
+  /**
+   * Read all punch records in the backup memory, oldest first. `onProgress`
+   * gets the bytes read so far and the total.
+   */
+  async readBackup(onProgress?: (done: number, total: number) => void): Promise<SiBackup> {
+    const system = await this.readSystemData(0, SYSTEM_DATA_SIZE);
+    const pointer =
+      (system.readUInt16BE(BACKUP_POINTER_HIGH_ADDRESS) << 16) | system.readUInt16BE(BACKUP_POINTER_LOW_ADDRESS);
+    const overflow = system[MEMORY_OVERFLOW_ADDRESS] !== 0;
+    const memoryEnd = system[MEMORY_SIZE_ADDRESS] * 1024;
+
+    // After an overflow the oldest records are the ones after the write pointer
+    const ranges: [number, number][] = overflow
+      ? [[pointer, memoryEnd], [BACKUP_START_ADDRESS, pointer]]
+      : [[BACKUP_START_ADDRESS, pointer]];
+    const total = ranges.reduce((sum, [from, to]) => sum + Math.max(0, to - from), 0);
+    this.log('INFO', `Reading ${total} bytes of backup memory${overflow ? ' (memory overflowed)' : ''}`);
+
+    const records: SiBackupRecord[] = [];
+    let done = 0;
+    for (const [from, to] of ranges) {
+      for (let address = from; address < to; address += BACKUP_CHUNK_SIZE) {
+        const length = Math.min(BACKUP_CHUNK_SIZE, to - address);
+        records.push(...parseBackupRecords(await this.readBackupMemory(address, length), address));
+        done += length;
+        onProgress?.(done, total);
+      }
+    }
+    return { stationCode: this._stationCode, overflow, records };
+  }
+
+  // ─── Card clear and check ────────────────────────────────────────────
+
+  /**
+   * Clear the SI-Card 10/11 or SIAC inserted in the station, as a clear
+   * station does: check, start and finish times and the punches are erased
+   * and a SIAC's air+ is switched off. Returns the card number.
+   */
+  async clearCard(): Promise<string> {
+    const { cardNumber, header } = await this.readCardHeader();
+    for (const page of [CHECK_PAGE, START_PAGE, FINISH_PAGE]) {
+      await this.writeCardPage(page, EMPTY_PAGE);
+    }
+    const count = header.subarray(PUNCH_COUNT_PAGE * 4, PUNCH_COUNT_PAGE * 4 + 4);
+    await this.writeCardPage(PUNCH_COUNT_PAGE, [count[0], count[1], 0, count[3]]);
+    if (isSiacNumber(cardNumber)) await this.setAirPlusOn(false);
+    this.log('INFO', `Card ${cardNumber} cleared`);
+    return String(cardNumber);
+  }
+
+  /**
+   * Check the SI-Card 10/11 or SIAC inserted in the station, as a check
+   * station does: write the check time (default now) and switch a SIAC's air+
+   * on when the card allows it. Returns the SIAC battery and air+ state.
+   */
+  async checkCard(at: Date = new Date()): Promise<SiCardCheck> {
+    const { cardNumber } = await this.readCardHeader();
+    // Check record: [PTD + code high bits] [code] [TH] [TL], like a punch
+    const [, , , ptd, th, tl] = encodeStationClock(at);
+    const code = this._stationCode;
+    await this.writeCardPage(CHECK_PAGE, [((code >> 2) & 0xc0) | (ptd & 0x0f), code & 0xff, th, tl]);
+
+    let siac: SiacInfo | null = null;
+    if (isSiacNumber(cardNumber)) {
+      siac = await this.readSiacInfo();
+      if (siac.airPlus) siac = await this.setAirPlusOn(true);
+      if (siac.batteryLow) this.log('INFO', `SIAC ${cardNumber}: battery low (${siac.batteryVoltage} V)`);
+    }
+    this.log('INFO', `Card ${cardNumber} checked`);
+    return { cardNumber: String(cardNumber), siac };
+  }
+
+  /** Battery, versions and air+ state of the SIAC inserted in the station */
+  async readSiacInfo(): Promise<SiacInfo> {
+    return decodeSiacInfo(await this.readCardBlock(SIAC_INFO_BLOCK));
+  }
+
+  /** Read one 128-byte block of the SI-Card 8+ inserted in the station */
+  async readCardBlock(blockNumber: number): Promise<Buffer> {
+    await this.send(buildMessage(GET_SI_CARD_8_PLUS_BN, [blockNumber]));
+    const answer = await this.pollAnswer(GET_SI_CARD_8_PLUS_BN);
+    // [STX] [cmd] [len] [CN1] [CN0] [BN] [data...]
+    return Buffer.from(answer.sequence.subarray(6, 6 + 128));
+  }
+
+  /** Write one 4-byte page of the SI-Card 8+ inserted in the station */
+  async writeCardPage(page: number, data: number[]): Promise<void> {
+    await this.send(buildMessage(WRITE_SI_CARD_8_PLUS_PAGE, [page, ...data]));
+    await this.pollAnswer(WRITE_SI_CARD_8_PLUS_PAGE);
+  }
+
+  /** Block 0 of the inserted card, which must be an SI-Card 10/11 or SIAC */
+  private async readCardHeader(): Promise<{ cardNumber: number; header: Buffer }> {
+    let header: Buffer;
+    try {
+      header = await this.readCardBlock(0);
+    } catch (err) {
+      if (err instanceof NakError) throw new Error('No SI-Card 10, 11 or SIAC in the station');
+      throw err;
+    }
+    if ((header[SERIES_INDEX] & 0x0f) !== SI_CARD_10_PLUS_SERIES) {
+      throw new Error('Only SI-Card 10, 11 and SIAC can be cleared and checked');
+    }
+    return { cardNumber: header.readUIntBE(CARD_NUMBER_INDEX, 3), header };
+  }
+
+  private async setAirPlusOn(on: boolean): Promise<SiacInfo> {
+    const block = await this.readCardBlock(SIAC_INFO_BLOCK);
+    const offset = SIAC_AIR_FLAGS_OFFSET;
+    block[offset] = on ? block[offset] | AIR_PLUS_ON_BIT : block[offset] & ~AIR_PLUS_ON_BIT;
+    await this.writeCardPage(siacPage(offset), [...block.subarray(offset, offset + 4)]);
+    return decodeSiacInfo(block);
+  }
+
+  // ─── Port communication helpers ──────────────────────────────────────
+
+  private async send(msg: SiMessage): Promise<void> {
+    this.log('SEND', msg.toString());
+    await this.port.write(msg.sequence);
+  }
+
+  /** Wait for the answer to a command, skipping card insertions and removals */
+  private async pollAnswer(command: number): Promise<SiMessage> {
+    let msg = await this.messageQueue.take(RESPONSE_TIMEOUT_MS);
+    while (msg.valid && CARD_EVENTS.includes(msg.commandByte)) {
+      this.log('INFO', 'Card event ignored while reading the station');
+      msg = await this.messageQueue.take(RESPONSE_TIMEOUT_MS);
+    }
+    if (msg.isNak) {
+      throw new NakError(command);
+    }
+    if (!msg.check(command)) {
+      throw new InvalidMessageError(msg, command);
+    }
+    return msg;
+  }
+
+  private log(direction: 'SEND' | 'READ' | 'INFO' | 'ERROR', msg: string): void {
+    this.emit('log', direction, msg);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Several readout stations at once.
+ *
+ * Runs one SiDriver per port, so a busy finish can download cards on two or
+ * three stations in parallel. Each driver runs under a SiSupervisor, which
+ * reconnects a station that was unplugged or lost power. Every event is
+ * tagged with the port the station was added on, also when it came back on
+ * another port. How a port is opened is up to the caller (serial port,
+ * simulator), see StationOpener.
+ *
+ * Usage:
+ *   const manager = new SiStationManager(
+ *     (path, onData) => openPort(path, BAUD_HIGH, onData).then((opened) => opened.adapter),
+ *     { locator: usbPortLocator }
+ *   );
+ *   manager.onCardRead((card, station) => console.log(`${card.cardNumber} read on ${station}`));
+ *   await manager.add('COM3', time);
+ *   await manager.add('COM4', time);
+ */
+
+import { EventEmitter } from 'events';
+import { CommStatus } from './SiDriver';
+import { SiSupervisor, SiSupervisorOptions, StationOpener } from './SiSupervisor';
+import { SiCardData, SiStationPunch, SiPartialRead } from './types';
+import { SiTimeConfig, DEFAULT_TIME_CONFIG } from './time';
+
+export interface StationState {
+  path: string;
+  status: CommStatus;
+  message?: string;
+}
+
+export interface SiStationManagerEvents {
+  status: (station: string, status: CommStatus, message?: string) => void;
+  cardRead: (data: SiCardData, station: string) => void;
+  reinsert: (read: SiPartialRead, station: string) => void;
+  punch: (punch: SiStationPunch, station: string) => void;
+  log: (station: string, direction: 'SEND' | 'READ' | 'INFO' | 'ERROR', msg: string) => void;
+}
+
+interface Connection {
+  supervisor: SiSupervisor;
+  state: StationState;
+}
+
+export class SiStationManager extends EventEmitter {
+  private connections = new Map<string, Connection>();
+
+  constructor(private readonly open: StationOpener, private readonly options: SiSupervisorOptions = {}) {
+    super();
+  }
+
+  // ─── Typed event helpers ─────────────────────────────────────────────
+
+  onStatus(listener: SiStationManagerEvents['status']): this {
+    return this.on('status', listener);
+  }
+
+  onCardRead(listener: SiStationManagerEvents['cardRead']): this {
+    return this.on('cardRead', listener);
+  }
+
+  onReinsert(listener: SiStationManagerEvents['reinsert']): this {
+    return this.on('reinsert', listener);
+  }
+
+  onPunch(listener: SiStationManagerEvents['punch']): this {
+    return this.on('punch', listener);
+  }
+
+  onLog(listener: SiStationManagerEvents['log']): this {
+    return this.on('log', listener);
+  }
+
+  // ─── Stations ────────────────────────────────────────────────────────
+
+  /**
+   * Open the port and start a driver on it; the driver keeps running until
+   * the station is removed or it fails for good (see SiSupervisor). A station
+   * already running on the port is replaced.
+   * Rejects when the port cannot be opened.
+   */
+  async add(path: string, time: SiTimeConfig = DEFAULT_TIME_CONFIG): Promise<void> {
+    this.remove(path);
+
+    const supervisor = new SiSupervisor(path, this.open, time, this.options);
+    const connection: Connection = { supervisor, state: { path, status: 'OFF' } };
+    supervisor.onStatus((status, message) => {
+      // A replaced or removed station reported OFF already
+      if (this.connections.get(path) !== connection) return;
+      connection.state = { path, status, ...(message ? { message } : {}) };
+      if (status === 'OFF') this.connections.delete(path); // The station gave up
+      this.emit('status', path, status, message);
+    });
+    supervisor.onCardRead((card) => this.emit('cardRead', card, path));
+    supervisor.onReinsert((read) => this.emit('reinsert', read, path));
+    supervisor.onPunch((punch) => this.emit('punch', punch, path));
+    supervisor.onLog((direction, msg) => this.emit('log', path, direction, msg));
+
+    this.connections.set(path, connection);
+    try {
+      await supervisor.start();
+    } catch (err) {
+      this.connections.delete(path);
+      throw err;
+    }
+  }
+
+  /** Stop the station added on the port and close its port */
+  remove(path: string): void {
+    const connection = this.connections.get(path);
+    if (!connection) return;
+    this.connections.delete(path);
+    connection.supervisor.stop();
+    this.emit('status', path, 'OFF');
+  }
+
+  removeAll(): void {
+    for (const path of [...this.connections.keys()]) this.remove(path);
+  }
+
+  has(path: string): boolean {
+    return this.connections.has(path);
+  }
+
+  /** Ports and last status of the running stations, in the order they were added */
+  list(): StationState[] {
+    return [...this.connections.values()].map((c) => ({ ...c.state }));
+  }
+
+  /** Change the zero time and event date of every running station */
+  setTimeConfig(time: SiTimeConfig): void {
+    for (const connection of this.connections.values()) connection.supervisor.setTimeConfig(time);
+  }
+}
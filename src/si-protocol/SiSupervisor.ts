@@ -0,0 +1,229 @@
+/**
+ * Keeps one readout station running through USB unplugs and power loss.
+ *
+ * Wraps SiDriver: when the port goes away (see SiPortAdapter.onLost) or the
+ * driver stops on an error, the supervisor reports RECONNECTING, looks for
+ * the same station again (by its USB serial number, see PortLocator), re-opens
+ * it and restarts the driver. Attempts back off exponentially. Wrong station
+ * settings are not retried: they need the operator (see isProtocolConfigError).
+ *
+ * Usage:
+ *   const supervisor = new SiSupervisor('COM3', opener, time, { locator: usbPortLocator });
+ *   supervisor.onStatus((status, msg) => console.log(status, msg ?? ''));
+ *   supervisor.onCardRead((card) => console.log(card.cardNumber));
+ *   await supervisor.start();
+ */
+
+import { EventEmitter } from 'events';
+import { SiDriver, SiDriverEvents, SiDriverOptions, SiPortAdapter } from './SiDriver';
+import { SiTimeConfig } from './time';
+import { isProtocolConfigError } from './system-data';
+
+/** Open the port at path, passing every received chunk to onData; time is the station's event time */
+export type StationOpener = (
+  path: string,
+  onData: (chunk: Buffer) => void,
+  time: SiTimeConfig
+) => Promise<SiPortAdapter>;
+
+/** Finds a device again after it was unplugged, when its port path may have changed */
+export interface PortLocator {
+  /** Identity of the device on the path (e.g. its USB serial number), or null when unknown */
+  identify(path: string): Promise<string | null>;
+  /** Current path of the device, or null while it is away */
+  find(identity: string): Promise<string | null>;
+}
+
+export interface SiSupervisorOptions {
+  /** Without a locator, or for a device without identity, the same path is re-opened */
+  locator?: PortLocator;
+  /** Delay before the first attempt; doubles with every failed attempt (default 1 s) */
+  initialDelayMs?: number;
+  /** Longest delay between attempts (default 30 s) */
+  maxDelayMs?: number;
+  /** Attempts before giving up with FATAL_ERROR (default: never give up) */
+  maxAttempts?: number;
+  /** Options of every driver started on the station, e.g. block read retries */
+  driver?: SiDriverOptions;
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+export class SiSupervisor extends EventEmitter {
+  private readonly options: Required<Omit<SiSupervisorOptions, 'locator' | 'driver'>> & Pick<SiSupervisorOptions, 'locator' | 'driver'>;
+  private _path: string;
+  private time: SiTimeConfig;
+  private identity: string | null = null;
+  private driver: SiDriver | null = null;
+  private adapter: SiPortAdapter | null = null;
+  private stopped = false;
+  private attempts = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(path: string, private readonly open: StationOpener, time: SiTimeConfig, options: SiSupervisorOptions = {}) {
+    super();
+    this._path = path;
+    this.time = { ...time };
+    this.options = {
+      locator: options.locator,
+      driver: options.driver,
+      initialDelayMs: options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      maxAttempts: options.maxAttempts ?? Infinity,
+    };
+  }
+
+  /** Current port of the station; changes when it comes back on another port */
+  get path(): string {
+    return this._path;
+  }
+
+  // ─── Typed event helpers ─────────────────────────────────────────────
+
+  onStatus(listener: SiDriverEvents['status']): this {
+    return this.on('status', listener);
+  }
+
+  onCardRead(listener: SiDriverEvents['cardRead']): this {
+    return this.on('cardRead', listener);
+  }
+
+  onReinsert(listener: SiDriverEvents['reinsert']): this {
+    return this.on('reinsert', listener);
+  }
+
+  onPunch(listener: SiDriverEvents['punch']): this {
+    return this.on('punch', listener);
+  }
+
+  onLog(listener: SiDriverEvents['log']): this {
+    return this.on('log', listener);
+  }
+
+  // ─── Lifecycle ───────────────────────────────────────────────────────
+
+  /** Open the port and start the driver; rejects when the port cannot be opened */
+  async start(): Promise<void> {
+    this.identity = (await this.options.locator?.identify(this._path)) ?? null;
+    await this.connect();
+  }
+
+  /** Stop the driver and any reconnection, and close the port */
+  stop(): void {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.driver) {
+      this.driver.stop(); // Reports OFF once it has ended
+    } else {
+      this.emit('status', 'OFF');
+    }
+    this.adapter?.close();
+  }
+
+  /** Change the zero time and event date, also for drivers started after a reconnection */
+  setTimeConfig(time: SiTimeConfig): void {
+    this.time = { ...time };
+    this.driver?.setTimeConfig(time);
+  }
+
+  // ─── Connection ──────────────────────────────────────────────────────
+
+  private async connect(): Promise<void> {
+    let driver: SiDriver | null = null;
+    const adapter = await this.open(this._path, (chunk) => driver?.handleSerialData(chunk), this.time);
+    driver = new SiDriver(adapter, this.time, this.options.driver);
+    this.adapter = adapter;
+    this.driver = driver;
+
+    let lastError: string | undefined;
+    adapter.onLost?.((reason) => {
+      if (this.driver !== driver || lastError !== undefined) return;
+      lastError = reason;
+      this.log('ERROR', `Port lost: ${reason}`);
+      driver!.stop(); // The driver ends with OFF, see below
+    });
+
+    driver.onStatus((status, msg) => {
+      if (this.driver !== driver) return;
+      if (status === 'FATAL_ERROR') {
+        lastError = msg;
+        return; // Reported below, unless it is retried
+      }
+      if (status === 'OFF') {
+        this.driverEnded(lastError);
+        return;
+      }
+      if (status === 'READY') this.attempts = 0;
+      this.emit('status', status, msg);
+    });
+    driver.onCardRead((card) => this.emit('cardRead', card));
+    driver.onReinsert((read) => this.emit('reinsert', read));
+    driver.onPunch((punch) => this.emit('punch', punch));
+    driver.onLog((direction, msg) => this.emit('log', direction, msg));
+
+    driver.start().catch((err: Error) => {
+      this.emit('status', 'FATAL_ERROR', err.message);
+    });
+  }
+
+  private driverEnded(error: string | undefined): void {
+    this.driver = null;
+    this.adapter?.close();
+    this.adapter = null;
+    if (this.stopped) {
+      this.emit('status', 'OFF');
+    } else if (error !== undefined && isProtocolConfigError(error)) {
+      this.giveUp(error);
+    } else {
+      this.scheduleRetry(error ?? 'Station stopped');
+    }
+  }
+
+  private scheduleRetry(reason: string): void {
+    if (this.attempts >= this.options.maxAttempts) {
+      this.giveUp(reason);
+      return;
+    }
+    const delay = Math.min(this.options.initialDelayMs * 2 ** this.attempts, this.options.maxDelayMs);
+    this.attempts++;
+    this.emit('status', 'RECONNECTING', reason);
+    this.log('INFO', `Reconnecting in ${Math.round(delay / 1000)} s (attempt ${this.attempts})`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.retry(reason);
+    }, delay);
+  }
+
+  private async retry(reason: string): Promise<void> {
+    if (this.stopped) return;
+    try {
+      const { locator } = this.options;
+      const path = this.identity && locator ? await locator.find(this.identity) : this._path;
+      if (this.stopped) return;
+      if (path === null) {
+        this.scheduleRetry(reason); // Still unplugged
+        return;
+      }
+      if (path !== this._path) this.log('INFO', `Station found again on ${path}`);
+      this._path = path;
+      await this.connect();
+      if (this.stopped) this.stop(); // Stopped while the port was opening
+    } catch (err: any) {
+      if (!this.stopped) this.scheduleRetry(err.message || String(err));
+    }
+  }
+
+  private giveUp(reason: string): void {
+    this.stopped = true;
+    this.emit('status', 'FATAL_ERROR', reason);
+    this.emit('status', 'OFF');
+  }
+
+  private log(direction: 'SEND' | 'READ' | 'INFO' | 'ERROR', msg: string): void {
+    this.emit('log', direction, msg);
+  }
+}
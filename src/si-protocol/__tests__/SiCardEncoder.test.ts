@@ -0,0 +1,245 @@
+import { parseSi5, parseSi6, parseSi8Plus, SiCardData, SiPunch, NO_TIME } from '../SiDataFrame';
+import { SiCardOwner } from '../types';
+import {
+  SiCardType,
+  encodeCard,
+  encodeSi5,
+  encodeSi6,
+  encodeReadoutMessages,
+  cardBlock,
+  inferCardType,
+} from '../SiCardEncoder';
+import { sicard5_data, sicard6_b0_data, sicard6_b6_data, sicard6_b7_data } from './fixtures';
+
+const HOUR = 3600 * 1000;
+
+/** Small deterministic PRNG (mulberry32) so failures are reproducible */
+function prng(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function parse(card: SiCardData, type: SiCardType, zerohour: number, si6_192Punches = false): SiCardData {
+  const messages = encodeReadoutMessages(encodeCard(card, type, { si6_192Punches }));
+  if (type === 'SI5') return parseSi5(messages[0], zerohour);
+  if (type === 'SI6') return parseSi6(messages, zerohour);
+  return parseSi8Plus(messages, zerohour);
+}
+
+/**
+ * Random card whose times stay within the window the parsers can resolve:
+ * 11 hours after zerohour for SI-Card 5 (12-hour clock), 22 hours otherwise.
+ */
+function randomCard(
+  rand: () => number,
+  cardNumber: number,
+  maxPunches: number,
+  maxCode: number,
+  zerohour: number,
+  spanMs: number
+): SiCardData {
+  const count = Math.floor(rand() * (maxPunches + 1));
+  const start = zerohour + Math.floor(rand() * HOUR / 1000) * 1000;
+  const step = Math.floor(spanMs / (count + 2) / 1000) * 1000;
+  const punches: SiPunch[] = [];
+  for (let i = 0; i < count; i++) {
+    const code = 1 + Math.floor(rand() * maxCode);
+    const missingTime = rand() < 0.05;
+    punches.push({ code, timestampMs: missingTime ? NO_TIME : start + (i + 1) * step });
+  }
+  return {
+    cardNumber: cardNumber.toString(),
+    cardSeries: '',
+    startTime: rand() < 0.1 ? NO_TIME : start,
+    finishTime: rand() < 0.1 ? NO_TIME : start + (count + 1) * step,
+    checkTime: rand() < 0.1 ? NO_TIME : zerohour,
+    punchCount: count,
+    punches,
+  };
+}
+
+function expectSameCard(actual: SiCardData, expected: SiCardData): void {
+  expect(actual.cardNumber).toBe(expected.cardNumber);
+  expect(actual.startTime).toBe(expected.startTime);
+  expect(actual.finishTime).toBe(expected.finishTime);
+  expect(actual.checkTime).toBe(expected.checkTime);
+  expect(actual.punchCount).toBe(expected.punchCount);
+  expect(actual.punches).toEqual(expected.punches);
+}
+
+// ─── Round-trip property tests ─────────────────────────────────────────────────
+
+describe('SiCardEncoder round trip', () => {
+  test('SI-Card 5: 30 timed punches + 6 code-only punches, 12-hour times', () => {
+    const rand = prng(5);
+    for (let n = 0; n < 200; n++) {
+      const zerohour = Math.floor(rand() * 20) * HOUR;
+      const card = randomCard(rand, 1 + Math.floor(rand() * 65000), 36, 255, zerohour, 10 * HOUR);
+      // Punches beyond 30 have no time on an SI-Card 5
+      card.punches = card.punches.map((p, i) => (i < 30 ? p : { ...p, timestampMs: NO_TIME }));
+      expectSameCard(parse(card, 'SI5', zerohour), card);
+    }
+  });
+
+  test('SI-Card 5 numbers above 65535 use the CNS byte', () => {
+    const card = randomCard(prng(1), 304243, 10, 255, 0, HOUR);
+    expect(parse(card, 'SI5', 0).cardNumber).toBe('304243');
+  });
+
+  const si6PlusCases: [SiCardType, number, number][] = [
+    ['SI6', 821003, 64],
+    ['SI8', 2123456, 30],
+    ['SI9', 1234567, 50],
+    ['SI10', 7123456, 128],
+    ['SI11', 9123456, 128],
+    ['SIAC', 8123456, 128],
+  ];
+
+  test.each(si6PlusCases)('%s: full 24-hour times and 10-bit codes', (type, cardNumber, maxPunches) => {
+    const rand = prng(cardNumber);
+    for (let n = 0; n < 100; n++) {
+      const zerohour = Math.floor(rand() * 24) * HOUR;
+      const card = randomCard(rand, cardNumber + n, maxPunches, 1023, zerohour, 20 * HOUR);
+      expectSameCard(parse(card, type, zerohour), card);
+    }
+  });
+
+  test('SI-Card 6 in 192 punches mode', () => {
+    const rand = prng(192);
+    for (let n = 0; n < 50; n++) {
+      const card = randomCard(rand, 500000 + n, 192, 1023, 8 * HOUR, 10 * HOUR);
+      expectSameCard(parse(card, 'SI6', 8 * HOUR, true), card);
+    }
+  });
+
+  test('re-encodes the real SI-Card 6 fixture', () => {
+    const original = parseSi6([sicard6_b0_data, sicard6_b6_data, sicard6_b7_data], 0);
+    expectSameCard(parse(original, 'SI6', 0), original);
+  });
+
+  test('re-encodes the real SI-Card 5 fixture', () => {
+    const original = parseSi5(sicard5_data, 0);
+    expectSameCard(parse(original, 'SI5', 0), original);
+  });
+});
+
+// ─── Memory layout ─────────────────────────────────────────────────────────────
+
+describe('SiCardEncoder layout', () => {
+  const card: SiCardData = {
+    cardNumber: '821003',
+    cardSeries: 'SiCard 6',
+    startTime: 14 * HOUR,
+    finishTime: NO_TIME,
+    checkTime: NO_TIME,
+    punchCount: 70,
+    punches: Array.from({ length: 70 }, (_, i) => ({ code: 31 + i, timestampMs: 14 * HOUR + i * 1000 })),
+  };
+
+  test('SI-Card 6 punch 65 starts block 2 in 192 punches mode', () => {
+    const encoded = encodeSi6(card, { si6_192Punches: true });
+    expect(cardBlock(encoded, 2)[1]).toBe(31 + 64);
+    expect(cardBlock(encoded, 6)[1]).toBe(31);
+  });
+
+  test('PM flag is set for afternoon times', () => {
+    const encoded = encodeSi6(card, { si6_192Punches: true });
+    expect(cardBlock(encoded, 0)[24] & 1).toBe(1);
+    expect((cardBlock(encoded, 0)[26] << 8) | cardBlock(encoded, 0)[27]).toBe(2 * 3600);
+  });
+
+  test('SI-Card 6 rejects more than 64 punches outside 192 punches mode', () => {
+    expect(() => encodeSi6(card)).toThrow('at most 64 punches');
+  });
+
+  test('SI-Card 5 rejects numbers it cannot store', () => {
+    expect(() => encodeSi5({ ...card, cardNumber: '150000', punches: [] })).toThrow('cannot be stored');
+  });
+
+  test('readout messages only include the punch blocks the driver would read', () => {
+    const siac = encodeCard({ ...card, cardNumber: '8123456' });
+    expect(encodeReadoutMessages(siac).map((m) => m.byteAt(5))).toEqual([0, 4, 5, 6]);
+    expect(encodeReadoutMessages(siac).every((m) => m.valid)).toBe(true);
+  });
+
+  test('infers card types from card number ranges', () => {
+    expect(inferCardType(304243)).toBe('SI5');
+    expect(inferCardType(821003)).toBe('SI6');
+    expect(inferCardType(1234567)).toBe('SI9');
+    expect(inferCardType(2123456)).toBe('SI8');
+    expect(inferCardType(7123456)).toBe('SI10');
+    expect(inferCardType(8123456)).toBe('SIAC');
+    expect(inferCardType(9123456)).toBe('SI11');
+  });
+});
+
+// ─── Owner data ────────────────────────────────────────────────────────────────
+
+describe('SiCardEncoder owner data', () => {
+  const owner: SiCardOwner = {
+    firstName: 'Åsa',
+    lastName: 'Lindén',
+    sex: 'F',
+    dateOfBirth: '19900517',
+    club: 'OK Linné',
+    email: 'asa@example.org',
+    country: 'SWE',
+  };
+  const card = (cardNumber: string): SiCardData => ({
+    cardNumber,
+    cardSeries: '',
+    startTime: 10 * HOUR,
+    finishTime: 11 * HOUR,
+    checkTime: NO_TIME,
+    punchCount: 1,
+    punches: [{ code: 31, timestampMs: 10 * HOUR + 60000 }],
+    owner,
+  });
+
+  test.each([
+    ['SI6', '821003'],
+    ['SI8', '2123456'],
+    ['SI10', '7123456'],
+    ['SIAC', '8123456'],
+  ] as [SiCardType, string][])('%s: owner data round trip', (type, cardNumber) => {
+    expect(parse(card(cardNumber), type, 0).owner).toEqual(owner);
+  });
+
+  test('reads UTF-8 and ISO-8859-1 text', () => {
+    const polish = { firstName: 'Łukasz', lastName: 'Żółć' };
+    expect(parse({ ...card('8123456'), owner: polish }, 'SIAC', 0).owner).toEqual(polish);
+    // ISO-8859-1 when every character fits: 'Å' is the single byte 0xC5
+    const block0 = cardBlock(encodeCard(card('7123456')), 0);
+    expect(block0.indexOf(0xc5)).toBe(0x20);
+  });
+
+  test('SI-Card 6 cuts values to their field, SI-Card 9 rejects what does not fit', () => {
+    const long = { firstName: 'Maximiliana Theodora', lastName: 'von Wittelsbach-Hohenzollern' };
+    expect(parse({ ...card('821003'), owner: long }, 'SI6', 0).owner?.lastName).toBe('von Wittelsbach-Hohe');
+    expect(() => encodeCard({ ...card('1234567'), owner: long }, 'SI9')).toThrow('room for 24 bytes');
+  });
+
+  test('block 1 is only read when the card has owner data', () => {
+    const blocks = (c: SiCardData) => encodeReadoutMessages(encodeCard(c)).map((m) => m.byteAt(5));
+    expect(blocks(card('821003'))).toEqual([0, 6, 1]);
+    expect(blocks({ ...card('821003'), owner: undefined })).toEqual([0, 6]);
+    expect(blocks(card('8123456'))).toEqual([0, 4, 1]);
+  });
+
+  test('cards without owner data have no owner', () => {
+    expect(parse({ ...card('8123456'), owner: undefined }, 'SIAC', 0).owner).toBeUndefined();
+  });
+
+  test('reads the owner from block 0 of the real SI-Card 6 fixture', () => {
+    expect(parseSi6([sicard6_b0_data, sicard6_b6_data, sicard6_b7_data], 0).owner).toEqual({
+      firstName: 'Robert',
+      lastName: 'Marique',
+      club: 'Hermathenae',
+    });
+  });
+});
@@ -9,8 +9,11 @@ import {
   sicard5_detected,
   sicard5_data,
   sicard5_removed,
+  waitMs,
 } from './fixtures';
-import { SiMessage } from '../SiMessage';
+import { SiMessage, GET_SYSTEM_VALUE, GET_SI_CARD_6_BN, NAK, buildMessage } from '../SiMessage';
+import { SiSimulator, SiSimulatorOptions, createSimulatedCard } from '../SiSimulator';
+import { SiPartialRead } from '../types';
 
 /** Feed a complete SiMessage into the driver as serial data */
 function feedMessage(driver: SiDriver, msg: SiMessage): void {
@@ -40,10 +43,6 @@ function createMockPort(driver: () => SiDriver) {
   return { port, responseQueue };
 }
 
-function waitMs(ms: number): Promise<void> {
-  return new Promise((r) => setTimeout(r, ms));
-}
-
 // ─── Startup Tests ──────────────────────────────────────────────────────────
 
 describe('SiDriver startup', () => {
@@ -70,12 +69,34 @@ describe('SiDriver startup', () => {
     await startPromise.catch(() => {});
   }, 10000);
 
-  test('rejects missing extended protocol', async () => {
+  test('switches to the legacy protocol when the extended protocol is off', async () => {
     let driverRef: SiDriver;
     const { port, responseQueue } = createMockPort(() => driverRef);
 
     // startup_answer OK, but protocol config has no extended protocol
-    responseQueue.push(startup_answer, no_ext_protocol_answer);
+    responseQueue.push(startup_answer, no_ext_protocol_answer, si6_64_punches_answer);
+
+    driverRef = new SiDriver(port, 0);
+    const statuses: CommStatus[] = [];
+    driverRef.onStatus((s) => statuses.push(s));
+
+    const startPromise = driverRef.start();
+    await waitMs(100);
+
+    expect(statuses).toContain('ON');
+    expect(driverRef.legacyProtocol).toBe(true);
+    expect(port.write).toHaveBeenCalledTimes(3); // No beep in the legacy protocol
+
+    driverRef.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+
+  test('rejects autosend without the extended protocol', async () => {
+    let driverRef: SiDriver;
+    const { port, responseQueue } = createMockPort(() => driverRef);
+
+    // Autosend only
+    responseQueue.push(startup_answer, buildMessage(GET_SYSTEM_VALUE, [0x00, 0x01, 0x74, 0x02]));
 
     driverRef = new SiDriver(port, 0);
     const statuses: string[] = [];
@@ -87,11 +108,28 @@ describe('SiDriver startup', () => {
     expect(statuses.some((s) => s.includes('extended protocol'))).toBe(true);
   }, 10000);
 
-  test('rejects missing handshake mode', async () => {
+  test('rejects a station in neither handshake nor autosend mode', async () => {
+    let driverRef: SiDriver;
+    const { port, responseQueue } = createMockPort(() => driverRef);
+
+    // Extended protocol only
+    responseQueue.push(startup_answer, buildMessage(GET_SYSTEM_VALUE, [0x00, 0x01, 0x74, 0x01]));
+
+    driverRef = new SiDriver(port, 0);
+    const statuses: string[] = [];
+    driverRef.onStatus((s, msg) => statuses.push(msg || s));
+
+    const startPromise = driverRef.start();
+    await startPromise.catch(() => {});
+
+    expect(statuses.some((s) => s.includes('handshake or autosend mode'))).toBe(true);
+  }, 10000);
+
+  test('reports a NAK answer as a rejected command', async () => {
     let driverRef: SiDriver;
     const { port, responseQueue } = createMockPort(() => driverRef);
 
-    responseQueue.push(startup_answer, no_handshake_answer);
+    responseQueue.push(startup_answer, new SiMessage([NAK]));
 
     driverRef = new SiDriver(port, 0);
     const statuses: string[] = [];
@@ -100,7 +138,49 @@ describe('SiDriver startup', () => {
     const startPromise = driverRef.start();
     await startPromise.catch(() => {});
 
-    expect(statuses.some((s) => s.includes('handshake mode'))).toBe(true);
+    expect(statuses).toContain('Station answered NAK (to command 0x83)');
+  }, 10000);
+
+  test('logs junk between frames and still reads the answer after it', async () => {
+    let driverRef: SiDriver;
+    const { port, responseQueue } = createMockPort(() => driverRef);
+    const noisy = new SiMessage(Buffer.concat([Buffer.from([0x00, 0x41]), startup_answer.sequence]));
+    responseQueue.push(noisy, ok_ext_protocol_answer, si6_64_punches_answer);
+
+    driverRef = new SiDriver(port, 0);
+    const statuses: CommStatus[] = [];
+    const errors: string[] = [];
+    driverRef.onStatus((s) => statuses.push(s));
+    driverRef.onLog((direction, msg) => direction === 'ERROR' && errors.push(msg));
+
+    const startPromise = driverRef.start();
+    await waitMs(100);
+
+    expect(statuses).toContain('READY');
+    expect(errors).toEqual(['Discarded 00 41 (no STX)']);
+    driverRef.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+
+  test('starts in autosend mode when handshake is off', async () => {
+    let driverRef: SiDriver;
+    const { port, responseQueue } = createMockPort(() => driverRef);
+
+    // Extended protocol + autosend, then the operating mode (Finish)
+    responseQueue.push(startup_answer, no_handshake_answer, buildMessage(GET_SYSTEM_VALUE, [0x00, 0x01, 0x71, 0x04]));
+
+    driverRef = new SiDriver(port, 0);
+    const statuses: string[] = [];
+    driverRef.onStatus((s) => statuses.push(s));
+
+    const startPromise = driverRef.start();
+    await waitMs(100);
+
+    expect(statuses).toContain('READY');
+    expect(driverRef.autosendMode).toBe(true);
+    driverRef.stop();
+    feedMessage(driverRef, si6_64_punches_answer); // unblock takeForever
+    await startPromise;
   }, 10000);
 });
 
@@ -200,3 +280,165 @@ describe('SiDriver serial framing', () => {
     await startPromise.catch(() => {});
   }, 10000);
 });
+
+// ─── Block Retry Tests ──────────────────────────────────────────────────────
+
+/**
+ * Driver on a simulated station whose answers to block reads can be replaced:
+ * `fault(block, attempt)` returns 'nak' to answer NAK, 'pull' to pull the card
+ * out, or null to let the station answer.
+ */
+function faultyStation(fault: (block: number, attempt: number) => 'nak' | 'pull' | null, blockRetries?: number) {
+  const simulator = new SiSimulator();
+  const attempts = new Map<number, number>();
+  const port: SiPortAdapter = {
+    write: async (data) => {
+      const msg = new SiMessage(data);
+      if (msg.valid && msg.commandByte === GET_SI_CARD_6_BN) {
+        const block = msg.byteAt(3);
+        const attempt = (attempts.get(block) ?? 0) + 1;
+        attempts.set(block, attempt);
+        const action = fault(block, attempt);
+        if (action === 'nak') {
+          process.nextTick(() => driver.handleSerialData(Buffer.from([NAK])));
+          return;
+        }
+        if (action === 'pull') {
+          simulator.removeCard();
+          return;
+        }
+      }
+      return simulator.write(data);
+    },
+    setBaudRate: (rate) => simulator.setBaudRate(rate),
+    close: () => simulator.close(),
+  };
+  const driver = new SiDriver(port, 0, blockRetries === undefined ? {} : { blockRetries });
+  simulator.onData((chunk) => driver.handleSerialData(chunk));
+  const cards: SiCardData[] = [];
+  const reinserts: SiPartialRead[] = [];
+  const statuses: string[] = [];
+  driver.onCardRead((card) => cards.push(card));
+  driver.onReinsert((read) => reinserts.push(read));
+  driver.onStatus((s, msg) => statuses.push(msg ? `${s} ${msg}` : s));
+  return { simulator, driver, attempts, cards, reinserts, statuses };
+}
+
+/** SI-Card 6 with 40 punches: blocks 0, 6 and 7 */
+const si6Card = createSimulatedCard(512345, Array.from({ length: 40 }, (_, i) => 31 + i), 36000000);
+
+describe('SiDriver block retries', () => {
+  test('re-sends a block read that was NAKed and reads the card', async () => {
+    const { simulator, driver, attempts, cards, reinserts } = faultyStation((block, attempt) =>
+      block === 6 && attempt === 1 ? 'nak' : null
+    );
+    const startPromise = driver.start();
+    await waitMs(50);
+    simulator.insertCard(si6Card);
+    await waitMs(100);
+
+    expect(attempts.get(6)).toBe(2);
+    expect(cards.map((c) => c.punchCount)).toEqual([40]);
+    expect(reinserts).toEqual([]);
+    driver.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+
+  test('asks for the card again when a block keeps failing', async () => {
+    const { simulator, driver, attempts, cards, reinserts, statuses } = faultyStation(
+      (block) => (block === 7 ? 'nak' : null),
+      1
+    );
+    const startPromise = driver.start();
+    await waitMs(50);
+    simulator.insertCard(si6Card);
+    await waitMs(100);
+
+    expect(attempts.get(7)).toBe(2);
+    expect(cards).toEqual([]);
+    expect(reinserts).toEqual([
+      {
+        cardNumber: '512345',
+        cardSeries: 'SiCard 6',
+        blocksRead: [0, 6],
+        failedBlock: 7,
+        reason: 'Station answered NAK (to command 0xe1)',
+      },
+    ]);
+    expect(statuses).toContain('PROCESSING_ERROR Please re-insert card 512345');
+    driver.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+
+  test('does not retry once the card has been pulled out', async () => {
+    const { simulator, driver, attempts, reinserts } = faultyStation((block) => (block === 6 ? 'pull' : null));
+    const startPromise = driver.start();
+    await waitMs(50);
+    simulator.insertCard(si6Card);
+    await waitMs(100);
+
+    expect(attempts.get(6)).toBe(1);
+    expect(reinserts).toHaveLength(1);
+    expect(reinserts[0]).toMatchObject({ blocksRead: [0], failedBlock: 6, reason: 'Card removed during readout' });
+    driver.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+});
+
+// ─── Legacy Protocol Tests ──────────────────────────────────────────────────
+
+function legacyStation(options: SiSimulatorOptions) {
+  const simulator = new SiSimulator(options);
+  const written: Buffer[] = [];
+  const port: SiPortAdapter = {
+    write: async (data) => {
+      written.push(data);
+      return simulator.write(data);
+    },
+    setBaudRate: (rate) => simulator.setBaudRate(rate),
+    close: () => simulator.close(),
+  };
+  const driver = new SiDriver(port, 0);
+  simulator.onData((chunk) => driver.handleSerialData(chunk));
+  const cards: SiCardData[] = [];
+  driver.onCardRead((card) => cards.push(card));
+  return { simulator, driver, written, cards };
+}
+
+describe('SiDriver legacy protocol', () => {
+  test('reads SI-Card 5 and 6 from a station with the extended protocol off', async () => {
+    const { simulator, driver, written, cards } = legacyStation({ extendedProtocol: false });
+    const startPromise = driver.start();
+    await waitMs(50);
+    simulator.insertCard(createSimulatedCard(12345, [31, 32, 33], 36000000));
+    await waitMs(100);
+    simulator.insertCard(si6Card);
+    await waitMs(100);
+
+    expect(driver.legacyProtocol).toBe(true);
+    expect(cards.map((c) => [c.cardNumber, c.punchCount])).toEqual([
+      ['12345', 3],
+      ['512345', 40],
+    ]);
+    // SI-Card 6 block 6, DLE-escaped
+    expect(written.map((b) => b.toString('hex'))).toContain('0261100603');
+    driver.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+
+  test('falls back to the legacy startup for a BSM3/4 station', async () => {
+    const { simulator, driver, cards } = legacyStation({ legacyOnly: true, baudRate: 4800 });
+    const statuses: CommStatus[] = [];
+    driver.onStatus((s) => statuses.push(s));
+    const startPromise = driver.start();
+    // Extended startup times out at both speeds first
+    await waitMs(4200);
+    simulator.insertCard(createSimulatedCard(12345, [31, 32, 33], 36000000));
+    await waitMs(100);
+
+    expect(statuses).toContain('ON');
+    expect(cards.map((c) => c.cardNumber)).toEqual(['12345']);
+    driver.stop();
+    await startPromise.catch(() => {});
+  }, 10000);
+});
@@ -0,0 +1,119 @@
+import { SiFramer } from '../SiFramer';
+import {
+  SiMessage,
+  buildMessage,
+  GET_SYSTEM_VALUE,
+  GET_SI_CARD_6_BN,
+  SI_CARD_5_DETECTED,
+  BEEP,
+  ACK,
+  NAK,
+} from '../SiMessage';
+import { encodeLegacyFrame, LEGACY_GET_SI_CARD_6_BN, LEGACY_SI_CARD_5_EVENT, LEGACY_CARD_INSERTED } from '../legacy';
+import { startup_answer, sicard5_detected } from './fixtures';
+
+function framed(options: { timeoutMs?: number } = {}) {
+  const frames: string[] = [];
+  const discarded: [string, string][] = [];
+  const framer = new SiFramer((msg) => frames.push(msg.toString()), {
+    ...options,
+    onDiscard: (bytes, reason) => discarded.push([new SiMessage(bytes).toString(), reason]),
+  });
+  return { framer, frames, discarded };
+}
+
+const system = buildMessage(GET_SYSTEM_VALUE, [0x74, 0x01, 0x04]);
+const beep = buildMessage(BEEP, [0x02]);
+
+describe('SiFramer', () => {
+  test('splits several frames in one chunk and joins frames split over chunks', () => {
+    const { framer, frames, discarded } = framed();
+    const stream = Buffer.concat([startup_answer.sequence, system.sequence, beep.sequence]);
+    framer.push(stream.subarray(0, 12));
+    framer.push(stream.subarray(12, 13));
+    framer.push(stream.subarray(13));
+
+    expect(frames).toEqual([startup_answer.toString(), system.toString(), beep.toString()]);
+    expect(discarded).toEqual([]);
+  });
+
+  test('resynchronises on the next STX after junk and a frame cut short', () => {
+    const { framer, frames, discarded } = framed();
+    const cut = system.sequence.subarray(0, 6);
+    framer.push(Buffer.concat([Buffer.from([0x41, 0x42]), cut, sicard5_detected.sequence]));
+
+    expect(frames).toEqual([sicard5_detected.toString()]);
+    expect(discarded).toEqual([
+      ['41 42', 'no STX'],
+      [new SiMessage(cut).toString(), 'missing ETX'],
+    ]);
+  });
+
+  test('drops frames with a bad CRC, a missing ETX or an impossible length', () => {
+    const { framer, frames, discarded } = framed();
+    // No STX inside these frames, which would be scanned as another frame start
+    const badCrc = Buffer.from(startup_answer.sequence);
+    badCrc[6] ^= 0xff;
+    const noEtx = Buffer.from(startup_answer.sequence);
+    noEtx[noEtx.length - 1] = 0x00;
+
+    framer.push(badCrc);
+    framer.push(noEtx);
+    framer.push(Buffer.from([0x02, 0xf0, 0xff]));
+    framer.push(beep.sequence);
+
+    expect(frames).toEqual([beep.toString()]);
+    expect(discarded.map(([, reason]) => reason)).toEqual(['bad CRC', 'missing ETX', 'frame length 261 over 139']);
+  });
+
+  test('passes ACK and NAK on, and skips wakeup bytes and a doubled STX', () => {
+    const { framer, frames, discarded } = framed();
+    framer.push(Buffer.from([0xff, ACK, NAK, 0x02]));
+    framer.push(beep.sequence);
+
+    const nak = new SiMessage([NAK]);
+    expect(nak.isNak).toBe(true);
+    expect(frames).toEqual(['06', '15', beep.toString()]);
+    expect(discarded).toEqual([]);
+  });
+
+  test('drops an incomplete frame after a quiet period', async () => {
+    const { framer, frames, discarded } = framed({ timeoutMs: 10 });
+    framer.push(system.sequence.subarray(0, 4));
+    await new Promise((r) => setTimeout(r, 20));
+    framer.push(beep.sequence);
+
+    expect(frames).toEqual([beep.toString()]);
+    expect(discarded).toEqual([[new SiMessage(system.sequence.subarray(0, 4)).toString(), 'incomplete frame timed out']]);
+  });
+
+  test('unescapes legacy frames and passes them on as extended messages', () => {
+    const { framer, frames, discarded } = framed();
+    const block = [0x06, 0x03, 0x10, 0x41];
+    const answer = encodeLegacyFrame(LEGACY_GET_SI_CARD_6_BN, block);
+    expect(answer.toString('hex')).toBe('02611006100310104103');
+
+    framer.push(encodeLegacyFrame(LEGACY_SI_CARD_5_EVENT, [LEGACY_CARD_INSERTED]));
+    framer.push(answer.subarray(0, 5));
+    framer.push(answer.subarray(5));
+    framer.push(encodeLegacyFrame(0x41));
+
+    expect(frames).toEqual([
+      buildMessage(SI_CARD_5_DETECTED, [0, 0, 0, 0, 0, 0]).toString(),
+      buildMessage(GET_SI_CARD_6_BN, [0, 0, ...block]).toString(),
+    ]);
+    expect(discarded).toEqual([['02 41 03', 'unknown legacy command 0x41']]);
+  });
+
+  test('does not let junk that looks like a legacy frame swallow an extended frame', () => {
+    const { framer, frames, discarded } = framed();
+    framer.push(Buffer.concat([Buffer.from([0x02, 0x41]), system.sequence]));
+    framer.push(Buffer.concat([Buffer.from([0x02, LEGACY_SI_CARD_5_EVENT]), beep.sequence]));
+
+    expect(frames).toEqual([system.toString(), beep.toString()]);
+    expect(discarded).toEqual([
+      ['02 41', 'unknown legacy command 0x41'],
+      ['02 46', 'bad legacy frame 0x46'],
+    ]);
+  });
+});
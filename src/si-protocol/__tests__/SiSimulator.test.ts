@@ -0,0 +1,211 @@
+import { SiDriver, CommStatus } from '../SiDriver';
+import { SiCardData } from '../SiDataFrame';
+import { SiStationPunch } from '../types';
+import { SiSimulator, SiSimulatorOptions, createSimulatedCard } from '../SiSimulator';
+import { SiCardType } from '../SiCardEncoder';
+import { DEFAULT_SIAC_INFO } from '../siac';
+import { SiMessage, STARTUP_SEQUENCE, GET_PROTOCOL_CONFIGURATION, SET_MASTER_MODE, GET_SYSTEM_VALUE, NAK } from '../SiMessage';
+import { waitMs } from './fixtures';
+
+/** Start a driver wired to a fresh simulator and wait for it to be ready */
+async function startDriver(options: SiSimulatorOptions = {}) {
+  const station = new SiSimulator(options);
+  const driver = new SiDriver(station, 0);
+  station.onData((chunk) => driver.handleSerialData(chunk));
+
+  const statuses: { status: CommStatus; msg?: string }[] = [];
+  const cards: SiCardData[] = [];
+  driver.onStatus((status, msg) => statuses.push({ status, msg }));
+  driver.onCardRead((card) => cards.push(card));
+
+  const done = driver.start();
+  await waitMs(50);
+  return { station, driver, statuses, cards, done };
+}
+
+/** Collect the next frame emitted by the station */
+function nextFrame(station: SiSimulator): Promise<SiMessage> {
+  return new Promise((resolve) => station.once('data', (chunk: Buffer) => resolve(new SiMessage(chunk))));
+}
+
+// Times in the morning, so SI-Card 5 12-hour times read back unchanged
+const START = (9 * 3600 + 30 * 60) * 1000;
+
+// ─── Station protocol ──────────────────────────────────────────────────────
+
+describe('SiSimulator protocol', () => {
+  test('answers the startup sequence with a valid SET_MASTER_MODE frame', async () => {
+    const station = new SiSimulator();
+    const answer = nextFrame(station);
+    await station.write(STARTUP_SEQUENCE.sequence);
+    const msg = await answer;
+    expect(msg.check(SET_MASTER_MODE)).toBe(true);
+    station.close();
+  });
+
+  test('reports extended protocol and handshake in the protocol configuration', async () => {
+    const station = new SiSimulator();
+    const answer = nextFrame(station);
+    await station.write(GET_PROTOCOL_CONFIGURATION.sequence);
+    const msg = await answer;
+    expect(msg.check(GET_SYSTEM_VALUE)).toBe(true);
+    expect(msg.byteAt(6) & 0x05).toBe(0x05);
+    station.close();
+  });
+
+  test('answers NAK to a frame with a bad CRC', async () => {
+    const station = new SiSimulator();
+    const answer = nextFrame(station);
+    const corrupted = Buffer.from(GET_PROTOCOL_CONFIGURATION.sequence);
+    corrupted[5] ^= 0xff;
+    await station.write(corrupted);
+    const msg = await answer;
+    expect(msg.startByte).toBe(NAK);
+    station.close();
+  });
+});
+
+// ─── Driver against simulator ──────────────────────────────────────────────
+
+describe('SiDriver with SiSimulator', () => {
+  const cases: [SiCardType, number, number][] = [
+    ['SI5', 304243, 10],
+    ['SI6', 821003, 40],
+    ['SI8', 2123456, 30],
+    ['SI9', 1234567, 50],
+    ['SI10', 7123456, 64],
+    ['SI11', 9123456, 5],
+    ['SIAC', 8123456, 100],
+  ];
+
+  test.each(cases)('reads a virtual %s card', async (type, cardNumber, punchCount) => {
+    const { station, driver, cards, done } = await startDriver();
+    const controls = Array.from({ length: punchCount }, (_, i) => 31 + (i % 60));
+    const card = createSimulatedCard(cardNumber, controls, START, 30000);
+
+    station.insertCard(card, type);
+    await waitMs(100);
+
+    expect(cards).toHaveLength(1);
+    expect(cards[0].cardNumber).toBe(card.cardNumber);
+    expect(cards[0].startTime).toBe(card.startTime);
+    expect(cards[0].finishTime).toBe(card.finishTime);
+    expect(cards[0].checkTime).toBe(card.checkTime);
+    expect(cards[0].punches).toEqual(card.punches);
+    expect(station.cardInserted).toBe(false);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('reads afternoon times on SI-Card 6+ without 12-hour ambiguity', async () => {
+    const { station, driver, cards, done } = await startDriver();
+    const card = createSimulatedCard(8123456, [31, 300, 32], 15 * 3600 * 1000);
+
+    station.insertCard(card);
+    await waitMs(100);
+
+    expect(cards[0].punches).toEqual(card.punches);
+    expect(cards[0].finishTime).toBe(card.finishTime);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('reads SI-Card 6 punches beyond 64 in 192 punches mode', async () => {
+    const { station, driver, cards, done } = await startDriver({ si6_192Punches: true });
+    const controls = Array.from({ length: 100 }, (_, i) => 31 + (i % 200));
+    const card = createSimulatedCard(821003, controls, START, 10000);
+
+    station.insertCard(card);
+    await waitMs(100);
+
+    expect(cards[0].punches).toEqual(card.punches);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('reads SIAC battery, versions and air+ state from block 3', async () => {
+    const { station, driver, cards, done } = await startDriver();
+    const siac = { ...DEFAULT_SIAC_INFO, batteryVoltage: 2.41, batteryLow: true, airPlusOn: true };
+    station.insertCard({ ...createSimulatedCard(8123456, [31, 32], START), siac });
+    await waitMs(100);
+
+    expect(cards[0].cardSeries).toBe('SIAC');
+    expect(cards[0].siac).toEqual(siac);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('reads the owner data of SI-Card 6 and SIAC, including block 1', async () => {
+    const { station, driver, cards, done } = await startDriver();
+    const owner = { firstName: 'Åsa', lastName: 'Lindén', club: 'OK Linné', phone: '+46 70 123 45 67' };
+    station.insertCard({ ...createSimulatedCard(821003, [31], START), owner });
+    await waitMs(100);
+    station.insertCard({ ...createSimulatedCard(8123456, [31], START), owner });
+    await waitMs(100);
+
+    expect(cards.map((c) => c.owner)).toEqual([owner, owner]);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('waits for manual removal when autoRemove is off', async () => {
+    const { station, driver, cards, done } = await startDriver({ autoRemove: false });
+    station.insertCard(createSimulatedCard(8123456, [31], START));
+    await waitMs(100);
+
+    expect(cards).toHaveLength(1);
+    expect(station.cardInserted).toBe(true);
+    station.removeCard();
+    expect(station.cardInserted).toBe(false);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('driver rejects an autosend station without extended protocol', async () => {
+    const { statuses, done } = await startDriver({ extendedProtocol: false, handshake: false });
+    await done;
+    expect(statuses.some((s) => s.msg?.includes('extended protocol'))).toBe(true);
+  }, 10000);
+
+  test('driver emits punches from a station in autosend mode', async () => {
+    const { station, driver, statuses, cards, done } = await startDriver({ handshake: false, stationCode: 100 });
+    const punches: SiStationPunch[] = [];
+    driver.onPunch((p) => punches.push(p));
+    station.recordPunch(8123456, new Date(2026, 9, 18, 14, 5, 30, 500));
+    station.recordPunch(254321, new Date(2026, 9, 18, 14, 6, 0));
+    await waitMs(100);
+
+    expect(statuses.map((s) => s.status)).toContain('READY');
+    expect(punches).toEqual([
+      { stationCode: 100, cardNumber: '8123456', timeMs: (14 * 3600 + 5 * 60 + 30) * 1000 + 500, mode: 'Readout', memoryAddress: 0x100 },
+      { stationCode: 100, cardNumber: '254321', timeMs: (14 * 3600 + 6 * 60) * 1000, mode: 'Readout', memoryAddress: 0x108 },
+    ]);
+    expect(cards).toHaveLength(0);
+
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('driver falls back to 4800 baud', async () => {
+    const { driver, statuses, done } = await startDriver({ baudRate: 4800 });
+    await waitMs(2200);
+    expect(statuses.map((s) => s.status)).toContain('READY');
+    driver.stop();
+    await done;
+  }, 10000);
+
+  test('rejects inserting a second card', () => {
+    const station = new SiSimulator();
+    station.insertCard(createSimulatedCard(8123456, [31], START));
+    expect(() => station.insertCard(createSimulatedCard(8123457, [31], START))).toThrow(
+      'A card is already inserted'
+    );
+    station.close();
+  });
+});
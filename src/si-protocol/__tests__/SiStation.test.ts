@@ -0,0 +1,231 @@
+import { SiStation } from '../SiStation';
+import { SiSimulator, SiSimulatorOptions } from '../SiSimulator';
+import {
+  decodeCardNumber,
+  encodeBackupRecord,
+  parseBackupRecord,
+  parseBackupRecords,
+  backupToCsv,
+  BACKUP_START_ADDRESS,
+} from '../backup';
+import { encodeStationClock, decodeStationClock, applyProtocolSettings } from '../system-data';
+
+const HOUR = 3600 * 1000;
+
+/** Connect a station session to a fresh simulator */
+async function connect(options: SiSimulatorOptions = {}) {
+  const simulator = new SiSimulator({ stationCode: 31, ...options });
+  const station = new SiStation(simulator);
+  simulator.onData((chunk) => station.handleSerialData(chunk));
+  await station.connect();
+  return { simulator, station };
+}
+
+// ─── Backup records ────────────────────────────────────────────────────────────
+
+describe('backup records', () => {
+  test('decode card number, date and time', () => {
+    const data = encodeBackupRecord(8012345, '2026-10-18', 14 * HOUR + 5 * 60000 + 31250);
+    expect(parseBackupRecord(data, 0, 0x100)).toEqual({
+      address: 0x100,
+      cardNumber: '8012345',
+      date: '2026-10-18',
+      timeMs: 14 * HOUR + 5 * 60000 + 31250,
+    });
+  });
+
+  test('decode SI-Card 5 numbers from the series byte', () => {
+    expect(decodeCardNumber(0x00, 0x30, 0x39)).toBe(12345);
+    expect(decodeCardNumber(0x01, 0x30, 0x39)).toBe(12345);
+    expect(decodeCardNumber(0x03, 0xd4, 0x31)).toBe(354321);
+    expect(decodeCardNumber(0x07, 0xa1, 0x20)).toBe(500000);
+    const si5 = parseBackupRecord(encodeBackupRecord(354321, '2026-01-02', 9 * HOUR), 0, 0);
+    expect(si5?.cardNumber).toBe('354321');
+    expect(si5?.date).toBe('2026-01-02');
+  });
+
+  test('skip empty and erased slots', () => {
+    const data = Buffer.concat([
+      Buffer.alloc(8, 0xff),
+      encodeBackupRecord(2001234, '2026-10-18', 10 * HOUR),
+      Buffer.alloc(8, 0x00),
+    ]);
+    const records = parseBackupRecords(data, 0x200);
+    expect(records.map((r) => [r.address, r.cardNumber])).toEqual([[0x208, '2001234']]);
+  });
+
+  test('export as CSV with milliseconds', () => {
+    const csv = backupToCsv({
+      stationCode: 100,
+      overflow: false,
+      records: [{ address: 0x100, cardNumber: '8012345', date: '2026-10-18', timeMs: 10 * HOUR + 1500 }],
+    });
+    expect(csv).toBe('Station,Card,Date,Time\n100,8012345,2026-10-18,10:00:01.500\n');
+  });
+});
+
+// ─── Station session ───────────────────────────────────────────────────────────
+
+describe('SiStation', () => {
+  test('connects in direct mode and reports the station code', async () => {
+    const { station } = await connect();
+    expect(station.stationCode).toBe(31);
+    station.close();
+  });
+
+  test('reads system data', async () => {
+    const { station } = await connect();
+    const value = await station.readSystemData(0x74, 1);
+    expect(value[0] & 0x05).toBe(0x05);
+    station.close();
+  });
+
+  test('reads all backup records, oldest first', async () => {
+    const { simulator, station } = await connect();
+    for (let i = 0; i < 40; i++) {
+      simulator.recordPunch(8000000 + i, new Date(2026, 9, 18, 10, i, 0, 250));
+    }
+    const progress: number[] = [];
+    const backup = await station.readBackup((done) => progress.push(done));
+
+    expect(backup.stationCode).toBe(31);
+    expect(backup.overflow).toBe(false);
+    expect(backup.records).toHaveLength(40);
+    expect(backup.records[0]).toEqual({ address: BACKUP_START_ADDRESS, cardNumber: '8000000', date: '2026-10-18', timeMs: 10 * HOUR + 250 });
+    expect(backup.records[39].timeMs).toBe(10 * HOUR + 39 * 60000 + 250);
+    // 40 records of 8 bytes in chunks of 128 bytes
+    expect(progress).toEqual([128, 256, 320]);
+    station.close();
+  });
+
+  test('reads around the ring buffer after an overflow', async () => {
+    // 1 KB memory: 96 records from 0x100 on
+    const { simulator, station } = await connect({ memorySizeKb: 1 });
+    for (let i = 0; i < 100; i++) {
+      simulator.recordPunch(8000000 + i, new Date(2026, 9, 18, 9, 0, i));
+    }
+    const backup = await station.readBackup();
+    expect(backup.overflow).toBe(true);
+    expect(backup.records).toHaveLength(96);
+    expect(backup.records[0].cardNumber).toBe('8000004');
+    expect(backup.records[95].cardNumber).toBe('8000099');
+    station.close();
+  });
+
+  test('records a backup entry for every card read', async () => {
+    const { simulator, station } = await connect();
+    simulator.insertCard({ cardNumber: '8001234', cardSeries: '', startTime: -1, finishTime: -1, checkTime: -1, punchCount: 0, punches: [] });
+    const backup = await station.readBackup();
+    expect(backup.records.map((r) => r.cardNumber)).toEqual(['8001234']);
+    station.close();
+  });
+
+  test('fails when no station answers', async () => {
+    const silent = new SiSimulator({ baudRate: 9600 });
+    const station = new SiStation(silent);
+    silent.onData((chunk) => station.handleSerialData(chunk));
+    await expect(station.connect()).rejects.toThrow('Station did not answer');
+    station.close();
+  }, 10000);
+});
+
+// ─── Station configuration ─────────────────────────────────────────────────────
+
+describe('station configuration', () => {
+  test('reads the station info', async () => {
+    const { station } = await connect({ serialNumber: 512345 });
+    const info = await station.readInfo();
+    expect(info).toMatchObject({
+      serialNumber: 512345,
+      model: 'BSx8',
+      firmware: '656',
+      stationCode: 31,
+      mode: 'Readout',
+      extendedProtocol: true,
+      handshake: true,
+      si6_192Punches: false,
+      memorySizeKb: 128,
+      batteryDate: '2024-03-01',
+      batteryVoltage: 3,
+    });
+    expect(Math.abs(info.clock!.getTime() - Date.now())).toBeLessThan(2000);
+    station.close();
+  });
+
+  test('switches extended protocol and handshake on', async () => {
+    const { station } = await connect({ extendedProtocol: false, handshake: false });
+    expect(await station.readInfo()).toMatchObject({ extendedProtocol: false, handshake: false });
+    await station.setProtocol({ extendedProtocol: true, handshake: true });
+    expect(await station.readInfo()).toMatchObject({ extendedProtocol: true, handshake: true });
+    expect(applyProtocolSettings(0x03, { handshake: true })).toBe(0x05);
+    expect(applyProtocolSettings(0x05, { handshake: false })).toBe(0x03);
+    station.close();
+  });
+
+  test('sets the 192 punches flag, mode and station code', async () => {
+    const { station } = await connect();
+    await station.setSi6_192Punches(true);
+    await station.setMode('Finish');
+    await station.setStationCode(300);
+    expect(station.stationCode).toBe(300);
+    expect(await station.readInfo()).toMatchObject({ si6_192Punches: true, mode: 'Finish', stationCode: 300 });
+    await expect(station.setStationCode(1024)).rejects.toThrow('Station code must be 1-1023');
+    station.close();
+  });
+
+  test('sets the station clock', async () => {
+    const { station } = await connect();
+    const at = new Date(2026, 9, 18, 17, 45, 12, 500);
+    await station.setClock(at);
+    const clock = await station.readClock();
+    expect(Math.abs(clock.getTime() - at.getTime())).toBeLessThan(2000);
+    station.close();
+  });
+
+  test('clock bytes round-trip with the day of the week and PM flag', () => {
+    const at = new Date(2026, 9, 18, 13, 0, 5, 250); // Sunday afternoon
+    const bytes = encodeStationClock(at);
+    expect(bytes.slice(0, 4)).toEqual([26, 10, 18, 0x01]);
+    expect(decodeStationClock(bytes)).toEqual(at);
+  });
+});
+
+// ─── Card clear and check ──────────────────────────────────────────────────────
+
+describe('card clear and check', () => {
+  const siac = { cardNumber: '8123456', cardSeries: '', startTime: 10 * HOUR, finishTime: 11 * HOUR, checkTime: 9 * HOUR, punchCount: 1, punches: [{ code: 31, timestampMs: 10.5 * HOUR }] };
+
+  test('checks a SIAC: check time written, air+ switched on', async () => {
+    const { simulator, station } = await connect();
+    simulator.insertCard(siac);
+    const check = await station.checkCard(new Date(2026, 9, 18, 14, 0, 30));
+
+    expect(check.cardNumber).toBe('8123456');
+    expect(check.siac).toMatchObject({ batteryVoltage: 3, batteryLow: false, airPlus: true, airPlusOn: true });
+    const header = await station.readCardBlock(0);
+    // [PTD: Sunday, PM] [station 31] [2:00:30 PM]
+    expect([...header.subarray(8, 12)]).toEqual([0x01, 31, 0x1c, 0x3e]);
+    station.close();
+  });
+
+  test('clears a SIAC: times and punches erased, air+ switched off', async () => {
+    const { simulator, station } = await connect();
+    simulator.insertCard(siac);
+    await station.checkCard();
+    expect(await station.clearCard()).toBe('8123456');
+
+    const header = await station.readCardBlock(0);
+    expect([...header.subarray(8, 20)]).toEqual(Array(12).fill(0xee));
+    expect(header[22]).toBe(0);
+    expect((await station.readSiacInfo()).airPlusOn).toBe(false);
+    station.close();
+  });
+
+  test('refuses older cards and an empty station', async () => {
+    const { simulator, station } = await connect();
+    await expect(station.clearCard()).rejects.toThrow('No SI-Card 10, 11 or SIAC in the station');
+    simulator.insertCard({ ...siac, cardNumber: '2123456' });
+    await expect(station.checkCard()).rejects.toThrow('Only SI-Card 10, 11 and SIAC can be cleared and checked');
+    station.close();
+  });
+});
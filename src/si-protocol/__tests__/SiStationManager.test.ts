@@ -0,0 +1,72 @@
+import { SiStationManager } from '../SiStationManager';
+import { SiSimulator, createSimulatedCard } from '../SiSimulator';
+import { CommStatus } from '../SiDriver';
+import { waitMs } from './fixtures';
+
+/** Manager whose ports are simulators, one per path */
+function simulatedManager() {
+  const simulators = new Map<string, SiSimulator>();
+  const manager = new SiStationManager(async (path, onData) => {
+    const simulator = new SiSimulator();
+    simulator.onData(onData);
+    simulators.set(path, simulator);
+    return simulator;
+  });
+  const statuses: [string, CommStatus][] = [];
+  manager.onStatus((station, status) => statuses.push([station, status]));
+  return { manager, simulators, statuses };
+}
+
+describe('SiStationManager', () => {
+  test('reads cards on several stations and tags each read with its station', async () => {
+    const { manager, simulators } = simulatedManager();
+    const reads: [string, string][] = [];
+    manager.onCardRead((card, station) => reads.push([card.cardNumber, station]));
+
+    await manager.add('COM3');
+    await manager.add('COM4');
+    await waitMs(50);
+    expect(manager.list().map((s) => [s.path, s.status])).toEqual([
+      ['COM3', 'READY'],
+      ['COM4', 'READY'],
+    ]);
+
+    simulators.get('COM4')!.insertCard(createSimulatedCard(8123456, [31, 32], 36000000));
+    simulators.get('COM3')!.insertCard(createSimulatedCard(8123457, [31, 32], 36000000));
+    await waitMs(100);
+
+    expect(reads.sort()).toEqual([
+      ['8123456', 'COM4'],
+      ['8123457', 'COM3'],
+    ]);
+    manager.removeAll();
+  });
+
+  test('removing one station leaves the others running', async () => {
+    const { manager, statuses } = simulatedManager();
+    await manager.add('COM3');
+    await manager.add('COM4');
+    await waitMs(50);
+
+    manager.remove('COM3');
+    await waitMs(20);
+    expect(manager.has('COM3')).toBe(false);
+    expect(manager.list().map((s) => s.path)).toEqual(['COM4']);
+    // Reported once, not again when the stopped driver winds down
+    expect(statuses.filter(([station, status]) => station === 'COM3' && status === 'OFF')).toHaveLength(1);
+    manager.removeAll();
+  });
+
+  test('adding a running port again replaces its station', async () => {
+    const { manager, simulators } = simulatedManager();
+    await manager.add('COM3');
+    await waitMs(50);
+    const first = simulators.get('COM3')!;
+    await manager.add('COM3');
+    await waitMs(50);
+
+    expect(simulators.get('COM3')).not.toBe(first);
+    expect(manager.list()).toEqual([{ path: 'COM3', status: 'READY' }]);
+    manager.removeAll();
+  });
+});
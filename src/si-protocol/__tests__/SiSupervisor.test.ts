@@ -0,0 +1,114 @@
+import { SiSupervisor, StationOpener, PortLocator } from '../SiSupervisor';
+import { SiSimulator, SiSimulatorOptions, createSimulatedCard } from '../SiSimulator';
+import { SiPortAdapter, CommStatus } from '../SiDriver';
+import { SiCardData } from '../types';
+import { waitMs } from './fixtures';
+
+/**
+ * A simulated USB station that can be unplugged and plugged into another
+ * port. Its locator finds it by the serial number "SN1".
+ */
+function usbStation(options: SiSimulatorOptions = {}) {
+  const bench = {
+    path: 'COM5' as string | null,
+    simulator: null as SiSimulator | null,
+    lost: null as ((reason: string) => void) | null,
+    opens: 0,
+  };
+  const open: StationOpener = async (path, onData) => {
+    if (path !== bench.path) throw new Error(`Failed to open ${path}: File not found`);
+    bench.opens++;
+    const simulator = new SiSimulator(options);
+    simulator.onData(onData);
+    bench.simulator = simulator;
+    const adapter: SiPortAdapter = {
+      write: (data) => simulator.write(data),
+      setBaudRate: (rate) => simulator.setBaudRate(rate),
+      close: () => simulator.close(),
+      onLost: (listener) => {
+        bench.lost = listener;
+      },
+    };
+    return adapter;
+  };
+  const locator: PortLocator = {
+    identify: async (path) => (path === bench.path ? 'SN1' : null),
+    find: async (serialNumber) => (serialNumber === 'SN1' ? bench.path : null),
+  };
+  const unplug = () => {
+    bench.path = null;
+    bench.simulator?.close();
+    bench.lost?.('Device disconnected');
+  };
+  return { bench, open, locator, unplug };
+}
+
+function watch(supervisor: SiSupervisor) {
+  const statuses: CommStatus[] = [];
+  const cards: SiCardData[] = [];
+  supervisor.onStatus((status) => statuses.push(status));
+  supervisor.onCardRead((card) => cards.push(card));
+  return { statuses, cards };
+}
+
+describe('SiSupervisor', () => {
+  test('reconnects a station that comes back on another port', async () => {
+    const { bench, open, locator, unplug } = usbStation();
+    const supervisor = new SiSupervisor('COM5', open, { zeroTimeMs: 0 }, { locator, initialDelayMs: 10 });
+    const { statuses, cards } = watch(supervisor);
+    await supervisor.start();
+    await waitMs(50);
+
+    unplug();
+    await waitMs(40);
+    expect(statuses).toContain('RECONNECTING');
+    expect(statuses).not.toContain('OFF');
+
+    bench.path = 'COM6';
+    await waitMs(200);
+    expect(supervisor.path).toBe('COM6');
+    expect(statuses[statuses.length - 1]).toBe('READY');
+
+    bench.simulator!.insertCard(createSimulatedCard(8123456, [31, 32], 36000000));
+    await waitMs(100);
+    expect(cards.map((c) => c.cardNumber)).toEqual(['8123456']);
+
+    supervisor.stop();
+    await waitMs(20);
+    expect(statuses[statuses.length - 1]).toBe('OFF');
+  });
+
+  test('backs off and gives up after the last attempt', async () => {
+    const { bench, open, locator, unplug } = usbStation();
+    const supervisor = new SiSupervisor('COM5', open, { zeroTimeMs: 0 }, {
+      locator, initialDelayMs: 10, maxDelayMs: 20, maxAttempts: 3,
+    });
+    const { statuses } = watch(supervisor);
+    await supervisor.start();
+    await waitMs(50);
+
+    unplug();
+    await waitMs(150);
+    expect(statuses.filter((s) => s === 'RECONNECTING')).toHaveLength(3);
+    expect(statuses.slice(-2)).toEqual(['FATAL_ERROR', 'OFF']);
+    expect(bench.opens).toBe(1);
+  });
+
+  test('does not retry wrong station settings', async () => {
+    const { open } = usbStation({ extendedProtocol: false, handshake: false });
+    const supervisor = new SiSupervisor('COM5', open, { zeroTimeMs: 0 }, { initialDelayMs: 10 });
+    const messages: string[] = [];
+    supervisor.onStatus((status, msg) => messages.push(`${status} ${msg ?? ''}`.trim()));
+    await supervisor.start();
+    await waitMs(100);
+
+    expect(messages).not.toContain('RECONNECTING');
+    expect(messages.slice(-2)).toEqual(['FATAL_ERROR Master station should be configured with extended protocol', 'OFF']);
+  });
+
+  test('rejects a port that cannot be opened', async () => {
+    const { open } = usbStation();
+    const supervisor = new SiSupervisor('COM9', open, { zeroTimeMs: 0 });
+    await expect(supervisor.start()).rejects.toThrow('Failed to open COM9');
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SiTrafficRecorder, SiReplayAdapter, CaptureEntry, readCapture } from '../capture';
+import { SiDriver } from '../SiDriver';
+import { SiCardData } from '../SiDataFrame';
+import { SiSimulator, createSimulatedCard } from '../SiSimulator';
+import { waitMs } from './fixtures';
+
+/** Run a driver against a replayed capture until every recorded write is answered */
+async function replay(capture: CaptureEntry[]) {
+  const adapter = new SiReplayAdapter(capture);
+  const driver = new SiDriver(adapter, 0);
+  adapter.onData((chunk) => driver.handleSerialData(chunk));
+  const cards: SiCardData[] = [];
+  driver.onCardRead((card) => cards.push(card));
+  const finished = new Promise<void>((resolve) => adapter.onFinished(resolve));
+
+  const running = driver.start().catch(() => {});
+  await finished;
+  await waitMs(20);
+  driver.stop();
+  await running;
+  return { adapter, cards };
+}
+
+describe('protocol captures', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngz-capture-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('replays a recorded SI8 readout', async () => {
+    const capture = readCapture(path.join(__dirname, 'captures', 'si8-read.jsonl'));
+    const { adapter, cards } = await replay(capture.entries);
+
+    expect(adapter.mismatches).toEqual([]);
+    expect(cards).toHaveLength(1);
+    expect(cards[0].cardNumber).toBe('8123456');
+    expect(cards[0].punches.map((p) => p.code)).toEqual([31, 32, 33]);
+  });
+
+  test('records the traffic of a simulated station and replays it', async () => {
+    const file = path.join(dir, 'capture.jsonl');
+    const recorder = new SiTrafficRecorder(file, 'COM3');
+    const simulator = new SiSimulator();
+    const driver = new SiDriver(recorder.wrap(simulator), 0);
+    simulator.onData((chunk) => {
+      recorder.received(chunk);
+      driver.handleSerialData(chunk);
+    });
+    const running = driver.start().catch(() => {});
+    await waitMs(50);
+    simulator.insertCard(createSimulatedCard(8123457, [41, 42], 36000000));
+    await waitMs(100);
+    driver.stop();
+    await running;
+    recorder.close();
+
+    const capture = readCapture(file);
+    expect(capture.header.port).toBe('COM3');
+    expect(capture.entries[0]).toMatchObject({ dir: 'baud', rate: 38400 });
+    expect(capture.entries.some((e) => e.dir === 'out')).toBe(true);
+
+    const { adapter, cards } = await replay(capture.entries);
+    expect(adapter.mismatches).toEqual([]);
+    expect(cards.map((c) => c.cardNumber)).toEqual(['8123457']);
+  });
+
+  test('reports writes that differ from the recording', async () => {
+    const adapter = new SiReplayAdapter([
+      { t: 0, dir: 'out', data: '0283027401041403' },
+      { t: 2, dir: 'in', data: '02830400017405B16403' },
+    ]);
+    const received: string[] = [];
+    adapter.onData((chunk) => received.push(chunk.toString('hex').toUpperCase()));
+
+    await adapter.write(Buffer.from('06', 'hex'));
+    await adapter.write(Buffer.from('15', 'hex'));
+    await waitMs(10);
+
+    expect(adapter.mismatches).toEqual([
+      { index: 0, expected: '0283027401041403', actual: '06' },
+      { index: -1, expected: '', actual: '15' },
+    ]);
+    expect(received).toEqual(['02830400017405B16403']);
+    expect(adapter.finished).toBe(true);
+  });
+
+  test('keeps the entries of a recording that was cut off', () => {
+    const file = path.join(dir, 'torn.jsonl');
+    fs.writeFileSync(file, '{"capture":1,"startedAt":"2026-10-18T10:00:00.000Z"}\n{"t":0,"dir":"out","data":"06"}\n{"t":3,"di');
+    expect(readCapture(file).entries).toEqual([{ t: 0, dir: 'out', data: '06' }]);
+    fs.writeFileSync(file, '{"t":0,"dir":"out","data":"06"}\n');
+    expect(() => readCapture(file)).toThrow('Not a protocol capture');
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * Test fixtures: real SI card data bytes from GecoSI's SiMessageFixtures.java.
  * These are actual card readout responses captured from real hardware.
+ * Also the helpers shared by the driver and station tests.
  */
 
 import { SiMessage } from '../SiMessage';
@@ -10,6 +11,11 @@ function buf(bytes: number[]): Buffer {
   return Buffer.from(bytes.map((b) => b & 0xff));
 }
 
+/** Let the simulator and driver timers run */
+export function waitMs(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
 // ─── Station responses ─────────────────────────────────────────────────────────
 
 export const startup_answer = new SiMessage(
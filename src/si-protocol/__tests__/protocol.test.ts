@@ -1,10 +1,11 @@
 import { crc } from '../crc';
-import { SiMessage, SET_MASTER_MODE, GET_SYSTEM_VALUE } from '../SiMessage';
-import { parseSi5, NO_TIME, SiPunch } from '../SiDataFrame';
+import { SiMessage, SET_MASTER_MODE, GET_SYSTEM_VALUE, TRANSMIT_RECORD, buildMessage } from '../SiMessage';
+import { parseSi5, parseTransmitRecord, NO_TIME, SiPunch } from '../SiDataFrame';
 import {
   validateInline,
   validateScoreO,
   autoDetectCourse,
+  compareScores,
   Course,
 } from '../../course-validator/validator';
 import {
@@ -127,6 +128,32 @@ describe('Si5DataFrame', () => {
   });
 });
 
+// ─── Transmit record (autosend) ────────────────────────────────────────────────
+
+describe('parseTransmitRecord', () => {
+  // Station 31, card 8123456, Sunday 01:02:03.5 (AM), backup address 0x000108
+  const record = buildMessage(TRANSMIT_RECORD, [
+    0x00, 0x1f, 0x00, 0x7b, 0xf4, 0x40, 0x00, 0x0e, 0x8b, 0x80, 0x00, 0x01, 0x08,
+  ]);
+
+  test('decodes station, card, time and backup address', () => {
+    expect(parseTransmitRecord(record, 0, undefined, 'Finish')).toEqual({
+      stationCode: 31,
+      cardNumber: '8123456',
+      timeMs: 3723500,
+      mode: 'Finish',
+      memoryAddress: 0x108,
+    });
+  });
+
+  test('places the time after the zero time and dates it by the day of the week', () => {
+    // Zero time 18:00 on Saturday 2026-10-17: 01:02 is the next morning
+    const punch = parseTransmitRecord(record, 18 * 3600 * 1000, '2026-10-17');
+    expect(punch.timeMs).toBe(24 * 3600 * 1000 + 3723500);
+    expect(punch.dateTime).toBe('2026-10-18T01:02:03');
+  });
+});
+
 // ─── Course Validation: Inline ─────────────────────────────────────────────────
 
 describe('validateInline', () => {
@@ -253,6 +280,61 @@ describe('validateScoreO', () => {
   });
 });
 
+// ─── Course Validation: Score-O points ─────────────────────────────────────────
+
+describe('Score-O points', () => {
+  const course: Course = {
+    name: 'Rogaine',
+    controls: [31, 32, 33, 34],
+    isInline: false,
+    useBoxStart: true,
+    controlScores: { 31: 10, 32: 20, 33: 30, 34: 40 },
+    timeLimitMs: 30 * 60000,
+    penaltyPerMinute: 2,
+  };
+  const punches: SiPunch[] = [
+    { code: 33, timestampMs: 60000 },
+    { code: 31, timestampMs: 120000 },
+    { code: 33, timestampMs: 180000 },
+  ];
+
+  test('sums points of visited controls, each counted once', () => {
+    const result = validateScoreO(course, punches, { startTime: 0, finishTime: 20 * 60000 });
+    expect(result.score).toEqual({ points: 40, penalty: 0, total: 40, overtimeMs: 0 });
+    expect(result.allCorrect).toBe(true);
+    expect(result.missingCount).toBe(0);
+  });
+
+  test('deducts the penalty per started minute over the time limit', () => {
+    const result = validateScoreO(course, punches, { startTime: 0, finishTime: 32 * 60000 + 1000 });
+    expect(result.score).toEqual({ points: 40, penalty: 6, total: 34, overtimeMs: 2 * 60000 + 1000 });
+  });
+
+  test('uses the fixed start time of mass start courses', () => {
+    const massStart = { ...course, useBoxStart: false, fixedStartTimeMs: 0 };
+    const result = validateScoreO(massStart, punches, { startTime: 5 * 60000, finishTime: 31 * 60000 });
+    expect(result.score?.penalty).toBe(2);
+  });
+
+  test('counts one point per control when the course has only a time limit', () => {
+    const { controlScores, ...timed } = course;
+    expect(validateScoreO(timed, punches).score?.points).toBe(2);
+  });
+
+  test('free-order courses without points or limit still require every control', () => {
+    const { controlScores, timeLimitMs, ...free } = course;
+    const result = validateScoreO(free, punches);
+    expect(result.score).toBeUndefined();
+    expect(result.allCorrect).toBe(false);
+  });
+
+  test('ranks by score, then time', () => {
+    const entry = (total: number, timeMs: number) => ({ score: { points: total, penalty: 0, total, overtimeMs: 0 }, timeMs });
+    const ranked = [entry(40, 1000), entry(50, 3000), entry(50, 2000)].sort(compareScores);
+    expect(ranked).toEqual([entry(50, 2000), entry(50, 3000), entry(40, 1000)]);
+  });
+});
+
 // ─── Auto-detect Course ────────────────────────────────────────────────────────
 
 describe('autoDetectCourse', () => {
@@ -280,6 +362,18 @@ describe('autoDetectCourse', () => {
     expect(result.allCorrect).toBe(true);
   });
 
+  test('prefers a complete regular course over a score course', () => {
+    const score: Course = { name: 'Score', controls: [31, 32, 33, 34, 35], isInline: false, useBoxStart: true, controlScores: {} };
+    const complete: SiPunch[] = [
+      { code: 31, timestampMs: 1000 },
+      { code: 34, timestampMs: 2000 },
+      { code: 35, timestampMs: 3000 },
+    ];
+    expect(autoDetectCourse([score, courseA, courseB], complete).course.name).toBe('Course B');
+    const partial: SiPunch[] = [{ code: 32, timestampMs: 1000 }, { code: 35, timestampMs: 2000 }];
+    expect(autoDetectCourse([courseA, score, courseB], partial).course.name).toBe('Score');
+  });
+
   test('throws if no courses defined', () => {
     expect(() => autoDetectCourse([], [])).toThrow('No courses defined');
   });
@@ -0,0 +1,130 @@
+import { parseSi5, parseSi6, parseSi8Plus, SiCardData, NO_TIME } from '../SiDataFrame';
+import { SiCardType, encodeCard, encodeReadoutMessages } from '../SiCardEncoder';
+import { DAY_MS, parseClockTime, formatClockTime, isEventDate, localDateTime, eventClockTime } from '../time';
+import { courseRaceTime } from '../../course-validator/validator';
+
+const HOUR = 3600 * 1000;
+const MIN = 60 * 1000;
+
+function card(cardNumber: string, startTime: number, punchTimes: number[], finishTime: number): SiCardData {
+  return {
+    cardNumber,
+    cardSeries: '',
+    startTime,
+    finishTime,
+    checkTime: NO_TIME,
+    punchCount: punchTimes.length,
+    punches: punchTimes.map((timestampMs, i) => ({ code: 31 + i, timestampMs })),
+  };
+}
+
+function parse(data: SiCardData, type: SiCardType, zeroTime: number, eventDate?: string, encodeDate?: string): SiCardData {
+  const messages = encodeReadoutMessages(encodeCard(data, type, { eventDate: encodeDate }));
+  if (type === 'SI5') return parseSi5(messages[0], zeroTime, eventDate);
+  if (type === 'SI6') return parseSi6(messages, zeroTime, eventDate);
+  return parseSi8Plus(messages, zeroTime, eventDate);
+}
+
+// ─── Clock times and dates ─────────────────────────────────────────────────────
+
+describe('clock times', () => {
+  test('parses and formats times of day', () => {
+    expect(parseClockTime('9:30')).toBe(9.5 * HOUR);
+    expect(parseClockTime('23:59:59')).toBe(DAY_MS - 1000);
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('10h')).toBeNull();
+    expect(formatClockTime(25 * HOUR + 61000)).toBe('01:01:01');
+  });
+
+  test('validates event dates', () => {
+    expect(isEventDate('2026-10-18')).toBe(true);
+    expect(isEventDate('2026-02-30')).toBe(false);
+    expect(isEventDate('18.10.2026')).toBe(false);
+  });
+
+  test('puts times past 24h on the next day', () => {
+    expect(localDateTime('2026-12-31', 10 * HOUR)).toBe('2026-12-31T10:00:00');
+    expect(localDateTime('2026-12-31', 24.5 * HOUR)).toBe('2027-01-01T00:30:00');
+  });
+
+  test('moves the date to the nearest day with the recorded weekday', () => {
+    // 2026-10-18 is a Sunday (0)
+    expect(localDateTime('2026-10-18', 10 * HOUR, 6)).toBe('2026-10-17T10:00:00');
+    expect(localDateTime('2026-10-18', 10 * HOUR, 2)).toBe('2026-10-20T10:00:00');
+    expect(localDateTime('2026-10-18', 24.5 * HOUR, 1)).toBe('2026-10-19T00:30:00');
+    expect(localDateTime('2026-10-18', 10 * HOUR, 7)).toBe('2026-10-18T10:00:00');
+  });
+});
+
+// ─── Zero time ─────────────────────────────────────────────────────────────────
+
+describe('zero time', () => {
+  test('gives SI-Card 5 afternoon times their PM half', () => {
+    const si5 = card('254321', 14 * HOUR, [14 * HOUR + 5 * MIN], 14 * HOUR + 30 * MIN);
+    expect(parse(si5, 'SI5', 0).startTime).toBe(2 * HOUR);
+    const parsed = parse(si5, 'SI5', 13 * HOUR);
+    expect(parsed.startTime).toBe(14 * HOUR);
+    expect(parsed.punches[0].timestampMs).toBe(14 * HOUR + 5 * MIN);
+    expect(parsed.finishTime).toBe(14 * HOUR + 30 * MIN);
+  });
+
+  test('resolves SI-Card 5 punches without a start from the zero time', () => {
+    const massStart = card('254321', NO_TIME, [12 * HOUR + 10 * MIN, 12 * HOUR + 50 * MIN], 13 * HOUR + 5 * MIN);
+    const parsed = parse(massStart, 'SI5', 11 * HOUR);
+    expect(parsed.punches.map((p) => p.timestampMs)).toEqual([12 * HOUR + 10 * MIN, 12 * HOUR + 50 * MIN]);
+    expect(parsed.finishTime).toBe(13 * HOUR + 5 * MIN);
+  });
+
+  test('carries races across midnight', () => {
+    const night = card('654321', 23 * HOUR + 40 * MIN, [23 * HOUR + 55 * MIN, 24 * HOUR + 10 * MIN], 24 * HOUR + 20 * MIN);
+    for (const type of ['SI5', 'SI6', 'SIAC'] as SiCardType[]) {
+      const cardNumber = type === 'SIAC' ? '8000001' : '654321';
+      const parsed = parse({ ...night, cardNumber }, type, 22 * HOUR);
+      expect(parsed.punches.map((p) => p.timestampMs)).toEqual(night.punches.map((p) => p.timestampMs));
+      expect(parsed.finishTime - parsed.startTime).toBe(40 * MIN);
+    }
+  });
+
+  test('times before the zero time count as the next day', () => {
+    const parsed = parse(card('654321', 30 * MIN, [], 50 * MIN), 'SI6', 21 * HOUR);
+    expect(parsed.startTime).toBe(24.5 * HOUR);
+    expect(eventClockTime(30 * MIN, 21 * HOUR)).toBe(parsed.startTime);
+    expect(eventClockTime(20.5 * HOUR, 21 * HOUR)).toBe(20.5 * HOUR);
+    expect(eventClockTime(24.5 * HOUR, 21 * HOUR)).toBe(24.5 * HOUR);
+  });
+
+  test('a finish after midnight on a fixed start course', () => {
+    const course = { name: 'Night', controls: [], isInline: true, useBoxStart: false, fixedStartTimeMs: 23.5 * HOUR };
+    expect(courseRaceTime(course, { startTime: NO_TIME, finishTime: 20 * MIN })).toBe(50 * MIN);
+  });
+});
+
+// ─── Absolute date-times ───────────────────────────────────────────────────────
+
+describe('absolute date-times', () => {
+  test('are attached when the event date is known', () => {
+    const night = card('654321', 23 * HOUR + 40 * MIN, [24 * HOUR + 10 * MIN], 24 * HOUR + 20 * MIN);
+    const parsed = parse(night, 'SI6', 22 * HOUR, '2026-10-18');
+    expect(parsed.startDateTime).toBe('2026-10-18T23:40:00');
+    expect(parsed.punches[0].dateTime).toBe('2026-10-19T00:10:00');
+    expect(parsed.finishDateTime).toBe('2026-10-19T00:20:00');
+    expect(parsed.checkDateTime).toBeUndefined();
+    expect(parse(night, 'SI6', 22 * HOUR).startDateTime).toBeUndefined();
+  });
+
+  test('use the SIAC day of the week for punches from another day', () => {
+    // Punched on Saturday, read out on the Sunday of a two-day event without clearing
+    const saturday = card('8000001', 10 * HOUR, [10 * HOUR + 5 * MIN], 10 * HOUR + 30 * MIN);
+    const parsed = parse(saturday, 'SIAC', 9 * HOUR, '2026-10-18', '2026-10-17');
+    expect(parsed.startDateTime).toBe('2026-10-17T10:00:00');
+    expect(parsed.punches[0].dateTime).toBe('2026-10-17T10:05:00');
+    // SI-Card 8/9 records have no weekday
+    const si9 = parse({ ...saturday, cardNumber: '1000001' }, 'SI9', 9 * HOUR, '2026-10-18', '2026-10-17');
+    expect(si9.startDateTime).toBe('2026-10-18T10:00:00');
+  });
+
+  test('records without a weekday fall back to the event date', () => {
+    const parsed = parse(card('8000001', 10 * HOUR, [], 11 * HOUR), 'SIAC', 9 * HOUR, '2026-10-18');
+    expect(parsed.startDateTime).toBe('2026-10-18T10:00:00');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Station backup memory: the punch log every SI station keeps.
+ *
+ * BSx7/BSx8 stations in extended protocol store one 8-byte record per punch
+ * (or card read) from address 0x100 on:
+ *
+ *   [SI2] [SI1] [SI0] [DATE1] [DATE0] [TH] [TL] [MS]
+ *
+ * SI2..SI0 is the card number (SI-Card 5: series byte + 16-bit number),
+ * DATE1/DATE0 hold YYYYYYMM MMDDDDDA (year since 2000, month, day, PM flag),
+ * TH/TL the 12-hour time in seconds and MS the sub-second in 1/256 s.
+ * The memory is a ring buffer: once it overflows, the oldest records after
+ * the write pointer are overwritten.
+ *
+ * No Node.js dependencies beyond Buffer; the station commands live in
+ * SiStation.
+ */
+
+import { NO_TIME } from './types';
+import { formatClockTime } from './time';
+
+export const BACKUP_START_ADDRESS = 0x100;
+export const BACKUP_RECORD_SIZE = 8;
+
+const TWELVE_HOURS = 12 * 3600 * 1000;
+const NO_SI_TIME = 0xeeee;
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SiBackupRecord {
+  address: number;             // Backup memory address of the record
+  cardNumber: string;
+  date: string;                // YYYY-MM-DD from the station clock
+  timeMs: number;              // ms since midnight, with sub-second precision
+}
+
+export interface SiBackup {
+  stationCode: number;
+  /** The ring buffer wrapped: the oldest records were overwritten */
+  overflow: boolean;
+  records: SiBackupRecord[];   // Oldest first
+}
+
+// ─── Decoding ──────────────────────────────────────────────────────────────────
+
+/**
+ * Card number from the three number bytes of a record. Numbers below 500000
+ * are SI-Card 5 numbers: series byte (1-4) times 100000 plus a 16-bit number.
+ */
+export function decodeCardNumber(si2: number, si1: number, si0: number): number {
+  const number = (si2 << 16) | (si1 << 8) | si0;
+  if (number >= 500000) return number;
+  const word = (si1 << 8) | si0;
+  return si2 < 2 ? word : si2 * 100000 + word;
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** Decode one record, or null for an empty or erased slot */
+export function parseBackupRecord(data: Buffer, offset: number, address: number): SiBackupRecord | null {
+  const record = data.subarray(offset, offset + BACKUP_RECORD_SIZE);
+  if (record.length < BACKUP_RECORD_SIZE || record.every((b) => b === 0xff) || record.every((b) => b === 0)) {
+    return null;
+  }
+  const twelveHour = (record[5] << 8) | record[6];
+  if (twelveHour === NO_SI_TIME) return null;
+
+  const year = 2000 + (record[3] >> 2);
+  const month = ((record[3] & 0x03) << 2) | (record[4] >> 6);
+  const day = (record[4] >> 1) & 0x1f;
+  const pm = record[4] & 0x01;
+  return {
+    address,
+    cardNumber: decodeCardNumber(record[0], record[1], record[2]).toString(),
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    timeMs: pm * TWELVE_HOURS + twelveHour * 1000 + Math.floor((record[7] * 1000) / 256),
+  };
+}
+
+/** Decode consecutive records read from `startAddress` on */
+export function parseBackupRecords(data: Buffer, startAddress: number): SiBackupRecord[] {
+  const records: SiBackupRecord[] = [];
+  for (let offset = 0; offset + BACKUP_RECORD_SIZE <= data.length; offset += BACKUP_RECORD_SIZE) {
+    const record = parseBackupRecord(data, offset, startAddress + offset);
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+// ─── Encoding (simulator and tests) ────────────────────────────────────────────
+
+/** Encode a record for a card punched at a local date and time */
+export function encodeBackupRecord(cardNumber: number, date: string, timeMs: number): Buffer {
+  const [year, month, day] = date.split('-').map(Number);
+  const pm = timeMs >= TWELVE_HOURS ? 1 : 0;
+  const seconds = timeMs === NO_TIME ? NO_SI_TIME : Math.floor((timeMs % TWELVE_HOURS) / 1000);
+  const number =
+    cardNumber < 500000 && cardNumber > 0xffff
+      ? (Math.floor(cardNumber / 100000) << 16) | (cardNumber % 100000)
+      : cardNumber;
+  return Buffer.from([
+    (number >> 16) & 0xff,
+    (number >> 8) & 0xff,
+    number & 0xff,
+    (((year - 2000) & 0x3f) << 2) | (month >> 2),
+    ((month & 0x03) << 6) | (day << 1) | pm,
+    (seconds >> 8) & 0xff,
+    seconds & 0xff,
+    Math.floor(((timeMs % 1000) * 256) / 1000),
+  ]);
+}
+
+// ─── Export ────────────────────────────────────────────────────────────────────
+
+/** CSV export: one line per record, oldest first */
+export function backupToCsv(backup: SiBackup): string {
+  const lines = ['Station,Card,Date,Time'];
+  for (const r of backup.records) {
+    const ms = (r.timeMs % 1000).toString().padStart(3, '0');
+    lines.push(`${backup.stationCode},${r.cardNumber},${r.date},${formatClockTime(r.timeMs)}.${ms}`);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,212 @@
+/**
+ * Protocol traffic captures: record the raw serial byte stream of a station
+ * and replay it through SiDriver.
+ *
+ * A capture is a JSON Lines file: a header line, then one line per chunk in
+ * the order it crossed the port, with the time in ms since the recording
+ * started and the bytes in hex:
+ *
+ *   {"capture":1,"startedAt":"2026-10-18T10:00:00.000Z","port":"COM3"}
+ *   {"t":0,"dir":"baud","rate":38400}
+ *   {"t":1,"dir":"out","data":"FF0202F00101..."}
+ *   {"t":14,"dir":"in","data":"02F00300014D0D1103"}
+ *
+ * Field bug reports ("this card didn't read") can be recorded with
+ * SiTrafficRecorder and replayed deterministically with SiReplayAdapter,
+ * e.g. as regression tests in __tests__/captures.
+ *
+ * Usage:
+ *   const recorder = new SiTrafficRecorder('capture.jsonl', 'COM3');
+ *   const driver = new SiDriver(recorder.wrap(adapter), time);
+ *   port.on('data', (chunk) => { recorder.received(chunk); driver.handleSerialData(chunk); });
+ *
+ *   const replay = new SiReplayAdapter(readCapture('capture.jsonl'));
+ *   const driver = new SiDriver(replay, time);
+ *   replay.onData((chunk) => driver.handleSerialData(chunk));
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SiPortAdapter } from './SiDriver';
+
+export const CAPTURE_VERSION = 1;
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface CaptureHeader {
+  capture: number;     // Format version
+  startedAt: string;   // ISO timestamp
+  port?: string;
+}
+
+export type CaptureEntry =
+  | { t: number; dir: 'in' | 'out'; data: string }   // Received / written bytes, hex
+  | { t: number; dir: 'baud'; rate: number };        // Baud rate change
+
+export interface Capture {
+  header: CaptureHeader;
+  entries: CaptureEntry[];
+}
+
+/** A write during replay that differs from the recorded one */
+export interface ReplayMismatch {
+  index: number;       // Entry index in the capture
+  expected: string;    // Hex, or "" past the end of the capture
+  actual: string;
+}
+
+// ─── Files ─────────────────────────────────────────────────────────────────────
+
+export function parseCapture(text: string): Capture {
+  const lines = text.split('\n').filter((line) => line.trim());
+  const header = lines.length > 0 ? (JSON.parse(lines[0]) as CaptureHeader) : null;
+  if (!header || header.capture !== CAPTURE_VERSION) {
+    throw new Error('Not a protocol capture');
+  }
+  const entries: CaptureEntry[] = [];
+  for (const line of lines.slice(1)) {
+    try {
+      entries.push(JSON.parse(line) as CaptureEntry);
+    } catch {
+      // Torn last line of a recording that was cut off — keep the rest
+    }
+  }
+  return { header, entries };
+}
+
+export function readCapture(filePath: string): Capture {
+  return parseCapture(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// ─── Recording ─────────────────────────────────────────────────────────────────
+
+export class SiTrafficRecorder {
+  private fd: number | null;
+  private readonly startedAt = Date.now();
+
+  constructor(readonly filePath: string, port?: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.fd = fs.openSync(filePath, 'w');
+    const header: CaptureHeader = {
+      capture: CAPTURE_VERSION,
+      startedAt: new Date(this.startedAt).toISOString(),
+      ...(port ? { port } : {}),
+    };
+    fs.writeSync(this.fd, JSON.stringify(header) + '\n');
+  }
+
+  /** Record bytes received from the station; call before SiDriver.handleSerialData */
+  received(chunk: Buffer): void {
+    this.append({ t: this.elapsed(), dir: 'in', data: chunk.toString('hex').toUpperCase() });
+  }
+
+  /** Adapter that records every write and baud rate change; closing it ends the recording */
+  wrap(adapter: SiPortAdapter): SiPortAdapter {
+    const wrapped: SiPortAdapter = {
+      write: (data) => {
+        this.append({ t: this.elapsed(), dir: 'out', data: data.toString('hex').toUpperCase() });
+        return adapter.write(data);
+      },
+      setBaudRate: (rate) => {
+        this.append({ t: this.elapsed(), dir: 'baud', rate });
+        return adapter.setBaudRate(rate);
+      },
+      close: () => {
+        adapter.close();
+        this.close();
+      },
+    };
+    if (adapter.onLost) wrapped.onLost = (listener) => adapter.onLost!(listener);
+    return wrapped;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private append(entry: CaptureEntry): void {
+    if (this.fd !== null) fs.writeSync(this.fd, JSON.stringify(entry) + '\n');
+  }
+}
+
+// ─── Replay ────────────────────────────────────────────────────────────────────
+
+/**
+ * Port adapter that plays a capture back. Each write is matched against the
+ * next recorded write and answered with the bytes the station sent after it,
+ * without the recorded delays, so a replay runs the same way every time.
+ * Received bytes recorded before the first write go out with the first answer.
+ */
+export class SiReplayAdapter extends EventEmitter implements SiPortAdapter {
+  private readonly entries: CaptureEntry[];
+  private position = 0;
+  private closed = false;
+  private _mismatches: ReplayMismatch[] = [];
+
+  constructor(capture: Capture | CaptureEntry[]) {
+    super();
+    this.entries = Array.isArray(capture) ? capture : capture.entries;
+  }
+
+  onData(listener: (chunk: Buffer) => void): this {
+    return this.on('data', listener);
+  }
+
+  /** Emitted once every recorded write has been answered */
+  onFinished(listener: () => void): this {
+    return this.on('finished', listener);
+  }
+
+  /** Writes that differed from the recording */
+  get mismatches(): ReplayMismatch[] {
+    return [...this._mismatches];
+  }
+
+  get finished(): boolean {
+    return this.position >= this.entries.length;
+  }
+
+  // ─── SiPortAdapter ───────────────────────────────────────────────────
+
+  async write(data: Buffer): Promise<void> {
+    if (this.closed) return;
+    const actual = data.toString('hex').toUpperCase();
+    const index = this.entries.findIndex((e, i) => i >= this.position && e.dir === 'out');
+    const expected = index >= 0 ? (this.entries[index] as { data: string }).data : '';
+    if (expected !== actual) this._mismatches.push({ index, expected, actual });
+    if (index < 0) return;
+
+    // Answer with everything received up to the next write
+    const answer: Buffer[] = [];
+    let next = this.position;
+    for (; next < this.entries.length; next++) {
+      const entry = this.entries[next];
+      if (entry.dir === 'out' && next > index) break;
+      if (entry.dir === 'in') answer.push(Buffer.from(entry.data, 'hex'));
+    }
+    this.position = next;
+
+    setImmediate(() => {
+      for (const chunk of answer) {
+        if (!this.closed) this.emit('data', chunk);
+      }
+      if (this.finished) this.emit('finished');
+    });
+  }
+
+  async setBaudRate(): Promise<void> {
+    // Recorded baud changes are skipped: the answers are replayed at any rate
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
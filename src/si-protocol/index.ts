@@ -1,7 +1,108 @@
 export { crc } from './crc';
 export { SiMessage } from './SiMessage';
 export * from './SiMessage'; // re-export all constants
-export { SiCardData, SiPunch, NO_TIME, parseSi5, parseSi6, parseSi8Plus } from './SiDataFrame';
-export { SiDriver, CommStatus, SiPortAdapter, SiDriverEvents } from './SiDriver';
-export { SiMessageQueue, TimeoutError, InvalidMessageError } from './SiMessageQueue';
-export { listPorts, autoDetectSiPort, openPort, PortInfo } from './SiSerial';
+export { SiCardData, SiPunch, NO_TIME, parseSi5, parseSi6, parseSi8Plus, parseTransmitRecord } from './SiDataFrame';
+export { SiStationPunch, SiPartialRead, SiacInfo, SiCardCheck, SiCardOwner } from './types';
+export {
+  SiTimeConfig,
+  DEFAULT_TIME_CONFIG,
+  DAY_MS,
+  parseClockTime,
+  formatClockTime,
+  localDate,
+  isEventDate,
+  localDateTime,
+} from './time';
+export { SiDriver, CommStatus, SiPortAdapter, SiDriverEvents, SiDriverOptions } from './SiDriver';
+export { SiStation } from './SiStation';
+export { SiSupervisor, SiSupervisorOptions, StationOpener, PortLocator } from './SiSupervisor';
+export { SiStationManager, StationState, SiStationManagerEvents } from './SiStationManager';
+export {
+  SiBackup,
+  SiBackupRecord,
+  BACKUP_START_ADDRESS,
+  BACKUP_RECORD_SIZE,
+  decodeCardNumber,
+  parseBackupRecord,
+  parseBackupRecords,
+  encodeBackupRecord,
+  backupToCsv,
+} from './backup';
+export {
+  SiStationInfo,
+  SiStationMode,
+  SiStationSettings,
+  SiProtocolSettings,
+  STATION_MODES,
+  EXTENDED_PROTOCOL_ERROR,
+  HANDSHAKE_ERROR,
+  isProtocolConfigError,
+  parseSystemData,
+  applyProtocolSettings,
+  encodeStationClock,
+  decodeStationClock,
+} from './system-data';
+export {
+  SiTrafficRecorder,
+  SiReplayAdapter,
+  Capture,
+  CaptureHeader,
+  CaptureEntry,
+  ReplayMismatch,
+  CAPTURE_VERSION,
+  parseCapture,
+  readCapture,
+} from './capture';
+export { SiFramer, SiFramerOptions } from './SiFramer';
+export {
+  LegacyFrame,
+  DLE,
+  LEGACY_STARTUP_SEQUENCE,
+  encodeLegacyFrame,
+  scanLegacyFrame,
+  legacyToExtended,
+  extendedToLegacy,
+} from './legacy';
+export {
+  SIAC_INFO_BLOCK,
+  SIAC_BATTERY_LOW_VOLTAGE,
+  DEFAULT_SIAC_INFO,
+  isSiacNumber,
+  decodeSiacInfo,
+  parseSiacInfo,
+  encodeSiacInfo,
+} from './siac';
+export {
+  OWNER_MEMORY_SIZE,
+  hasOwnerData,
+  decodeCardText,
+  encodeCardText,
+  decodeSi6Owner,
+  decodeSi8PlusOwner,
+  encodeSi6Owner,
+  encodeSi8PlusOwner,
+} from './owner';
+export { SiMessageQueue, TimeoutError, InvalidMessageError, NakError } from './SiMessageQueue';
+export { listPorts, autoDetectSiPort, openPort, usbPortLocator, PortInfo } from './SiSerial';
+export {
+  SiCardType,
+  SiEncodeOptions,
+  EncodedCard,
+  CARD_BLOCK_SIZE,
+  CARD_SERIES_LABELS,
+  inferCardType,
+  encodeSi5,
+  encodeSi6,
+  encodeSi8Plus,
+  encodeCard,
+  cardBlock,
+  encodeBlockMessage,
+  encodeReadoutMessages,
+} from './SiCardEncoder';
+export {
+  SiSimulator,
+  SiSimulatorOptions,
+  SIMULATOR_PORT_PATH,
+  createSimulatedCard,
+  randomSimulatedCard,
+} from './SiSimulator';
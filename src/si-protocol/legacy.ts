@@ -0,0 +1,168 @@
+/**
+ * Legacy (base) protocol support for older stations and SI-Card 5.
+ *
+ * BSM3/4 stations, and newer stations with the extended protocol switched
+ * off, speak the base protocol: frames are STX cmd data ETX without length or
+ * CRC, and data bytes below 0x20 are escaped with a DLE prefix. Legacy frames
+ * are translated to and from the equivalent extended messages, so SiDriver
+ * and the card parsers handle both protocols the same way:
+ *
+ *   legacy                     extended
+ *   70 4D     set master mode  F0 (SET_MASTER_MODE)
+ *   46 49     SI5 inserted     E5 (SI_CARD_5_DETECTED)
+ *   66 49     SI6 inserted     E6 (SI_CARD_6_PLUS_DETECTED)
+ *   46/66 4F  card removed     E7 (SI_CARD_REMOVED)
+ *   31        read SI5         B1 (GET_SI_CARD_5)
+ *   61 BN     read SI6 block   E1 (GET_SI_CARD_6_BN)
+ *
+ * Legacy detections carry no card number; it is only known once the card has
+ * been read. SI-Card 8 and newer cannot be read in the legacy protocol.
+ */
+
+import {
+  SiMessage,
+  STX,
+  ETX,
+  WAKEUP,
+  DIRECT_MODE,
+  SET_MASTER_MODE,
+  SI_CARD_5_DETECTED,
+  SI_CARD_6_PLUS_DETECTED,
+  SI_CARD_REMOVED,
+  GET_SI_CARD_5,
+  GET_SI_CARD_6_BN,
+  buildMessage,
+} from './SiMessage';
+
+// ─── Protocol bytes ────────────────────────────────────────────────────────────
+
+/** Extended protocol commands are 0x80 and up; lower ones are legacy protocol */
+export const FIRST_EXTENDED_COMMAND = 0x80;
+
+/** Escape byte in front of data bytes below 0x20 */
+export const DLE = 0x10;
+const FIRST_PLAIN_BYTE = 0x20;
+
+export const LEGACY_SET_MASTER_MODE = 0x70;
+export const LEGACY_SI_CARD_5_EVENT = 0x46;
+export const LEGACY_SI_CARD_6_EVENT = 0x66;
+export const LEGACY_GET_SI_CARD_5 = 0x31;
+export const LEGACY_GET_SI_CARD_6_BN = 0x61;
+
+/** Parameter of a card event: 'I' inserted, 'O' removed */
+export const LEGACY_CARD_INSERTED = 0x49;
+export const LEGACY_CARD_REMOVED = 0x4f;
+
+/** Longest legacy frame: SI-Card 6 block answer (BN + 128 bytes), every byte escaped */
+export const MAX_LEGACY_FRAME_SIZE = 3 + 2 * 129;
+
+/** Wakeup, then set the station to master (direct) mode */
+export const LEGACY_STARTUP_SEQUENCE = Buffer.concat([
+  Buffer.from([WAKEUP]),
+  encodeLegacyFrame(LEGACY_SET_MASTER_MODE, [DIRECT_MODE]),
+]);
+
+// ─── Frame encoding ────────────────────────────────────────────────────────────
+
+/** Build STX cmd data ETX, escaping data bytes below 0x20 */
+export function encodeLegacyFrame(command: number, data: ArrayLike<number> = []): Buffer {
+  const bytes = [STX, command];
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < FIRST_PLAIN_BYTE) bytes.push(DLE);
+    bytes.push(data[i]);
+  }
+  bytes.push(ETX);
+  return Buffer.from(bytes);
+}
+
+export interface LegacyFrame {
+  command: number;
+  /** Data with the DLE escapes removed */
+  data: Buffer;
+  /** Raw frame length, STX to ETX */
+  length: number;
+}
+
+/**
+ * Find the legacy frame whose STX is at offset: everything up to the first
+ * unescaped ETX. Returns null while the ETX has not arrived yet.
+ */
+export function scanLegacyFrame(buffer: Buffer, offset = 0): LegacyFrame | null {
+  const data: number[] = [];
+  for (let i = offset + 2; i < buffer.length; i++) {
+    const byte = buffer[i];
+    if (byte === ETX) {
+      return { command: buffer[offset + 1], data: Buffer.from(data), length: i + 1 - offset };
+    }
+    if (byte === DLE) {
+      if (++i >= buffer.length) return null;
+      data.push(buffer[i]);
+    } else {
+      data.push(byte);
+    }
+  }
+  return null;
+}
+
+// ─── Translation ───────────────────────────────────────────────────────────────
+
+/** Station code bytes, which legacy frames do not have */
+const NO_STATION = [0x00, 0x00];
+/** Card number bytes of a detection, which legacy frames do not have */
+const NO_CARD_NUMBER = [0x00, 0x00, 0x00, 0x00];
+
+/** Commands a station sends in legacy frames */
+const LEGACY_STATION_COMMANDS = [
+  LEGACY_SET_MASTER_MODE,
+  LEGACY_SI_CARD_5_EVENT,
+  LEGACY_SI_CARD_6_EVENT,
+  LEGACY_GET_SI_CARD_5,
+  LEGACY_GET_SI_CARD_6_BN,
+];
+
+/** Whether STX followed by this byte can start a legacy frame from the station */
+export function isLegacyCommand(command: number): boolean {
+  return LEGACY_STATION_COMMANDS.includes(command);
+}
+
+/** The extended message equivalent to a legacy frame from the station, or null if unknown */
+export function legacyToExtended(frame: LegacyFrame): SiMessage | null {
+  const { command, data } = frame;
+  switch (command) {
+    case LEGACY_SET_MASTER_MODE:
+      return buildMessage(SET_MASTER_MODE, [...NO_STATION, ...data]);
+    case LEGACY_SI_CARD_5_EVENT:
+    case LEGACY_SI_CARD_6_EVENT:
+      if (data[0] === LEGACY_CARD_REMOVED) return buildMessage(SI_CARD_REMOVED, [...NO_STATION, ...NO_CARD_NUMBER]);
+      if (data[0] !== LEGACY_CARD_INSERTED) return null;
+      return buildMessage(
+        command === LEGACY_SI_CARD_5_EVENT ? SI_CARD_5_DETECTED : SI_CARD_6_PLUS_DETECTED,
+        [...NO_STATION, ...NO_CARD_NUMBER]
+      );
+    case LEGACY_GET_SI_CARD_5:
+      return buildMessage(GET_SI_CARD_5, [...NO_STATION, ...data]);
+    case LEGACY_GET_SI_CARD_6_BN:
+      return buildMessage(GET_SI_CARD_6_BN, [...NO_STATION, ...data]);
+    default:
+      return null;
+  }
+}
+
+/**
+ * The legacy bytes for an extended command to the station. ACK goes through
+ * unchanged; commands without a legacy equivalent throw.
+ */
+export function extendedToLegacy(msg: SiMessage): Buffer {
+  if (msg.sequence.length === 1) return msg.sequence;
+  const params = msg.sequence.subarray(3, 3 + msg.byteAt(2));
+  switch (msg.commandByte) {
+    case SET_MASTER_MODE:
+      return encodeLegacyFrame(LEGACY_SET_MASTER_MODE, params);
+    case GET_SI_CARD_5:
+      return encodeLegacyFrame(LEGACY_GET_SI_CARD_5);
+    case GET_SI_CARD_6_BN:
+      return encodeLegacyFrame(LEGACY_GET_SI_CARD_6_BN, params);
+    default:
+      throw new Error(`Command 0x${msg.commandByte.toString(16)} is not available in the legacy protocol`);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Card owner (personal) data on SI-Card 6 and later.
+ *
+ * Owners write their name, club and contact details to the card with
+ * SI-Config; stations never touch them. Layouts (byte offsets in card memory):
+ *
+ *   SI-Card 6        fixed fields in blocks 0-1, padded with spaces:
+ *                    0x30 last name (20), 0x44 first name (20), 0x58 country (4),
+ *                    0x5C club (36), 0x90 phone (16), 0xA0 email (36),
+ *                    0xC4 street (20), 0xD8 city (16), 0xE8 zip (8), 0xF0 sex (4),
+ *                    0xF4 date of birth (8)
+ *   SI-Card 8/9/10/11/SIAC
+ *                    one text from 0x20, fields separated by ';':
+ *                    first name;last name;sex;date of birth;club;email;phone;city;street;zip;country;
+ *                    up to the punches on SI-Card 8 (0x88) and 9 (0x38), to the
+ *                    end of block 1 on SI-Card 10/11/SIAC
+ *
+ * Unused memory is 0xEE. Older cards hold ISO-8859-1 text; SI-Config+ writes
+ * UTF-8, so text that is valid UTF-8 is read as such.
+ */
+
+import { SiCardOwner } from './types';
+
+// ─── Layout ────────────────────────────────────────────────────────────────────
+
+/** Card memory holding owner data: blocks 0 and 1 */
+export const OWNER_MEMORY_SIZE = 2 * 128;
+
+const EMPTY = 0xee;
+const SEPARATOR = ';';
+
+type OwnerField = keyof SiCardOwner;
+
+const SI6_FIELDS: { field: OwnerField; offset: number; length: number }[] = [
+  { field: 'lastName', offset: 0x30, length: 20 },
+  { field: 'firstName', offset: 0x44, length: 20 },
+  { field: 'country', offset: 0x58, length: 4 },
+  { field: 'club', offset: 0x5c, length: 36 },
+  { field: 'phone', offset: 0x90, length: 16 },
+  { field: 'email', offset: 0xa0, length: 36 },
+  { field: 'street', offset: 0xc4, length: 20 },
+  { field: 'city', offset: 0xd8, length: 16 },
+  { field: 'zip', offset: 0xe8, length: 8 },
+  { field: 'sex', offset: 0xf0, length: 4 },
+  { field: 'dateOfBirth', offset: 0xf4, length: 8 },
+];
+
+const SI8_PLUS_FIELDS: OwnerField[] = [
+  'firstName', 'lastName', 'sex', 'dateOfBirth', 'club', 'email', 'phone', 'city', 'street', 'zip', 'country',
+];
+
+/** First byte of the owner data in block 0 */
+export const SI6_OWNER_START = 0x30;
+export const SI8_PLUS_OWNER_START = 0x20;
+
+/** End of the owner text per card, where the punches or block 2 begin */
+export const SI8_OWNER_END = 0x88;
+export const SI9_OWNER_END = 0x38;
+export const SI10_PLUS_OWNER_END = OWNER_MEMORY_SIZE;
+
+/**
+ * Whether block 0 holds any owner data, so block 1 is worth reading. Cards
+ * without owner data are read without the extra block.
+ */
+export function hasOwnerData(block0: Buffer, start: number): boolean {
+  return block0.subarray(start).some((b) => b !== EMPTY && b !== 0x00 && b !== 0x20);
+}
+
+// ─── Text ──────────────────────────────────────────────────────────────────────
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/** Card text: UTF-8 when valid, ISO-8859-1 otherwise; unused memory and padding removed */
+export function decodeCardText(bytes: Buffer): string {
+  let end = bytes.indexOf(0x00);
+  if (end < 0) end = bytes.length;
+  while (end > 0 && bytes[end - 1] === EMPTY) end--;
+  const text = bytes.subarray(0, end);
+  try {
+    return utf8.decode(text).trim();
+  } catch {
+    return text.toString('latin1').trim();
+  }
+}
+
+/** ISO-8859-1 when every character fits, UTF-8 otherwise */
+export function encodeCardText(text: string): Buffer {
+  return Buffer.from(text, /^[\u0000-\u00ff]*$/.test(text) ? 'latin1' : 'utf8');
+}
+
+function ownerOrUndefined(fields: Partial<Record<OwnerField, string>>): SiCardOwner | undefined {
+  const owner: SiCardOwner = { firstName: fields.firstName ?? '', lastName: fields.lastName ?? '' };
+  for (const field of SI8_PLUS_FIELDS) {
+    if (field !== 'firstName' && field !== 'lastName' && fields[field]) owner[field] = fields[field];
+  }
+  return Object.values(owner).some(Boolean) ? owner : undefined;
+}
+
+// ─── Decoding ──────────────────────────────────────────────────────────────────
+
+/** Owner data of an SI-Card 6 from blocks 0-1 (OWNER_MEMORY_SIZE bytes), or undefined if there is none */
+export function decodeSi6Owner(memory: Buffer): SiCardOwner | undefined {
+  const fields: Partial<Record<OwnerField, string>> = {};
+  for (const { field, offset, length } of SI6_FIELDS) {
+    fields[field] = decodeCardText(memory.subarray(offset, offset + length));
+  }
+  return ownerOrUndefined(fields);
+}
+
+/** Owner data of an SI-Card 8/9/10/11/SIAC from blocks 0-1, or undefined if there is none */
+export function decodeSi8PlusOwner(memory: Buffer, end: number): SiCardOwner | undefined {
+  const values = decodeCardText(memory.subarray(SI8_PLUS_OWNER_START, end)).split(SEPARATOR);
+  const fields: Partial<Record<OwnerField, string>> = {};
+  SI8_PLUS_FIELDS.forEach((field, i) => {
+    fields[field] = values[i]?.trim() ?? '';
+  });
+  return ownerOrUndefined(fields);
+}
+
+// ─── Encoding ──────────────────────────────────────────────────────────────────
+
+/** Write SI-Card 6 owner fields into blocks 0-1; values too long for their field are cut */
+export function encodeSi6Owner(owner: SiCardOwner, memory: Buffer): void {
+  for (const { field, offset, length } of SI6_FIELDS) {
+    let value = owner[field] ?? '';
+    let bytes = encodeCardText(value);
+    while (bytes.length > length) {
+      value = value.slice(0, -1);
+      bytes = encodeCardText(value);
+    }
+    memory.fill(0x20, offset, offset + length);
+    bytes.copy(memory, offset);
+  }
+}
+
+/** Write the SI-Card 8/9/10/11/SIAC owner text into blocks 0-1 */
+export function encodeSi8PlusOwner(owner: SiCardOwner, memory: Buffer, end: number, label: string): void {
+  const text = encodeCardText(SI8_PLUS_FIELDS.map((field) => (owner[field] ?? '') + SEPARATOR).join(''));
+  const room = end - SI8_PLUS_OWNER_START;
+  if (text.length > room) {
+    throw new Error(`${label} has room for ${room} bytes of owner data, got ${text.length}`);
+  }
+  text.copy(memory, SI8_PLUS_OWNER_START);
+}
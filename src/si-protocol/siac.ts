@@ -0,0 +1,98 @@
+/**
+ * SIAC card information: battery, hardware and firmware version, air+ flags.
+ *
+ * SIAC keeps these in block 3 of its memory, which the SI-Card 10/11 readout
+ * skips. Layout (offsets within block 3, four bytes per page):
+ *
+ *   0x10  hardware version major, minor; firmware version major, minor
+ *   0x14  battery date YY MM DD, battery voltage (V = 1.9 + raw / 100, 0xEE not measured)
+ *   0x18  air+ flags: bit 0 contactless punching allowed, bit 1 switched on
+ *
+ * A SIAC is switched on for air+ by a check station and off again by clearing
+ * it, so a card read with air+ still on was never switched off at the finish.
+ */
+
+import { SiMessage } from './SiMessage';
+import { SiacInfo } from './types';
+
+// ─── Layout ────────────────────────────────────────────────────────────────────
+
+export const SIAC_INFO_BLOCK = 3;
+export const SIAC_VERSION_OFFSET = 0x10;
+export const SIAC_BATTERY_OFFSET = 0x14;
+export const SIAC_AIR_FLAGS_OFFSET = 0x18;
+
+export const AIR_PLUS_ALLOWED_BIT = 0x01;
+export const AIR_PLUS_ON_BIT = 0x02;
+
+const NOT_MEASURED = 0xee;
+const VOLTAGE_BASE = 1.9;
+
+/** Below this voltage the SIAC battery should be replaced */
+export const SIAC_BATTERY_LOW_VOLTAGE = 2.5;
+
+/** SIAC card numbers: 8 000 000 - 8 999 999 */
+export function isSiacNumber(cardNumber: number): boolean {
+  return cardNumber >= 8000000 && cardNumber < 9000000;
+}
+
+/** Card page number (4 bytes each) of an offset in the SIAC info block */
+export function siacPage(offset: number): number {
+  return (SIAC_INFO_BLOCK * 128 + offset) / 4;
+}
+
+// ─── Decoding ──────────────────────────────────────────────────────────────────
+
+/** Decode the 128 bytes of SIAC block 3 */
+export function decodeSiacInfo(block: Buffer): SiacInfo {
+  const [yy, mm, dd, rawVoltage] = block.subarray(SIAC_BATTERY_OFFSET, SIAC_BATTERY_OFFSET + 4);
+  const batteryVoltage = rawVoltage === NOT_MEASURED ? null : Math.round((VOLTAGE_BASE + rawVoltage / 100) * 100) / 100;
+  const validDate = mm >= 1 && mm <= 12 && dd >= 1 && dd <= 31;
+  const flags = block[SIAC_AIR_FLAGS_OFFSET];
+  return {
+    batteryVoltage,
+    batteryDate: validDate
+      ? `${2000 + yy}-${String(mm).padStart(2, '0')}-${String(dd).padStart(2, '0')}`
+      : null,
+    batteryLow: batteryVoltage !== null && batteryVoltage < SIAC_BATTERY_LOW_VOLTAGE,
+    hardwareVersion: `${block[SIAC_VERSION_OFFSET]}.${block[SIAC_VERSION_OFFSET + 1]}`,
+    firmwareVersion: `${block[SIAC_VERSION_OFFSET + 2]}.${String(block[SIAC_VERSION_OFFSET + 3]).padStart(2, '0')}`,
+    airPlus: (flags & AIR_PLUS_ALLOWED_BIT) !== 0,
+    airPlusOn: (flags & AIR_PLUS_ON_BIT) !== 0,
+  };
+}
+
+/** Decode the readout answer for SIAC block 3: [STX] [cmd] [len] [CN1] [CN0] [BN] [128 bytes] */
+export function parseSiacInfo(message: SiMessage): SiacInfo {
+  return decodeSiacInfo(message.sequence.subarray(6, 6 + 128));
+}
+
+// ─── Encoding ──────────────────────────────────────────────────────────────────
+
+/** What a new SIAC reports: fresh battery, air+ allowed and off */
+export const DEFAULT_SIAC_INFO: SiacInfo = {
+  batteryVoltage: 3.0,
+  batteryDate: '2024-03-01',
+  batteryLow: false,
+  hardwareVersion: '1.2',
+  firmwareVersion: '3.05',
+  airPlus: true,
+  airPlusOn: false,
+};
+
+/** Write SIAC info into block 3 (batteryLow is derived from the voltage and not stored) */
+export function encodeSiacInfo(info: SiacInfo, block: Buffer): void {
+  const [hwMajor, hwMinor] = info.hardwareVersion.split('.').map((n) => parseInt(n, 10) || 0);
+  const [fwMajor, fwMinor] = info.firmwareVersion.split('.').map((n) => parseInt(n, 10) || 0);
+  block.set([hwMajor, hwMinor ?? 0, fwMajor, fwMinor ?? 0], SIAC_VERSION_OFFSET);
+
+  const date = info.batteryDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const voltage =
+    info.batteryVoltage === null ? NOT_MEASURED : Math.round((info.batteryVoltage - VOLTAGE_BASE) * 100) & 0xff;
+  block.set(
+    date ? [parseInt(date[1], 10) - 2000, parseInt(date[2], 10), parseInt(date[3], 10), voltage] : [0, 0, 0, voltage],
+    SIAC_BATTERY_OFFSET
+  );
+
+  block[SIAC_AIR_FLAGS_OFFSET] = (info.airPlus ? AIR_PLUS_ALLOWED_BIT : 0) | (info.airPlusOn ? AIR_PLUS_ON_BIT : 0);
+}
@@ -0,0 +1,214 @@
+/**
+ * Station system data: the 128-byte configuration block of an SI station,
+ * read with GET_SYSTEM_VALUE and written with SET_SYSTEM_VALUE.
+ *
+ *   0x00  serial number (4 bytes)      0x33  SI-Card 6 blocks (0xFF = 192 punches)
+ *   0x05  firmware version (3 ASCII)   0x3D  backup memory overflow flag
+ *   0x0B  model id (2 bytes)           0x50  battery voltage (2 bytes)
+ *   0x0D  backup memory size in KB     0x71  operating mode
+ *   0x15  battery date (YY MM DD)      0x72  station code (bits 6-7 of 0x73 = high bits)
+ *   0x1C  backup pointer, high word    0x74  protocol flags
+ *   0x21  backup pointer, low word
+ *
+ * Also the station clock format of SET_TIME / GET_TIME.
+ */
+
+// ─── Addresses ─────────────────────────────────────────────────────────────────
+
+export const SYSTEM_DATA_SIZE = 0x80;
+
+export const SERIAL_NUMBER_ADDRESS = 0x00;
+export const FIRMWARE_ADDRESS = 0x05;
+export const MODEL_ID_ADDRESS = 0x0b;
+export const MEMORY_SIZE_ADDRESS = 0x0d;
+export const BATTERY_DATE_ADDRESS = 0x15;
+export const BACKUP_POINTER_HIGH_ADDRESS = 0x1c;
+export const BACKUP_POINTER_LOW_ADDRESS = 0x21;
+export const CARDBLOCKS_CONFIG_ADDRESS = 0x33;
+export const MEMORY_OVERFLOW_ADDRESS = 0x3d;
+export const BATTERY_VOLTAGE_ADDRESS = 0x50;
+export const OPERATING_MODE_ADDRESS = 0x71;
+export const STATION_CODE_ADDRESS = 0x72;
+export const PROTOCOL_CONFIG_ADDRESS = 0x74;
+
+/** Protocol configuration bits */
+export const EXTENDED_PROTOCOL_BIT = 0x01;
+export const AUTOSEND_BIT = 0x02;
+export const HANDSHAKE_BIT = 0x04;
+
+/** SI-Card 6 block configuration values */
+export const CARDBLOCKS_192_PUNCHES = 0xff;
+export const CARDBLOCKS_DEFAULT = 0xc1;
+
+/** Highest station code (10 bits) */
+export const MAX_STATION_CODE = 1023;
+
+/** Fatal SiDriver errors that SiStation.setProtocol can fix */
+export const EXTENDED_PROTOCOL_ERROR = 'Master station should be configured with extended protocol';
+export const HANDSHAKE_ERROR = 'Master station should be configured in handshake or autosend mode';
+
+export function isProtocolConfigError(message: string | undefined): boolean {
+  return message === EXTENDED_PROTOCOL_ERROR || message === HANDSHAKE_ERROR;
+}
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export type SiStationMode =
+  | 'Control'
+  | 'Start'
+  | 'Finish'
+  | 'Readout'
+  | 'Clear'
+  | 'Check'
+  | 'Printout'
+  | 'BeaconControl'
+  | 'BeaconStart'
+  | 'BeaconFinish';
+
+/** Operating mode byte of each mode */
+export const STATION_MODES: Record<SiStationMode, number> = {
+  Control: 0x02,
+  Start: 0x03,
+  Finish: 0x04,
+  Readout: 0x05,
+  Clear: 0x07,
+  Check: 0x0a,
+  Printout: 0x0b,
+  BeaconControl: 0x12,
+  BeaconStart: 0x13,
+  BeaconFinish: 0x14,
+};
+
+const MODEL_NAMES: Record<number, string> = {
+  0x8003: 'BSF3',
+  0x8004: 'BSF4',
+  0x8084: 'BSM4',
+  0x8086: 'BSM6',
+  0x9197: 'BSx7',
+  0x9198: 'BSx8',
+  0x9597: 'BS7-S',
+  0xb197: 'BS7-P',
+  0xb198: 'BS8-P',
+};
+
+export interface SiStationInfo {
+  serialNumber: number;
+  model: string;               // e.g. "BSx8", or the model id in hex
+  firmware: string;
+  stationCode: number;
+  mode: SiStationMode | null;  // null for modes this app does not know
+  extendedProtocol: boolean;
+  handshake: boolean;          // false = autosend
+  si6_192Punches: boolean;
+  memorySizeKb: number;
+  batteryDate: string | null;  // YYYY-MM-DD the battery was changed
+  batteryVoltage: number;      // Volts
+  clock?: Date;                // Station clock, when read with the info
+}
+
+/** Protocol flags to change; unset flags keep their current value */
+export interface SiProtocolSettings {
+  extendedProtocol?: boolean;
+  /** Handshake on switches autosend off and the other way round */
+  handshake?: boolean;
+}
+
+/** Changes for SiStation.configure; unset fields are left alone */
+export interface SiStationSettings {
+  protocol?: SiProtocolSettings;
+  si6_192Punches?: boolean;
+  mode?: SiStationMode;
+  stationCode?: number;
+  /** Set the station clock to the computer's time */
+  setClock?: boolean;
+}
+
+// ─── Decoding ──────────────────────────────────────────────────────────────────
+
+function word(data: Uint8Array, address: number): number {
+  return (data[address] << 8) | data[address + 1];
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** Decode a full system data block (SYSTEM_DATA_SIZE bytes from address 0) */
+export function parseSystemData(data: Uint8Array): SiStationInfo {
+  const modelId = word(data, MODEL_ID_ADDRESS);
+  const modeByte = data[OPERATING_MODE_ADDRESS];
+  const protocol = data[PROTOCOL_CONFIG_ADDRESS];
+  const [year, month, day] = data.subarray(BATTERY_DATE_ADDRESS, BATTERY_DATE_ADDRESS + 3);
+  const batteryDateValid = month >= 1 && month <= 12 && day >= 1 && day <= 31;
+
+  return {
+    serialNumber: word(data, SERIAL_NUMBER_ADDRESS) * 0x10000 + word(data, SERIAL_NUMBER_ADDRESS + 2),
+    model: MODEL_NAMES[modelId] ?? `0x${modelId.toString(16).padStart(4, '0').toUpperCase()}`,
+    firmware: String.fromCharCode(...data.subarray(FIRMWARE_ADDRESS, FIRMWARE_ADDRESS + 3)),
+    stationCode: stationCodeFrom(data[STATION_CODE_ADDRESS], data[STATION_CODE_ADDRESS + 1]),
+    mode: (Object.keys(STATION_MODES) as SiStationMode[]).find((m) => STATION_MODES[m] === modeByte) ?? null,
+    extendedProtocol: (protocol & EXTENDED_PROTOCOL_BIT) !== 0,
+    handshake: (protocol & HANDSHAKE_BIT) !== 0,
+    si6_192Punches: data[CARDBLOCKS_CONFIG_ADDRESS] === CARDBLOCKS_192_PUNCHES,
+    memorySizeKb: data[MEMORY_SIZE_ADDRESS],
+    batteryDate: batteryDateValid ? `${2000 + year}-${pad(month)}-${pad(day)}` : null,
+    // 16-bit reading of a 5 V reference
+    batteryVoltage: Math.round((word(data, BATTERY_VOLTAGE_ADDRESS) * 5 * 100) / 65536) / 100,
+  };
+}
+
+/** Station code from its low byte and the byte after it (high bits in bits 6-7) */
+export function stationCodeFrom(low: number, high: number): number {
+  return ((high & 0xc0) << 2) | low;
+}
+
+/** New protocol byte with the given flags applied */
+export function applyProtocolSettings(protocol: number, settings: SiProtocolSettings): number {
+  let value = protocol;
+  if (settings.extendedProtocol !== undefined) {
+    value = settings.extendedProtocol ? value | EXTENDED_PROTOCOL_BIT : value & ~EXTENDED_PROTOCOL_BIT;
+  }
+  if (settings.handshake !== undefined) {
+    value = settings.handshake
+      ? (value | HANDSHAKE_BIT) & ~AUTOSEND_BIT
+      : (value | AUTOSEND_BIT) & ~HANDSHAKE_BIT;
+  }
+  return value;
+}
+
+// ─── Station clock ─────────────────────────────────────────────────────────────
+
+/**
+ * Clock bytes of SET_TIME / GET_TIME for a local time:
+ * YY MM DD PTD TH TL TSS, where PTD holds the day of the week (bits 1-3,
+ * 0 = Sunday) and the PM flag (bit 0), TH TL the 12-hour time in seconds and
+ * TSS the sub-second in 1/256 s.
+ */
+export function encodeStationClock(at: Date): number[] {
+  const hours = at.getHours();
+  const seconds = ((hours % 12) * 60 + at.getMinutes()) * 60 + at.getSeconds();
+  return [
+    at.getFullYear() % 100,
+    at.getMonth() + 1,
+    at.getDate(),
+    (at.getDay() << 1) | (hours >= 12 ? 1 : 0),
+    (seconds >> 8) & 0xff,
+    seconds & 0xff,
+    Math.floor((at.getMilliseconds() * 256) / 1000),
+  ];
+}
+
+/** Local time of the clock bytes written by encodeStationClock */
+export function decodeStationClock(bytes: ArrayLike<number>): Date {
+  const seconds = (bytes[4] << 8) | bytes[5];
+  const hours = Math.floor(seconds / 3600) + ((bytes[3] & 0x01) !== 0 ? 12 : 0);
+  return new Date(
+    2000 + bytes[0],
+    bytes[1] - 1,
+    bytes[2],
+    hours,
+    Math.floor((seconds % 3600) / 60),
+    seconds % 60,
+    Math.floor((bytes[6] * 1000) / 256)
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Event time configuration and absolute date-times for SI card times.
+ *
+ * Cards only store the time of day: 12-hour words on SI-Card 5, 24-hour
+ * times (12-hour word plus PM flag) on SI-Card 6 and later. The parsers place
+ * each time after the event's zero time (see SiDataFrame), so times can run
+ * past 24h for races that cross midnight. With the event date these become
+ * local date-times; SI-Card 10/11/SIAC records also carry the day of the week,
+ * which settles the date of punches from other days on uncleared cards.
+ */
+
+import { NO_TIME } from './types';
+
+export const DAY_MS = 24 * 3600 * 1000;
+
+/** Day-of-week bits in a record that was written without them */
+export const NO_DAY_OF_WEEK = 7;
+
+export interface SiTimeConfig {
+  /** Event zero time in ms since midnight; earlier times count as the next day */
+  zeroTimeMs: number;
+  /** Event date as YYYY-MM-DD; when set, card times get absolute date-times */
+  eventDate?: string;
+}
+
+export const DEFAULT_TIME_CONFIG: SiTimeConfig = { zeroTimeMs: 0 };
+
+// ─── Clock times ───────────────────────────────────────────────────────────────
+
+/**
+ * A time of day on the event clock, like card punch times: a time more than
+ * an hour before the zero time counts as the next day (past 24 h). Times
+ * already past 24 h are kept.
+ */
+export function eventClockTime(timeMs: number, zeroTimeMs: number): number {
+  if (timeMs === NO_TIME) return NO_TIME;
+  let time = timeMs;
+  while (time < zeroTimeMs - 3600000) time += DAY_MS;
+  return time;
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** Parse "HH:MM" or "HH:MM:SS" into ms since midnight, or null if invalid */
+export function parseClockTime(text: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!m) return null;
+  const [h, min, s] = [Number(m[1]), Number(m[2]), Number(m[3] ?? 0)];
+  if (h > 23 || min > 59 || s > 59) return null;
+  return ((h * 60 + min) * 60 + s) * 1000;
+}
+
+/** Format ms since midnight as "HH:MM:SS", wrapping past midnight */
+export function formatClockTime(timeMs: number): string {
+  const t = Math.floor((((timeMs % DAY_MS) + DAY_MS) % DAY_MS) / 1000);
+  return `${pad(Math.floor(t / 3600))}:${pad(Math.floor((t % 3600) / 60))}:${pad(t % 60)}`;
+}
+
+// ─── Dates ─────────────────────────────────────────────────────────────────────
+
+/** Local date of a Date as YYYY-MM-DD */
+export function localDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isEventDate(text: string): boolean {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!m) return false;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.getUTCMonth() === Number(m[2]) - 1 && d.getUTCDate() === Number(m[3]);
+}
+
+/** Day of the week of an event date, 0 = Sunday as on SI cards */
+export function dayOfWeek(eventDate: string): number {
+  const [y, m, d] = eventDate.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * Local xs:dateTime ("YYYY-MM-DDTHH:MM:SS") of a card time on the event date.
+ * Times past 24h fall on the following days. A known day of the week
+ * (0 = Sunday) moves the date to the nearest day with that weekday, so a
+ * punch from yesterday on an uncleared card gets yesterday's date.
+ */
+export function localDateTime(eventDate: string, timeMs: number, weekday?: number): string {
+  let days = Math.floor(timeMs / DAY_MS);
+  if (weekday !== undefined && weekday !== NO_DAY_OF_WEEK) {
+    let delta = (((weekday - dayOfWeek(eventDate) - days) % 7) + 7) % 7;
+    if (delta > 3) delta -= 7;
+    days += delta;
+  }
+  const [y, m, d] = eventDate.split('-').map(Number);
+  const day = new Date(Date.UTC(y, m - 1, d) + days * DAY_MS);
+  const date = `${day.getUTCFullYear()}-${pad(day.getUTCMonth() + 1)}-${pad(day.getUTCDate())}`;
+  return `${date}T${formatClockTime(timeMs)}`;
+}
+
+/** localDateTime, or undefined for NO_TIME */
+export function cardDateTime(eventDate: string, timeMs: number, weekday?: number): string | undefined {
+  return timeMs === NO_TIME ? undefined : localDateTime(eventDate, timeMs, weekday);
+}
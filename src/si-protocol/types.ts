@@ -5,19 +5,84 @@
  * imported by both the Node-side protocol code and the browser-side renderer.
  */
 
+import type { SiStationMode } from './system-data';
+
 export interface SiPunch {
   code: number;
   timestampMs: number; // milliseconds since midnight, or NO_TIME
+  dateTime?: string;   // Local "YYYY-MM-DDTHH:MM:SS", when the event date is known
 }
 
 export interface SiCardData {
   cardNumber: string;
   cardSeries: string;
-  startTime: number;  // ms since midnight, or NO_TIME
+  startTime: number;  // ms since midnight of the event day (past 24h after midnight), or NO_TIME
   finishTime: number;
   checkTime: number;
   punchCount: number;
   punches: SiPunch[];
+  startDateTime?: string;  // Absolute times, see SiPunch.dateTime
+  finishDateTime?: string;
+  checkDateTime?: string;
+  siac?: SiacInfo;         // SIAC only: battery, versions and air+ state
+  owner?: SiCardOwner;     // Personal data stored on the card by its owner, if any
+}
+
+/** Owner data an SI-Card 6 or later carries (written with SI-Config); empty fields are left out */
+export interface SiCardOwner {
+  firstName: string;
+  lastName: string;
+  sex?: string;
+  dateOfBirth?: string;
+  club?: string;
+  email?: string;
+  phone?: string;
+  street?: string;
+  city?: string;
+  zip?: string;
+  country?: string;
+}
+
+/** Battery, versions and air+ (contactless punching) state of a SIAC */
+export interface SiacInfo {
+  batteryVoltage: number | null;  // Volts, null when the card has not measured it yet
+  batteryDate: string | null;     // Battery date "YYYY-MM-DD", when known
+  batteryLow: boolean;            // Voltage under SIAC_BATTERY_LOW_VOLTAGE: replace the battery
+  hardwareVersion: string;        // e.g. "1.2"
+  firmwareVersion: string;        // e.g. "3.05"
+  airPlus: boolean;               // Contactless punching allowed
+  airPlusOn: boolean;             // Switched on for contactless punching and not cleared since
+}
+
+/**
+ * A punch pushed by a station in autosend mode (transmit record), e.g. a
+ * finish station or a radio control, as opposed to a punch read from a card.
+ */
+export interface SiStationPunch {
+  stationCode: number;
+  cardNumber: string;
+  timeMs: number;              // ms since midnight, placed after the zero time like card times
+  dateTime?: string;           // Local "YYYY-MM-DDTHH:MM:SS", when the event date is known
+  mode: SiStationMode | null;  // Operating mode of the station, when known
+  memoryAddress: number;       // Address of the record in the station's backup memory
+}
+
+/**
+ * A card read that failed part-way, e.g. because the card was pulled out too
+ * early or the station kept answering garbage: the card has to be inserted again.
+ */
+export interface SiPartialRead {
+  cardNumber: string;          // From the card detection message; empty for legacy detections
+  cardSeries: string;          // e.g. "SiCard 6"
+  blocksRead: number[];        // Card memory blocks read successfully, in reading order
+  failedBlock: number | null;  // Block that failed after its retries; later blocks were not read
+  reason: string;              // Error of the last attempt
+}
+
+/** Result of checking an SI-Card 10/11 or SIAC at a master station (SiStation.checkCard) */
+export interface SiCardCheck {
+  cardNumber: string;
+  siac: SiacInfo | null;       // After the check, so airPlusOn tells whether air+ was switched on
 }
 
 export const NO_TIME = -1;
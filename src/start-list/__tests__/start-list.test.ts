@@ -0,0 +1,93 @@
+import { allocateStartTimes, allocatedStartTimes, startListsOf } from '../allocate';
+import { ClassStartSettings } from '../types';
+import { Competitor } from '../../competitors/types';
+
+const MIN = 60 * 1000;
+const TEN = 10 * 60 * MIN;
+
+function competitor(id: number, className: string, club = ''): Competitor {
+  return { id, name: `Runner ${id}`, club, className, courseName: '', cardNumber: String(8000000 + id), bib: '', rentedCard: false };
+}
+
+/** Repeatable random numbers for the draw */
+function seeded(seed = 1): () => number {
+  return () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+}
+
+const w21 = [1, 2, 3, 4].map((id) => competitor(id, 'W21'));
+const m21 = [5, 6].map((id) => competitor(id, 'M21'));
+const settings = (className: string, extra: Partial<ClassStartSettings> = {}): ClassStartSettings => ({
+  className,
+  firstStartMs: TEN,
+  intervalMs: 2 * MIN,
+  vacancies: 0,
+  ...extra,
+});
+
+describe('allocateStartTimes', () => {
+  test('gives every runner of a class a start one interval apart', () => {
+    const [list] = allocateStartTimes([...w21, ...m21], [settings('W21')], seeded());
+    expect(list.className).toBe('W21');
+    expect(list.slots.map((s) => s.startTimeMs)).toEqual([TEN, TEN + 2 * MIN, TEN + 4 * MIN, TEN + 6 * MIN]);
+    expect(list.slots.map((s) => s.competitorId).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  test('keeps vacancies at the end of the class, or at the start', () => {
+    const [last] = allocateStartTimes(m21, [settings('M21', { vacancies: 2 })], seeded());
+    expect(last.slots.map((s) => s.competitorId === null)).toEqual([false, false, true, true]);
+    const [first] = allocateStartTimes(m21, [settings('M21', { vacancies: 1, vacanciesFirst: true })], seeded());
+    expect(first.slots[0]).toEqual({ startTimeMs: TEN, competitorId: null });
+    expect(first.slots[2].startTimeMs).toBe(TEN + 4 * MIN);
+  });
+
+  test('gives a class with no interval a mass start', () => {
+    const [list] = allocateStartTimes(w21, [settings('W21', { intervalMs: 0 })], seeded());
+    expect(new Set(list.slots.map((s) => s.startTimeMs))).toEqual(new Set([TEN]));
+  });
+
+  test('keeps clubmates apart where the class allows', () => {
+    const runners = [
+      competitor(1, 'H16', 'OK Linné'),
+      competitor(2, 'H16', 'OK Linné'),
+      competitor(3, 'H16', 'IFK Lidingö'),
+      competitor(4, 'H16', 'IFK Lidingö'),
+    ];
+    for (let seed = 1; seed < 20; seed++) {
+      const [list] = allocateStartTimes(runners, [settings('H16')], seeded(seed));
+      const clubs = list.slots.map((s) => runners.find((r) => r.id === s.competitorId)!.club);
+      expect(clubs.slice(0, 3).every((club, i) => club !== clubs[i + 1])).toBe(true);
+    }
+  });
+
+  test('rejects invalid settings', () => {
+    expect(() => allocateStartTimes(w21, [settings('W21', { intervalMs: -1 })])).toThrow('class W21');
+    expect(() => allocateStartTimes(w21, [settings('W21', { vacancies: 1.5 })])).toThrow('class W21');
+  });
+});
+
+describe('start times', () => {
+  test('are read back from the allocation by competitor id', () => {
+    const lists = allocateStartTimes([...w21, ...m21], [settings('W21'), settings('M21', { vacancies: 1 })], seeded());
+    const times = allocatedStartTimes(lists);
+    expect(times.size).toBe(6);
+    expect([...times.values()].filter((t) => t === TEN)).toHaveLength(2);
+  });
+
+  test('give start lists per class in order of the first start', () => {
+    const lists = startListsOf([
+      { ...w21[0], startTimeMs: TEN + 2 * MIN },
+      { ...w21[1], startTimeMs: TEN + MIN },
+      { ...m21[0], startTimeMs: TEN },
+      m21[1],
+    ]);
+    expect(lists.map((l) => l.className)).toEqual(['M21', 'W21']);
+    expect(lists[1].slots).toEqual([
+      { startTimeMs: TEN + MIN, competitorId: 2 },
+      { startTimeMs: TEN + 2 * MIN, competitorId: 1 },
+    ]);
+    expect(lists[0].slots).toHaveLength(1);
+  });
+});
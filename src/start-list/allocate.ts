@@ -0,0 +1,89 @@
+/**
+ * Start time allocation.
+ *
+ * Draws the runners of each class into start times: the class's first start,
+ * then one interval apart, with vacant times kept for late entries. The draw
+ * is random; runners of the same club are kept apart where the class allows.
+ * An interval of 0 gives the whole class a mass start.
+ */
+
+import { Competitor } from '../competitors/types';
+import { ClassStartSettings, ClassStartList, StartSlot } from './types';
+
+// ─── Allocation ────────────────────────────────────────────────────────────────
+
+/**
+ * Allocate start times to the competitors of each class in the settings.
+ * Competitors of other classes are left out. `random` returns numbers in
+ * [0, 1) like Math.random, so a draw can be repeated.
+ */
+export function allocateStartTimes(
+  competitors: Competitor[],
+  settings: ClassStartSettings[],
+  random: () => number = Math.random
+): ClassStartList[] {
+  return settings.map((s) => {
+    if (!(s.intervalMs >= 0) || !Number.isInteger(s.vacancies) || s.vacancies < 0) {
+      throw new Error(`Invalid start settings for class ${s.className}`);
+    }
+    const runners = draw(
+      competitors.filter((c) => c.className === s.className),
+      random
+    );
+    const vacancies: (Competitor | null)[] = new Array(s.vacancies).fill(null);
+    const order = s.vacanciesFirst ? [...vacancies, ...runners] : [...runners, ...vacancies];
+    const slots: StartSlot[] = order.map((c, i) => ({
+      startTimeMs: s.firstStartMs + i * s.intervalMs,
+      competitorId: c?.id ?? null,
+    }));
+    return { className: s.className, slots };
+  });
+}
+
+/** Allocated start time of each competitor in the start lists, by competitor id */
+export function allocatedStartTimes(lists: ClassStartList[]): Map<number, number> {
+  const times = new Map<number, number>();
+  for (const list of lists) {
+    for (const slot of list.slots) {
+      if (slot.competitorId !== null) times.set(slot.competitorId, slot.startTimeMs);
+    }
+  }
+  return times;
+}
+
+/**
+ * Start lists of the competitors that have a start time, per class in order
+ * of the first start. Vacancies are not kept with the competitors, so these
+ * lists have none.
+ */
+export function startListsOf(competitors: Competitor[]): ClassStartList[] {
+  const byClass = new Map<string, StartSlot[]>();
+  for (const c of competitors) {
+    if (c.startTimeMs === undefined) continue;
+    const slots = byClass.get(c.className) ?? [];
+    slots.push({ startTimeMs: c.startTimeMs, competitorId: c.id });
+    byClass.set(c.className, slots);
+  }
+  return [...byClass.entries()]
+    .map(([className, slots]) => ({ className, slots: slots.sort((a, b) => a.startTimeMs - b.startTimeMs) }))
+    .sort((a, b) => a.slots[0].startTimeMs - b.slots[0].startTimeMs || a.className.localeCompare(b.className));
+}
+
+// ─── Draw ──────────────────────────────────────────────────────────────────────
+
+/** Random order, then each runner taken from a different club than the one before when possible */
+function draw(competitors: Competitor[], random: () => number): Competitor[] {
+  const pool = [...competitors];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  const order: Competitor[] = [];
+  while (pool.length > 0) {
+    const previous = order[order.length - 1];
+    const next = pool.findIndex((c) => !previous || !c.club || c.club !== previous.club);
+    order.push(pool.splice(Math.max(next, 0), 1)[0]);
+  }
+  return order;
+}
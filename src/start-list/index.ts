@@ -0,0 +1,2 @@
+export { ClassStartSettings, StartSlot, ClassStartList } from './types';
+export { allocateStartTimes, allocatedStartTimes, startListsOf } from './allocate';
@@ -0,0 +1,26 @@
+/**
+ * Shared types for start lists.
+ *
+ * A class start list is its start times in order, each taken by a competitor
+ * or vacant. Times are ms since midnight, as in Competitor.startTimeMs.
+ */
+
+/** How the start times of one class are allocated */
+export interface ClassStartSettings {
+  className: string;
+  firstStartMs: number;        // First start of the class, ms since midnight
+  intervalMs: number;          // Time between two starts in the class
+  vacancies: number;           // Start times kept free for late entries
+  vacanciesFirst?: boolean;    // Vacancies at the start of the class instead of the end
+}
+
+/** One start time of a class: taken by a competitor, or vacant */
+export interface StartSlot {
+  startTimeMs: number;
+  competitorId: number | null; // null = vacancy
+}
+
+export interface ClassStartList {
+  className: string;
+  slots: StartSlot[];          // In start order
+}
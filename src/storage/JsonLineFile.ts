@@ -0,0 +1,79 @@
+/**
+ * Append-only JSON Lines file.
+ *
+ * Every record is written as one line and fsync'ed before append() returns,
+ * so a crash loses at most the record being written. A torn last line (power
+ * loss mid-write) is skipped when reading back.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class JsonLineFile<T> {
+  private fd: number | null = null;
+
+  constructor(readonly filePath: string) {}
+
+  /** Read every intact record in the file (empty if the file does not exist) */
+  readAll(): T[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const records: T[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch {
+        // Torn or corrupted line — skip it, keep the rest
+      }
+    }
+    return records;
+  }
+
+  /** Append one record and flush it to disk */
+  append(record: T): void {
+    const fd = this.open();
+    fs.writeSync(fd, JSON.stringify(record) + '\n');
+    fs.fsyncSync(fd);
+  }
+
+  /** Rewrite the file keeping only the last `keep` records */
+  compact(keep: number): T[] {
+    const records = this.readAll().slice(-keep);
+    this.close();
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, records.map((r) => JSON.stringify(r) + '\n').join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    return records;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): number {
+    if (this.fd === null) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.ensureTrailingNewline();
+      this.fd = fs.openSync(this.filePath, 'a');
+    }
+    return this.fd;
+  }
+
+  /** Terminate a torn last line so the next record starts on its own line */
+  private ensureTrailingNewline(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    const size = fs.statSync(this.filePath).size;
+    if (size === 0) return;
+    const fd = fs.openSync(this.filePath, 'r');
+    const last = Buffer.alloc(1);
+    fs.readSync(fd, last, 0, 1, size - 1);
+    fs.closeSync(fd);
+    if (last[0] !== 0x0a) {
+      fs.appendFileSync(this.filePath, '\n');
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Persistent store of card reads and their validation results.
+ *
+ * Backed by an append-only JSON Lines log: the raw card is written the moment
+ * it is read (before any validation happens), and the validation result is
+ * appended as a separate entry once the renderer has computed it. Replaying
+ * the log on startup rebuilds the full read history.
+ */
+
+import { SiCardData } from '../si-protocol/types';
+import { ValidationResult } from '../course-validator/validator';
+import { JsonLineFile } from './JsonLineFile';
+import { StoredRead, ReadLogEntry } from './types';
+
+export class ReadStore {
+  private readonly log: JsonLineFile<ReadLogEntry>;
+  private reads = new Map<number, StoredRead>();
+  private nextId = 1;
+
+  constructor(filePath: string) {
+    this.log = new JsonLineFile<ReadLogEntry>(filePath);
+    this.replay();
+  }
+
+  /** All reads in readout order */
+  list(): StoredRead[] {
+    return [...this.reads.values()];
+  }
+
+  get(id: number): StoredRead | undefined {
+    return this.reads.get(id);
+  }
+
+  /** Record a freshly read card and the station that read it; returns the stored read with its id */
+  addRead(card: SiCardData, station?: string, readAt: Date = new Date()): StoredRead {
+    const entry: ReadLogEntry = {
+      op: 'read',
+      id: this.nextId,
+      readAt: readAt.toISOString(),
+      ...(station ? { station } : {}),
+      card,
+    };
+    this.log.append(entry);
+    return this.apply(entry)!;
+  }
+
+  /** Attach (or replace) the validation result and competitor of a stored read */
+  setValidation(
+    id: number,
+    eventName: string | null,
+    validation: ValidationResult | null,
+    competitorId: number | null = null
+  ): StoredRead {
+    if (!this.reads.has(id)) {
+      throw new Error(`Unknown read id ${id}`);
+    }
+    const entry: ReadLogEntry = { op: 'validation', id, eventName, competitorId, validation };
+    this.log.append(entry);
+    return this.apply(entry)!;
+  }
+
+  close(): void {
+    this.log.close();
+  }
+
+  // ─── Log replay ──────────────────────────────────────────────────────
+
+  private replay(): void {
+    for (const entry of this.log.readAll()) {
+      this.apply(entry);
+    }
+  }
+
+  private apply(entry: ReadLogEntry): StoredRead | undefined {
+    switch (entry.op) {
+      case 'read': {
+        const read: StoredRead = {
+          id: entry.id,
+          readAt: entry.readAt,
+          ...(entry.station ? { station: entry.station } : {}),
+          card: entry.card,
+          eventName: null,
+          competitorId: null,
+          validation: null,
+        };
+        this.reads.set(entry.id, read);
+        this.nextId = Math.max(this.nextId, entry.id + 1);
+        return read;
+      }
+      case 'validation': {
+        const read = this.reads.get(entry.id);
+        if (!read) return undefined;
+        read.eventName = entry.eventName;
+        read.competitorId = entry.competitorId ?? null;
+        read.validation = entry.validation;
+        return read;
+      }
+      default:
+        return undefined;
+    }
+  }
+}
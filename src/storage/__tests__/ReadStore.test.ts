@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReadStore } from '../ReadStore';
+import { JsonLineFile } from '../JsonLineFile';
+import { SiCardData } from '../../si-protocol/types';
+import { validateInline, Course } from '../../course-validator/validator';
+
+const course: Course = { name: 'Lion', controls: [31, 33], isInline: true, useBoxStart: true };
+
+function card(cardNumber: string): SiCardData {
+  return {
+    cardNumber,
+    cardSeries: 'SiCard 10/11/SIAC',
+    startTime: 36000000,
+    finishTime: 36300000,
+    checkTime: 35900000,
+    punchCount: 2,
+    punches: [
+      { code: 31, timestampMs: 36100000 },
+      { code: 33, timestampMs: 36200000 },
+    ],
+  };
+}
+
+describe('ReadStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngz-store-'));
+    file = path.join(dir, 'reads.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reloads reads and validations from disk', () => {
+    const store = new ReadStore(file);
+    const first = store.addRead(card('8123456'), 'COM3');
+    store.addRead(card('8123457'));
+    store.setValidation(first.id, 'Animal-O', validateInline(course, first.card.punches));
+    store.close();
+
+    const reloaded = new ReadStore(file);
+    const reads = reloaded.list();
+    expect(reads.map((r) => r.card.cardNumber)).toEqual(['8123456', '8123457']);
+    expect(reads.map((r) => r.station)).toEqual(['COM3', undefined]);
+    expect(reads[0].eventName).toBe('Animal-O');
+    expect(reads[0].validation?.allCorrect).toBe(true);
+    expect(reads[1].validation).toBeNull();
+    reloaded.close();
+  });
+
+  test('continues numbering after a reload', () => {
+    const store = new ReadStore(file);
+    store.addRead(card('1'));
+    store.addRead(card('2'));
+    store.close();
+
+    const reloaded = new ReadStore(file);
+    expect(reloaded.addRead(card('3')).id).toBe(3);
+    reloaded.close();
+  });
+
+  test('survives a torn last line', () => {
+    const store = new ReadStore(file);
+    store.addRead(card('8123456'));
+    store.close();
+    fs.appendFileSync(file, '{"op":"read","id":2,"readAt":"2026-');
+
+    const reloaded = new ReadStore(file);
+    expect(reloaded.list()).toHaveLength(1);
+    reloaded.addRead(card('8123458'));
+    reloaded.close();
+
+    expect(new ReadStore(file).list().map((r) => r.card.cardNumber)).toEqual(['8123456', '8123458']);
+  });
+
+  test('rejects validation of an unknown read', () => {
+    const store = new ReadStore(file);
+    expect(() => store.setValidation(42, null, null)).toThrow('Unknown read id 42');
+    store.close();
+  });
+});
+
+describe('JsonLineFile', () => {
+  test('compact keeps only the newest records', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngz-store-'));
+    const log = new JsonLineFile<{ n: number }>(path.join(dir, 'log.jsonl'));
+    for (let n = 0; n < 10; n++) log.append({ n });
+    expect(log.compact(3)).toEqual([{ n: 7 }, { n: 8 }, { n: 9 }]);
+    log.append({ n: 10 });
+    expect(log.readAll().map((r) => r.n)).toEqual([7, 8, 9, 10]);
+    log.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
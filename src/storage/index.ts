@@ -0,0 +1,3 @@
+export { StoredRead, ReadLogEntry, StoredLogEntry } from './types';
+export { JsonLineFile } from './JsonLineFile';
+export { ReadStore } from './ReadStore';
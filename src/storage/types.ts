@@ -0,0 +1,37 @@
+/**
+ * Shared types for the persistent event store.
+ *
+ * A read is logged once when the card comes out of the station and again
+ * each time the renderer validates it; replaying the log yields one
+ * StoredRead per card read with its latest validation.
+ */
+
+import type { SiCardData } from '../si-protocol/types';
+import type { ValidationResult } from '../course-validator/validator';
+
+export interface StoredRead {
+  id: number;
+  readAt: string;                        // ISO timestamp of the readout
+  station?: string;                      // Port of the station that read the card
+  card: SiCardData;
+  eventName: string | null;              // Event active when the card was validated
+  competitorId: number | null;           // Registered competitor holding the card
+  validation: ValidationResult | null;   // null until the renderer validated the read
+}
+
+/** One line of the append-only read log */
+export type ReadLogEntry =
+  | { op: 'read'; id: number; readAt: string; station?: string; card: SiCardData }
+  | {
+      op: 'validation';
+      id: number;
+      eventName: string | null;
+      competitorId?: number | null;
+      validation: ValidationResult | null;
+    };
+
+export interface StoredLogEntry {
+  time: string;
+  direction: string;
+  message: string;
+}